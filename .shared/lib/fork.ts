@@ -0,0 +1,54 @@
+import { toQuantity } from 'ethers';
+import { createProvider } from 'hardhat/internal/core/providers/construction';
+import type { EthereumProvider, HardhatConfig, HardhatRuntimeEnvironment } from 'hardhat/types';
+
+export interface NetworkForkOptions {
+  /** Block to fork from (defaults to latest) */
+  blockNumber?: number;
+  /** What the fork is for, shown in the log line */
+  purpose?: string;
+}
+
+/**
+ * Provider to simulate on: the in-process hardhat network itself, or an in-process fork of the
+ * current network's RPC. Hardhat has no public API for a second in-process network, so this is
+ * the only place that uses its internal provider construction.
+ */
+export async function createNetworkFork(hre: HardhatRuntimeEnvironment, options: NetworkForkOptions = {}): Promise<EthereumProvider> {
+  if (hre.network.name === 'hardhat') {
+    return hre.network.provider;
+  }
+
+  const networkConfig = hre.network.config;
+
+  if (!('url' in networkConfig)) {
+    throw new Error(`Network ${hre.network.name} has no RPC url to fork from`);
+  }
+
+  const hardhatNetwork = hre.config.networks.hardhat;
+  const forkConfig: HardhatConfig = {
+    ...hre.config,
+    networks: {
+      ...hre.config.networks,
+      hardhat: {
+        ...hardhatNetwork,
+        chainId: networkConfig.chainId ?? hardhatNetwork.chainId,
+        forking: { enabled: true, url: networkConfig.url, blockNumber: options.blockNumber, httpHeaders: networkConfig.httpHeaders },
+      },
+    },
+  };
+  console.log(`🍴 Forking ${hre.network.name}${options.purpose ? ` for ${options.purpose}` : ''}...`);
+  return createProvider(forkConfig, 'hardhat', hre.artifacts);
+}
+
+/**
+ * Top an impersonated account up to at least `minimum` wei so value-bearing calls do not fail
+ * for lack of funds
+ */
+export async function ensureForkBalance(provider: EthereumProvider, account: string, minimum: bigint): Promise<void> {
+  const balance = BigInt((await provider.request({ method: 'eth_getBalance', params: [account, 'latest'] })) as string);
+
+  if (balance < minimum) {
+    await provider.request({ method: 'hardhat_setBalance', params: [account, toQuantity(minimum)] });
+  }
+}
@@ -2,14 +2,23 @@ export * from './config-loader';
 export * from './logger';
 export * from './utils';
 export * from './validators';
+export * from './fork';
 export * from './deployments/cleaner';
 export * from './deployments/contracts-report';
 export * from './deployments/oracle-report';
 export * from './deployments/nsloc';
 export * from './slither-installer';
 export * from './roles/scan';
-export * from './roles/safe-manager';
-export * from './roles/types';
+export * from './safe/safe-manager';
+export * from './safe/storage';
+export * from './safe/transaction-service';
+export * from './safe/batch-simulator';
+export * from './safe/abi-values';
+export * from './safe/batch-budget';
+export * from './safe/reconcile';
+export * from './safe/review';
+export * from './safe/types';
+export * from './safe/operation-key';
 export * from './oracles/prices/types';
 export * from './oracles/prices/config-loader';
 export * from './oracles/prices/runner';
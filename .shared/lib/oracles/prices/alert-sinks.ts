@@ -0,0 +1,91 @@
+import fs from 'fs';
+import path from 'path';
+
+import { logger } from '../../logger';
+import type { OracleWatchAlert } from './types';
+
+export interface OracleAlertSink {
+  readonly name: string;
+  send(alert: OracleWatchAlert): Promise<void>;
+}
+
+export class StdoutJsonAlertSink implements OracleAlertSink {
+  readonly name = 'stdout';
+
+  async send(alert: OracleWatchAlert): Promise<void> {
+    process.stdout.write(`${JSON.stringify(alert)}\n`);
+  }
+}
+
+export class FileAlertSink implements OracleAlertSink {
+  readonly name: string;
+
+  constructor(private readonly filePath: string) {
+    this.name = `file:${filePath}`;
+    fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+  }
+
+  async send(alert: OracleWatchAlert): Promise<void> {
+    await fs.promises.appendFile(this.filePath, `${JSON.stringify(alert)}\n`);
+  }
+}
+
+export class WebhookAlertSink implements OracleAlertSink {
+  readonly name: string;
+
+  constructor(
+    private readonly url: string,
+    private readonly timeoutMs = 10_000,
+  ) {
+    this.name = `webhook:${new URL(url).host}`;
+  }
+
+  async send(alert: OracleWatchAlert): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(alert),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded with HTTP ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Build a sink from its CLI spec: `stdout`, `file:<path>` or `webhook:<url>`.
+ */
+export function createAlertSink(spec: string): OracleAlertSink {
+  const separator = spec.indexOf(':');
+  const kind = separator === -1 ? spec : spec.slice(0, separator);
+  const target = separator === -1 ? '' : spec.slice(separator + 1);
+
+  switch (kind) {
+    case 'stdout':
+      return new StdoutJsonAlertSink();
+    case 'file':
+      if (!target) {
+        throw new Error('File alert sink needs a path, e.g. file:alerts.jsonl');
+      }
+      return new FileAlertSink(target);
+    case 'webhook':
+      if (!/^https?:\/\//.test(target)) {
+        throw new Error(`Webhook alert sink needs an http(s) URL, got "${target}"`);
+      }
+      return new WebhookAlertSink(target);
+    default:
+      throw new Error(`Unknown alert sink "${spec}" (expected stdout, file:<path> or webhook:<url>)`);
+  }
+}
+
+// A failing sink must not stop the watchdog or starve the other sinks
+export async function dispatchAlerts(sinks: OracleAlertSink[], alerts: OracleWatchAlert[]): Promise<void> {
+  for (const alert of alerts) {
+    await Promise.all(
+      sinks.map(sink =>
+        sink.send(alert).catch(error => logger.warn(`Alert sink ${sink.name} failed: ${error instanceof Error ? error.message : String(error)}`)),
+      ),
+    );
+  }
+}
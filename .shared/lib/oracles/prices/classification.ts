@@ -0,0 +1,92 @@
+import { readRawFeed, resolveWrapperFeed } from './reader';
+import type { CachedOracleCall, OracleCall } from './reader';
+import type { OracleAssetEntry, OracleInspectorResult, OraclePriceState, OracleRawFeedValue } from './types';
+
+export const ORACLE_PRICE_STATES: OraclePriceState[] = ['live', 'clamped', 'pegged', 'stale'];
+
+export interface WrapperPriceState {
+  state: OraclePriceState;
+  rawFeeds: OracleRawFeedValue[];
+}
+
+export interface OraclePriceStateFailure {
+  aggregator: string;
+  asset: OracleAssetEntry;
+}
+
+// Where a wrapper's returned price comes from for one asset: stale when the wrapper reports it dead,
+// pegged for constant-price wrappers, clamped when a threshold replaced a raw feed value
+export async function readWrapperPriceState(
+  call: OracleCall,
+  cachedCall: CachedOracleCall,
+  wrapper: string,
+  asset: string,
+  unit: bigint,
+  alive: boolean,
+  formatPrice: (value: bigint) => string,
+): Promise<WrapperPriceState> {
+  const peg = await cachedCall(call, wrapper, 'pricePeg');
+  if (peg) {
+    return { state: alive ? 'pegged' : 'stale', rawFeeds: [] };
+  }
+
+  const sources: { feed: string; threshold?: [bigint, bigint] }[] = [];
+  const composite = await call(wrapper, 'compositeFeeds', [asset]);
+
+  if (composite && !/^0x0{40}$/i.test(String(composite[0]))) {
+    sources.push({ feed: composite[0], threshold: [BigInt(composite[2][0]), BigInt(composite[2][1])] });
+    sources.push({ feed: composite[1], threshold: [BigInt(composite[3][0]), BigInt(composite[3][1])] });
+  } else {
+    const feed = await resolveWrapperFeed(call, wrapper, asset);
+    if (feed) {
+      const thresholds = await call(wrapper, 'assetThresholds', [asset]);
+      sources.push({ feed, threshold: thresholds ? [BigInt(thresholds[0]), BigInt(thresholds[1])] : undefined });
+    }
+  }
+
+  const rawFeeds: OracleRawFeedValue[] = [];
+  for (const source of sources) {
+    const reading = await readRawFeed(call, cachedCall, source.feed, unit);
+    if (!reading) {
+      continue;
+    }
+    const [lowerThreshold, fixedPrice] = source.threshold ?? [0n, 0n];
+    // Mirrors ThresholdingUtils._applyThreshold
+    const clamped = lowerThreshold > 0n && reading.price > lowerThreshold;
+    rawFeeds.push({
+      address: source.feed,
+      price: formatPrice(reading.price),
+      updatedAt: reading.updatedAt,
+      clampedTo: clamped ? formatPrice(fixedPrice) : undefined,
+    });
+  }
+
+  if (!alive) {
+    return { state: 'stale', rawFeeds };
+  }
+  return { state: rawFeeds.some(feed => feed.clampedTo !== undefined) ? 'clamped' : 'live', rawFeeds };
+}
+
+export function parsePriceStates(value: string): OraclePriceState[] {
+  const states = value
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+  const unknown = states.filter(state => !ORACLE_PRICE_STATES.includes(state as OraclePriceState));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown price state(s) ${unknown.join(', ')}; use ${ORACLE_PRICE_STATES.join(', ')}`);
+  }
+  return states as OraclePriceState[];
+}
+
+// An asset whose price could not be classified fails whenever any state is gated on
+export function findPriceStateFailures(result: OracleInspectorResult, failOn: OraclePriceState[]): OraclePriceStateFailure[] {
+  if (failOn.length === 0) {
+    return [];
+  }
+  return result.aggregators.flatMap(aggregator =>
+    aggregator.assets
+      .filter(asset => asset.priceState === undefined || asset.priceState === 'unknown' || failOn.includes(asset.priceState))
+      .map(asset => ({ aggregator: aggregator.key, asset })),
+  );
+}
@@ -3,9 +3,13 @@
 import { Command } from 'commander';
 import hre from 'hardhat';
 
+import fs from 'fs';
+
 import { logger } from '../../logger';
+import { findPriceStateFailures, parsePriceStates } from './classification';
+import { formatOracleReplayCsv, runOraclePriceReplay } from './replay';
 import { runOraclePriceInspector } from './runner';
-import type { OracleInspectorOptions } from './types';
+import type { OracleInspectorOptions, OracleReplayResult } from './types';
 
 function printTextResult(result: Awaited<ReturnType<typeof runOraclePriceInspector>>): void {
   logger.info(`Oracle price report for ${result.network}`);
@@ -41,6 +45,14 @@ function printTextResult(result: Awaited<ReturnType<typeof runOraclePriceInspect
       if (asset.wrapperAlive !== undefined) {
         lines.push(`    wrapperAlive   : ${asset.wrapperAlive}`);
       }
+      lines.push(`    priceState     : ${asset.priceState ?? 'unknown'}`);
+      for (const feed of asset.rawFeeds ?? []) {
+        const clamp = feed.clampedTo !== undefined ? ` -> clamped to ${feed.clampedTo}` : '';
+        lines.push(`    rawFeed        : ${feed.price}${clamp} (${feed.address}, updated ${new Date(feed.updatedAt * 1000).toISOString()})`);
+      }
+      if (asset.expectation) {
+        lines.push(`    expectation    : ${asset.expectation.status} ${asset.expectation.assertion} (${asset.expectation.message})`);
+      }
       if (asset.notes && asset.notes.length > 0) {
         for (const note of asset.notes) {
           lines.push(`    note           : ${note}`);
@@ -52,6 +64,54 @@ function printTextResult(result: Awaited<ReturnType<typeof runOraclePriceInspect
       }
     }
   }
+
+  const failed = result.aggregators.flatMap(aggregator =>
+    aggregator.assets
+      .filter(asset => asset.expectation?.status === 'failed')
+      .map(asset => `  ${aggregator.key} ${asset.symbol ?? asset.address}: ${asset.expectation!.assertion} (${asset.expectation!.message})`),
+  );
+  if (failed.length > 0) {
+    logger.warn(`\nPrice expectations failed for ${failed.length} asset(s):`);
+    for (const line of failed) {
+      logger.warn(line);
+    }
+  }
+}
+
+function printReplaySummary(result: OracleReplayResult): void {
+  logger.info(`Oracle price replay for ${result.network}: blocks ${result.fromBlock}-${result.toBlock} every ${result.step}`);
+  logger.info('='.repeat(60));
+
+  if (result.assets.length === 0) {
+    logger.warn('No assets replayed.');
+    return;
+  }
+
+  const formatWindows = (windows: OracleReplayResult['assets'][number]['staleWindows']): string =>
+    windows.length === 0 ? 'none' : windows.map(window => `${window.fromBlock}-${window.toBlock} (${window.samples} samples)`).join(', ');
+
+  for (const asset of result.assets) {
+    const lines = [
+      `\n${asset.aggregator} ${asset.symbol ?? asset.address} (${asset.address})`,
+      `  samples          : ${asset.samples.length}`,
+      `  threshold active : ${formatWindows(asset.thresholdWindows)}`,
+      `  stale            : ${formatWindows(asset.staleWindows)}`,
+      `  max deviation    : ${asset.maxDeviation ? `${asset.maxDeviation.bps} bps at block ${asset.maxDeviation.block}` : 'n/a'}`,
+    ];
+
+    for (const line of lines) {
+      logger.info(line);
+    }
+  }
+}
+
+function writeOutput(serialized: string, outputPath: string | undefined): void {
+  if (outputPath) {
+    fs.writeFileSync(outputPath, `${serialized}\n`);
+    logger.info(`Saved replay report to ${outputPath}`);
+  } else {
+    process.stdout.write(`${serialized}\n`);
+  }
 }
 
 export async function runOraclePriceCli(): Promise<void> {
@@ -63,7 +123,16 @@ export async function runOraclePriceCli(): Promise<void> {
     .option('--json', 'Output JSON instead of text')
     .option('--multicall <address>', 'Override multicall3 address')
     .option('--skip-wrapper-checks', 'Skip wrapper price comparisons')
-    .option('--chunk-size <number>', 'Multicall chunk size', value => Number(value));
+    .option('--chunk-size <number>', 'Multicall chunk size', value => Number(value))
+    .option(
+      '--fail-on <states>',
+      'Exit with code 1 when an asset price is in one of these states (live, clamped, pegged, stale) or cannot be classified',
+    )
+    .option('--from-block <number>', 'Replay getPriceInfo from this block instead of reading the latest block', value => Number(value))
+    .option('--to-block <number>', 'Last replayed block (default: latest)', value => Number(value))
+    .option('--step <number>', 'Sample every N blocks when replaying (default: 100)', value => Number(value))
+    .option('--csv', 'Output replay samples as CSV')
+    .option('--output <path>', 'Write the JSON/CSV replay report to a file instead of stdout');
 
   program.parse(process.argv);
   const opts = program.opts();
@@ -78,12 +147,45 @@ export async function runOraclePriceCli(): Promise<void> {
   };
 
   try {
+    const failOn = opts.failOn ? parsePriceStates(String(opts.failOn)) : [];
+    if (failOn.length > 0 && parsed.skipWrapperChecks) {
+      throw new Error('--fail-on classifies wrapper prices and cannot be combined with --skip-wrapper-checks');
+    }
+
+    if (typeof opts.fromBlock === 'number') {
+      const replay = await runOraclePriceReplay(hre, {
+        fromBlock: opts.fromBlock,
+        toBlock: opts.toBlock as number | undefined,
+        step: opts.step as number | undefined,
+        aggregators: parsed.aggregators,
+        assets: parsed.assets,
+      });
+
+      if (opts.csv) {
+        writeOutput(formatOracleReplayCsv(replay), opts.output as string | undefined);
+      } else if (parsed.json || opts.output) {
+        writeOutput(JSON.stringify(replay, null, 2), opts.output as string | undefined);
+      } else {
+        printReplaySummary(replay);
+      }
+      return;
+    }
+
     const result = await runOraclePriceInspector(hre, parsed);
     if (parsed.json) {
       process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
     } else {
       printTextResult(result);
     }
+
+    const failures = findPriceStateFailures(result, failOn);
+    if (failures.length > 0) {
+      logger.error(`\n${failures.length} asset price(s) in a --fail-on state (${failOn.join(', ')}) or unclassified:`);
+      for (const { aggregator, asset } of failures) {
+        logger.error(`  ${aggregator} ${asset.symbol ?? asset.address}: ${asset.priceState ?? 'unknown'}`);
+      }
+      process.exitCode = 1;
+    }
   } catch (error) {
     logger.error((error as Error).message);
     process.exitCode = 1;
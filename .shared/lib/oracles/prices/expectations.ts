@@ -0,0 +1,202 @@
+// Declarative per-asset price expectations shared by the deploy-time sanity checks and the price inspector.
+// Prices are whole base-currency units (e.g. 1 = $1 on the USD aggregator, 1 ETH on the ETH aggregator).
+
+export type OraclePriceExpectation =
+  // Absolute band, e.g. a catch-all for assets without a tighter profile
+  | { kind: 'range'; min: number; max: number }
+  // Stablecoins and pegged assets: within tolerancePct of target (target defaults to 1)
+  | { kind: 'peg'; target?: number; tolerancePct: number }
+  // Priced within a ratio band of another asset on the same aggregator (LSTs against WETH)
+  | { kind: 'relative'; reference: string; minRatio: number; maxRatio: number }
+  // ERC4626 vault shares never price below their underlying
+  | { kind: 'vault'; underlying: string; maxRatio?: number };
+
+export interface OraclePriceExpectations {
+  // Applies to assets without their own entry; falls back to DEFAULT_PRICE_EXPECTATIONS for the aggregator key
+  default?: OraclePriceExpectation;
+  assets?: Record<string, OraclePriceExpectation>;
+}
+
+export interface OraclePriceBoundsInBase {
+  minInBase: bigint;
+  maxInBase?: bigint;
+  // Human readable form of the expectation, e.g. "peg 1 ±2%"
+  assertion: string;
+}
+
+export type OraclePriceCheckStatus = 'passed' | 'failed' | 'skipped';
+
+export interface OraclePriceCheck {
+  asset: string;
+  assertion: string;
+  status: OraclePriceCheckStatus;
+  price?: bigint;
+  minInBase?: bigint;
+  maxInBase?: bigint;
+  message: string;
+}
+
+export interface OraclePriceExpectationChecker {
+  check(asset: string, price: bigint): Promise<OraclePriceCheck>;
+}
+
+// Matches the bounds the deploy sanity checks used before expectations were configurable
+export const DEFAULT_PRICE_EXPECTATIONS: Record<string, OraclePriceExpectation> = {
+  USD: { kind: 'range', min: 0.0001, max: 10_000_000 },
+  ETH: { kind: 'range', min: 0.001, max: 1_000 },
+};
+
+const RATIO_PRECISION = 1_000_000n;
+
+export function resolvePriceExpectation(
+  aggregatorKey: string,
+  expectations: OraclePriceExpectations | undefined,
+  asset: string,
+): OraclePriceExpectation | undefined {
+  const own = Object.entries(expectations?.assets ?? {}).find(([address]) => address.toLowerCase() === asset.toLowerCase())?.[1];
+  return own ?? expectations?.default ?? DEFAULT_PRICE_EXPECTATIONS[aggregatorKey];
+}
+
+// The asset whose price `relative` and `vault` expectations are measured against
+export function expectationReference(expectation: OraclePriceExpectation): string | undefined {
+  switch (expectation.kind) {
+    case 'relative':
+      return expectation.reference;
+    case 'vault':
+      return expectation.underlying;
+    default:
+      return undefined;
+  }
+}
+
+export function expectationBounds(
+  expectation: OraclePriceExpectation,
+  baseCurrencyUnit: bigint,
+  referencePrice?: bigint,
+): OraclePriceBoundsInBase {
+  switch (expectation.kind) {
+    case 'range':
+      return {
+        minInBase: scale(baseCurrencyUnit, expectation.min),
+        maxInBase: scale(baseCurrencyUnit, expectation.max),
+        assertion: `range [${expectation.min}, ${expectation.max}]`,
+      };
+    case 'peg': {
+      const target = expectation.target ?? 1;
+      const tolerance = expectation.tolerancePct / 100;
+      return {
+        minInBase: scale(baseCurrencyUnit, target * (1 - tolerance)),
+        maxInBase: scale(baseCurrencyUnit, target * (1 + tolerance)),
+        assertion: `peg ${target} ±${expectation.tolerancePct}%`,
+      };
+    }
+    case 'relative':
+      return {
+        minInBase: scale(requireReference(expectation, referencePrice), expectation.minRatio),
+        maxInBase: scale(requireReference(expectation, referencePrice), expectation.maxRatio),
+        assertion: `${expectation.minRatio}x-${expectation.maxRatio}x of ${expectation.reference}`,
+      };
+    case 'vault':
+      return {
+        minInBase: requireReference(expectation, referencePrice),
+        maxInBase: expectation.maxRatio === undefined ? undefined : scale(requireReference(expectation, referencePrice), expectation.maxRatio),
+        assertion: `not below underlying ${expectation.underlying}${expectation.maxRatio === undefined ? '' : ` (max ${expectation.maxRatio}x)`}`,
+      };
+  }
+}
+
+export function evaluatePriceBounds(asset: string, price: bigint, bounds: OraclePriceBoundsInBase, baseCurrencyUnit: bigint): OraclePriceCheck {
+  const below = price < bounds.minInBase;
+  const above = bounds.maxInBase !== undefined && price > bounds.maxInBase;
+  const range = `[${formatInBase(bounds.minInBase, baseCurrencyUnit)}, ${bounds.maxInBase === undefined ? '∞' : formatInBase(bounds.maxInBase, baseCurrencyUnit)}]`;
+
+  return {
+    asset,
+    assertion: bounds.assertion,
+    status: below || above ? 'failed' : 'passed',
+    price,
+    minInBase: bounds.minInBase,
+    maxInBase: bounds.maxInBase,
+    message: `price ${formatInBase(price, baseCurrencyUnit)} ${below ? 'below' : above ? 'above' : 'within'} ${range}`,
+  };
+}
+
+/**
+ * Build a checker for one aggregator. Reference prices (for `relative` and `vault` expectations) are
+ * read through `readPrice` once per asset; the base currency itself is worth one unit. While a reference
+ * cannot be priced yet, the asset is checked against the aggregator's default expectation instead.
+ */
+export function createPriceExpectationChecker(params: {
+  aggregatorKey: string;
+  expectations?: OraclePriceExpectations;
+  baseCurrency?: string;
+  baseCurrencyUnit: bigint;
+  readPrice: (asset: string) => Promise<bigint>;
+}): OraclePriceExpectationChecker {
+  const { aggregatorKey, expectations, baseCurrency, baseCurrencyUnit, readPrice } = params;
+  const references = new Map<string, Promise<bigint | undefined>>();
+
+  const referencePrice = (asset: string): Promise<bigint | undefined> => {
+    const key = asset.toLowerCase();
+    if (baseCurrency && key === baseCurrency.toLowerCase()) {
+      return Promise.resolve(baseCurrencyUnit);
+    }
+    if (!references.has(key)) {
+      references.set(
+        key,
+        readPrice(asset).then(
+          price => (price > 0n ? price : undefined),
+          () => undefined,
+        ),
+      );
+    }
+    return references.get(key)!;
+  };
+
+  return {
+    async check(asset: string, price: bigint): Promise<OraclePriceCheck> {
+      const expectation = resolvePriceExpectation(aggregatorKey, expectations, asset);
+      if (!expectation) {
+        return { asset, assertion: 'none', status: 'skipped', price, message: `No price expectation for ${aggregatorKey}` };
+      }
+
+      const reference = expectationReference(expectation);
+      const referenceValue = reference ? await referencePrice(reference) : undefined;
+      if (reference && referenceValue === undefined) {
+        const unpriced = `reference ${reference} has no price on ${aggregatorKey}`;
+        const fallback = [expectations?.default, DEFAULT_PRICE_EXPECTATIONS[aggregatorKey]].find(
+          candidate => candidate !== undefined && expectationReference(candidate) === undefined,
+        );
+        if (!fallback) {
+          const assertion = expectation.kind === 'vault' ? `not below underlying ${reference}` : `relative to ${reference}`;
+          return { asset, assertion, status: 'skipped', price, message: `Reference ${reference} has no price on ${aggregatorKey}` };
+        }
+        const check = evaluatePriceBounds(asset, price, expectationBounds(fallback, baseCurrencyUnit), baseCurrencyUnit);
+        return { ...check, message: `${check.message} (default expectation: ${unpriced})` };
+      }
+
+      return evaluatePriceBounds(asset, price, expectationBounds(expectation, baseCurrencyUnit, referenceValue), baseCurrencyUnit);
+    },
+  };
+}
+
+export function formatPriceCheck(check: OraclePriceCheck, label = check.asset): string {
+  return `${label}: ${check.status} ${check.assertion} (${check.message})`;
+}
+
+function requireReference(expectation: OraclePriceExpectation, referencePrice: bigint | undefined): bigint {
+  if (referencePrice === undefined) {
+    throw new Error(`Price expectation ${expectation.kind} needs the price of ${expectationReference(expectation)}`);
+  }
+  return referencePrice;
+}
+
+function scale(value: bigint, factor: number): bigint {
+  return (value * BigInt(Math.round(factor * Number(RATIO_PRECISION)))) / RATIO_PRECISION;
+}
+
+function formatInBase(value: bigint, baseCurrencyUnit: bigint): string {
+  const whole = value / baseCurrencyUnit;
+  const fraction = (value % baseCurrencyUnit).toString().padStart(baseCurrencyUnit.toString().length - 1, '0').replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole.toString();
+}
@@ -0,0 +1,85 @@
+import type { DeploymentsEnabledHre } from './runner';
+
+// API3 dAPI proxies always report 18 decimals
+const API3_DECIMALS = 18;
+
+export const ORACLE_READ_ABI = [
+  'function BASE_CURRENCY_UNIT() view returns (uint256)',
+  'function getPriceInfo(address) view returns (uint256,bool)',
+  'function assetOracles(address) view returns (address)',
+  'function assetToFeed(address) view returns (address)',
+  'function assetToProxy(address) view returns (address)',
+  'function assetThresholds(address) view returns (uint256 lowerThresholdInBase, uint256 fixedPriceInBase)',
+  'function compositeFeeds(address) view returns (address, address, (uint256,uint256), (uint256,uint256))',
+  'function pricePeg() view returns (uint256)',
+  'function CHAINLINK_HEARTBEAT() view returns (uint256)',
+  'function API3_HEARTBEAT() view returns (uint256)',
+  'function heartbeatStaleTimeLimit() view returns (uint256)',
+  'function decimals() view returns (uint8)',
+  'function latestRoundData() view returns (uint80,int256,uint256,uint256,uint80)',
+  'function read() view returns (int224,uint256)',
+];
+
+// Decoded result of a view in ORACLE_READ_ABI, undefined when the call reverts or the function does not exist
+export type OracleCall = (target: string, fn: string, args: unknown[]) => Promise<any[] | undefined>;
+export type CachedOracleCall = (call: OracleCall, target: string, fn: string) => Promise<any[] | undefined>;
+
+export interface RawFeedReading {
+  price: bigint;
+  updatedAt: number;
+}
+
+export function createOracleCall(env: DeploymentsEnabledHre, blockTag?: number): OracleCall {
+  const iface = new env.ethers.Interface(ORACLE_READ_ABI);
+
+  return async (target, fn, args) => {
+    try {
+      const data = await env.ethers.provider.call({ to: target, data: iface.encodeFunctionData(fn, args), blockTag });
+      return Array.from(iface.decodeFunctionResult(fn, data));
+    } catch {
+      return undefined;
+    }
+  };
+}
+
+// Memoizes argument-less views (units, decimals, heartbeats) that never change for a deployed contract
+export function createCachedOracleCall(): CachedOracleCall {
+  const cache = new Map<string, any[] | undefined>();
+
+  return async (call, target, fn) => {
+    const key = `${target.toLowerCase()}:${fn}`;
+    if (!cache.has(key)) {
+      cache.set(key, await call(target, fn, []));
+    }
+    return cache.get(key);
+  };
+}
+
+export async function resolveWrapperFeed(call: OracleCall, wrapper: string, asset: string): Promise<string | undefined> {
+  const feed = ((await call(wrapper, 'assetToFeed', [asset])) ?? (await call(wrapper, 'assetToProxy', [asset])))?.[0] as string | undefined;
+  return feed && !/^0x0{40}$/i.test(feed) ? feed : undefined;
+}
+
+// Reads a Chainlink-style feed or an API3 proxy and scales its answer to `unit`
+export async function readRawFeed(call: OracleCall, cachedCall: CachedOracleCall, feed: string, unit: bigint): Promise<RawFeedReading | undefined> {
+  const round = await call(feed, 'latestRoundData', []);
+  if (round) {
+    const feedDecimals = Number((await cachedCall(call, feed, 'decimals'))?.[0] ?? 8);
+    return { price: (BigInt(round[1]) * unit) / 10n ** BigInt(feedDecimals), updatedAt: Number(round[3]) };
+  }
+
+  const reading = await call(feed, 'read', []);
+  if (reading) {
+    return { price: (BigInt(reading[0]) * unit) / 10n ** BigInt(API3_DECIMALS), updatedAt: Number(reading[1]) };
+  }
+  return undefined;
+}
+
+// Relative difference in basis points with two decimals
+export function deviationBps(value: bigint, reference: bigint): number | undefined {
+  if (reference <= 0n) {
+    return undefined;
+  }
+  const difference = value > reference ? value - reference : reference - value;
+  return Number((difference * 1_000_000n) / reference) / 100;
+}
@@ -0,0 +1,224 @@
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+
+import { logger as defaultLogger } from '../../logger';
+import { createCachedOracleCall, createOracleCall, deviationBps, readRawFeed, resolveWrapperFeed } from './reader';
+import { DeploymentsEnabledHre, discoverOracleTargets, inferDecimalsFromUnit } from './runner';
+import type {
+  OracleReplayAssetReport,
+  OracleReplayOptions,
+  OracleReplayResult,
+  OracleReplaySample,
+  OracleReplayWindow,
+  OracleTarget,
+} from './types';
+
+const DEFAULT_REPLAY_STEP = 100;
+
+export function buildReplayBlocks(fromBlock: number, toBlock: number, step: number): number[] {
+  if (!Number.isInteger(step) || step <= 0) {
+    throw new Error(`Replay step must be a positive integer, got ${step}`);
+  }
+  if (toBlock < fromBlock) {
+    throw new Error(`Replay range is empty: toBlock ${toBlock} is before fromBlock ${fromBlock}`);
+  }
+
+  const blocks: number[] = [];
+  for (let block = fromBlock; block <= toBlock; block += step) {
+    blocks.push(block);
+  }
+  if (blocks[blocks.length - 1] !== toBlock) {
+    blocks.push(toBlock);
+  }
+  return blocks;
+}
+
+/**
+ * Sample the aggregator, the wrapper it routes to and the wrapper's raw feed for every target asset
+ * at each replay block. All reads are `eth_call`s pinned to the sampled block, so the node must
+ * serve historical state for the range (archive node or local chain).
+ */
+export async function replayOraclePrices(
+  hre: HardhatRuntimeEnvironment,
+  targets: OracleTarget[],
+  blocks: number[],
+): Promise<OracleReplayAssetReport[]> {
+  const env = hre as DeploymentsEnabledHre;
+  const cachedCall = createCachedOracleCall();
+
+  const reports = targets.flatMap(target =>
+    target.assets.map(asset => ({ aggregator: target.key, aggregatorAddress: target.address, address: asset.address, symbol: asset.symbol, samples: [] as OracleReplaySample[] })),
+  );
+
+  for (const block of blocks) {
+    const timestamp = Number((await env.ethers.provider.getBlock(block))?.timestamp ?? 0);
+    const call = createOracleCall(env, block);
+
+    for (const report of reports) {
+      const sample: OracleReplaySample = { block, timestamp };
+      const notes: string[] = [];
+      const aggregatorUnit = BigInt((await cachedCall(call, report.aggregatorAddress, 'BASE_CURRENCY_UNIT'))?.[0] ?? 10n ** 18n);
+      const decimals = inferDecimalsFromUnit(aggregatorUnit);
+
+      const aggregatorInfo = await call(report.aggregatorAddress, 'getPriceInfo', [report.address]);
+      if (aggregatorInfo) {
+        sample.aggregatorPrice = env.ethers.formatUnits(aggregatorInfo[0], decimals);
+        sample.aggregatorAlive = Boolean(aggregatorInfo[1]);
+      } else {
+        notes.push('Aggregator getPriceInfo reverted');
+      }
+
+      const wrapper = (await call(report.aggregatorAddress, 'assetOracles', [report.address]))?.[0] as string | undefined;
+      let feedPrice: bigint | undefined;
+
+      if (wrapper && wrapper !== env.ethers.ZeroAddress) {
+        sample.wrapper = wrapper;
+        const wrapperUnit = BigInt((await cachedCall(call, wrapper, 'BASE_CURRENCY_UNIT'))?.[0] ?? aggregatorUnit);
+        const wrapperDecimals = inferDecimalsFromUnit(wrapperUnit);
+
+        const wrapperInfo = await call(wrapper, 'getPriceInfo', [report.address]);
+        if (wrapperInfo) {
+          sample.wrapperPrice = env.ethers.formatUnits(wrapperInfo[0], wrapperDecimals);
+          sample.wrapperAlive = Boolean(wrapperInfo[1]);
+        } else {
+          notes.push('Wrapper getPriceInfo reverted');
+        }
+
+        const feed = await resolveWrapperFeed(call, wrapper, report.address);
+
+        if (feed) {
+          sample.feed = feed;
+          feedPrice = (await readRawFeed(call, cachedCall, feed, wrapperUnit))?.price;
+          if (feedPrice === undefined) {
+            notes.push('Raw feed read failed');
+          } else {
+            sample.feedPrice = env.ethers.formatUnits(feedPrice, wrapperDecimals);
+          }
+        } else {
+          notes.push('Wrapper exposes no single raw feed for this asset');
+        }
+
+        const thresholds = await call(wrapper, 'assetThresholds', [report.address]);
+        if (thresholds && feedPrice !== undefined && BigInt(thresholds[0]) > 0n) {
+          // Mirrors ThresholdingUtils._applyThreshold, which only runs on live prices
+          sample.thresholdActive = sample.wrapperAlive !== false && feedPrice > BigInt(thresholds[0]);
+        }
+
+        if (aggregatorInfo && feedPrice !== undefined) {
+          sample.deviationBps = deviationBps((BigInt(aggregatorInfo[0]) * wrapperUnit) / aggregatorUnit, feedPrice);
+        }
+      } else {
+        notes.push('Asset not routed on the aggregator');
+      }
+
+      if (notes.length > 0) {
+        sample.notes = notes;
+      }
+      report.samples.push(sample);
+    }
+  }
+
+  return reports.map(({ aggregatorAddress: _aggregatorAddress, ...report }) => {
+    const deviations = report.samples.filter(sample => sample.deviationBps !== undefined);
+    const maxDeviation = deviations.reduce<OracleReplaySample | undefined>(
+      (max, sample) => (max === undefined || sample.deviationBps! > max.deviationBps! ? sample : max),
+      undefined,
+    );
+
+    return {
+      ...report,
+      thresholdWindows: collectWindows(report.samples, sample => sample.thresholdActive === true),
+      staleWindows: collectWindows(report.samples, sample => sample.aggregatorAlive === false || sample.wrapperAlive === false),
+      maxDeviation: maxDeviation ? { block: maxDeviation.block, bps: maxDeviation.deviationBps! } : undefined,
+    };
+  });
+}
+
+export async function runOraclePriceReplay(hre: HardhatRuntimeEnvironment, options: OracleReplayOptions): Promise<OracleReplayResult> {
+  const env = hre as DeploymentsEnabledHre;
+  const toBlock = options.toBlock ?? Number(await env.ethers.provider.getBlockNumber());
+  const step = options.step ?? DEFAULT_REPLAY_STEP;
+  const blocks = buildReplayBlocks(options.fromBlock, toBlock, step);
+  const targets = await discoverOracleTargets(env, options);
+
+  defaultLogger.info(`Replaying ${targets.reduce((total, target) => total + target.assets.length, 0)} asset(s) over ${blocks.length} block(s)`);
+
+  return {
+    network: env.network.name,
+    fromBlock: options.fromBlock,
+    toBlock,
+    step,
+    assets: await replayOraclePrices(env, targets, blocks),
+  };
+}
+
+export function formatOracleReplayCsv(result: OracleReplayResult): string {
+  const header = [
+    'aggregator',
+    'asset',
+    'symbol',
+    'block',
+    'timestamp',
+    'wrapper',
+    'feed',
+    'aggregatorPrice',
+    'aggregatorAlive',
+    'wrapperPrice',
+    'wrapperAlive',
+    'feedPrice',
+    'thresholdActive',
+    'deviationBps',
+    'notes',
+  ];
+  const rows = result.assets.flatMap(asset =>
+    asset.samples.map(sample =>
+      [
+        asset.aggregator,
+        asset.address,
+        asset.symbol,
+        sample.block,
+        sample.timestamp,
+        sample.wrapper,
+        sample.feed,
+        sample.aggregatorPrice,
+        sample.aggregatorAlive,
+        sample.wrapperPrice,
+        sample.wrapperAlive,
+        sample.feedPrice,
+        sample.thresholdActive,
+        sample.deviationBps,
+        sample.notes?.join('; '),
+      ]
+        .map(value => csvCell(value))
+        .join(','),
+    ),
+  );
+  return [header.join(','), ...rows].join('\n');
+}
+
+function collectWindows(samples: OracleReplaySample[], predicate: (sample: OracleReplaySample) => boolean): OracleReplayWindow[] {
+  const windows: OracleReplayWindow[] = [];
+  let current: OracleReplayWindow | undefined;
+
+  for (const sample of samples) {
+    if (!predicate(sample)) {
+      current = undefined;
+      continue;
+    }
+    if (current) {
+      current.toBlock = sample.block;
+      current.samples += 1;
+    } else {
+      current = { fromBlock: sample.block, toBlock: sample.block, samples: 1 };
+      windows.push(current);
+    }
+  }
+  return windows;
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
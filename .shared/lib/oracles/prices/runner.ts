@@ -4,12 +4,16 @@ import type { DeploymentsExtension } from 'hardhat-deploy/types';
 import { logger as defaultLogger } from '../../logger';
 import { classifyDeployments } from './deployment-classifier';
 import { buildAggregatorList, buildSymbolLookup } from './asset-extractors';
+import { createPriceExpectationChecker } from './expectations';
+import { readWrapperPriceState } from './classification';
+import { createCachedOracleCall, createOracleCall } from './reader';
 import type {
   OracleAssetEntry,
   OracleAggregatorRecord,
   OracleInspectorOptions,
   OracleInspectorOptionsNormalized,
   OracleInspectorResult,
+  OracleTarget,
 } from './types';
 import { loadNetworkOracleConfig } from './config-loader';
 
@@ -27,7 +31,7 @@ function normalizeOptions(options: OracleInspectorOptions | undefined): OracleIn
   };
 }
 
-function inferDecimalsFromUnit(unit: bigint | number | undefined): number {
+export function inferDecimalsFromUnit(unit: bigint | number | undefined): number {
   if (unit === undefined) {
     return 18;
   }
@@ -44,12 +48,12 @@ function inferDecimalsFromUnit(unit: bigint | number | undefined): number {
   }
 }
 
-type DeploymentsEnabledHre = HardhatRuntimeEnvironment & {
+export type DeploymentsEnabledHre = HardhatRuntimeEnvironment & {
   deployments: DeploymentsExtension;
   ethers: any;
 };
 
-async function resolveAggregatorAddress(
+export async function resolveAggregatorAddress(
   hre: DeploymentsEnabledHre,
   key: string,
   deploymentNames: Set<string>,
@@ -93,6 +97,9 @@ interface AssetInspection {
   wrapperAddress?: string;
   wrapperPrice?: string;
   wrapperAlive?: boolean;
+  expectation?: OracleAssetEntry['expectation'];
+  priceState?: OracleAssetEntry['priceState'];
+  rawFeeds?: OracleAssetEntry['rawFeeds'];
   notes: string[];
 }
 
@@ -102,6 +109,7 @@ async function inspectAggregator(
   aggregatorAddress: string,
   assets: OracleAssetEntry[],
   options: OracleInspectorOptionsNormalized,
+  aggregatorConfig?: any,
 ): Promise<OracleAggregatorRecord> {
   const results: AssetInspection[] = assets.map(asset => ({
     asset,
@@ -150,7 +158,28 @@ async function inspectAggregator(
     }
   }
 
+  if (baseCurrencyUnit !== undefined) {
+    const checker = createPriceExpectationChecker({
+      aggregatorKey,
+      expectations: aggregatorConfig?.priceExpectations,
+      baseCurrency: aggregatorConfig?.baseCurrency,
+      baseCurrencyUnit,
+      readPrice: async asset =>
+        aggregatorPrices.get(asset.toLowerCase()) ?? BigInt(await aggregatorContract.getFunction('getAssetPrice').staticCall(asset)),
+    });
+
+    for (const entry of results) {
+      const price = aggregatorPrices.get(entry.asset.address.toLowerCase());
+      if (price !== undefined) {
+        const { assertion, status, message } = await checker.check(entry.asset.address, price);
+        entry.expectation = { assertion, status, message };
+      }
+    }
+  }
+
   const wrapperUnitCache = new Map<string, number>();
+  const call = createOracleCall(hre);
+  const cachedCall = createCachedOracleCall();
 
   for (const entry of results) {
     const lower = entry.asset.address.toLowerCase();
@@ -158,6 +187,10 @@ async function inspectAggregator(
     if (aggPrice !== undefined) {
       entry.aggregatorPrice = hre.ethers.formatUnits(aggPrice, decimals);
     }
+    if (!options.skipWrapperChecks) {
+      // replaced once the wrapper price is read below
+      entry.priceState = 'unknown';
+    }
 
     const pointer = wrapperPointers.get(lower);
     if (!pointer || pointer === hre.ethers.ZeroAddress.toLowerCase()) {
@@ -194,6 +227,18 @@ async function inspectAggregator(
           });
         entry.wrapperPrice = hre.ethers.formatUnits(price, wrapperDecimals);
         entry.wrapperAlive = Boolean(isAlive);
+
+        const { state, rawFeeds } = await readWrapperPriceState(
+          call,
+          cachedCall,
+          pointer,
+          entry.asset.address,
+          10n ** BigInt(wrapperDecimals),
+          entry.wrapperAlive,
+          value => hre.ethers.formatUnits(value, wrapperDecimals),
+        );
+        entry.priceState = state;
+        entry.rawFeeds = rawFeeds.length > 0 ? rawFeeds : undefined;
       } catch (wrapperError) {
         entry.notes.push(`Wrapper lookup failed: ${(wrapperError as Error).message}`);
       }
@@ -212,6 +257,9 @@ async function inspectAggregator(
       aggregatorPrice: entry.aggregatorPrice,
       wrapperPrice: entry.wrapperPrice,
       wrapperAlive: entry.wrapperAlive,
+      expectation: entry.expectation,
+      priceState: entry.priceState,
+      rawFeeds: entry.rawFeeds,
       notes: entry.notes.length > 0 ? entry.notes : undefined,
     })) as OracleAssetEntry[],
   } satisfies OracleAggregatorRecord;
@@ -258,7 +306,14 @@ export async function runOraclePriceInspector(
     }
 
     log.info(`Inspecting aggregator ${aggregator.key} at ${resolved.address}`);
-    const record = await inspectAggregator(env, aggregator.key, resolved.address, assetEntries, options);
+    const record = await inspectAggregator(
+      env,
+      aggregator.key,
+      resolved.address,
+      assetEntries,
+      options,
+      config.oracleAggregators?.[aggregator.key],
+    );
     inspectedAggregators.push(record);
   }
 
@@ -271,3 +326,41 @@ export async function runOraclePriceInspector(
     aggregators: inspectedAggregators,
   };
 }
+
+export async function discoverOracleTargets(
+  hre: HardhatRuntimeEnvironment,
+  filters: { aggregators?: string[]; assets?: string[] },
+): Promise<OracleTarget[]> {
+  const env = hre as DeploymentsEnabledHre;
+  const config = await loadNetworkOracleConfig(env);
+  if (!config) {
+    throw new Error(`Unable to load network config for ${env.network.name}`);
+  }
+
+  const aggregatorFilter = new Set((filters.aggregators ?? []).map(name => name.toLowerCase()));
+  const requested = (filters.assets ?? []).map(address => address.toLowerCase());
+  const deployments = await classifyDeployments(env.deployments);
+  const deploymentNames = new Set(deployments.aggregators.map(item => item.name ?? '').filter(Boolean));
+  const symbols = buildSymbolLookup(config);
+  const targets: OracleTarget[] = [];
+
+  for (const aggregator of buildAggregatorList(config)) {
+    if (aggregatorFilter.size > 0 && !aggregatorFilter.has(aggregator.key.toLowerCase())) {
+      continue;
+    }
+
+    const resolved = await resolveAggregatorAddress(env, aggregator.key, deploymentNames);
+    if (!resolved) {
+      defaultLogger.warn(`No deployment found for aggregator key ${aggregator.key}`);
+      continue;
+    }
+
+    const assets =
+      requested.length > 0
+        ? requested.map(address => aggregator.assets.find(asset => asset.address === address) ?? { address, symbol: symbols.get(address) })
+        : aggregator.assets;
+    targets.push({ key: aggregator.key, address: resolved.address, assets });
+  }
+
+  return targets;
+}
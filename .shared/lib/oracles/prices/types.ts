@@ -39,9 +39,32 @@ export interface OracleAssetEntry {
   aggregatorPrice?: string;
   wrapperPrice?: string;
   wrapperAlive?: boolean;
+  // Outcome of the asset's configured price expectation (see expectations.ts)
+  expectation?: OracleAssetExpectationResult;
+  // Where the wrapper price comes from (see classification.ts), set when wrapper checks run;
+  // unknown when the asset has no wrapper or its price could not be read
+  priceState?: OraclePriceState;
+  // Feeds behind the wrapper price, scaled to the wrapper's base currency unit
+  rawFeeds?: OracleRawFeedValue[];
   notes?: string[];
 }
 
+export type OraclePriceState = 'live' | 'clamped' | 'pegged' | 'stale' | 'unknown';
+
+export interface OracleRawFeedValue {
+  address: string;
+  price: string;
+  updatedAt: number;
+  // Fixed price the wrapper returns instead of `price` while the threshold is active
+  clampedTo?: string;
+}
+
+export interface OracleAssetExpectationResult {
+  assertion: string;
+  status: 'passed' | 'failed' | 'skipped';
+  message: string;
+}
+
 export interface OracleAggregatorRecord {
   key: string;
   address: string;
@@ -52,3 +75,91 @@ export interface OracleInspectorResult {
   network: string;
   aggregators: OracleAggregatorRecord[];
 }
+
+export interface OracleReplayOptions {
+  fromBlock: number;
+  toBlock?: number;
+  step?: number;
+  aggregators?: string[];
+  assets?: string[];
+}
+
+export interface OracleTarget {
+  key: string;
+  address: string;
+  assets: OracleAssetEntry[];
+}
+
+export interface OracleReplaySample {
+  block: number;
+  timestamp: number;
+  wrapper?: string;
+  feed?: string;
+  aggregatorPrice?: string;
+  aggregatorAlive?: boolean;
+  wrapperPrice?: string;
+  wrapperAlive?: boolean;
+  feedPrice?: string;
+  thresholdActive?: boolean;
+  deviationBps?: number;
+  notes?: string[];
+}
+
+export interface OracleReplayWindow {
+  fromBlock: number;
+  toBlock: number;
+  samples: number;
+}
+
+export interface OracleReplayAssetReport {
+  aggregator: string;
+  address: string;
+  symbol?: string;
+  samples: OracleReplaySample[];
+  thresholdWindows: OracleReplayWindow[];
+  staleWindows: OracleReplayWindow[];
+  maxDeviation?: { block: number; bps: number };
+}
+
+export interface OracleReplayResult {
+  network: string;
+  fromBlock: number;
+  toBlock: number;
+  step: number;
+  assets: OracleReplayAssetReport[];
+}
+
+export type OracleWatchAlertType = 'readError' | 'stale' | 'heartbeat' | 'priceJump' | 'referenceDeviation';
+
+export interface OracleWatchAlert {
+  type: OracleWatchAlertType;
+  severity: 'warning' | 'critical';
+  status: 'firing' | 'resolved';
+  aggregator: string;
+  asset: string;
+  symbol?: string;
+  message: string;
+  value?: number;
+  threshold?: number;
+  block: number;
+  timestamp: number;
+}
+
+export interface OracleWatchOptions {
+  aggregators?: string[];
+  assets?: string[];
+  // Alert when the aggregator price moves more than this between two polls
+  jumpPct?: number;
+  // Alert when the aggregator disagrees with the reference feed by more than this
+  referencePct?: number;
+  // asset -> secondary feed (Chainlink-style aggregator or API3 proxy) to cross-check the aggregator against
+  references?: Record<string, string>;
+}
+
+export interface OracleWatchPollResult {
+  block: number;
+  timestamp: number;
+  active: OracleWatchAlert[];
+  fired: OracleWatchAlert[];
+  resolved: OracleWatchAlert[];
+}
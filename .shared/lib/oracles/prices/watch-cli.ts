@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+
+import { Command } from 'commander';
+import fs from 'fs';
+import hre from 'hardhat';
+
+import { logger } from '../../logger';
+import { createAlertSink } from './alert-sinks';
+import { runOracleWatchdog, WATCHDOG_EXIT_CODES } from './watchdog';
+
+function parseReferences(pairs: string[] | undefined, file: string | undefined): Record<string, string> {
+  const references: Record<string, string> = file ? JSON.parse(fs.readFileSync(file, 'utf8')) : {};
+
+  for (const pair of pairs ?? []) {
+    const [asset, feed] = pair.split('=').map(value => value.trim());
+    if (!asset || !feed) {
+      throw new Error(`Invalid --reference "${pair}", expected <asset>=<feed>`);
+    }
+    references[asset] = feed;
+  }
+  return references;
+}
+
+export async function runOracleWatchdogCli(): Promise<void> {
+  const program = new Command();
+
+  program
+    .description('Poll every oracle aggregator of the network and send alerts for stale, jumping or disagreeing prices.')
+    .option('-a, --aggregators <list>', 'Comma separated list of aggregator keys')
+    .option('--asset <address...>', 'Only watch these asset addresses')
+    .option('--interval <seconds>', 'Seconds between polls', value => Number(value), 60)
+    .option('--jump-pct <percent>', 'Alert when a price moves more than this between polls', value => Number(value), 5)
+    .option('--reference-pct <percent>', 'Alert when the aggregator deviates more than this from the reference feed', value => Number(value), 2)
+    .option('--reference <asset=feed...>', 'Secondary feed (Chainlink aggregator or API3 proxy) to cross-check an asset against')
+    .option('--references <path>', 'JSON file mapping asset addresses to reference feeds')
+    .option('--sink <spec...>', 'Alert sinks: stdout, file:<path>, webhook:<url> (default: stdout)')
+    .option('--once', 'Poll once and exit 2 when a critical alert is active (for probes)')
+    .option('--max-polls <number>', 'Stop after this many polls', value => Number(value))
+    .option('--max-failures <number>', 'Exit 1 after this many consecutive failed polls', value => Number(value), 5);
+
+  program.parse(process.argv);
+  const opts = program.opts();
+
+  try {
+    const controller = new AbortController();
+    const stop = (): void => {
+      logger.info('Stopping oracle watchdog...');
+      controller.abort();
+    };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+
+    process.exitCode = await runOracleWatchdog(hre, {
+      aggregators: opts.aggregators ? String(opts.aggregators).split(',').map((value: string) => value.trim()).filter(Boolean) : undefined,
+      assets: opts.asset as string[] | undefined,
+      jumpPct: opts.jumpPct as number,
+      referencePct: opts.referencePct as number,
+      references: parseReferences(opts.reference as string[] | undefined, opts.references as string | undefined),
+      sinks: ((opts.sink as string[] | undefined) ?? ['stdout']).map(spec => createAlertSink(spec)),
+      intervalMs: (opts.interval as number) * 1000,
+      once: Boolean(opts.once),
+      maxPolls: opts.maxPolls as number | undefined,
+      maxFailures: opts.maxFailures as number,
+      signal: controller.signal,
+    });
+  } catch (error) {
+    logger.error((error as Error).message);
+    process.exitCode = WATCHDOG_EXIT_CODES.error;
+  }
+}
+
+if (require.main === module) {
+  void runOracleWatchdogCli();
+}
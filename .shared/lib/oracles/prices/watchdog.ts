@@ -0,0 +1,274 @@
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+
+import { logger as defaultLogger } from '../../logger';
+import { dispatchAlerts, OracleAlertSink } from './alert-sinks';
+import { createCachedOracleCall, createOracleCall, deviationBps, OracleCall, readRawFeed, resolveWrapperFeed } from './reader';
+import { DeploymentsEnabledHre, discoverOracleTargets, inferDecimalsFromUnit } from './runner';
+import type { OracleTarget, OracleWatchAlert, OracleWatchOptions, OracleWatchPollResult } from './types';
+
+const DEFAULT_JUMP_PCT = 5;
+const DEFAULT_REFERENCE_PCT = 2;
+
+type RaisedAlert = Pick<OracleWatchAlert, 'type' | 'severity' | 'message' | 'value' | 'threshold'>;
+
+// 0: stopped cleanly or healthy probe, 1: could not run or too many failed polls, 2: probe found critical alerts
+export const WATCHDOG_EXIT_CODES = { ok: 0, error: 1, critical: 2 } as const;
+
+export interface OracleWatchdogRunOptions extends OracleWatchOptions {
+  sinks: OracleAlertSink[];
+  intervalMs: number;
+  // Poll once and exit with `critical` when a critical alert is active (liveness/readiness probes)
+  once?: boolean;
+  maxPolls?: number;
+  // Consecutive failed polls (RPC errors) tolerated before exiting with `error`
+  maxFailures?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Polls every target asset and keeps the set of firing alerts between polls.
+ * Only transitions are dispatched: an alert is sent once when it starts firing
+ * and once more when it resolves.
+ */
+export class OracleWatchdog {
+  private readonly env: DeploymentsEnabledHre;
+  private readonly cachedCall = createCachedOracleCall();
+  private readonly lastPrices = new Map<string, bigint>();
+  private readonly firing = new Map<string, OracleWatchAlert>();
+  private readonly references: Map<string, string>;
+
+  constructor(
+    hre: HardhatRuntimeEnvironment,
+    private readonly targets: OracleTarget[],
+    private readonly options: OracleWatchOptions = {},
+    private readonly sinks: OracleAlertSink[] = [],
+  ) {
+    this.env = hre as DeploymentsEnabledHre;
+    this.references = new Map(Object.entries(options.references ?? {}).map(([asset, feed]) => [asset.toLowerCase(), feed]));
+  }
+
+  get activeAlerts(): OracleWatchAlert[] {
+    return Array.from(this.firing.values());
+  }
+
+  hasCriticalAlerts(): boolean {
+    return this.activeAlerts.some(alert => alert.severity === 'critical');
+  }
+
+  async poll(): Promise<OracleWatchPollResult> {
+    const latest = await this.env.ethers.provider.getBlock('latest');
+    const block = Number(latest.number);
+    const timestamp = Number(latest.timestamp);
+    const call = createOracleCall(this.env, block);
+    const current = new Map<string, OracleWatchAlert>();
+
+    for (const target of this.targets) {
+      const aggregatorUnit = BigInt((await this.cachedCall(call, target.address, 'BASE_CURRENCY_UNIT'))?.[0] ?? 10n ** 18n);
+      const decimals = inferDecimalsFromUnit(aggregatorUnit);
+
+      for (const asset of target.assets) {
+        const raise = (alert: RaisedAlert): void => {
+          const full: OracleWatchAlert = {
+            ...alert,
+            status: 'firing',
+            aggregator: target.key,
+            asset: asset.address,
+            symbol: asset.symbol,
+            block,
+            timestamp,
+          };
+          current.set(alertKey(full), full);
+        };
+        const priceKey = `${target.key}:${asset.address.toLowerCase()}`;
+
+        const info = await call(target.address, 'getPriceInfo', [asset.address]);
+        if (!info) {
+          raise({ type: 'readError', severity: 'critical', message: 'Aggregator getPriceInfo reverted' });
+          continue;
+        }
+
+        const price = BigInt(info[0]);
+        const formatted = this.env.ethers.formatUnits(price, decimals);
+
+        if (!info[1]) {
+          raise({ type: 'stale', severity: 'critical', message: `Aggregator reports isAlive=false (price ${formatted})` });
+        }
+
+        const previous = this.lastPrices.get(priceKey);
+        const jumpBps = previous === undefined ? undefined : deviationBps(price, previous);
+        const jumpLimit = (this.options.jumpPct ?? DEFAULT_JUMP_PCT) * 100;
+        if (jumpBps !== undefined && jumpBps > jumpLimit) {
+          raise({
+            type: 'priceJump',
+            severity: 'warning',
+            message: `Price moved ${jumpBps} bps since the last poll (${this.env.ethers.formatUnits(previous!, decimals)} -> ${formatted})`,
+            value: jumpBps,
+            threshold: jumpLimit,
+          });
+        }
+        this.lastPrices.set(priceKey, price);
+
+        await this.checkHeartbeat(call, target, asset.address, timestamp, raise);
+
+        const reference = this.references.get(asset.address.toLowerCase());
+        if (reference) {
+          const reading = await readRawFeed(call, this.cachedCall, reference, aggregatorUnit);
+          const referenceBps = reading ? deviationBps(price, reading.price) : undefined;
+          const referenceLimit = (this.options.referencePct ?? DEFAULT_REFERENCE_PCT) * 100;
+
+          if (!reading) {
+            raise({ type: 'readError', severity: 'warning', message: `Reference feed ${reference} could not be read` });
+          } else if (referenceBps !== undefined && referenceBps > referenceLimit) {
+            raise({
+              type: 'referenceDeviation',
+              severity: 'warning',
+              message: `Aggregator ${formatted} deviates ${referenceBps} bps from reference ${reference} (${this.env.ethers.formatUnits(reading.price, decimals)})`,
+              value: referenceBps,
+              threshold: referenceLimit,
+            });
+          }
+        }
+      }
+    }
+
+    const fired = Array.from(current.entries())
+      .filter(([key]) => !this.firing.has(key))
+      .map(([, alert]) => alert);
+    const resolved = Array.from(this.firing.entries())
+      .filter(([key]) => !current.has(key))
+      .map(([, alert]) => ({ ...alert, status: 'resolved' as const, block, timestamp }));
+
+    this.firing.clear();
+    current.forEach((alert, key) => this.firing.set(key, alert));
+
+    await dispatchAlerts(this.sinks, [...fired, ...resolved]);
+
+    return { block, timestamp, active: this.activeAlerts, fired, resolved };
+  }
+
+  // Warns once the feed is past its heartbeat, escalates once the wrapper's heartbeatStaleTimeLimit grace is used up too
+  private async checkHeartbeat(
+    call: OracleCall,
+    target: OracleTarget,
+    asset: string,
+    now: number,
+    raise: (alert: RaisedAlert) => void,
+  ): Promise<void> {
+    const wrapper = (await call(target.address, 'assetOracles', [asset]))?.[0] as string | undefined;
+    if (!wrapper || /^0x0{40}$/i.test(wrapper)) {
+      return;
+    }
+
+    const heartbeat =
+      (await this.cachedCall(call, wrapper, 'CHAINLINK_HEARTBEAT'))?.[0] ?? (await this.cachedCall(call, wrapper, 'API3_HEARTBEAT'))?.[0];
+    const staleLimit = (await call(wrapper, 'heartbeatStaleTimeLimit', []))?.[0];
+    const feed = await resolveWrapperFeed(call, wrapper, asset);
+    if (heartbeat === undefined || staleLimit === undefined || !feed) {
+      return;
+    }
+
+    const reading = await readRawFeed(call, this.cachedCall, feed, 1n);
+    if (!reading) {
+      raise({ type: 'readError', severity: 'critical', message: `Feed ${feed} could not be read` });
+      return;
+    }
+
+    const age = now - reading.updatedAt;
+    const overdueAfter = Number(heartbeat);
+    const staleAfter = overdueAfter + Number(staleLimit);
+
+    if (age > overdueAfter) {
+      raise({
+        type: 'heartbeat',
+        severity: age > staleAfter ? 'critical' : 'warning',
+        message: `Feed ${feed} last updated ${age}s ago (heartbeat ${overdueAfter}s, stale after ${staleAfter}s)`,
+        value: age,
+        threshold: age > staleAfter ? staleAfter : overdueAfter,
+      });
+    }
+  }
+}
+
+/**
+ * Discover the aggregators of the network config and poll them until stopped.
+ * Resolves with the process exit code (see `WATCHDOG_EXIT_CODES`).
+ */
+export async function runOracleWatchdog(hre: HardhatRuntimeEnvironment, options: OracleWatchdogRunOptions): Promise<number> {
+  validateWatchdogOptions(options);
+  const targets = await discoverOracleTargets(hre, options);
+  if (targets.length === 0) {
+    defaultLogger.error('No aggregators discovered; nothing to watch.');
+    return WATCHDOG_EXIT_CODES.error;
+  }
+
+  const watchdog = new OracleWatchdog(hre, targets, options, options.sinks);
+  const maxFailures = options.maxFailures ?? 5;
+  let failures = 0;
+  let polls = 0;
+
+  defaultLogger.info(
+    `Watching ${targets.reduce((total, target) => total + target.assets.length, 0)} asset(s) on ${targets.map(target => target.key).join(', ')}`,
+  );
+
+  while (!options.signal?.aborted) {
+    try {
+      const result = await watchdog.poll();
+      failures = 0;
+      defaultLogger.info(`Poll at block ${result.block}: ${result.active.length} active, ${result.fired.length} fired, ${result.resolved.length} resolved`);
+    } catch (error) {
+      failures += 1;
+      defaultLogger.warn(`Poll failed (${failures}/${maxFailures}): ${error instanceof Error ? error.message : String(error)}`);
+      if (failures >= maxFailures) {
+        return WATCHDOG_EXIT_CODES.error;
+      }
+    }
+
+    polls += 1;
+    if (options.once) {
+      return failures > 0 ? WATCHDOG_EXIT_CODES.error : watchdog.hasCriticalAlerts() ? WATCHDOG_EXIT_CODES.critical : WATCHDOG_EXIT_CODES.ok;
+    }
+    if (options.maxPolls !== undefined && polls >= options.maxPolls) {
+      break;
+    }
+
+    await sleep(options.intervalMs, options.signal);
+  }
+
+  return WATCHDOG_EXIT_CODES.ok;
+}
+
+/**
+ * Rejects thresholds and limits that would silently disable the watchdog: NaN compares false
+ * against every deviation, and a zero or negative interval polls in a tight loop.
+ */
+export function validateWatchdogOptions(options: OracleWatchdogRunOptions): void {
+  const values: [string, number | undefined][] = [
+    ['intervalMs', options.intervalMs],
+    ['jumpPct', options.jumpPct],
+    ['referencePct', options.referencePct],
+    ['maxPolls', options.maxPolls],
+    ['maxFailures', options.maxFailures],
+  ];
+
+  for (const [name, value] of values) {
+    if (value !== undefined && !(Number.isFinite(value) && value > 0)) {
+      throw new Error(`Invalid ${name} ${value}, expected a positive number`);
+    }
+  }
+}
+
+function alertKey(alert: OracleWatchAlert): string {
+  return `${alert.type}:${alert.severity}:${alert.aggregator}:${alert.asset.toLowerCase()}`;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    function done(): void {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
@@ -0,0 +1,311 @@
+import { Interface } from "@ethersproject/abi";
+
+import { SafeTransactionData } from "../safe/types";
+import { includesAddress, PrivilegeHolders } from "./holders";
+import { ExecutionMode, ResolvedRoleManifest } from "./manifest";
+import { ActionSource, prepareContractPlans } from "./planner";
+import { OwnableContractInfo, RolesContractInfo, ScanResult } from "./scan";
+
+export type RoleApplyActionKind =
+  "grantDefaultAdmin" | "grantRole" | "addToAddressSet" | "transferOwnership" | "revokeRole" | "removeFromAddressSet";
+
+export interface RoleApplyAction {
+  readonly kind: RoleApplyActionKind;
+  readonly execution: ExecutionMode;
+  readonly deployment: string;
+  readonly contractName: string;
+  readonly address: string;
+  readonly source: ActionSource;
+  readonly summary: string;
+  // Role constant or address-set getter and the account it is changed for
+  readonly privilege?: string;
+  readonly account?: string;
+  readonly transaction: SafeTransactionData;
+}
+
+export interface RoleApplySkip {
+  readonly deployment: string;
+  readonly contractName: string;
+  readonly address: string;
+  readonly reason: string;
+}
+
+export interface RoleApplyPlan {
+  // Ordered: grants, ownership transfers, then revocations (the deployer's DEFAULT_ADMIN_ROLE last)
+  readonly actions: RoleApplyAction[];
+  readonly satisfied: RoleApplySkip[];
+  readonly blocked: RoleApplySkip[];
+}
+
+interface BuildRoleApplyPlanOptions {
+  readonly manifest: ResolvedRoleManifest;
+  readonly scan: ScanResult;
+  // Current holders of the manifest role and address-set policies, see scanPrivilegeHolders
+  readonly holders?: PrivilegeHolders[];
+}
+
+const DEFAULT_ADMIN_ROLE_NAME = "DEFAULT_ADMIN_ROLE";
+const PHASE_ORDER: Record<RoleApplyActionKind, number> = {
+  grantDefaultAdmin: 0,
+  grantRole: 1,
+  addToAddressSet: 1,
+  transferOwnership: 2,
+  revokeRole: 3,
+  removeFromAddressSet: 3,
+};
+
+export function buildRoleApplyPlan(options: BuildRoleApplyPlanOptions): RoleApplyPlan {
+  const { manifest, scan } = options;
+  const rolesByDeployment = new Map(scan.rolesContracts.map((info) => [info.deploymentName, info]));
+  const ownableByDeployment = new Map(scan.ownableContracts.map((info) => [info.deploymentName, info]));
+  const plans = prepareContractPlans({ manifest, rolesByDeployment, ownableByDeployment });
+
+  const actions: RoleApplyAction[] = [];
+  const satisfied: RoleApplySkip[] = [];
+  const blocked: RoleApplySkip[] = [];
+
+  for (const plan of plans) {
+    const ownableInfo = ownableByDeployment.get(plan.deployment);
+    const rolesInfo = rolesByDeployment.get(plan.deployment);
+
+    if (plan.ownable && ownableInfo) {
+      const outcome = planOwnershipTransfer(ownableInfo, plan.ownable.newOwner, plan.ownable.execution, plan.ownableSource ?? "auto");
+      collect(outcome, actions, satisfied, blocked);
+    }
+
+    if (plan.defaultAdmin && rolesInfo?.defaultAdminRoleHash) {
+      const newAdmin = plan.defaultAdmin.newAdmin;
+      const source = plan.defaultAdminSource ?? "auto";
+      const grant = planDefaultAdminGrant(rolesInfo, manifest, newAdmin, plan.defaultAdmin.grantExecution, source);
+      collect(grant, actions, satisfied, blocked);
+
+      // Only drop the deployer's roles once governance holds (or is about to hold) the admin role
+      const adminHandedOver = "transaction" in grant || rolesInfo.governanceHasDefaultAdmin;
+
+      if (adminHandedOver && !sameAddress(newAdmin, manifest.deployer)) {
+        const keptByDeployer = (options.holders ?? []).filter(
+          (snapshot) =>
+            snapshot.deployment === plan.deployment &&
+            snapshot.kind === "role" &&
+            includesAddress(snapshot.policy.allow ?? [], manifest.deployer),
+        );
+        for (const outcome of planDeployerRevocations(
+          rolesInfo,
+          manifest,
+          source,
+          new Set(keptByDeployer.map((snapshot) => snapshot.name)),
+        )) {
+          collect(outcome, actions, satisfied, blocked);
+        }
+      }
+    }
+  }
+
+  const planned = new Set(actions.map((action) => actionKey(action)));
+  for (const snapshot of options.holders ?? []) {
+    for (const outcome of planHolderChanges(snapshot, manifest, rolesByDeployment.get(snapshot.deployment))) {
+      if ("transaction" in outcome && planned.has(actionKey(outcome))) {
+        continue;
+      }
+      collect(outcome, actions, satisfied, blocked);
+    }
+  }
+
+  actions.sort((a, b) => phaseOf(a, manifest) - phaseOf(b, manifest));
+  return { actions, satisfied, blocked };
+}
+
+function phaseOf(action: RoleApplyAction, manifest: ResolvedRoleManifest): number {
+  // The deployer gives up DEFAULT_ADMIN_ROLE only after every other change on the same path went through
+  const deployerAdminRevocation =
+    action.kind === "revokeRole" && action.privilege === DEFAULT_ADMIN_ROLE_NAME && sameAddress(action.account ?? "", manifest.deployer);
+  return deployerAdminRevocation ? PHASE_ORDER.revokeRole + 1 : PHASE_ORDER[action.kind];
+}
+
+function actionKey(action: RoleApplyAction): string {
+  return `${action.transaction.to.toLowerCase()}:${action.transaction.data}`;
+}
+
+type PlanOutcome = RoleApplyAction | { readonly skip: RoleApplySkip; readonly satisfied: boolean };
+
+function collect(outcome: PlanOutcome, actions: RoleApplyAction[], satisfied: RoleApplySkip[], blocked: RoleApplySkip[]): void {
+  if ("transaction" in outcome) {
+    actions.push(outcome);
+  } else if (outcome.satisfied) {
+    satisfied.push(outcome.skip);
+  } else {
+    blocked.push(outcome.skip);
+  }
+}
+
+function planOwnershipTransfer(info: OwnableContractInfo, newOwner: string, execution: ExecutionMode, source: ActionSource): PlanOutcome {
+  const ref = { deployment: info.deploymentName, contractName: info.name, address: info.address };
+
+  if (sameAddress(info.owner, newOwner)) {
+    return { skip: { ...ref, reason: `owner is already ${newOwner}` }, satisfied: true };
+  }
+
+  if (!info.deployerIsOwner) {
+    return { skip: { ...ref, reason: `owner ${info.owner} is neither the deployer nor ${newOwner}` }, satisfied: false };
+  }
+
+  return {
+    ...ref,
+    kind: "transferOwnership",
+    execution,
+    source,
+    summary: `transferOwnership(${newOwner})`,
+    transaction: {
+      to: info.address,
+      value: "0",
+      data: new Interface(info.abi as any).encodeFunctionData("transferOwnership", [newOwner]),
+    },
+  };
+}
+
+function planDefaultAdminGrant(
+  info: RolesContractInfo,
+  manifest: ResolvedRoleManifest,
+  newAdmin: string,
+  execution: ExecutionMode,
+  source: ActionSource,
+): PlanOutcome {
+  const ref = { deployment: info.deploymentName, contractName: info.name, address: info.address };
+  const adminRole = info.defaultAdminRoleHash!;
+
+  if (sameAddress(newAdmin, manifest.governance) && info.governanceHasDefaultAdmin) {
+    return { skip: { ...ref, reason: `${DEFAULT_ADMIN_ROLE_NAME} already held by governance` }, satisfied: true };
+  }
+
+  if (!info.rolesHeldByDeployer.some((role) => sameHash(role.hash, adminRole))) {
+    return { skip: { ...ref, reason: `deployer does not hold ${DEFAULT_ADMIN_ROLE_NAME} to grant it` }, satisfied: false };
+  }
+
+  return {
+    ...ref,
+    kind: "grantDefaultAdmin",
+    execution,
+    source,
+    summary: `grantRole(${DEFAULT_ADMIN_ROLE_NAME}, ${newAdmin})`,
+    transaction: {
+      to: info.address,
+      value: "0",
+      data: new Interface(info.abi as any).encodeFunctionData("grantRole", [adminRole, newAdmin]),
+    },
+  };
+}
+
+function planDeployerRevocations(
+  info: RolesContractInfo,
+  manifest: ResolvedRoleManifest,
+  source: ActionSource,
+  keptByDeployer: Set<string>,
+): PlanOutcome[] {
+  const ref = { deployment: info.deploymentName, contractName: info.name, address: info.address };
+  const heldByDeployer = info.rolesHeldByDeployer.filter((role) => !keptByDeployer.has(role.name));
+
+  if (heldByDeployer.length === 0) {
+    return [{ skip: { ...ref, reason: "deployer holds no roles" }, satisfied: true }];
+  }
+
+  if (!manifest.safe) {
+    return [{ skip: { ...ref, reason: "deployer roles need a Safe revocation but the manifest has no safe config" }, satisfied: false }];
+  }
+
+  const iface = new Interface(info.abi as any);
+  // Revoke DEFAULT_ADMIN_ROLE last so the contract keeps an admin path until the end of the batch
+  const roles = [...heldByDeployer].sort(
+    (a, b) => Number(sameHash(a.hash, info.defaultAdminRoleHash)) - Number(sameHash(b.hash, info.defaultAdminRoleHash)),
+  );
+
+  return roles.map((role) => ({
+    ...ref,
+    kind: "revokeRole" as const,
+    execution: "safe" as const,
+    source,
+    summary: `revokeRole(${role.name}, ${manifest.deployer})`,
+    privilege: role.name,
+    account: manifest.deployer,
+    transaction: {
+      to: info.address,
+      value: "0",
+      data: iface.encodeFunctionData("revokeRole", [role.hash, manifest.deployer]),
+    },
+  }));
+}
+
+function planHolderChanges(
+  snapshot: PrivilegeHolders,
+  manifest: ResolvedRoleManifest,
+  rolesInfo: RolesContractInfo | undefined,
+): PlanOutcome[] {
+  const ref = { deployment: snapshot.deployment, contractName: snapshot.contractName, address: snapshot.address };
+
+  if (snapshot.unresolved) {
+    return [{ skip: { ...ref, reason: `${snapshot.name}: ${snapshot.unresolved}` }, satisfied: false }];
+  }
+
+  const { allow, deny } = snapshot.policy;
+  const toRevoke = snapshot.holders.filter(
+    (holder) => includesAddress(deny, holder) || (allow !== undefined && !includesAddress(allow, holder)),
+  );
+  const toGrant = (allow ?? []).filter((expected) => !includesAddress(snapshot.holders, expected));
+
+  if (toRevoke.length === 0 && toGrant.length === 0) {
+    return [{ skip: { ...ref, reason: `${snapshot.name} holders match the manifest` }, satisfied: true }];
+  }
+
+  if (snapshot.kind === "addressSet" && !snapshot.setter) {
+    return [{ skip: { ...ref, reason: `${snapshot.name} drifted but the manifest declares no setter` }, satisfied: false }];
+  }
+
+  if (snapshot.kind === "role" && snapshot.name === DEFAULT_ADMIN_ROLE_NAME) {
+    const remaining = snapshot.holders.filter((holder) => !includesAddress(toRevoke, holder)).length + toGrant.length;
+    if (remaining === 0) {
+      return [
+        { skip: { ...ref, reason: `revoking ${DEFAULT_ADMIN_ROLE_NAME} would leave the contract without an admin` }, satisfied: false },
+      ];
+    }
+  }
+
+  // Role admins are assumed to be DEFAULT_ADMIN_ROLE: the deployer acts directly while it still holds it, governance via Safe after
+  const deployerIsAdmin = Boolean(
+    rolesInfo?.defaultAdminRoleHash && rolesInfo.rolesHeldByDeployer.some((role) => sameHash(role.hash, rolesInfo.defaultAdminRoleHash)),
+  );
+  const execution: ExecutionMode = deployerIsAdmin ? "direct" : "safe";
+
+  if (execution === "safe" && !manifest.safe) {
+    return [
+      { skip: { ...ref, reason: `${snapshot.name} drift needs a Safe transaction but the manifest has no safe config` }, satisfied: false },
+    ];
+  }
+
+  const iface = new Interface(snapshot.abi as any);
+  const change = (account: string, add: boolean): RoleApplyAction => {
+    const [kind, functionName, args]: [RoleApplyActionKind, string, unknown[]] =
+      snapshot.kind === "role"
+        ? [add ? "grantRole" : "revokeRole", add ? "grantRole" : "revokeRole", [snapshot.roleHash, account]]
+        : [add ? "addToAddressSet" : "removeFromAddressSet", snapshot.setter!, [account, add]];
+
+    return {
+      ...ref,
+      kind,
+      execution,
+      source: snapshot.source,
+      summary: snapshot.kind === "role" ? `${functionName}(${snapshot.name}, ${account})` : `${functionName}(${account}, ${add})`,
+      privilege: snapshot.name,
+      account,
+      transaction: { to: snapshot.address, value: "0", data: iface.encodeFunctionData(functionName, args) },
+    };
+  };
+
+  return [...toGrant.map((account) => change(account, true)), ...toRevoke.map((account) => change(account, false))];
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function sameHash(a: string, b: string | undefined): boolean {
+  return b !== undefined && a.toLowerCase() === b.toLowerCase();
+}
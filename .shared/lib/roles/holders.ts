@@ -0,0 +1,329 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Interface } from "@ethersproject/abi";
+import { getAddress } from "@ethersproject/address";
+import * as fs from "fs";
+import * as path from "path";
+
+import { ResolvedAddressSetPolicy, ResolvedHolderPolicy, ResolvedRoleManifest } from "./manifest";
+import { DEFAULT_MULTICALL3_ADDRESS, executeMulticallBatches, MulticallRequest } from "./multicall";
+import { ActionSource, isDeploymentExcluded } from "./planner";
+import { OwnableContractInfo, RolesContractInfo, ScanResult } from "./scan";
+
+export type PrivilegeKind = "role" | "addressSet";
+
+export interface PrivilegeTarget {
+  readonly deployment: string;
+  readonly contractName: string;
+  readonly address: string;
+  readonly abi: RolesContractInfo["abi"];
+  readonly kind: PrivilegeKind;
+  // Role constant name or address[] getter name
+  readonly name: string;
+  readonly roleHash?: string;
+  readonly setter?: string;
+  readonly policy: ResolvedHolderPolicy;
+  readonly source: ActionSource;
+  // Set when the contract does not expose the declared role or getter
+  readonly unresolved?: string;
+}
+
+export interface PrivilegeHolders extends PrivilegeTarget {
+  readonly holders: string[];
+  // False when the full holder set could not be read and only manifest-listed accounts were probed
+  readonly enumerated: boolean;
+}
+
+export type HolderDriftKind = "unexpected" | "denied" | "missing" | "unresolved";
+
+export interface HolderDriftIssue {
+  readonly deployment: string;
+  readonly contractName: string;
+  readonly address: string;
+  readonly kind: PrivilegeKind;
+  readonly name: string;
+  readonly drift: HolderDriftKind;
+  readonly holder?: string;
+  readonly detail: string;
+}
+
+export interface ScanPrivilegeHoldersOptions {
+  readonly hre: HardhatRuntimeEnvironment;
+  readonly targets: PrivilegeTarget[];
+  readonly deployer: string;
+  readonly governance: string;
+  readonly deploymentsPath?: string;
+  readonly logger?: (message: string) => void;
+  readonly multicallAddress?: string;
+}
+
+const ROLE_EVENTS_ABI = [
+  "event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)",
+  "event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)",
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+];
+// Smallest block range a failing eth_getLogs query is split down to before giving up
+const MIN_LOG_BLOCK_SPAN = 1_000;
+
+/**
+ * Match every scanned contract against the manifest role and address-set policies.
+ * Override policies apply even to excluded deployments; `defaults.roles` only to
+ * in-scope contracts that expose the role.
+ */
+export function resolvePrivilegeTargets(manifest: ResolvedRoleManifest, scan: ScanResult): PrivilegeTarget[] {
+  const rolesByDeployment = new Map(scan.rolesContracts.map((info) => [info.deploymentName, info]));
+  const ownableByDeployment = new Map(scan.ownableContracts.map((info) => [info.deploymentName, info]));
+  const overridesByDeployment = new Map(manifest.overrides.map((override) => [override.deployment, override]));
+  const targets: PrivilegeTarget[] = [];
+
+  const deployments = new Set([...manifest.overrides.map((override) => override.deployment), ...[...rolesByDeployment.keys()].sort()]);
+
+  for (const deployment of deployments) {
+    const override = overridesByDeployment.get(deployment);
+    const rolesInfo = rolesByDeployment.get(deployment);
+    const contract: RolesContractInfo | OwnableContractInfo | undefined = rolesInfo ?? ownableByDeployment.get(deployment);
+    const ref = {
+      deployment,
+      contractName: contract?.name ?? deployment,
+      address: contract?.address ?? "unknown",
+      abi: contract?.abi ?? [],
+    };
+
+    const rolePolicies = new Map<string, { policy: ResolvedHolderPolicy; source: ActionSource }>();
+    if (rolesInfo && !isDeploymentExcluded(manifest, deployment, "roles")) {
+      for (const role of rolesInfo.roles) {
+        const policy = manifest.defaults.roles[role.name];
+        if (policy) {
+          rolePolicies.set(role.name, { policy, source: "auto" });
+        }
+      }
+    }
+    for (const [name, policy] of Object.entries(override?.roles ?? {})) {
+      rolePolicies.set(name, { policy, source: "override" });
+    }
+
+    for (const [name, { policy, source }] of rolePolicies) {
+      const role = rolesInfo?.roles.find((candidate) => candidate.name === name);
+      targets.push({
+        ...ref,
+        kind: "role",
+        name,
+        roleHash: role?.hash,
+        policy,
+        source,
+        ...(role ? {} : { unresolved: rolesInfo ? `${name} not found on contract` : "not an AccessControl deployment" }),
+      });
+    }
+
+    for (const [name, policy] of Object.entries<ResolvedAddressSetPolicy>(override?.addressSets ?? {})) {
+      const { setter, ...holderPolicy } = policy;
+      targets.push({
+        ...ref,
+        kind: "addressSet",
+        name,
+        ...(setter ? { setter } : {}),
+        policy: holderPolicy,
+        source: "override",
+        ...(hasFunction(ref.abi, name) ? {} : { unresolved: contract ? `${name}() not found in ABI` : "deployment not scanned" }),
+      });
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Read the current holders of each target. Role holders are enumerated from
+ * `RoleGranted`/`RoleRevoked` logs since deployment and confirmed with `hasRole`;
+ * manifest-listed accounts, the deployer and governance are always probed.
+ */
+export async function scanPrivilegeHolders(options: ScanPrivilegeHoldersOptions): Promise<PrivilegeHolders[]> {
+  const { hre, targets, deployer, governance } = options;
+  const log = options.logger ?? (() => {});
+  const provider = (hre as any).ethers.provider;
+  const deploymentsPath = options.deploymentsPath || path.join((hre as any).config.paths.deployments, (hre as any).network.name);
+  const roleIface = new Interface(ROLE_EVENTS_ABI);
+  const latestBlock: number = await provider.getBlockNumber();
+
+  const candidates = new Map<PrivilegeTarget, { accounts: Set<string>; enumerated: boolean }>();
+  const addressSetHolders = new Map<PrivilegeTarget, string[]>();
+
+  for (const target of targets) {
+    if (target.unresolved) {
+      continue;
+    }
+
+    if (target.kind === "addressSet") {
+      const iface = new Interface(target.abi as any);
+      try {
+        const returnData = await provider.call({ to: target.address, data: iface.encodeFunctionData(target.name, []) });
+        const [members] = iface.decodeFunctionResult(target.name, returnData);
+        addressSetHolders.set(
+          target,
+          (members as string[]).map((member) => getAddress(member)),
+        );
+      } catch (error) {
+        log(`  - failed to read ${target.deployment}.${target.name}(): ${error instanceof Error ? error.message : String(error)}`);
+      }
+      continue;
+    }
+
+    const accounts = new Set(
+      [deployer, governance, ...(target.policy.allow ?? []), ...target.policy.deny].map((account) => getAddress(account)),
+    );
+    let enumerated = true;
+
+    try {
+      const fromBlock = readDeploymentBlock(deploymentsPath, target.deployment);
+      const topics = [[roleIface.getEventTopic("RoleGranted"), roleIface.getEventTopic("RoleRevoked")], target.roleHash!];
+      const logs = await fetchLogsInRange(provider, { address: target.address, topics }, fromBlock, latestBlock);
+      for (const entry of logs) {
+        accounts.add(getAddress(`0x${String(entry.topics[2]).slice(26)}`));
+      }
+    } catch (error) {
+      enumerated = false;
+      log(
+        `  - could not enumerate ${target.deployment}.${target.name} holders from logs: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    candidates.set(target, { accounts, enumerated });
+  }
+
+  const checks: { target: PrivilegeTarget; account: string; request: MulticallRequest }[] = [];
+  for (const [target, { accounts }] of candidates) {
+    for (const account of accounts) {
+      checks.push({
+        target,
+        account,
+        request: {
+          target: target.address,
+          allowFailure: true,
+          callData: roleIface.encodeFunctionData("hasRole", [target.roleHash, account]),
+        },
+      });
+    }
+  }
+
+  const held = new Map<PrivilegeTarget, string[]>();
+  if (checks.length > 0) {
+    log(`Confirming ${checks.length} role holder candidates across ${candidates.size} manifest role policies.`);
+    const batch = await executeMulticallBatches(
+      hre as any,
+      checks.map((check) => check.request),
+      {
+        address: options.multicallAddress ?? DEFAULT_MULTICALL3_ADDRESS,
+        logger: log,
+      },
+    );
+
+    for (const [index, check] of checks.entries()) {
+      let returnData = batch?.results[index]?.success ? batch.results[index].returnData : undefined;
+      if (returnData === undefined) {
+        try {
+          returnData = await provider.call({ to: check.request.target, data: check.request.callData });
+        } catch {
+          continue;
+        }
+      }
+
+      if (Boolean(roleIface.decodeFunctionResult("hasRole", returnData!)[0])) {
+        held.set(check.target, [...(held.get(check.target) ?? []), check.account]);
+      }
+    }
+  }
+
+  return targets.map((target) => {
+    if (target.kind === "addressSet") {
+      const members = addressSetHolders.get(target);
+      if (members === undefined && !target.unresolved) {
+        return { ...target, holders: [], enumerated: false, unresolved: `${target.name}() could not be read` };
+      }
+      return { ...target, holders: members ?? [], enumerated: members !== undefined };
+    }
+    return { ...target, holders: held.get(target) ?? [], enumerated: candidates.get(target)?.enumerated ?? false };
+  });
+}
+
+/**
+ * Compare holders with their policies: holders outside `allow` or inside `deny`
+ * are drift, and so is every `allow` entry that does not hold the privilege.
+ */
+export function findHolderDrift(snapshots: PrivilegeHolders[]): HolderDriftIssue[] {
+  const issues: HolderDriftIssue[] = [];
+
+  for (const snapshot of snapshots) {
+    const ref = {
+      deployment: snapshot.deployment,
+      contractName: snapshot.contractName,
+      address: snapshot.address,
+      kind: snapshot.kind,
+      name: snapshot.name,
+    };
+
+    if (snapshot.unresolved) {
+      issues.push({ ...ref, drift: "unresolved", detail: `Manifest declares ${snapshot.name} but ${snapshot.unresolved}.` });
+      continue;
+    }
+
+    const { allow, deny } = snapshot.policy;
+
+    for (const holder of snapshot.holders) {
+      if (includesAddress(deny, holder)) {
+        issues.push({ ...ref, drift: "denied", holder, detail: `${holder} holds ${snapshot.name} but is on the deny list.` });
+      } else if (allow && !includesAddress(allow, holder)) {
+        issues.push({ ...ref, drift: "unexpected", holder, detail: `${holder} holds ${snapshot.name} but is not on the allow list.` });
+      }
+    }
+
+    for (const expected of allow ?? []) {
+      if (!includesAddress(snapshot.holders, expected)) {
+        issues.push({ ...ref, drift: "missing", holder: expected, detail: `${expected} is expected to hold ${snapshot.name}.` });
+      }
+    }
+  }
+
+  return issues;
+}
+
+export function includesAddress(addresses: readonly string[], address: string): boolean {
+  return addresses.some((candidate) => candidate.toLowerCase() === address.toLowerCase());
+}
+
+function hasFunction(abi: PrivilegeTarget["abi"], name: string): boolean {
+  try {
+    return Object.values(new Interface(abi as any).functions).some((fragment) => fragment.name === name);
+  } catch {
+    return false;
+  }
+}
+
+function readDeploymentBlock(deploymentsPath: string, deployment: string): number {
+  try {
+    const artifact = JSON.parse(fs.readFileSync(path.join(deploymentsPath, `${deployment}.json`), "utf-8"));
+    return Number(artifact?.receipt?.blockNumber ?? 0);
+  } catch {
+    return 0;
+  }
+}
+
+// Query eth_getLogs over the whole range in one request, halving it whenever the RPC refuses
+export async function fetchLogsInRange(
+  provider: any,
+  filter: { address: string | string[]; topics: (string | string[])[] },
+  fromBlock: number,
+  toBlock: number,
+): Promise<{ topics: readonly string[]; blockNumber: number }[]> {
+  try {
+    return await provider.getLogs({ ...filter, fromBlock, toBlock });
+  } catch (error) {
+    // RPCs cap the range or result size of eth_getLogs; retry on halves
+    if (toBlock - fromBlock < MIN_LOG_BLOCK_SPAN) {
+      throw error;
+    }
+    const middle = Math.floor((fromBlock + toBlock) / 2);
+    return [
+      ...(await fetchLogsInRange(provider, filter, fromBlock, middle)),
+      ...(await fetchLogsInRange(provider, filter, middle + 1, toBlock)),
+    ];
+  }
+}
@@ -3,7 +3,7 @@ import * as path from "path";
 
 import { getAddress } from "@ethersproject/address";
 
-import { SafeConfig } from "./types";
+import { SafeConfig } from "../safe/types";
 
 export type ExecutionMode = "direct" | "safe";
 
@@ -17,9 +17,21 @@ export interface ManifestDefaultAdminDefaults {
   readonly grantExecution?: ExecutionMode;
 }
 
+// Expected holders of a privilege. With `allow`, any other holder is drift; `deny` lists holders that must never appear.
+export interface ManifestHolderPolicy {
+  readonly allow?: string[];
+  readonly deny?: string[];
+}
+
+// Privileged address set exposed by an `address[]` view (e.g. `getAllowedAmoWallets`), changed via `setter(address,bool)`
+export interface ManifestAddressSetPolicy extends ManifestHolderPolicy {
+  readonly setter?: string;
+}
+
 export interface ManifestDefaults {
   readonly ownable?: ManifestOwnableDefaults;
   readonly defaultAdmin?: ManifestDefaultAdminDefaults;
+  readonly roles?: Record<string, ManifestHolderPolicy>;
 }
 
 export interface ManifestOwnableOverrides extends ManifestOwnableDefaults {
@@ -36,6 +48,8 @@ export interface ManifestContractOverride {
   readonly notes?: string;
   readonly ownable?: ManifestOwnableOverrides;
   readonly defaultAdmin?: ManifestDefaultAdminOverrides;
+  readonly roles?: Record<string, ManifestHolderPolicy>;
+  readonly addressSets?: Record<string, ManifestAddressSetPolicy>;
   readonly disabled?: boolean;
 }
 
@@ -59,6 +73,7 @@ export interface ManifestExclusionConfig {
   readonly reason?: string;
   readonly ownable?: boolean;
   readonly defaultAdmin?: boolean;
+  readonly roles?: boolean;
 }
 
 export interface RoleManifest {
@@ -84,6 +99,16 @@ export interface ResolvedDefaultAdminAction {
   readonly grantExecution: ExecutionMode;
 }
 
+export interface ResolvedHolderPolicy {
+  // Undefined when the manifest only denies specific holders
+  readonly allow?: string[];
+  readonly deny: string[];
+}
+
+export interface ResolvedAddressSetPolicy extends ResolvedHolderPolicy {
+  readonly setter?: string;
+}
+
 export interface ResolvedOwnableOverride {
   readonly enabled?: boolean;
   readonly action?: ResolvedOwnableAction;
@@ -100,12 +125,15 @@ export interface ResolvedContractOverride {
   readonly notes?: string;
   readonly ownable?: ResolvedOwnableOverride;
   readonly defaultAdmin?: ResolvedDefaultAdminOverride;
+  readonly roles?: Record<string, ResolvedHolderPolicy>;
+  readonly addressSets?: Record<string, ResolvedAddressSetPolicy>;
   readonly disabled?: boolean;
 }
 
 export interface ResolvedManifestDefaults {
   readonly ownable: ResolvedOwnableAction;
   readonly defaultAdmin: ResolvedDefaultAdminAction;
+  readonly roles: Record<string, ResolvedHolderPolicy>;
 }
 
 export interface ResolvedAutoIncludeConfig {
@@ -120,6 +148,7 @@ export interface ResolvedExclusion {
   readonly reason?: string;
   readonly ownable: boolean;
   readonly defaultAdmin: boolean;
+  readonly roles: boolean;
 }
 
 export interface ResolvedRoleManifest {
@@ -251,6 +280,7 @@ export function resolveRoleManifest(manifest: RoleManifest): ResolvedRoleManifes
       reason: exclusion.reason?.trim(),
       ownable: exclusion.ownable ?? true,
       defaultAdmin: exclusion.defaultAdmin ?? true,
+      roles: exclusion.roles ?? true,
     } satisfies ResolvedExclusion;
   });
 
@@ -283,12 +313,20 @@ export function resolveRoleManifest(manifest: RoleManifest): ResolvedRoleManifes
       ? resolveDefaultAdminOverride(contract.defaultAdmin, defaults.defaultAdmin, context, `overrides[${index}]`)
       : undefined;
 
+    const rolePolicies = contract.roles ? resolveRolePolicies(contract.roles, context, `overrides[${index}].roles`) : undefined;
+
+    const addressSetPolicies = contract.addressSets
+      ? resolveAddressSetPolicies(contract.addressSets, context, `overrides[${index}].addressSets`)
+      : undefined;
+
     const resolvedOverride: ResolvedContractOverride = {
       deployment,
       ...(contract.alias && contract.alias.trim().length > 0 ? { alias: contract.alias.trim() } : {}),
       ...(contract.notes ? { notes: contract.notes } : {}),
       ...(ownableOverride ? { ownable: ownableOverride } : {}),
       ...(defaultAdminOverride ? { defaultAdmin: defaultAdminOverride } : {}),
+      ...(rolePolicies ? { roles: rolePolicies } : {}),
+      ...(addressSetPolicies ? { addressSets: addressSetPolicies } : {}),
     };
 
     overrides.push(resolvedOverride);
@@ -371,9 +409,72 @@ function resolveManifestDefaults(defaults: ManifestDefaults | undefined, context
   return {
     ownable: resolvedOwnable,
     defaultAdmin: resolvedDefaultAdmin,
+    roles: resolveRolePolicies(defaults?.roles ?? {}, context, "defaults.roles"),
   };
 }
 
+const ROLE_NAME_PATTERN = /^(DEFAULT_ADMIN_ROLE|[A-Z0-9_]+_ROLE)$/;
+const FUNCTION_NAME_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function resolveRolePolicies(
+  policies: Record<string, ManifestHolderPolicy>,
+  context: AddressContext,
+  label: string,
+): Record<string, ResolvedHolderPolicy> {
+  const resolved: Record<string, ResolvedHolderPolicy> = {};
+
+  for (const [roleName, policy] of Object.entries(policies)) {
+    // Same naming rule the scanner uses to discover role constants
+    if (!ROLE_NAME_PATTERN.test(roleName)) {
+      throw new ManifestValidationError(`${label}.${roleName} is not a role constant name (expected DEFAULT_ADMIN_ROLE or *_ROLE).`);
+    }
+    resolved[roleName] = resolveHolderPolicy(policy, context, `${label}.${roleName}`);
+  }
+
+  return resolved;
+}
+
+function resolveAddressSetPolicies(
+  policies: Record<string, ManifestAddressSetPolicy>,
+  context: AddressContext,
+  label: string,
+): Record<string, ResolvedAddressSetPolicy> {
+  const resolved: Record<string, ResolvedAddressSetPolicy> = {};
+
+  for (const [getter, policy] of Object.entries(policies)) {
+    if (!FUNCTION_NAME_PATTERN.test(getter)) {
+      throw new ManifestValidationError(`${label}.${getter} is not a function name.`);
+    }
+
+    if (policy.setter !== undefined && !FUNCTION_NAME_PATTERN.test(policy.setter)) {
+      throw new ManifestValidationError(`${label}.${getter}.setter is not a function name: ${policy.setter}`);
+    }
+
+    resolved[getter] = {
+      ...resolveHolderPolicy(policy, context, `${label}.${getter}`),
+      ...(policy.setter ? { setter: policy.setter } : {}),
+    };
+  }
+
+  return resolved;
+}
+
+function resolveHolderPolicy(policy: ManifestHolderPolicy, context: AddressContext, label: string): ResolvedHolderPolicy {
+  if (!policy.allow && !policy.deny) {
+    throw new ManifestValidationError(`${label} must specify allow and/or deny.`);
+  }
+
+  const allow = policy.allow?.map((holder, index) => resolveAddress(holder, context, `${label}.allow[${index}]`));
+  const deny = (policy.deny ?? []).map((holder, index) => resolveAddress(holder, context, `${label}.deny[${index}]`));
+
+  const conflict = deny.find((holder) => allow?.some((allowed) => allowed.toLowerCase() === holder.toLowerCase()));
+  if (conflict) {
+    throw new ManifestValidationError(`${label} lists ${conflict} in both allow and deny.`);
+  }
+
+  return { ...(allow ? { allow } : {}), deny };
+}
+
 function resolveOwnableOverride(
   override: ManifestOwnableOverrides,
   defaults: ResolvedOwnableAction,
@@ -185,7 +185,7 @@ function computeDefaultAdminSelection(options: DefaultAdminSelectionOptions): Se
 export function isDeploymentExcluded(
   manifest: ResolvedRoleManifest,
   deployment: string,
-  kind: "ownable" | "defaultAdmin",
+  kind: "ownable" | "defaultAdmin" | "roles",
 ): boolean {
   return manifest.exclusions.some((exclusion) => {
     const appliesToKind = exclusion[kind];
@@ -143,7 +143,7 @@ function detectOwnableFragment(abi: AbiItem[]): FunctionAbiItem | undefined {
   );
 }
 
-function detectRoleConstantFragments(abi: AbiItem[]): FunctionAbiItem[] {
+export function detectRoleConstantFragments(abi: AbiItem[]): FunctionAbiItem[] {
   return abi
     .filter(isAbiFunctionFragment)
     .filter(
@@ -176,6 +176,35 @@ async function decodeViaProvider(
   }
 }
 
+// Reads the role constants of a single contract, e.g. to label role hashes in Safe batch reviews.
+export async function readRoleConstants(
+  hre: HardhatRuntimeEnvironment,
+  address: string,
+  abi: AbiItem[],
+): Promise<RoleInfo[]> {
+  const fragments = detectRoleConstantFragments(abi);
+  if (fragments.length === 0) {
+    return [];
+  }
+
+  const iface = new Interface(abi as any);
+  const roles = await Promise.all(
+    fragments.map(async (fragment): Promise<RoleInfo | null> => {
+      try {
+        const returnData = await (hre as any).ethers.provider.call({
+          to: address,
+          data: iface.encodeFunctionData(fragment.name, []),
+        });
+        return { name: fragment.name, hash: String(iface.decodeFunctionResult(fragment.name, returnData)[0]) };
+      } catch {
+        return null;
+      }
+    }),
+  );
+
+  return roles.filter((role): role is RoleInfo => role !== null);
+}
+
 export async function scanRolesAndOwnership(options: ScanOptions): Promise<ScanResult> {
   const { hre, deployer, governanceMultisig, logger } = options;
   const ethers = (hre as any).ethers;
@@ -0,0 +1,25 @@
+/**
+ * Convert decoded ABI values to JSON-friendly values (bigints in decimal, arrays and tuples as arrays)
+ *
+ * @param value - Decoded value
+ */
+export function normalizeAbiValue(value: unknown): unknown {
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+
+  if (Array.isArray(value)) {
+    return Array.from(value, normalizeAbiValue);
+  }
+  return value;
+}
+
+/**
+ * Render a decoded ABI value as a single string (bigints in decimal, arrays and tuples as JSON)
+ *
+ * @param value - Decoded value
+ */
+export function formatAbiValue(value: unknown): string {
+  const normalized = normalizeAbiValue(value);
+  return typeof normalized === "string" ? normalized : JSON.stringify(normalized);
+}
@@ -0,0 +1,116 @@
+import { dataLength } from "ethers";
+
+import { SafeBatchSimulation, SafeTransactionData } from "./types";
+
+/**
+ * Limits a single Safe batch must stay under
+ */
+export interface SafeBatchBudget {
+  /** Gas ceiling for the Safe `execTransaction` of one batch (default 10,000,000) */
+  readonly maxGas?: number;
+  /** Size limit of the encoded MultiSend payload in bytes (default 100,000) */
+  readonly maxCalldataBytes?: number;
+  /** Gas assumed for calls the fork simulation could not measure (default 500,000) */
+  readonly fallbackCallGas?: number;
+}
+
+/**
+ * Contiguous slice of a batch sized to fit the budget
+ */
+export interface SafeBatchChunk {
+  /** Index of the first call of the chunk in the original batch */
+  readonly start: number;
+  readonly transactions: SafeTransactionData[];
+  readonly estimatedGas: number;
+  readonly calldataBytes: number;
+}
+
+export const DEFAULT_SAFE_BATCH_BUDGET: Required<SafeBatchBudget> = {
+  maxGas: 10_000_000,
+  maxCalldataBytes: 100_000,
+  fallbackCallGas: 500_000,
+};
+
+// Safe execTransaction + MultiSend dispatch, paid once per batch
+const SAFE_BATCH_BASE_GAS = 100_000;
+// Intrinsic cost of the standalone transaction measured on the fork, not paid by a call inside MultiSend
+const TRANSACTION_INTRINSIC_GAS = 21_000;
+// MultiSend packs each call as operation (1) + to (20) + value (32) + data length (32) + data
+const MULTISEND_CALL_HEADER_BYTES = 85;
+
+/**
+ * Gas each call is expected to use inside a MultiSend, from the fork simulation when available
+ *
+ * @param transactions - The batch calls
+ * @param simulation - Fork simulation of the batch in order
+ * @param fallbackCallGas - Estimate for calls without a measured gas
+ */
+export function estimateSafeCallGas(
+  transactions: SafeTransactionData[],
+  simulation: SafeBatchSimulation | undefined,
+  fallbackCallGas = DEFAULT_SAFE_BATCH_BUDGET.fallbackCallGas,
+): number[] {
+  return transactions.map((_, index) => {
+    const call = simulation?.calls[index];
+
+    if (call?.status !== "success" || call.gasUsed === undefined) {
+      return fallbackCallGas;
+    }
+    return Math.max(Number(call.gasUsed) - TRANSACTION_INTRINSIC_GAS, 0);
+  });
+}
+
+/**
+ * Split a batch into consecutive chunks that each fit the gas ceiling and calldata limit.
+ * Calls are never reordered, so a call that depends on an earlier one (a `grantRole`
+ * before the calls using the role) lands in the same or an earlier chunk. A call that
+ * alone exceeds the budget gets a chunk of its own.
+ *
+ * @param transactions - The batch calls in execution order
+ * @param callGas - Estimated gas of each call
+ * @param budget - Gas and size limits
+ */
+export function splitSafeBatch(transactions: SafeTransactionData[], callGas: number[], budget: SafeBatchBudget = {}): SafeBatchChunk[] {
+  const { maxGas, maxCalldataBytes } = { ...DEFAULT_SAFE_BATCH_BUDGET, ...budget };
+  const chunks: SafeBatchChunk[] = [];
+  let current: { start: number; transactions: SafeTransactionData[]; estimatedGas: number; calldataBytes: number } | undefined;
+
+  transactions.forEach((transaction, index) => {
+    const gas = callGas[index];
+    const bytes = MULTISEND_CALL_HEADER_BYTES + dataLength(transaction.data);
+
+    if (current && (current.estimatedGas + gas > maxGas || current.calldataBytes + bytes > maxCalldataBytes)) {
+      chunks.push(current);
+      current = undefined;
+    }
+
+    current ??= { start: index, transactions: [], estimatedGas: SAFE_BATCH_BASE_GAS, calldataBytes: 0 };
+    current.transactions.push(transaction);
+    current.estimatedGas += gas;
+    current.calldataBytes += bytes;
+  });
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  for (const chunk of chunks) {
+    if (chunk.transactions.length === 1 && (chunk.estimatedGas > maxGas || chunk.calldataBytes > maxCalldataBytes)) {
+      console.warn(`⚠️ Call ${chunk.start + 1} alone exceeds the batch budget (gas ${chunk.estimatedGas}, ${chunk.calldataBytes} bytes)`);
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Restrict a batch simulation to the calls of one chunk, renumbered from zero
+ *
+ * @param simulation - Simulation of the whole batch
+ * @param chunk - The chunk
+ */
+export function sliceSafeBatchSimulation(simulation: SafeBatchSimulation, chunk: SafeBatchChunk): SafeBatchSimulation {
+  const calls = simulation.calls
+    .slice(chunk.start, chunk.start + chunk.transactions.length)
+    .map((call) => ({ ...call, index: call.index - chunk.start }));
+  return { ...simulation, success: calls.every((call) => call.status === "success"), calls };
+}
@@ -0,0 +1,442 @@
+import { AbiCoder, ErrorFragment, FunctionFragment, getAddress, Interface, InterfaceAbi, Result, toQuantity } from "ethers";
+import { EthereumProvider, HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { createNetworkFork, ensureForkBalance } from "../fork";
+import { formatAbiValue } from "./abi-values";
+import { KnownDeployment, loadDeploymentIndex } from "./deployments";
+import {
+  SafeBatchSimulation,
+  SafeSimulatedCall,
+  SafeSimulatedConfigChange,
+  SafeSimulatedOwnershipChange,
+  SafeSimulatedRoleChange,
+  SafeTransactionData,
+} from "./types";
+
+const GOVERNANCE_EVENTS = new Interface([
+  "event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)",
+  "event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)",
+  "event RoleAdminChanged(bytes32 indexed role, bytes32 indexed previousAdminRole, bytes32 indexed newAdminRole)",
+  "event OwnershipTransferred(address indexed previousOwner, address indexed newOwner)",
+  "event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner)",
+]);
+
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+/**
+ * Minimal transaction receipt shape returned by eth_getTransactionReceipt
+ */
+interface RpcReceipt {
+  readonly status: string;
+  readonly gasUsed: string;
+  readonly logs: { address: string; topics: string[]; data: string }[];
+}
+
+/**
+ * A call sent from the impersonated Safe
+ */
+interface SafeCallRequest {
+  readonly from: string;
+  readonly to: string;
+  readonly data: string;
+  readonly value: string;
+}
+
+/**
+ * Options for the batch simulator
+ */
+export interface SafeBatchSimulatorOptions {
+  /** Block to fork from when simulating against a live network (defaults to latest) */
+  readonly forkBlockNumber?: number;
+  /** ABIs used to decode custom errors (defaults to every compiled artifact ABI) */
+  readonly errorAbis?: InterfaceAbi[];
+}
+
+/**
+ * SafeBatchSimulator executes a Safe batch call-by-call, in order, on a Hardhat
+ * network impersonating the Safe, so every call sees the state left by the
+ * previous ones exactly as it would inside MultiSend. Like MultiSend, the first
+ * revert stops the batch. Live networks are simulated on an in-process fork;
+ * the hardhat network is used directly and restored with a snapshot.
+ */
+export class SafeBatchSimulator {
+  private fork?: EthereumProvider;
+  private knownDeployments?: Map<string, KnownDeployment>;
+  private errorFragments?: Map<string, ErrorFragment>;
+
+  constructor(
+    private readonly hre: HardhatRuntimeEnvironment,
+    private readonly options: SafeBatchSimulatorOptions = {},
+  ) {}
+
+  /**
+   * Simulate a batch as executed by the Safe
+   *
+   * @param safeAddress - The Safe executing the batch
+   * @param transactions - The batch calls, in execution order
+   */
+  async simulate(safeAddress: string, transactions: SafeTransactionData[]): Promise<SafeBatchSimulation> {
+    const provider = await this.getForkProvider();
+    const contracts = await this.getKnownDeployments();
+    const forkBlockNumber = Number(await provider.request({ method: "eth_blockNumber" }));
+    const snapshotId = await provider.request({ method: "evm_snapshot" });
+    const calls: SafeSimulatedCall[] = [];
+    let reverted = false;
+
+    await provider.request({ method: "hardhat_impersonateAccount", params: [safeAddress] });
+
+    try {
+      for (const [index, transaction] of transactions.entries()) {
+        const target = contracts.get(transaction.to.toLowerCase());
+        const base = {
+          index,
+          to: transaction.to,
+          contractName: target?.name,
+          method: describeMethod(target, transaction.data),
+          roleChanges: [],
+          ownershipChanges: [],
+          configChanges: [],
+        };
+
+        if (reverted) {
+          calls.push({ ...base, status: "not_executed" });
+          continue;
+        }
+
+        if (transaction.operation === 1) {
+          calls.push({ ...base, status: "not_executed", revertReason: "DelegateCall operations cannot be simulated by impersonation" });
+          continue;
+        }
+
+        const request: SafeCallRequest = {
+          from: safeAddress,
+          to: transaction.to,
+          data: transaction.data,
+          value: toQuantity(BigInt(transaction.value || "0")),
+        };
+        const before = await readGetters(provider, transaction.to, target);
+        const outcome = await this.execute(provider, request);
+
+        if (!("receipt" in outcome)) {
+          reverted = true;
+          calls.push({
+            ...base,
+            status: "reverted",
+            revertData: outcome.revertData,
+            revertReason: outcome.revertData ? await this.decodeRevert(outcome.revertData) : outcome.message,
+          });
+          continue;
+        }
+
+        const after = await readGetters(provider, transaction.to, target);
+        calls.push({
+          ...base,
+          status: "success",
+          gasUsed: BigInt(outcome.receipt.gasUsed).toString(),
+          ...decodeGovernanceLogs(outcome.receipt.logs, contracts),
+          configChanges: diffGetters(transaction.to, target, before, after),
+        });
+      }
+    } finally {
+      await provider.request({ method: "hardhat_stopImpersonatingAccount", params: [safeAddress] });
+      await provider.request({ method: "evm_revert", params: [snapshotId] });
+    }
+
+    return {
+      success: !reverted,
+      safeAddress,
+      network: this.hre.network.name,
+      forkBlockNumber,
+      simulatedAt: Date.now(),
+      calls,
+    };
+  }
+
+  /**
+   * Execute one call from the impersonated Safe, returning its receipt or revert data
+   *
+   * @param provider - The fork provider
+   * @param request - The call from the Safe
+   */
+  private async execute(
+    provider: EthereumProvider,
+    request: SafeCallRequest,
+  ): Promise<{ receipt: RpcReceipt } | { revertData?: string; message: string }> {
+    try {
+      // The impersonated Safe pays no gas, but must hold the value it forwards
+      await ensureForkBalance(provider, request.from, BigInt(request.value));
+      // eth_call first: it surfaces the revert data that a mined transaction would hide
+      await provider.request({ method: "eth_call", params: [request, "latest"] });
+      await provider.request({ method: "hardhat_setNextBlockBaseFeePerGas", params: ["0x0"] });
+      const hash = await provider.request({
+        method: "eth_sendTransaction",
+        params: [{ ...request, maxFeePerGas: "0x0", maxPriorityFeePerGas: "0x0" }],
+      });
+      const receipt = (await provider.request({ method: "eth_getTransactionReceipt", params: [hash] })) as RpcReceipt;
+
+      if (BigInt(receipt.status) !== 1n) {
+        return { message: "Transaction reverted" };
+      }
+      return { receipt };
+    } catch (error) {
+      return { revertData: extractRevertData(error), message: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Decode revert data into `Error(string)`, `Panic(code)` or a custom error from a known ABI
+   *
+   * @param data - Raw revert data
+   */
+  async decodeRevert(data: string): Promise<string> {
+    if (data === "0x") {
+      return "reverted without reason";
+    }
+
+    const selector = data.slice(0, 10).toLowerCase();
+    const payload = `0x${data.slice(10)}`;
+
+    try {
+      if (selector === ERROR_STRING_SELECTOR) {
+        return `Error("${AbiCoder.defaultAbiCoder().decode(["string"], payload)[0]}")`;
+      }
+
+      if (selector === PANIC_SELECTOR) {
+        return `Panic(0x${AbiCoder.defaultAbiCoder().decode(["uint256"], payload)[0].toString(16)})`;
+      }
+
+      const fragment = (await this.getErrorFragments()).get(selector);
+
+      if (fragment) {
+        const args = new Interface([fragment]).decodeErrorResult(fragment, data);
+        return `${fragment.name}(${formatArgs(args)})`;
+      }
+    } catch {
+      // Fall through to the raw selector when the payload does not match the fragment
+    }
+
+    return `unknown error ${selector}`;
+  }
+
+  /**
+   * Provider to simulate on: the in-process hardhat network, or a fork of the current network
+   */
+  private async getForkProvider(): Promise<EthereumProvider> {
+    this.fork ??= await createNetworkFork(this.hre, { blockNumber: this.options.forkBlockNumber, purpose: "batch simulation" });
+    return this.fork;
+  }
+
+  /**
+   * Deployments indexed by lowercase address
+   */
+  private async getKnownDeployments(): Promise<Map<string, KnownDeployment>> {
+    this.knownDeployments ??= await loadDeploymentIndex(this.hre);
+    return this.knownDeployments;
+  }
+
+  /**
+   * Custom error fragments from every known ABI, indexed by selector
+   */
+  private async getErrorFragments(): Promise<Map<string, ErrorFragment>> {
+    if (!this.errorFragments) {
+      this.errorFragments = new Map();
+      const abis = this.options.errorAbis ?? (await loadArtifactAbis(this.hre));
+
+      for (const abi of abis) {
+        for (const fragment of new Interface(abi).fragments) {
+          if (fragment instanceof ErrorFragment && !this.errorFragments.has(fragment.selector)) {
+            this.errorFragments.set(fragment.selector, fragment);
+          }
+        }
+      }
+    }
+    return this.errorFragments;
+  }
+}
+
+/**
+ * ABIs of every artifact compiled in the project
+ *
+ * @param hre - Hardhat runtime environment
+ */
+async function loadArtifactAbis(hre: HardhatRuntimeEnvironment): Promise<InterfaceAbi[]> {
+  const names = await hre.artifacts.getAllFullyQualifiedNames();
+  const artifacts = await Promise.all(names.map((name) => hre.artifacts.readArtifact(name)));
+  return artifacts.map((artifact) => artifact.abi);
+}
+
+/**
+ * Pull revert data out of the different error shapes thrown by Hardhat providers
+ *
+ * @param error - The thrown error
+ */
+function extractRevertData(error: unknown): string | undefined {
+  let current: unknown = error;
+
+  for (let depth = 0; current && typeof current === "object" && depth < 4; depth++) {
+    const { data, error: inner, cause } = current as { data?: unknown; error?: unknown; cause?: unknown };
+
+    if (typeof data === "string" && data.startsWith("0x")) {
+      return data;
+    }
+    current = data ?? inner ?? cause;
+  }
+  return undefined;
+}
+
+/**
+ * Human-readable method signature for a call, when the target ABI is known
+ *
+ * @param target - The target deployment
+ * @param data - The calldata
+ */
+function describeMethod(target: KnownDeployment | undefined, data: string): string | undefined {
+  if (!data || data === "0x") {
+    return undefined;
+  }
+
+  try {
+    return target?.iface.parseTransaction({ data })?.signature ?? data.slice(0, 10);
+  } catch {
+    return data.slice(0, 10);
+  }
+}
+
+/**
+ * Read every parameterless view getter of a known contract
+ *
+ * @param provider - The fork provider
+ * @param address - The contract address
+ * @param target - The contract deployment
+ */
+async function readGetters(provider: EthereumProvider, address: string, target?: KnownDeployment): Promise<Map<string, string>> {
+  const values = new Map<string, string>();
+
+  if (!target) {
+    return values;
+  }
+
+  const getters: FunctionFragment[] = [];
+  target.iface.forEachFunction((fragment) => {
+    if (fragment.inputs.length === 0 && (fragment.stateMutability === "view" || fragment.stateMutability === "pure")) {
+      getters.push(fragment);
+    }
+  });
+
+  await Promise.all(
+    getters.map(async (fragment) => {
+      try {
+        const result = await provider.request({
+          method: "eth_call",
+          params: [{ to: address, data: target.iface.encodeFunctionData(fragment) }, "latest"],
+        });
+        values.set(fragment.name, formatGetterResult(target.iface.decodeFunctionResult(fragment, result as string)));
+      } catch {
+        // Getters that revert in the current state are not part of the diff
+      }
+    }),
+  );
+  return values;
+}
+
+/**
+ * Getter values that differ before and after a call
+ *
+ * @param address - The contract address
+ * @param target - The contract deployment
+ * @param before - Getter values before the call
+ * @param after - Getter values after the call
+ */
+function diffGetters(
+  address: string,
+  target: KnownDeployment | undefined,
+  before: Map<string, string>,
+  after: Map<string, string>,
+): SafeSimulatedConfigChange[] {
+  const changes: SafeSimulatedConfigChange[] = [];
+
+  for (const [getter, value] of after) {
+    const previous = before.get(getter);
+
+    if (previous !== undefined && previous !== value) {
+      changes.push({ contract: address, contractName: target?.name, getter, before: previous, after: value });
+    }
+  }
+  return changes.sort((a, b) => a.getter.localeCompare(b.getter));
+}
+
+/**
+ * Decode AccessControl and Ownable events emitted during a call
+ *
+ * @param logs - Receipt logs
+ * @param contracts - Known deployments for naming
+ */
+function decodeGovernanceLogs(
+  logs: RpcReceipt["logs"],
+  contracts: Map<string, KnownDeployment>,
+): { roleChanges: SafeSimulatedRoleChange[]; ownershipChanges: SafeSimulatedOwnershipChange[] } {
+  const roleChanges: SafeSimulatedRoleChange[] = [];
+  const ownershipChanges: SafeSimulatedOwnershipChange[] = [];
+
+  for (const log of logs) {
+    const event = GOVERNANCE_EVENTS.parseLog(log);
+
+    if (!event) {
+      continue;
+    }
+
+    const contract = getAddress(log.address);
+    const contractName = contracts.get(contract.toLowerCase())?.name;
+
+    switch (event.name) {
+      case "RoleGranted":
+      case "RoleRevoked":
+        roleChanges.push({
+          contract,
+          contractName,
+          change: event.name === "RoleGranted" ? "granted" : "revoked",
+          role: event.args.role,
+          account: event.args.account,
+        });
+        break;
+      case "RoleAdminChanged":
+        roleChanges.push({
+          contract,
+          contractName,
+          change: "adminChanged",
+          role: event.args.role,
+          previousAdminRole: event.args.previousAdminRole,
+          newAdminRole: event.args.newAdminRole,
+        });
+        break;
+      default:
+        ownershipChanges.push({
+          contract,
+          contractName,
+          previousOwner: event.args.previousOwner,
+          newOwner: event.args.newOwner,
+          pending: event.name === "OwnershipTransferStarted",
+        });
+    }
+  }
+  return { roleChanges, ownershipChanges };
+}
+
+/**
+ * Render decoded error arguments as `a, b, c`
+ *
+ * @param result - Decoded values
+ */
+function formatArgs(result: Result): string {
+  return Array.from(result, formatAbiValue).join(", ");
+}
+
+/**
+ * Render a getter result as a single comparable string
+ *
+ * @param result - Decoded return values
+ */
+function formatGetterResult(result: Result): string {
+  return formatAbiValue(result.length === 1 ? result[0] : result);
+}
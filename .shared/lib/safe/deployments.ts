@@ -0,0 +1,37 @@
+import { Interface, InterfaceAbi } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * hardhat-deploy deployment resolved from a call target address
+ */
+export interface KnownDeployment {
+  readonly name: string;
+  readonly address: string;
+  readonly abi: InterfaceAbi;
+  readonly iface: Interface;
+}
+
+/**
+ * Index the network's hardhat-deploy deployments by lowercase address. Implementation
+ * artifacts are skipped and proxies resolve to their combined ABI ("Foo" over "Foo_Proxy").
+ *
+ * @param hre - Hardhat runtime environment
+ */
+export async function loadDeploymentIndex(hre: HardhatRuntimeEnvironment): Promise<Map<string, KnownDeployment>> {
+  const index = new Map<string, KnownDeployment>();
+  const deployments = hre.deployments ? await hre.deployments.all() : {};
+
+  for (const [name, deployment] of Object.entries(deployments)) {
+    if (name.endsWith("_Implementation")) {
+      continue;
+    }
+
+    const key = deployment.address.toLowerCase();
+    const existing = index.get(key);
+
+    if (!existing || name.length < existing.name.length) {
+      index.set(key, { name, address: deployment.address, abi: deployment.abi, iface: new Interface(deployment.abi) });
+    }
+  }
+  return index;
+}
@@ -0,0 +1,14 @@
+import { keccak256 } from "ethers";
+
+import { SafeTransactionData } from "./types";
+
+/**
+ * Deterministic idempotency key of a queued Safe operation: `<target>:<keccak256(calldata)>:<description>`.
+ * Two runs queueing the same call with the same description produce the same key.
+ *
+ * @param transaction - The Safe transaction data
+ * @param description - Human-readable description of the operation
+ */
+export function safeOperationKey(transaction: SafeTransactionData, description = ""): string {
+  return `${transaction.to.toLowerCase()}:${keccak256(transaction.data)}:${description}`;
+}
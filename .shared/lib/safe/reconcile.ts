@@ -0,0 +1,298 @@
+import { Interface, Log, Provider } from "ethers";
+
+import { SafeCompletedTransaction, SafeDeploymentState, SafeFailedTransaction, SafePendingTransaction } from "./types";
+
+const SAFE_ABI = [
+  "function nonce() view returns (uint256)",
+  "event ExecutionSuccess(bytes32 txHash, uint256 payment)",
+  "event ExecutionFailure(bytes32 txHash, uint256 payment)",
+];
+
+const safeInterface = new Interface(SAFE_ABI);
+const EXECUTION_SUCCESS_TOPIC = safeInterface.getEvent("ExecutionSuccess")!.topicHash;
+const EXECUTION_FAILURE_TOPIC = safeInterface.getEvent("ExecutionFailure")!.topicHash;
+
+/**
+ * Subset of the ethers provider used for reconciliation (kept narrow so tests can stub it)
+ */
+export type SafeReconcileProvider = Pick<Provider, "getBlockNumber" | "getBlock" | "getLogs" | "call">;
+
+/**
+ * Options for reconciling the Safe ledger against the chain
+ */
+export interface SafeReconcileOptions {
+  /** First block to scan for execution events (defaults to the block of the oldest pending entry) */
+  readonly fromBlock?: number;
+  /** Last block to scan (defaults to latest) */
+  readonly toBlock?: number;
+  /** Max block span per eth_getLogs request */
+  readonly logChunkSize?: number;
+}
+
+/**
+ * A Safe execution observed on-chain
+ */
+export interface SafeExecutionEvent {
+  readonly safeTxHash: string;
+  readonly success: boolean;
+  readonly transactionHash: string;
+  readonly blockNumber: number;
+  readonly logIndex: number;
+  nonce?: number;
+}
+
+/**
+ * Pending entry whose nonce was used by a different Safe transaction
+ */
+export interface SafeSupersededTransaction {
+  readonly pending: SafePendingTransaction;
+  readonly consumedBy?: SafeExecutionEvent;
+}
+
+/**
+ * Result of a reconciliation run
+ */
+export interface SafeReconcileReport {
+  readonly safeAddress: string;
+  readonly currentNonce: number;
+  readonly fromBlock: number;
+  readonly toBlock: number;
+  readonly completed: SafeCompletedTransaction[];
+  readonly failed: SafeFailedTransaction[];
+  readonly superseded: SafeSupersededTransaction[];
+  readonly stillPending: SafePendingTransaction[];
+}
+
+/**
+ * Reconcile the locally stored Safe ledger with on-chain Safe state.
+ *
+ * Pending entries whose safeTxHash emitted `ExecutionSuccess` move to completed (with the
+ * executing transaction hash), `ExecutionFailure` moves them to failed, and entries whose
+ * nonce is below the Safe's current nonce without a matching execution were replaced by a
+ * different transaction and are moved to failed with the consuming transaction noted.
+ *
+ * @param provider - Provider connected to the Safe's chain
+ * @param safeAddress - The Safe address
+ * @param state - The stored deployment state
+ * @param options - Block range options
+ */
+export async function reconcileSafeDeploymentState(
+  provider: SafeReconcileProvider,
+  safeAddress: string,
+  state: SafeDeploymentState,
+  options: SafeReconcileOptions = {},
+): Promise<{ state: SafeDeploymentState; report: SafeReconcileReport }> {
+  const currentNonce = await readSafeNonce(provider, safeAddress);
+  const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+  const oldestPending = state.pendingTransactions.reduce<number | undefined>(
+    (oldest, tx) => (oldest === undefined || tx.createdAt < oldest ? tx.createdAt : oldest),
+    undefined,
+  );
+  const fromBlock =
+    options.fromBlock ?? (oldestPending === undefined ? toBlock : await findBlockAtOrBefore(provider, Math.floor(oldestPending / 1000)));
+
+  const executions =
+    state.pendingTransactions.length > 0
+      ? await fetchExecutionEvents(provider, safeAddress, fromBlock, toBlock, options.logChunkSize ?? 10_000)
+      : [];
+  const executionsByHash = new Map(executions.map((event) => [event.safeTxHash.toLowerCase(), event]));
+
+  const completed: SafeCompletedTransaction[] = [];
+  const failed: SafeFailedTransaction[] = [];
+  const stale: SafePendingTransaction[] = [];
+  const stillPending: SafePendingTransaction[] = [];
+  const blockTimestamps = new Map<number, number>();
+
+  const executedAt = async (blockNumber: number): Promise<number> => {
+    if (!blockTimestamps.has(blockNumber)) {
+      const block = await provider.getBlock(blockNumber);
+      blockTimestamps.set(blockNumber, (block?.timestamp ?? Math.floor(Date.now() / 1000)) * 1000);
+    }
+    return blockTimestamps.get(blockNumber)!;
+  };
+
+  for (const pending of state.pendingTransactions) {
+    const execution = executionsByHash.get(pending.safeTxHash.toLowerCase());
+
+    if (execution?.success) {
+      completed.push({
+        id: pending.id,
+        safeTxHash: pending.safeTxHash,
+        transactionHash: execution.transactionHash,
+        description: pending.description,
+        executedAt: await executedAt(execution.blockNumber),
+      });
+    } else if (execution) {
+      failed.push({
+        id: pending.id,
+        safeTxHash: pending.safeTxHash,
+        description: pending.description,
+        error: `ExecutionFailure in ${execution.transactionHash}`,
+        failedAt: await executedAt(execution.blockNumber),
+      });
+    } else if (pending.nonce !== undefined && pending.nonce < currentNonce) {
+      stale.push(pending);
+    } else {
+      stillPending.push(pending);
+    }
+  }
+
+  if (stale.length > 0) {
+    await assignExecutionNonces(provider, safeAddress, executions);
+  }
+
+  const superseded: SafeSupersededTransaction[] = stale.map((pending) => ({
+    pending,
+    consumedBy: executions.find((event) => event.nonce === pending.nonce),
+  }));
+
+  for (const { pending, consumedBy } of superseded) {
+    failed.push({
+      id: pending.id,
+      safeTxHash: pending.safeTxHash,
+      description: pending.description,
+      error: consumedBy
+        ? `Nonce ${pending.nonce} consumed by ${consumedBy.safeTxHash} (tx ${consumedBy.transactionHash})`
+        : `Nonce ${pending.nonce} consumed by a different transaction (current Safe nonce ${currentNonce})`,
+      failedAt: Date.now(),
+    });
+  }
+
+  return {
+    state: {
+      pendingTransactions: stillPending,
+      completedTransactions: [...state.completedTransactions, ...completed],
+      failedTransactions: [...state.failedTransactions, ...failed],
+    },
+    report: {
+      safeAddress,
+      currentNonce,
+      fromBlock,
+      toBlock,
+      completed,
+      failed,
+      superseded,
+      stillPending,
+    },
+  };
+}
+
+/**
+ * Read the Safe's current nonce
+ *
+ * @param provider - Provider connected to the Safe's chain
+ * @param safeAddress - The Safe address
+ * @param blockTag - Optional block to read at
+ */
+async function readSafeNonce(provider: SafeReconcileProvider, safeAddress: string, blockTag?: number): Promise<number> {
+  const result = await provider.call({ to: safeAddress, data: safeInterface.encodeFunctionData("nonce"), blockTag });
+  return Number(safeInterface.decodeFunctionResult("nonce", result)[0]);
+}
+
+/**
+ * Fetch ExecutionSuccess/ExecutionFailure events emitted by the Safe in a block range
+ *
+ * @param provider - Provider connected to the Safe's chain
+ * @param safeAddress - The Safe address
+ * @param fromBlock - First block
+ * @param toBlock - Last block
+ * @param chunkSize - Max blocks per request
+ */
+export async function fetchExecutionEvents(
+  provider: SafeReconcileProvider,
+  safeAddress: string,
+  fromBlock: number,
+  toBlock: number,
+  chunkSize: number,
+): Promise<SafeExecutionEvent[]> {
+  const events: SafeExecutionEvent[] = [];
+
+  for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+    const end = Math.min(toBlock, start + chunkSize - 1);
+    const logs = await provider.getLogs({
+      address: safeAddress,
+      fromBlock: start,
+      toBlock: end,
+      topics: [[EXECUTION_SUCCESS_TOPIC, EXECUTION_FAILURE_TOPIC]],
+    });
+
+    for (const log of logs) {
+      events.push({
+        safeTxHash: decodeExecutionTxHash(log),
+        success: log.topics[0] === EXECUTION_SUCCESS_TOPIC,
+        transactionHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        logIndex: log.index,
+      });
+    }
+  }
+
+  return events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
+
+/**
+ * Safe v1.3 emits the hash in data, v1.4+ indexes it; support both layouts
+ *
+ * @param log - Execution log
+ */
+function decodeExecutionTxHash(log: Pick<Log, "topics" | "data">): string {
+  if (log.topics.length > 1) {
+    return log.topics[1];
+  }
+  return `0x${log.data.slice(2, 66)}`;
+}
+
+/**
+ * Derive the nonce each execution consumed from the Safe nonce at the end of its block.
+ * Requires historical state; executions whose nonce cannot be read are left without one.
+ *
+ * @param provider - Provider connected to the Safe's chain
+ * @param safeAddress - The Safe address
+ * @param executions - Executions sorted by block and log index
+ */
+async function assignExecutionNonces(
+  provider: SafeReconcileProvider,
+  safeAddress: string,
+  executions: SafeExecutionEvent[],
+): Promise<void> {
+  const byBlock = new Map<number, SafeExecutionEvent[]>();
+
+  for (const execution of executions) {
+    byBlock.set(execution.blockNumber, [...(byBlock.get(execution.blockNumber) ?? []), execution]);
+  }
+
+  for (const [blockNumber, blockExecutions] of byBlock) {
+    try {
+      const nonceAfterBlock = await readSafeNonce(provider, safeAddress, blockNumber);
+      blockExecutions.forEach((execution, index) => {
+        execution.nonce = nonceAfterBlock - blockExecutions.length + index;
+      });
+    } catch (error) {
+      console.warn(`⚠️ Could not read Safe nonce at block ${blockNumber}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+/**
+ * Binary search for the last block mined at or before a timestamp
+ *
+ * @param provider - Provider connected to the chain
+ * @param timestamp - Unix timestamp in seconds
+ */
+export async function findBlockAtOrBefore(provider: SafeReconcileProvider, timestamp: number): Promise<number> {
+  let low = 0;
+  let high = await provider.getBlockNumber();
+
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    const block = await provider.getBlock(mid);
+
+    if (block && block.timestamp <= timestamp) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return low;
+}
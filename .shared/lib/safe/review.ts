@@ -0,0 +1,537 @@
+import { ParamType, TransactionDescription, ZeroHash } from "ethers";
+import fs from "fs";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { readRoleConstants } from "../roles/scan";
+import { formatAbiValue } from "./abi-values";
+import { KnownDeployment, loadDeploymentIndex } from "./deployments";
+import { SafeBatchSimulation, SafeSimulatedCall, SafeTransactionData } from "./types";
+
+const UPGRADE_FUNCTIONS = new Set(["upgradeTo", "upgradeToAndCall", "upgrade", "upgradeAndCall"]);
+
+/**
+ * Decoded argument of a batch call
+ */
+export interface SafeBatchReviewArg {
+  readonly name: string;
+  readonly type: string;
+  readonly value: string;
+  /** Deployment name for addresses, role name for role hashes */
+  readonly label?: string;
+}
+
+/**
+ * Something a signer should look at before approving
+ */
+export interface SafeBatchReviewFlag {
+  readonly severity: "danger" | "warning";
+  readonly message: string;
+}
+
+/**
+ * One decoded call of a batch
+ */
+export interface SafeBatchReviewCall {
+  readonly index: number;
+  readonly to: string;
+  readonly contractName?: string;
+  readonly functionName?: string;
+  readonly signature?: string;
+  readonly value: string;
+  readonly data: string;
+  readonly args: SafeBatchReviewArg[];
+  readonly flags: SafeBatchReviewFlag[];
+  readonly simulation?: SafeSimulatedCall;
+  /** Role, ownership and config changes observed in simulation */
+  readonly changes: string[];
+}
+
+/**
+ * Human-readable review of an exported Safe batch
+ */
+export interface SafeBatchReview {
+  readonly description: string;
+  readonly safeTxHash: string;
+  readonly safeAddress: string;
+  readonly chainId: number;
+  readonly network: string;
+  readonly createdAt: number;
+  readonly calls: SafeBatchReviewCall[];
+  readonly simulation?: SafeBatchSimulation;
+}
+
+/**
+ * Input for building a batch review
+ */
+export interface SafeBatchReviewInput {
+  readonly description: string;
+  readonly safeTxHash: string;
+  readonly safeAddress: string;
+  readonly chainId: number;
+  readonly transactions: SafeTransactionData[];
+  readonly simulation?: SafeBatchSimulation;
+}
+
+/**
+ * Lookups used to label decoded arguments
+ */
+interface ArgLabels {
+  readonly deployments: Map<string, KnownDeployment>;
+  readonly roleNames: Map<string, string>;
+  readonly safeAddress: string;
+}
+
+/**
+ * Decode a batch against the network's deployments: targets become deployment names,
+ * calldata becomes named arguments, role hashes become role names, and dangerous
+ * governance operations are flagged.
+ *
+ * @param hre - Hardhat runtime environment
+ * @param input - The batch to review
+ */
+export async function buildSafeBatchReview(hre: HardhatRuntimeEnvironment, input: SafeBatchReviewInput): Promise<SafeBatchReview> {
+  const deployments = await loadDeploymentIndex(hre);
+  const roleNames = await loadRoleNames(hre, input.transactions, deployments);
+
+  const calls = input.transactions.map((transaction, index): SafeBatchReviewCall => {
+    const target = deployments.get(transaction.to.toLowerCase());
+    const simulation = input.simulation?.calls[index];
+    const targetRoles = roleNames.get(transaction.to.toLowerCase()) ?? roleNames.get("*")!;
+    const flags: SafeBatchReviewFlag[] = [];
+    const base = {
+      index,
+      to: transaction.to,
+      contractName: target?.name,
+      value: transaction.value || "0",
+      data: transaction.data,
+      simulation,
+      changes: simulationChanges(simulation, targetRoles),
+    };
+
+    if (simulation?.status === "reverted") {
+      flags.push({ severity: "warning", message: `Simulation reverted: ${simulation.revertReason ?? "unknown reason"}` });
+    }
+
+    if (transaction.operation === 1) {
+      flags.push({ severity: "danger", message: "DelegateCall runs the target's code in the Safe's own context" });
+    }
+
+    const parsed = parseCall(target, transaction);
+
+    if (!parsed) {
+      if (transaction.data && transaction.data !== "0x") {
+        flags.push({
+          severity: "warning",
+          message: target ? `Calldata does not match the ${target.name} ABI` : "Target is not a known deployment; calldata not decoded",
+        });
+      }
+      return { ...base, args: [], flags };
+    }
+
+    const labels: ArgLabels = {
+      deployments,
+      roleNames: targetRoles,
+      safeAddress: input.safeAddress,
+    };
+    const args = parsed.fragment.inputs.map((param, i) => describeArg(param, parsed.args[i], i, labels));
+    flags.push(...detectDangerousOperations(parsed, args, target?.name ?? transaction.to));
+
+    return { ...base, functionName: parsed.name, signature: parsed.signature, args, flags };
+  });
+
+  return {
+    description: input.description,
+    safeTxHash: input.safeTxHash,
+    safeAddress: input.safeAddress,
+    chainId: input.chainId,
+    network: hre.network.name,
+    createdAt: Date.now(),
+    calls,
+    simulation: input.simulation,
+  };
+}
+
+/**
+ * Build the review and write it next to the Transaction Builder JSON as `<base>.review.md` and `<base>.review.html`
+ *
+ * @param hre - Hardhat runtime environment
+ * @param basePath - Output path without extension
+ * @param input - The batch to review
+ * @returns The written file paths
+ */
+export async function writeSafeBatchReview(
+  hre: HardhatRuntimeEnvironment,
+  basePath: string,
+  input: SafeBatchReviewInput,
+): Promise<{ markdownPath: string; htmlPath: string }> {
+  const review = await buildSafeBatchReview(hre, input);
+  const markdownPath = `${basePath}.review.md`;
+  const htmlPath = `${basePath}.review.html`;
+  fs.writeFileSync(markdownPath, renderSafeBatchReviewMarkdown(review));
+  fs.writeFileSync(htmlPath, renderSafeBatchReviewHtml(review));
+  return { markdownPath, htmlPath };
+}
+
+/**
+ * Render a batch review as Markdown
+ *
+ * @param review - The batch review
+ */
+export function renderSafeBatchReviewMarkdown(review: SafeBatchReview): string {
+  const lines: string[] = [
+    `# Safe batch review: ${review.description}`,
+    "",
+    "| | |",
+    "|---|---|",
+    ...summaryRows(review).map(([key, value]) => `| ${key} | ${value} |`),
+    "",
+  ];
+  const flagged = review.calls.filter((call) => call.flags.length > 0);
+
+  if (flagged.length > 0) {
+    lines.push(`## ⚠️ Requires attention (${flagged.length})`, "");
+
+    for (const call of flagged) {
+      for (const flag of call.flags) {
+        lines.push(`- ${flag.severity === "danger" ? "🛑" : "⚠️"} **#${call.index + 1} ${callTitle(call)}**: ${flag.message}`);
+      }
+    }
+    lines.push("");
+  }
+
+  lines.push("## Operations", "");
+
+  for (const call of review.calls) {
+    lines.push(`### ${call.index + 1}. ${callTitle(call)}`, "");
+    lines.push(`- Target: \`${call.to}\`${call.contractName ? ` (${call.contractName})` : ""}`);
+    lines.push(`- Function: ${call.signature ? `\`${call.signature}\`` : "unknown"}`);
+    lines.push(`- Value: ${call.value} wei`);
+
+    if (call.simulation) {
+      lines.push(`- Simulation: ${describeSimulation(call.simulation)}`);
+    }
+    lines.push("");
+
+    if (call.args.length > 0) {
+      lines.push("| Argument | Type | Value |", "|---|---|---|");
+
+      for (const arg of call.args) {
+        lines.push(`| ${arg.name} | ${arg.type} | ${arg.label ? `**${arg.label}** ` : ""}\`${escapeMarkdownCell(arg.value)}\` |`);
+      }
+      lines.push("");
+    }
+
+    if (call.changes.length > 0) {
+      lines.push(...call.changes.map((change) => `- ${change}`), "");
+    }
+    lines.push("<details><summary>Raw calldata</summary>", "", "```", call.data, "```", "", "</details>", "");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Render a batch review as a standalone HTML page
+ *
+ * @param review - The batch review
+ */
+export function renderSafeBatchReviewHtml(review: SafeBatchReview): string {
+  const flagged = review.calls.filter((call) => call.flags.length > 0);
+  const attention =
+    flagged.length === 0
+      ? ""
+      : `<h2>⚠️ Requires attention (${flagged.length})</h2><ul>${flagged
+          .flatMap((call) =>
+            call.flags.map(
+              (flag) =>
+                `<li class="${flag.severity}"><strong>#${call.index + 1} ${escapeHtml(callTitle(call))}</strong>: ${escapeHtml(flag.message)}</li>`,
+            ),
+          )
+          .join("")}</ul>`;
+
+  const operations = review.calls
+    .map((call) => {
+      const args =
+        call.args.length === 0
+          ? ""
+          : `<table><tr><th>Argument</th><th>Type</th><th>Value</th></tr>${call.args
+              .map(
+                (arg) =>
+                  `<tr><td>${escapeHtml(arg.name)}</td><td>${escapeHtml(arg.type)}</td><td>${
+                    arg.label ? `<strong>${escapeHtml(arg.label)}</strong> ` : ""
+                  }<code>${escapeHtml(arg.value)}</code></td></tr>`,
+              )
+              .join("")}</table>`;
+      const changes = call.changes.map((change) => `<li>${escapeHtml(change)}</li>`).join("");
+      return [
+        `<section class="${call.flags.some((flag) => flag.severity === "danger") ? "danger" : ""}">`,
+        `<h3>${call.index + 1}. ${escapeHtml(callTitle(call))}</h3>`,
+        `<ul><li>Target: <code>${escapeHtml(call.to)}</code>${call.contractName ? ` (${escapeHtml(call.contractName)})` : ""}</li>`,
+        `<li>Function: ${call.signature ? `<code>${escapeHtml(call.signature)}</code>` : "unknown"}</li>`,
+        `<li>Value: ${escapeHtml(call.value)} wei</li>`,
+        call.simulation ? `<li>Simulation: ${escapeHtml(describeSimulation(call.simulation))}</li>` : "",
+        `</ul>${args}`,
+        changes ? `<ul>${changes}</ul>` : "",
+        `<details><summary>Raw calldata</summary><pre>${escapeHtml(call.data)}</pre></details>`,
+        `</section>`,
+      ].join("");
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Safe batch review: ${escapeHtml(review.description)}</title>
+<style>
+body { font-family: sans-serif; max-width: 1100px; margin: 2em auto; }
+table { border-collapse: collapse; margin: 0.5em 0; }
+td, th { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; }
+code, pre { word-break: break-all; white-space: pre-wrap; }
+section { border-left: 4px solid #ccc; padding-left: 1em; margin-bottom: 1.5em; }
+section.danger, li.danger { border-color: #c00; color: #900; }
+li.warning { color: #a60; }
+</style>
+</head>
+<body>
+<h1>Safe batch review: ${escapeHtml(review.description)}</h1>
+<table>${summaryRows(review)
+    .map(([key, value]) => `<tr><th>${escapeHtml(key)}</th><td>${escapeHtml(value.replace(/`/g, ""))}</td></tr>`)
+    .join("")}</table>
+${attention}
+<h2>Operations</h2>
+${operations}
+</body>
+</html>
+`;
+}
+
+/**
+ * Role hash → role name maps for every batch target, plus a merged fallback under "*"
+ * so hashes passed to one contract can be labelled by constants defined on another
+ *
+ * @param hre - Hardhat runtime environment
+ * @param transactions - Batch calls
+ * @param deployments - Deployment index
+ */
+async function loadRoleNames(
+  hre: HardhatRuntimeEnvironment,
+  transactions: SafeTransactionData[],
+  deployments: Map<string, KnownDeployment>,
+): Promise<Map<string, Map<string, string>>> {
+  const merged = new Map<string, string>([[ZeroHash, "DEFAULT_ADMIN_ROLE"]]);
+  const perTarget = new Map<string, Map<string, string>>();
+  const targets = Array.from(new Set(transactions.map((transaction) => transaction.to.toLowerCase())));
+
+  for (const address of targets) {
+    const deployment = deployments.get(address);
+
+    if (!deployment) {
+      continue;
+    }
+
+    const roles = await readRoleConstants(hre, deployment.address, deployment.abi as Parameters<typeof readRoleConstants>[2]);
+    perTarget.set(address, new Map(roles.map((role) => [role.hash.toLowerCase(), role.name])));
+
+    for (const role of roles) {
+      if (!merged.has(role.hash.toLowerCase())) {
+        merged.set(role.hash.toLowerCase(), role.name);
+      }
+    }
+  }
+
+  for (const [address, roles] of perTarget) {
+    perTarget.set(address, new Map([...merged, ...roles]));
+  }
+  perTarget.set("*", merged);
+  return perTarget;
+}
+
+/**
+ * Parse calldata with the target deployment ABI
+ *
+ * @param target - The target deployment
+ * @param transaction - The batch call
+ */
+function parseCall(target: KnownDeployment | undefined, transaction: SafeTransactionData): TransactionDescription | null {
+  if (!target || !transaction.data || transaction.data === "0x") {
+    return null;
+  }
+
+  try {
+    return target.iface.parseTransaction({ data: transaction.data, value: transaction.value || "0" });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Render one decoded argument with its label. Elements of address and bytes32 arrays are
+ * labelled in order, with `?` for elements that have no label.
+ *
+ * @param param - ABI parameter
+ * @param value - Decoded value
+ * @param index - Parameter position (used when the ABI parameter is unnamed)
+ * @param labels - Label lookups
+ */
+function describeArg(param: ParamType, value: unknown, index: number, labels: ArgLabels): SafeBatchReviewArg {
+  const name = param.name || `arg${index}`;
+
+  if (param.isArray() && Array.isArray(value)) {
+    const elementLabels = Array.from(value, (element) => labelValue(param.arrayChildren.type, element, labels));
+    const labelled = elementLabels.some((element) => element !== undefined);
+    const label = labelled ? `[${elementLabels.map((element) => element ?? "?").join(", ")}]` : undefined;
+    return { name, type: param.type, value: formatAbiValue(value), label };
+  }
+
+  return { name, type: param.type, value: formatAbiValue(value), label: labelValue(param.type, value, labels) };
+}
+
+/**
+ * Name an address (Safe or deployment) or a bytes32 (role hash)
+ *
+ * @param type - ABI type of the value
+ * @param value - Decoded value
+ * @param labels - Label lookups
+ */
+function labelValue(type: string, value: unknown, labels: ArgLabels): string | undefined {
+  if (type === "address") {
+    const address = String(value).toLowerCase();
+    return address === labels.safeAddress.toLowerCase() ? "Safe" : labels.deployments.get(address)?.name;
+  }
+
+  if (type === "bytes32") {
+    return labels.roleNames.get(String(value).toLowerCase());
+  }
+  return undefined;
+}
+
+/**
+ * Flag operations that can remove governance control or replace code
+ *
+ * @param parsed - The decoded call
+ * @param args - Described arguments
+ * @param contract - Target name for messages
+ */
+function detectDangerousOperations(parsed: TransactionDescription, args: SafeBatchReviewArg[], contract: string): SafeBatchReviewFlag[] {
+  const flags: SafeBatchReviewFlag[] = [];
+  const describe = (arg?: SafeBatchReviewArg): string => (arg ? (arg.label ? `${arg.label} (${arg.value})` : arg.value) : "?");
+
+  if (parsed.name === "revokeRole" && args[0]?.value === ZeroHash) {
+    flags.push({ severity: "danger", message: `Revokes DEFAULT_ADMIN_ROLE on ${contract} from ${describe(args[1])}` });
+  }
+
+  if (parsed.name === "renounceRole") {
+    flags.push({ severity: "danger", message: `Renounces ${describe(args[0])} on ${contract}; this cannot be undone by the renouncer` });
+  }
+
+  if (parsed.name === "transferOwnership") {
+    flags.push({ severity: "danger", message: `Transfers ownership of ${contract} to ${describe(args[0])}` });
+  }
+
+  if (parsed.name === "renounceOwnership") {
+    flags.push({ severity: "danger", message: `Renounces ownership of ${contract}; nobody will own it afterwards` });
+  }
+
+  if (UPGRADE_FUNCTIONS.has(parsed.name)) {
+    const implementation = args.find((arg) => arg.type === "address" && arg.name !== "proxy");
+    flags.push({ severity: "danger", message: `Upgrades ${contract} to implementation ${describe(implementation)}` });
+  }
+
+  return flags;
+}
+
+/**
+ * Key/value rows for the review header
+ *
+ * @param review - The batch review
+ */
+function summaryRows(review: SafeBatchReview): [string, string][] {
+  const rows: [string, string][] = [
+    ["Safe", `\`${review.safeAddress}\``],
+    ["Network", `${review.network} (chain ${review.chainId})`],
+    ["Safe tx hash", `\`${review.safeTxHash}\``],
+    ["Operations", String(review.calls.length)],
+    ["Generated", new Date(review.createdAt).toISOString()],
+  ];
+
+  if (review.simulation) {
+    const reverted = review.simulation.calls.find((call) => call.status === "reverted");
+    rows.push([
+      "Simulation",
+      reverted
+        ? `❌ reverted at operation ${reverted.index + 1} (fork block ${review.simulation.forkBlockNumber})`
+        : `✅ all operations succeeded (fork block ${review.simulation.forkBlockNumber})`,
+    ]);
+  } else {
+    rows.push(["Simulation", "not run"]);
+  }
+  return rows;
+}
+
+/**
+ * Short title of a call: `Contract.function` or the raw target
+ *
+ * @param call - The reviewed call
+ */
+function callTitle(call: SafeBatchReviewCall): string {
+  return `${call.contractName ?? call.to}.${call.functionName ?? call.data.slice(0, 10)}`;
+}
+
+/**
+ * One-line simulation outcome of a call
+ *
+ * @param simulation - Simulated call
+ */
+function describeSimulation(simulation: SafeSimulatedCall): string {
+  if (simulation.status === "success") {
+    return `success (gas ${simulation.gasUsed})`;
+  }
+  return simulation.revertReason ? `${simulation.status}: ${simulation.revertReason}` : simulation.status;
+}
+
+/**
+ * Role, ownership and config changes observed during simulation
+ *
+ * @param simulation - Simulated call
+ * @param roleNames - Role hash → name lookup
+ */
+function simulationChanges(simulation: SafeSimulatedCall | undefined, roleNames: Map<string, string>): string[] {
+  if (!simulation) {
+    return [];
+  }
+
+  const role = (hash?: string): string => (hash ? (roleNames.get(hash.toLowerCase()) ?? hash) : "?");
+  return [
+    ...simulation.roleChanges.map((change) =>
+      change.change === "adminChanged"
+        ? `Role admin of ${role(change.role)} changed ${role(change.previousAdminRole)} → ${role(change.newAdminRole)} on ${change.contractName ?? change.contract}`
+        : `Role ${role(change.role)} ${change.change} ${change.change === "granted" ? "to" : "from"} ${change.account} on ${change.contractName ?? change.contract}`,
+    ),
+    ...simulation.ownershipChanges.map(
+      (change) =>
+        `Ownership ${change.pending ? "transfer started" : "transferred"} ${change.previousOwner} → ${change.newOwner} on ${change.contractName ?? change.contract}`,
+    ),
+    ...simulation.configChanges.map(
+      (change) => `${change.contractName ?? change.contract}.${change.getter}: ${change.before} → ${change.after}`,
+    ),
+  ];
+}
+
+/**
+ * Escape characters that break Markdown table cells
+ *
+ * @param value - Cell content
+ */
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/`/g, "'");
+}
+
+/**
+ * Escape text for HTML output
+ *
+ * @param value - Raw text
+ */
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
@@ -0,0 +1,743 @@
+import Safe from "@safe-global/protocol-kit";
+import { Signer } from "ethers";
+import fs from "fs";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import path from "path";
+
+import { estimateSafeCallGas, sliceSafeBatchSimulation, splitSafeBatch } from "./batch-budget";
+import { SafeBatchSimulator } from "./batch-simulator";
+import { reconcileSafeDeploymentState, SafeReconcileOptions, SafeReconcileReport } from "./reconcile";
+import { writeSafeBatchReview } from "./review";
+import { FileSafeStateStorage, getNetworkDeploymentsPath, SafeStateStorage } from "./storage";
+import { SafeTransactionService } from "./transaction-service";
+import {
+  SafeBatchSimulation,
+  SafeConfig,
+  SafeManagerOptions,
+  SafeOperationResult,
+  SafePendingTransaction,
+  SafeTransactionBatch,
+  SafeTransactionData,
+} from "./types";
+
+type SafeTransaction = Awaited<ReturnType<Safe["createTransaction"]>>;
+
+/**
+ * Outcome of submitting a batch to the Safe Transaction Service
+ */
+interface TransactionServiceSubmission {
+  readonly proposed: boolean;
+  readonly signers: string[];
+  readonly requiredSignatures?: number;
+}
+
+/**
+ * SafeManager provides a comprehensive wrapper around Safe Protocol Kit
+ * for automated multi-signature governance operations.
+ *
+ * By default batches are prepared offline (hash + Transaction Builder JSON).
+ * When `enableApiKit` and `enableTransactionService` are set and the Safe
+ * config has a `txServiceUrl`, batches are also proposed to that service,
+ * signed by the signer when `signingMode` is "owner", and their confirmation
+ * count is tracked in the pending transaction entries.
+ *
+ * The pending/completed/failed ledger is kept in `options.storage`, which defaults
+ * to `deployments/<network>/safe-deployment-state.json`.
+ */
+export class SafeManager {
+  private protocolKit?: Safe;
+  private transactionService?: SafeTransactionService;
+  private batchSimulator?: SafeBatchSimulator;
+  private storage: SafeStateStorage;
+  private signer: Signer;
+  private config: SafeConfig;
+  private hre: HardhatRuntimeEnvironment;
+  private options: SafeManagerOptions;
+
+  constructor(hre: HardhatRuntimeEnvironment, signer: Signer, options: SafeManagerOptions) {
+    this.hre = hre;
+    this.signer = signer;
+    this.config = options.safeConfig;
+    this.options = {
+      ...options,
+      retryAttempts: options.retryAttempts ?? 3,
+      retryDelayMs: options.retryDelayMs ?? 1000,
+      enableApiKit: options.enableApiKit ?? false,
+      enableTransactionService: options.enableTransactionService ?? false,
+      signingMode: options.signingMode ?? "none",
+      simulateOnFork: options.simulateOnFork ?? true,
+    };
+
+    if (this.options.enableTransactionService && !this.options.enableApiKit) {
+      throw new Error("enableTransactionService requires enableApiKit");
+    }
+
+    if (this.options.enableApiKit) {
+      if (!this.config.txServiceUrl) {
+        throw new Error("enableApiKit requires safeConfig.txServiceUrl");
+      }
+
+      this.transactionService = new SafeTransactionService({
+        chainId: this.config.chainId,
+        txServiceUrl: this.config.txServiceUrl,
+        retryAttempts: this.options.retryAttempts,
+        retryDelayMs: this.options.retryDelayMs,
+      });
+    }
+
+    this.storage = options.storage ?? FileSafeStateStorage.forNetwork(hre);
+  }
+
+  /**
+   * Initialize Safe Protocol Kit and optionally API Kit
+   */
+  async initialize(): Promise<void> {
+    try {
+      console.log(`🔄 Initializing Safe Protocol Kit for Safe ${this.config.safeAddress}`);
+
+      // Resolve signer address synchronously so we pass a concrete string
+      // value to Safe.init instead of a Promise (satisfies linter types).
+      let signerAddress: string;
+
+      try {
+        signerAddress = await this.signer.getAddress();
+      } catch {
+        signerAddress = this.config.owners?.[0] || this.config.safeAddress;
+      }
+
+      this.protocolKit = await Safe.init({
+        // Safe Protocol Kit v4 expects an EIP-1193 provider (e.g., window.ethereum or Hardhat's provider)
+        provider: this.hre.network.provider,
+        // Provide a hex address string to avoid triggering Passkey signer flow
+        // Use an explicitly typed async IIFE to satisfy the linter's explicit return type rule
+        signer: signerAddress,
+        safeAddress: this.config.safeAddress,
+        contractNetworks: this.getContractNetworks(),
+      });
+
+      // Verify Safe configuration
+      await this.verifySafeConfiguration();
+
+      console.log(`💾 Safe transaction ledger: ${this.storage.describe()}`);
+
+      if (this.transactionService) {
+        console.log(`🔗 Safe Transaction Service: ${this.config.txServiceUrl} (signing mode: ${this.options.signingMode})`);
+      }
+
+      console.log(`✅ Safe Manager initialized successfully`);
+    } catch (error) {
+      console.error(`❌ Failed to initialize Safe Manager:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Verify that the Safe configuration matches on-chain state
+   */
+  private async verifySafeConfiguration(): Promise<void> {
+    if (!this.protocolKit) {
+      throw new Error("Protocol Kit not initialized");
+    }
+
+    const onChainOwners = await this.protocolKit.getOwners();
+    const onChainThreshold = await this.protocolKit.getThreshold();
+
+    console.log(`📊 Safe owners: ${onChainOwners.length}, threshold: ${onChainThreshold}`);
+
+    // Verify threshold matches
+    if (onChainThreshold !== this.config.threshold) {
+      console.warn(`⚠️ Threshold mismatch: config=${this.config.threshold}, on-chain=${onChainThreshold}`);
+    }
+
+    // Verify all configured owners are actual owners
+    const missingOwners = this.config.owners.filter((owner) => !onChainOwners.map((o) => o.toLowerCase()).includes(owner.toLowerCase()));
+
+    if (missingOwners.length > 0) {
+      console.warn(`⚠️ Config owners not found on-chain: ${missingOwners.join(", ")}`);
+    }
+
+    const extraOwners = onChainOwners.filter((owner) => !this.config.owners.map((o) => o.toLowerCase()).includes(owner.toLowerCase()));
+
+    if (extraOwners.length > 0) {
+      console.warn(`⚠️ Unexpected owners found on-chain: ${extraOwners.join(", ")}`);
+    }
+  }
+
+  /**
+   * MultiSend overrides from the Safe config, for chains where the SDK has no (or the wrong) default
+   */
+  private getContractNetworks(): Parameters<typeof Safe.init>[0]["contractNetworks"] {
+    if (!this.config.multiSendAddress && !this.config.multiSendCallOnlyAddress) {
+      return undefined;
+    }
+    return {
+      [this.config.chainId.toString()]: {
+        // The SDK type lists every Safe contract; only the MultiSend entries are overridden here
+        ...(this.config.multiSendAddress ? { multiSendAddress: this.config.multiSendAddress } : {}),
+        ...(this.config.multiSendCallOnlyAddress ? { multiSendCallOnlyAddress: this.config.multiSendCallOnlyAddress } : {}),
+      } as NonNullable<Parameters<typeof Safe.init>[0]["contractNetworks"]>[string],
+    };
+  }
+
+  /**
+   * Create a batch Safe transaction for multiple operations
+   *
+   * @param batch - The batch of transactions to execute
+   */
+  async createBatchTransaction(batch: SafeTransactionBatch): Promise<SafeOperationResult> {
+    if (!this.protocolKit) {
+      throw new Error("Safe Manager not initialized. Call initialize() first.");
+    }
+
+    try {
+      console.log(`🔄 Creating Safe batch transaction: ${batch.description}`);
+      console.log(`   Operations: ${batch.transactions.length}`);
+
+      const simulation = batch.simulation ?? (await this.simulateBatch(batch.transactions));
+
+      const description = `${batch.description} (${batch.transactions.length} operations)`;
+      // Queue behind proposals already on the service so several pending batches do not share a nonce
+      const nonce =
+        batch.nonce ?? (this.isProposalEnabled() ? await this.transactionService!.getNextNonce(this.config.safeAddress) : undefined);
+      const safeTransaction = await this.protocolKit.createTransaction({
+        transactions: batch.transactions,
+        options: nonce !== undefined ? { nonce } : undefined,
+      });
+      const safeTxHash = await this.protocolKit.getTransactionHash(safeTransaction);
+
+      if (!this.isProposalEnabled()) {
+        console.log(`📝 Batch prepared (offline mode). Hash: ${safeTxHash}`);
+        await this.storePendingTransaction(safeTxHash, batch.transactions[0], description, {
+          nonce: safeTransaction.data.nonce,
+          operationKeys: batch.operationKeys,
+        });
+        await this.exportTransactionBuilderBatch(batch.transactions, description, safeTxHash, simulation);
+        return {
+          success: true,
+          safeTxHash,
+          nonce: safeTransaction.data.nonce,
+          requiresAdditionalSignatures: true,
+        };
+      }
+
+      console.log(`📝 Batch prepared for Safe Transaction Service (nonce ${safeTransaction.data.nonce}). Hash: ${safeTxHash}`);
+      const submission = await this.submitToTransactionService(safeTransaction, safeTxHash, batch.description);
+      const threshold = submission.requiredSignatures ?? (await this.protocolKit.getThreshold());
+      await this.storePendingTransaction(safeTxHash, batch.transactions[0], description, {
+        nonce: safeTransaction.data.nonce,
+        proposed: submission.proposed,
+        signers: submission.signers,
+        requiredSignatures: threshold,
+        operationKeys: batch.operationKeys,
+      });
+      await this.exportTransactionBuilderBatch(batch.transactions, description, safeTxHash, simulation);
+
+      return {
+        success: true,
+        safeTxHash,
+        nonce: safeTransaction.data.nonce,
+        proposed: submission.proposed,
+        currentSignatures: submission.signers.length,
+        requiresAdditionalSignatures: submission.signers.length < threshold,
+      };
+    } catch (error) {
+      console.error(`❌ Failed to create Safe batch transaction:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Create one or more Safe batches for the calls, split in order so each stays under the
+   * configured gas ceiling and calldata limit. Gas is measured by simulating all calls in
+   * order on a fork. Batches use consecutive nonces and are labelled "k of n".
+   *
+   * @param batch - The calls to execute, in order
+   * @returns One result per created batch; stops after the first failure
+   */
+  async createSplitBatchTransactions(batch: SafeTransactionBatch): Promise<SafeOperationResult[]> {
+    if (!this.protocolKit) {
+      throw new Error("Safe Manager not initialized. Call initialize() first.");
+    }
+
+    const simulation = batch.simulation ?? (await this.simulateBatch(batch.transactions));
+    const budget = this.options.batchBudget ?? {};
+    const callGas = estimateSafeCallGas(batch.transactions, simulation, budget.fallbackCallGas);
+    const chunks = splitSafeBatch(batch.transactions, callGas, budget);
+
+    if (chunks.length === 1) {
+      return [await this.createBatchTransaction({ ...batch, simulation })];
+    }
+
+    console.log(`✂️ Splitting ${batch.transactions.length} operations into ${chunks.length} Safe batches`);
+    const results: SafeOperationResult[] = [];
+    let nonce = batch.nonce;
+
+    for (const [index, chunk] of chunks.entries()) {
+      console.log(
+        `   Batch ${index + 1}: ${chunk.transactions.length} operations, ~${chunk.estimatedGas} gas, ${chunk.calldataBytes} bytes`,
+      );
+      const result = await this.createBatchTransaction({
+        description: `${batch.description} [${index + 1} of ${chunks.length}]`,
+        transactions: chunk.transactions,
+        operationKeys: batch.operationKeys?.slice(chunk.start, chunk.start + chunk.transactions.length),
+        nonce,
+        simulation: simulation ? sliceSafeBatchSimulation(simulation, chunk) : undefined,
+      });
+      results.push(result);
+
+      if (!result.success) {
+        break;
+      }
+      nonce = result.nonce !== undefined ? result.nonce + 1 : undefined;
+    }
+    return results;
+  }
+
+  /**
+   * Propose a prepared batch to the Safe Transaction Service (or confirm it when
+   * it was already proposed) and report who has signed it so far
+   *
+   * @param safeTransaction - The prepared Safe transaction
+   * @param safeTxHash - The Safe transaction hash
+   * @param origin - Origin label shown in the Safe UI
+   */
+  private async submitToTransactionService(
+    safeTransaction: SafeTransaction,
+    safeTxHash: string,
+    origin: string,
+  ): Promise<TransactionServiceSubmission> {
+    if (!this.protocolKit || !this.transactionService) {
+      throw new Error("Safe Transaction Service not initialized");
+    }
+
+    let signature: { signer: string; data: string } | undefined;
+
+    if (this.options.signingMode === "owner") {
+      const signerAddress = await this.signer.getAddress();
+
+      if (!(await this.protocolKit.isOwner(signerAddress))) {
+        throw new Error(`Signer ${signerAddress} is not an owner of Safe ${this.config.safeAddress}; cannot sign in owner mode`);
+      }
+
+      signature = await this.protocolKit.signHash(safeTxHash);
+    }
+
+    const existing = await this.transactionService.findTransaction(safeTxHash);
+
+    if (!existing) {
+      if (!signature) {
+        // The service only accepts proposals carrying an owner (or delegate) signature
+        console.warn(`⚠️ signingMode is "none": not proposing ${safeTxHash}. Import the Transaction Builder JSON in the Safe UI instead.`);
+        return { proposed: false, signers: [] };
+      }
+
+      await this.transactionService.proposeTransaction({
+        safeAddress: this.config.safeAddress,
+        safeTxHash,
+        safeTransactionData: safeTransaction.data,
+        senderAddress: signature.signer,
+        senderSignature: signature.data,
+        origin,
+      });
+      console.log(`📨 Proposed batch to Safe Transaction Service: ${safeTxHash}`);
+    } else if (signature && !(existing.confirmations ?? []).some((c) => c.owner.toLowerCase() === signature!.signer.toLowerCase())) {
+      await this.transactionService.confirmTransaction(safeTxHash, signature.data);
+      console.log(`✍️ Added confirmation from ${signature.signer} to ${safeTxHash}`);
+    } else {
+      console.log(`ℹ️ Batch ${safeTxHash} already proposed to Safe Transaction Service`);
+    }
+
+    const status = await this.transactionService.getSignatureStatus(safeTxHash);
+    return {
+      proposed: true,
+      signers: status?.confirmations ?? (signature ? [signature.signer] : []),
+      requiredSignatures: status?.confirmationsRequired,
+    };
+  }
+
+  /**
+   * Refresh the signature counts of stored pending transactions from the Safe Transaction Service
+   *
+   * @returns The updated pending transactions
+   */
+  async refreshPendingSignatures(): Promise<SafePendingTransaction[]> {
+    if (!this.transactionService) {
+      throw new Error("Safe Transaction Service not configured. Set enableApiKit and safeConfig.txServiceUrl.");
+    }
+
+    const deploymentState = await this.storage.load();
+    const refreshed: SafePendingTransaction[] = [];
+
+    for (const pending of deploymentState.pendingTransactions) {
+      const status = await this.transactionService.getSignatureStatus(pending.safeTxHash);
+
+      if (!status) {
+        refreshed.push(pending);
+        continue;
+      }
+
+      if (status.confirmations.length !== pending.currentSignatures) {
+        console.log(`✍️ ${pending.description}: ${status.confirmations.length}/${status.confirmationsRequired} signatures`);
+      }
+
+      refreshed.push({
+        ...pending,
+        nonce: status.nonce,
+        proposed: true,
+        signers: status.confirmations,
+        requiredSignatures: status.confirmationsRequired,
+        currentSignatures: status.confirmations.length,
+      });
+    }
+
+    await this.storage.save({ ...deploymentState, pendingTransactions: refreshed });
+    return refreshed;
+  }
+
+  /**
+   * Reconcile the stored pending/completed/failed ledger against the Safe's on-chain nonce
+   * and execution events. Executed batches move to completed with their real transaction
+   * hash; failed executions and batches whose nonce was consumed by another transaction
+   * move to failed.
+   *
+   * @param options - Block range options; `dryRun` reports without writing the state file
+   * @returns The reconciliation report
+   */
+  async reconcileTransactions(options: SafeReconcileOptions & { dryRun?: boolean } = {}): Promise<SafeReconcileReport> {
+    const provider = this.signer.provider;
+
+    if (!provider) {
+      throw new Error("Provider not available");
+    }
+
+    const deploymentState = await this.storage.load();
+    const { state, report } = await reconcileSafeDeploymentState(provider, this.config.safeAddress, deploymentState, options);
+
+    if (!options.dryRun) {
+      await this.storage.save(state);
+    }
+    return report;
+  }
+
+  /**
+   * Simulate the whole batch in order on a fork impersonating the Safe, falling back to
+   * independent static calls when no fork can be created
+   *
+   * @param transactions - The batch calls
+   * @returns The fork simulation, or undefined when it was skipped
+   */
+  private async simulateBatch(transactions: SafeTransactionData[]): Promise<SafeBatchSimulation | undefined> {
+    if (this.options.simulateOnFork) {
+      try {
+        this.batchSimulator ??= new SafeBatchSimulator(this.hre, { errorAbis: this.options.errorAbis });
+        const simulation = await this.batchSimulator.simulate(this.config.safeAddress, transactions);
+        logBatchSimulation(simulation);
+
+        if (!simulation.success) {
+          console.warn(`⚠️ Continuing with batch creation despite simulation failure (this is expected if the Safe lacks permissions yet)`);
+        }
+        return simulation;
+      } catch (error) {
+        console.warn(`⚠️ Fork simulation unavailable: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    for (let i = 0; i < transactions.length; i++) {
+      console.log(`   Simulating operation ${i + 1}/${transactions.length}...`);
+      await this.simulateTransaction(transactions[i]);
+    }
+    return undefined;
+  }
+
+  /**
+   * Simulate transaction to check if it would succeed
+   *
+   * @param transactionData - The transaction data to simulate
+   */
+  private async simulateTransaction(transactionData: SafeTransactionData): Promise<void> {
+    if (!this.protocolKit) {
+      throw new Error("Protocol Kit not initialized");
+    }
+
+    try {
+      // Use static call to simulate transaction
+      const provider = this.signer.provider;
+
+      if (!provider) {
+        throw new Error("Provider not available");
+      }
+
+      await provider.call({
+        to: transactionData.to,
+        data: transactionData.data,
+        value: transactionData.value || "0",
+        from: this.config.safeAddress,
+      });
+
+      console.log(`✅ Transaction simulation successful`);
+      return;
+    } catch (error) {
+      console.warn(`⚠️ Transaction simulation failed: ${error instanceof Error ? error.message : String(error)}`);
+      console.warn(`⚠️ Continuing with batch creation despite simulation failure (this is expected if the Safe lacks permissions yet)`);
+      // Do not throw, allow batch creation to proceed
+    }
+  }
+
+  /**
+   * Check if a transaction with given hash exists and its status
+   *
+   * @param safeTxHash - The Safe transaction hash to check
+   */
+  async getTransactionStatus(safeTxHash: string): Promise<"pending" | "executed" | "failed" | "not_found"> {
+    const deploymentState = await this.storage.load();
+
+    // Check if it's in pending transactions
+    if (deploymentState.pendingTransactions.some((tx) => tx.safeTxHash === safeTxHash)) {
+      return "pending";
+    }
+
+    // Check if it's in completed transactions
+    if (deploymentState.completedTransactions.some((tx) => tx.safeTxHash === safeTxHash)) {
+      return "executed";
+    }
+
+    if (deploymentState.failedTransactions.some((tx) => tx.safeTxHash === safeTxHash)) {
+      return "failed";
+    }
+
+    return "not_found";
+  }
+
+  /**
+   * Idempotency keys of operations sitting in pending (not yet executed) batches. The ledger is
+   * reconciled first so batches executed, rejected or superseded in the Safe UI no longer hold
+   * their operations; if that fails the unreconciled ledger is used with a warning.
+   *
+   * @returns Map from operation key to the safeTxHash of the pending batch holding it
+   */
+  async getPendingOperationKeys(): Promise<Map<string, string>> {
+    try {
+      await this.reconcileTransactions();
+    } catch (error) {
+      console.warn(
+        `⚠️ Could not reconcile the Safe ledger; operations of batches rejected in the Safe UI may be skipped as pending: ${(error as Error).message}`,
+      );
+    }
+
+    const deploymentState = await this.storage.load();
+    const keys = new Map<string, string>();
+
+    for (const pending of deploymentState.pendingTransactions) {
+      for (const key of pending.operationKeys ?? []) {
+        keys.set(key, pending.safeTxHash);
+      }
+    }
+    return keys;
+  }
+
+  /**
+   * Check on-chain state to verify if a transaction requirement has been met
+   * This is the key idempotency method - check actual contract state rather than relying on stored data
+   *
+   * @param checkFunction - Function that returns true if requirement is met
+   */
+  async isRequirementMet(checkFunction: () => Promise<boolean>): Promise<boolean> {
+    try {
+      return await checkFunction();
+    } catch (error) {
+      console.warn(`⚠️ Failed to check requirement:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Store pending transaction info in the ledger storage
+   *
+   * @param safeTxHash - The Safe transaction hash
+   * @param transactionData - The transaction data
+   * @param description - Description of the transaction
+   * @param tracking - Nonce and Transaction Service signature tracking details
+   * @param tracking.nonce - Safe nonce the batch was created with
+   * @param tracking.proposed - Whether the batch was proposed to the Transaction Service
+   * @param tracking.signers - Owners that have confirmed the batch
+   * @param tracking.requiredSignatures - Confirmations required by the service (defaults to the threshold)
+   * @param tracking.operationKeys - Idempotency keys of the batched operations
+   */
+  private async storePendingTransaction(
+    safeTxHash: string,
+    transactionData: SafeTransactionData,
+    description: string,
+    tracking: { nonce?: number; proposed?: boolean; signers?: string[]; requiredSignatures?: number; operationKeys?: string[] } = {},
+  ): Promise<void> {
+    if (!this.protocolKit) return;
+
+    try {
+      const threshold = tracking.requiredSignatures ?? (await this.protocolKit.getThreshold());
+      const deploymentState = await this.storage.load();
+      const signers = tracking.signers ?? [];
+
+      const pendingTransaction: SafePendingTransaction = {
+        id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        safeTxHash,
+        description,
+        transactionData,
+        createdAt: Date.now(),
+        requiredSignatures: threshold,
+        currentSignatures: signers.length,
+        nonce: tracking.nonce,
+        proposed: tracking.proposed ?? false,
+        signers,
+        operationKeys: tracking.operationKeys,
+      };
+
+      // Re-proposing an identical batch yields the same hash; keep a single entry
+      const existingIndex = deploymentState.pendingTransactions.findIndex((tx) => tx.safeTxHash === safeTxHash);
+
+      if (existingIndex !== -1) {
+        deploymentState.pendingTransactions.splice(existingIndex, 1);
+      }
+
+      deploymentState.pendingTransactions.push(pendingTransaction);
+      await this.storage.save(deploymentState);
+
+      console.log(`💾 Stored pending transaction: ${description}`);
+    } catch (error) {
+      console.warn(`⚠️ Failed to store pending transaction:`, error);
+    }
+  }
+
+  /**
+   * Export a Transaction Builder JSON for importing in Safe UI
+   *
+   * @param transactions - Array of SafeTransactionData to export
+   * @param description - Human-readable description for the batch
+   * @param safeTxHash - Safe transaction hash to include in filename
+   * @param simulation - Fork simulation result embedded for reviewers
+   */
+  private async exportTransactionBuilderBatch(
+    transactions: SafeTransactionData[],
+    description: string,
+    safeTxHash: string,
+    simulation?: SafeBatchSimulation,
+  ): Promise<void> {
+    const exportDir = this.options.exportDir ?? getNetworkDeploymentsPath(this.hre);
+
+    try {
+      fs.mkdirSync(exportDir, { recursive: true });
+      const filePath = path.join(exportDir, `safe-builder-batch-${safeTxHash}.json`);
+      const builderJson = {
+        version: "1.0",
+        chainId: String(this.config.chainId),
+        createdAt: Date.now(),
+        meta: {
+          name: description,
+          description,
+          txBuilderVersion: "export-1",
+        },
+        transactions: transactions.map((t) => ({
+          to: t.to,
+          value: t.value,
+          data: t.data,
+        })),
+        ...(simulation ? { simulation } : {}),
+      };
+      fs.writeFileSync(filePath, JSON.stringify(builderJson, null, 2));
+      console.log(`📝 Wrote Transaction Builder JSON: ${filePath}`);
+    } catch (error) {
+      console.warn(`⚠️ Failed to export Transaction Builder JSON:`, error);
+    }
+
+    try {
+      const { markdownPath, htmlPath } = await writeSafeBatchReview(this.hre, path.join(exportDir, `safe-builder-batch-${safeTxHash}`), {
+        description,
+        safeTxHash,
+        safeAddress: this.config.safeAddress,
+        chainId: this.config.chainId,
+        transactions,
+        simulation,
+      });
+      console.log(`📝 Wrote batch review: ${markdownPath} (HTML: ${htmlPath})`);
+    } catch (error) {
+      console.warn(`⚠️ Failed to write batch review:`, error);
+    }
+  }
+
+  /**
+   * Get the Safe address
+   */
+  getSafeAddress(): string {
+    return this.config.safeAddress;
+  }
+
+  /**
+   * Get the Safe threshold
+   */
+  async getThreshold(): Promise<number> {
+    if (!this.protocolKit) {
+      throw new Error("Safe Manager not initialized. Call initialize() first.");
+    }
+    return await this.protocolKit.getThreshold();
+  }
+
+  /**
+   * Get the Safe owners
+   */
+  async getOwners(): Promise<string[]> {
+    if (!this.protocolKit) {
+      throw new Error("Safe Manager not initialized. Call initialize() first.");
+    }
+    return await this.protocolKit.getOwners();
+  }
+
+  /**
+   * Whether batches are proposed to the Safe Transaction Service
+   */
+  isProposalEnabled(): boolean {
+    return Boolean(this.transactionService && this.options.enableTransactionService);
+  }
+
+  /**
+   * Check if Safe Manager is initialized
+   */
+  isInitialized(): boolean {
+    return this.protocolKit !== undefined;
+  }
+}
+
+/**
+ * Print a per-call summary of a batch simulation
+ *
+ * @param simulation - The simulation result
+ */
+function logBatchSimulation(simulation: SafeBatchSimulation): void {
+  console.log(`   Simulated ${simulation.calls.length} operations on ${simulation.network} fork at block ${simulation.forkBlockNumber}`);
+
+  for (const call of simulation.calls) {
+    const label = `${call.contractName ?? call.to}${call.method ? `.${call.method}` : ""}`;
+
+    if (call.status === "success") {
+      console.log(`   ✅ [${call.index + 1}] ${label} (gas ${call.gasUsed})`);
+    } else if (call.status === "reverted") {
+      console.warn(`   ❌ [${call.index + 1}] ${label} reverted: ${call.revertReason}`);
+    } else {
+      console.log(`   ⏭️ [${call.index + 1}] ${label} not executed${call.revertReason ? `: ${call.revertReason}` : ""}`);
+    }
+
+    for (const change of call.roleChanges) {
+      const subject = change.change === "adminChanged" ? `admin ${change.previousAdminRole} → ${change.newAdminRole}` : change.account;
+      console.log(`      role ${change.change} ${change.role} ${subject} on ${change.contractName ?? change.contract}`);
+    }
+
+    for (const change of call.ownershipChanges) {
+      const verb = change.pending ? "transfer started" : "transferred";
+      console.log(`      ownership ${verb} ${change.previousOwner} → ${change.newOwner} on ${change.contractName ?? change.contract}`);
+    }
+
+    for (const change of call.configChanges) {
+      console.log(`      ${change.contractName ?? change.contract}.${change.getter}: ${change.before} → ${change.after}`);
+    }
+  }
+}
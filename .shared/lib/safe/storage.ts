@@ -0,0 +1,101 @@
+import fs from "fs";
+import path from "path";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { SafeDeploymentState } from "./types";
+
+/**
+ * Where the Safe pending/completed/failed ledger is kept
+ */
+export interface SafeStateStorage {
+  /** Read the ledger, returning an empty one when nothing has been stored yet */
+  load(): Promise<SafeDeploymentState>;
+  /** Replace the stored ledger */
+  save(state: SafeDeploymentState): Promise<void>;
+  /** Human-readable location used in logs */
+  describe(): string;
+}
+
+/**
+ * An empty ledger
+ */
+export function emptySafeDeploymentState(): SafeDeploymentState {
+  return {
+    pendingTransactions: [],
+    completedTransactions: [],
+    failedTransactions: [],
+  };
+}
+
+/**
+ * Ledger stored as JSON in a file, by default `deployments/<network>/safe-deployment-state.json`
+ */
+export class FileSafeStateStorage implements SafeStateStorage {
+  constructor(private readonly statePath: string) {}
+
+  /**
+   * Storage in the network's hardhat-deploy deployments directory
+   *
+   * @param hre - Hardhat runtime environment
+   */
+  static forNetwork(hre: HardhatRuntimeEnvironment): FileSafeStateStorage {
+    return new FileSafeStateStorage(path.join(getNetworkDeploymentsPath(hre), "safe-deployment-state.json"));
+  }
+
+  async load(): Promise<SafeDeploymentState> {
+    try {
+      if (fs.existsSync(this.statePath)) {
+        return { ...emptySafeDeploymentState(), ...JSON.parse(fs.readFileSync(this.statePath, "utf8")) };
+      }
+    } catch (error) {
+      console.warn(`⚠️ Failed to read deployment state:`, error);
+    }
+    return emptySafeDeploymentState();
+  }
+
+  async save(state: SafeDeploymentState): Promise<void> {
+    try {
+      fs.mkdirSync(path.dirname(this.statePath), { recursive: true });
+      fs.writeFileSync(this.statePath, JSON.stringify(state, null, 2));
+    } catch (error) {
+      console.warn(`⚠️ Failed to save deployment state:`, error);
+    }
+  }
+
+  describe(): string {
+    return this.statePath;
+  }
+}
+
+/**
+ * Ledger kept in process memory, for tests and dry runs that must not touch the deployments directory
+ */
+export class InMemorySafeStateStorage implements SafeStateStorage {
+  private state: SafeDeploymentState;
+
+  constructor(initial: SafeDeploymentState = emptySafeDeploymentState()) {
+    this.state = structuredClone(initial);
+  }
+
+  async load(): Promise<SafeDeploymentState> {
+    return structuredClone(this.state);
+  }
+
+  async save(state: SafeDeploymentState): Promise<void> {
+    this.state = structuredClone(state);
+  }
+
+  describe(): string {
+    return "memory";
+  }
+}
+
+/**
+ * `<deployments>/<network>`, falling back to `<root>/deployments` when hardhat-deploy paths are not configured
+ *
+ * @param hre - Hardhat runtime environment
+ */
+export function getNetworkDeploymentsPath(hre: HardhatRuntimeEnvironment): string {
+  const paths = hre.config.paths as unknown as { deployments?: string; root: string };
+  return path.join(paths.deployments ?? path.join(paths.root, "deployments"), hre.network.name);
+}
@@ -0,0 +1,167 @@
+import SafeApiKit from "@safe-global/api-kit";
+import { SafeMultisigTransactionResponse } from "@safe-global/types-kit";
+
+/**
+ * Options for the Safe Transaction Service client
+ */
+export interface SafeTransactionServiceOptions {
+  readonly chainId: number;
+  readonly txServiceUrl: string;
+  readonly retryAttempts?: number;
+  readonly retryDelayMs?: number;
+}
+
+/**
+ * Payload required to propose a Safe transaction to the service
+ */
+export interface SafeTransactionProposal {
+  readonly safeAddress: string;
+  readonly safeTxHash: string;
+  readonly safeTransactionData: Parameters<SafeApiKit["proposeTransaction"]>[0]["safeTransactionData"];
+  readonly senderAddress: string;
+  readonly senderSignature: string;
+  readonly origin?: string;
+}
+
+/**
+ * Confirmation state of a Safe transaction as reported by the service
+ */
+export interface SafeTransactionSignatureStatus {
+  readonly safeTxHash: string;
+  readonly nonce: number;
+  readonly confirmations: string[];
+  readonly confirmationsRequired: number;
+  readonly isExecuted: boolean;
+  readonly transactionHash?: string;
+}
+
+/**
+ * SafeTransactionService wraps Safe API Kit calls with retries so that
+ * SafeManager can propose batches and track signatures against any
+ * Safe Transaction Service deployment (hosted or local mock).
+ */
+export class SafeTransactionService {
+  private readonly apiKit: SafeApiKit;
+  private readonly retryAttempts: number;
+  private readonly retryDelayMs: number;
+
+  constructor(options: SafeTransactionServiceOptions) {
+    this.apiKit = new SafeApiKit({
+      chainId: BigInt(options.chainId),
+      txServiceUrl: options.txServiceUrl,
+    });
+    this.retryAttempts = Math.max(1, options.retryAttempts ?? 3);
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+  }
+
+  /**
+   * Next nonce the service expects for the Safe (accounts for queued proposals)
+   *
+   * @param safeAddress - The Safe address
+   */
+  async getNextNonce(safeAddress: string): Promise<number> {
+    const nonce = await this.withRetry(`getNextNonce(${safeAddress})`, () => this.apiKit.getNextNonce(safeAddress));
+    return Number(nonce);
+  }
+
+  /**
+   * Look up a transaction on the service, returning undefined when it has not been proposed
+   *
+   * @param safeTxHash - The Safe transaction hash
+   */
+  async findTransaction(safeTxHash: string): Promise<SafeMultisigTransactionResponse | undefined> {
+    try {
+      return await this.apiKit.getTransaction(safeTxHash);
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return undefined;
+      }
+      return await this.withRetry(`getTransaction(${safeTxHash})`, () => this.apiKit.getTransaction(safeTxHash));
+    }
+  }
+
+  /**
+   * Propose a transaction to the service together with the proposer's signature
+   *
+   * @param proposal - The proposal payload
+   */
+  async proposeTransaction(proposal: SafeTransactionProposal): Promise<void> {
+    await this.withRetry(`proposeTransaction(${proposal.safeTxHash})`, () =>
+      this.apiKit.proposeTransaction({
+        safeAddress: proposal.safeAddress,
+        safeTxHash: proposal.safeTxHash,
+        safeTransactionData: proposal.safeTransactionData,
+        senderAddress: proposal.senderAddress,
+        senderSignature: proposal.senderSignature,
+        origin: proposal.origin,
+      }),
+    );
+  }
+
+  /**
+   * Add an owner confirmation to an already proposed transaction
+   *
+   * @param safeTxHash - The Safe transaction hash
+   * @param signature - The owner signature
+   */
+  async confirmTransaction(safeTxHash: string, signature: string): Promise<void> {
+    await this.withRetry(`confirmTransaction(${safeTxHash})`, () => this.apiKit.confirmTransaction(safeTxHash, signature));
+  }
+
+  /**
+   * Read the confirmation state of a proposed transaction
+   *
+   * @param safeTxHash - The Safe transaction hash
+   */
+  async getSignatureStatus(safeTxHash: string): Promise<SafeTransactionSignatureStatus | undefined> {
+    const transaction = await this.findTransaction(safeTxHash);
+
+    if (!transaction) {
+      return undefined;
+    }
+
+    return {
+      safeTxHash,
+      nonce: Number(transaction.nonce),
+      confirmations: (transaction.confirmations ?? []).map((confirmation) => confirmation.owner),
+      confirmationsRequired: transaction.confirmationsRequired,
+      isExecuted: transaction.isExecuted,
+      transactionHash: transaction.transactionHash || undefined,
+    };
+  }
+
+  /**
+   * Run a service call, retrying transient failures
+   *
+   * @param label - Label used in log output
+   * @param fn - The call to run
+   */
+  private async withRetry<T>(label: string, fn: () => Promise<T>): Promise<T> {
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= this.retryAttempts; attempt++) {
+      try {
+        return await fn();
+      } catch (error) {
+        lastError = error;
+
+        if (attempt < this.retryAttempts) {
+          console.warn(`⚠️ Safe Transaction Service ${label} failed (attempt ${attempt}/${this.retryAttempts}), retrying...`);
+          await new Promise((resolve) => setTimeout(resolve, this.retryDelayMs));
+        }
+      }
+    }
+
+    throw lastError;
+  }
+}
+
+/**
+ * Returns true when the API Kit error corresponds to an HTTP 404
+ *
+ * @param error - The error thrown by API Kit
+ */
+function isNotFoundError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /not found/i.test(message);
+}
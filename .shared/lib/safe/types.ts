@@ -0,0 +1,199 @@
+import { InterfaceAbi } from "ethers";
+import { Address } from "hardhat-deploy/types";
+
+import type { SafeBatchBudget } from "./batch-budget";
+import type { SafeStateStorage } from "./storage";
+
+/**
+ * Configuration for Safe Protocol Kit integration
+ */
+export interface SafeConfig {
+  readonly safeAddress: Address;
+  readonly owners: Address[];
+  readonly threshold: number;
+  readonly chainId: number;
+  readonly rpcUrl?: string;
+  readonly txServiceUrl?: string;
+  /** MultiSend deployment to use instead of the Safe SDK default for this chain */
+  readonly multiSendAddress?: string;
+  /** MultiSendCallOnly deployment to use instead of the Safe SDK default for this chain */
+  readonly multiSendCallOnlyAddress?: string;
+}
+
+/**
+ * Safe transaction data structure for creating transactions
+ */
+export interface SafeTransactionData {
+  readonly to: Address;
+  readonly value: string;
+  readonly data: string;
+  readonly operation?: number; // 0 = Call, 1 = DelegateCall
+  readonly safeTxGas?: string;
+  readonly baseGas?: string;
+  readonly gasPrice?: string;
+  readonly gasToken?: Address;
+  readonly refundReceiver?: Address;
+  readonly nonce?: number;
+}
+
+/**
+ * State tracking for Safe transactions in deployment artifacts
+ */
+export interface SafeDeploymentState {
+  readonly pendingTransactions: SafePendingTransaction[];
+  readonly completedTransactions: SafeCompletedTransaction[];
+  readonly failedTransactions: SafeFailedTransaction[];
+}
+
+/**
+ * Pending Safe transaction information
+ */
+export interface SafePendingTransaction {
+  readonly id: string;
+  readonly safeTxHash: string;
+  readonly description: string;
+  readonly transactionData: SafeTransactionData;
+  readonly createdAt: number;
+  readonly requiredSignatures: number;
+  readonly currentSignatures: number;
+  readonly nonce?: number;
+  readonly proposed?: boolean;
+  readonly signers?: Address[];
+  readonly operationKeys?: string[];
+}
+
+/**
+ * Completed Safe transaction information
+ */
+export interface SafeCompletedTransaction {
+  readonly id: string;
+  readonly safeTxHash: string;
+  readonly transactionHash: string;
+  readonly description: string;
+  readonly executedAt: number;
+}
+
+/**
+ * Failed Safe transaction information
+ */
+export interface SafeFailedTransaction {
+  readonly id: string;
+  readonly safeTxHash: string;
+  readonly description: string;
+  readonly error: string;
+  readonly failedAt: number;
+}
+
+/**
+ * Safe operation result
+ */
+export interface SafeOperationResult {
+  readonly success: boolean;
+  readonly transactionHash?: string;
+  readonly safeTxHash?: string;
+  readonly error?: string;
+  readonly requiresAdditionalSignatures?: boolean;
+  readonly proposed?: boolean;
+  readonly currentSignatures?: number;
+  readonly nonce?: number;
+}
+
+/**
+ * Safe transaction batch for multiple operations
+ */
+export interface SafeTransactionBatch {
+  readonly transactions: SafeTransactionData[];
+  readonly description: string;
+  /** Idempotency key of each transaction (see `safeOperationKey`), recorded in the pending entry */
+  readonly operationKeys?: string[];
+  /** Safe nonce to use (defaults to the next nonce) */
+  readonly nonce?: number;
+  /** Fork simulation already run for these calls, reused instead of simulating again */
+  readonly simulation?: SafeBatchSimulation;
+}
+
+/**
+ * Safe manager configuration options
+ */
+export interface SafeManagerOptions {
+  readonly safeConfig: SafeConfig;
+  readonly enableApiKit?: boolean;
+  readonly enableTransactionService?: boolean;
+  readonly retryAttempts?: number;
+  readonly retryDelayMs?: number;
+  readonly signingMode?: "owner" | "none";
+  /** Simulate each batch on a Hardhat fork impersonating the Safe before preparing it (default true) */
+  readonly simulateOnFork?: boolean;
+  /** ABIs used to decode custom errors during simulation (defaults to every compiled artifact) */
+  readonly errorAbis?: InterfaceAbi[];
+  /** Where the pending/completed/failed ledger lives (defaults to deployments/<network>/safe-deployment-state.json) */
+  readonly storage?: SafeStateStorage;
+  /** Directory for Transaction Builder JSON and review files (defaults to deployments/<network>) */
+  readonly exportDir?: string;
+  /** Gas ceiling and calldata limit used by `createSplitBatchTransactions` */
+  readonly batchBudget?: SafeBatchBudget;
+}
+
+/**
+ * Role change observed while simulating a call (from AccessControl events)
+ */
+export interface SafeSimulatedRoleChange {
+  readonly contract: Address;
+  readonly contractName?: string;
+  readonly change: "granted" | "revoked" | "adminChanged";
+  readonly role: string;
+  readonly account?: Address;
+  readonly previousAdminRole?: string;
+  readonly newAdminRole?: string;
+}
+
+/**
+ * Ownership change observed while simulating a call (from Ownable events)
+ */
+export interface SafeSimulatedOwnershipChange {
+  readonly contract: Address;
+  readonly contractName?: string;
+  readonly previousOwner: Address;
+  readonly newOwner: Address;
+  readonly pending: boolean;
+}
+
+/**
+ * Change in a parameterless view getter of the called contract
+ */
+export interface SafeSimulatedConfigChange {
+  readonly contract: Address;
+  readonly contractName?: string;
+  readonly getter: string;
+  readonly before: string;
+  readonly after: string;
+}
+
+/**
+ * Simulation outcome of one call in a batch
+ */
+export interface SafeSimulatedCall {
+  readonly index: number;
+  readonly to: Address;
+  readonly contractName?: string;
+  readonly method?: string;
+  readonly status: "success" | "reverted" | "not_executed";
+  readonly gasUsed?: string;
+  readonly revertReason?: string;
+  readonly revertData?: string;
+  readonly roleChanges: SafeSimulatedRoleChange[];
+  readonly ownershipChanges: SafeSimulatedOwnershipChange[];
+  readonly configChanges: SafeSimulatedConfigChange[];
+}
+
+/**
+ * Simulation outcome of a whole batch executed in order from the Safe
+ */
+export interface SafeBatchSimulation {
+  readonly success: boolean;
+  readonly safeAddress: Address;
+  readonly network: string;
+  readonly forkBlockNumber: number;
+  readonly simulatedAt: number;
+  readonly calls: SafeSimulatedCall[];
+}
@@ -0,0 +1,5 @@
+#!/usr/bin/env ts-node
+
+import { runOracleWatchdogCli } from '../../lib/oracles/prices/watch-cli';
+
+void runOracleWatchdogCli();
@@ -0,0 +1,233 @@
+#!/usr/bin/env ts-node
+
+import { Command } from "commander";
+import * as readline from "readline";
+
+import { logger } from "../../lib/logger";
+import { buildRoleApplyPlan, RoleApplyAction, RoleApplyPlan } from "../../lib/roles/apply";
+import { resolvePrivilegeTargets, scanPrivilegeHolders } from "../../lib/roles/holders";
+import { loadRoleManifest, resolveRoleManifest } from "../../lib/roles/manifest";
+import { scanRolesAndOwnership } from "../../lib/roles/scan";
+import { SafeManager } from "../../lib/safe/safe-manager";
+import { SafeOperationResult } from "../../lib/safe/types";
+
+interface DirectResult {
+  readonly action: RoleApplyAction;
+  readonly txHash?: string;
+  readonly error?: string;
+}
+
+async function promptYesNo(question: string): Promise<boolean> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const answer: string = await new Promise((resolve) => rl.question(question, resolve));
+  rl.close();
+  return ["y", "yes"].includes(answer.trim().toLowerCase());
+}
+
+async function main(): Promise<void> {
+  const program = new Command();
+
+  program
+    .description("Diff the role manifest against on-chain state and apply the missing grants, ownership transfers and revocations.")
+    .requiredOption("-m, --manifest <path>", "Path to the role manifest JSON")
+    .requiredOption("-n, --network <name>", "Hardhat network to target")
+    .option("--deployments-dir <path>", "Path to deployments directory (defaults to hardhat configured path)")
+    .option("--hardhat-config <path>", "Path to hardhat.config.ts (defaults to ./hardhat.config.ts)")
+    .option("--dry-run", "Print the plan without sending transactions or creating Safe batches")
+    .option("--yes", "Skip confirmation prompt")
+    .option("--json-output <path>", "Write plan and results JSON to path (or stdout when set to '-')");
+
+  program.parse(process.argv);
+  const options = program.opts();
+
+  process.env.HARDHAT_NETWORK = options.network;
+
+  if (options.hardhatConfig) {
+    process.env.HARDHAT_CONFIG = options.hardhatConfig;
+    process.env.HARDHAT_USER_CONFIG = options.hardhatConfig;
+  }
+
+  try {
+    const hre = require("hardhat");
+    const manifest = resolveRoleManifest(loadRoleManifest(options.manifest));
+    const dryRun = Boolean(options.dryRun);
+
+    const scan = await scanRolesAndOwnership({
+      hre,
+      deployer: manifest.deployer,
+      governanceMultisig: manifest.governance,
+      deploymentsPath: options.deploymentsDir,
+      logger: (message: string) => logger.info(message),
+    });
+
+    const holders = await scanPrivilegeHolders({
+      hre,
+      targets: resolvePrivilegeTargets(manifest, scan),
+      deployer: manifest.deployer,
+      governance: manifest.governance,
+      deploymentsPath: options.deploymentsDir,
+      logger: (message: string) => logger.info(message),
+    });
+
+    const plan = buildRoleApplyPlan({ manifest, scan, holders });
+    const directActions = plan.actions.filter((action) => action.execution === "direct");
+    const safeActions = plan.actions.filter((action) => action.execution === "safe");
+
+    printPlan(plan, directActions, safeActions);
+
+    if (plan.actions.length === 0) {
+      logger.success("\nNo drift. On-chain roles and ownership already match the manifest.");
+      await emitJson(options.jsonOutput, { status: "no-action", plan, direct: [], safeBatches: [] });
+      return;
+    }
+
+    if (dryRun) {
+      logger.info("\nDry-run mode: nothing sent.");
+      await emitJson(options.jsonOutput, { status: "dry-run", plan, direct: [], safeBatches: [] });
+      return;
+    }
+
+    if (!options.yes) {
+      const confirmed = await promptYesNo("\nApply this plan? (yes/no): ");
+      if (!confirmed) {
+        logger.info("Aborted by user.");
+        return;
+      }
+    }
+
+    const signer = await hre.ethers.getSigner(manifest.deployer);
+    const direct: DirectResult[] = [];
+    // A revocation must not land on a contract whose admin grant failed, or the contract is left without an admin
+    const failedGrants = new Set<string>();
+
+    for (const [index, action] of directActions.entries()) {
+      logger.info(`\n[${index + 1}/${directActions.length}] ${action.contractName} (${action.address}) :: ${action.summary}`);
+
+      if (action.kind === "revokeRole" && failedGrants.has(action.deployment)) {
+        logger.warn("  ⏭️  Skipped: the DEFAULT_ADMIN_ROLE grant on this contract failed");
+        direct.push({ action, error: "skipped after failed DEFAULT_ADMIN_ROLE grant" });
+        continue;
+      }
+
+      try {
+        const tx = await signer.sendTransaction({ to: action.transaction.to, data: action.transaction.data });
+        const receipt = await tx.wait();
+        const txHash = receipt?.hash ?? tx.hash;
+        logger.info(`  ✅ Transaction hash: ${txHash}`);
+        direct.push({ action, txHash });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error(`  ❌ Failed: ${message}`);
+        direct.push({ action, error: message });
+        if (action.kind === "grantDefaultAdmin") {
+          failedGrants.add(action.deployment);
+        }
+      }
+    }
+
+    const queuedSafeActions = safeActions.filter((action) => !(action.kind === "revokeRole" && failedGrants.has(action.deployment)));
+
+    if (queuedSafeActions.length < safeActions.length) {
+      logger.warn(`\nSkipping ${safeActions.length - queuedSafeActions.length} Safe action(s) on contracts whose admin grant failed.`);
+    }
+
+    let safeBatches: SafeOperationResult[] = [];
+
+    if (queuedSafeActions.length > 0) {
+      const safeManager = new SafeManager(hre, signer, { safeConfig: manifest.safe! });
+      await safeManager.initialize();
+
+      safeBatches = await safeManager.createSplitBatchTransactions({
+        transactions: queuedSafeActions.map((action) => action.transaction),
+        description: `Role apply (${queuedSafeActions.length} operations)`,
+      });
+
+      for (const result of safeBatches) {
+        if (result.success) {
+          logger.success(`\nSafe batch prepared. SafeTxHash: ${result.safeTxHash ?? "unknown"}`);
+        } else {
+          logger.error(`\nFailed to prepare Safe batch: ${result.error ?? "unknown error"}`);
+        }
+      }
+    }
+
+    const directFailures = direct.filter((result) => result.error).length;
+    const safeFailures = safeBatches.filter((result) => !result.success).length;
+
+    logger.info("\n=== Summary ===");
+    logger.info(`Direct transactions sent: ${direct.length - directFailures}/${directActions.length}`);
+    logger.info(`Safe operations queued: ${safeFailures === 0 ? queuedSafeActions.length : 0}/${safeActions.length}`);
+
+    if (directFailures > 0 || safeFailures > 0) {
+      process.exitCode = 1;
+    }
+
+    await emitJson(options.jsonOutput, { status: "executed", plan, direct, safeBatches });
+  } catch (error) {
+    logger.error("Failed to apply role manifest.");
+    logger.error(String(error instanceof Error ? error.message : error));
+    process.exitCode = 1;
+  }
+}
+
+function printPlan(plan: RoleApplyPlan, directActions: RoleApplyAction[], safeActions: RoleApplyAction[]): void {
+  logger.info("\n=== Apply Plan ===");
+  logger.info(`Direct transactions: ${directActions.length}`);
+  logger.info(`Safe operations: ${safeActions.length}`);
+  logger.info(`Already satisfied: ${plan.satisfied.length}`);
+  logger.info(`Blocked: ${plan.blocked.length}`);
+
+  if (directActions.length > 0) {
+    logger.info("\nDirect (sent by the deployer, in order):");
+    directActions.forEach((action, index) => {
+      logger.info(
+        `- [${index + 1}/${directActions.length}] ${action.contractName} (${action.address}) :: ${action.summary} (${action.source})`,
+      );
+    });
+  }
+
+  if (safeActions.length > 0) {
+    logger.info("\nSafe (queued after the direct transactions, in order):");
+    safeActions.forEach((action, index) => {
+      logger.info(
+        `- [${index + 1}/${safeActions.length}] ${action.contractName} (${action.address}) :: ${action.summary} (${action.source})`,
+      );
+    });
+  }
+
+  if (plan.blocked.length > 0) {
+    logger.warn("\nBlocked (manual investigation required):");
+    plan.blocked.forEach((entry) => {
+      logger.warn(`- ${entry.contractName} (${entry.address}) :: ${entry.reason}`);
+    });
+  }
+}
+
+async function emitJson(
+  outputPath: string | undefined,
+  payload: {
+    status: "executed" | "dry-run" | "no-action";
+    plan: RoleApplyPlan;
+    direct: DirectResult[];
+    safeBatches: SafeOperationResult[];
+  },
+): Promise<void> {
+  if (!outputPath) {
+    return;
+  }
+
+  const serialized = JSON.stringify(payload, null, 2);
+  if (outputPath === "-") {
+    // eslint-disable-next-line no-console
+    console.log(serialized);
+    return;
+  }
+
+  const fs = require("fs");
+  const path = require("path");
+  const resolved = path.isAbsolute(outputPath) ? outputPath : path.join(process.cwd(), outputPath);
+  fs.writeFileSync(resolved, serialized);
+  logger.info(`\nSaved JSON report to ${resolved}`);
+}
+
+void main();
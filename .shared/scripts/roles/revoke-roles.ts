@@ -8,8 +8,8 @@ import { logger } from "../../lib/logger";
 import { scanRolesAndOwnership } from "../../lib/roles/scan";
 import { loadRoleManifest, resolveRoleManifest } from "../../lib/roles/manifest";
 import { isDeploymentExcluded } from "../../lib/roles/planner";
-import { SafeManager } from "../../lib/roles/safe-manager";
-import { SafeTransactionData } from "../../lib/roles/types";
+import { SafeManager } from "../../lib/safe/safe-manager";
+import { SafeTransactionData } from "../../lib/safe/types";
 
 type ManifestSource = "auto" | "override";
 
@@ -5,9 +5,10 @@ import { scanRolesAndOwnership } from '../../lib/roles/scan';
 import { logger } from '../../lib/logger';
 import { loadRoleManifest, resolveRoleManifest, ResolvedDefaultAdminAction } from '../../lib/roles/manifest';
 import { prepareContractPlans, isDeploymentExcluded } from '../../lib/roles/planner';
+import { findHolderDrift, resolvePrivilegeTargets, scanPrivilegeHolders } from '../../lib/roles/holders';
 
 interface DriftIssue {
-  readonly type: 'ownable' | 'defaultAdmin';
+  readonly type: 'ownable' | 'defaultAdmin' | 'role' | 'addressSet';
   readonly deployment: string;
   readonly address: string;
   readonly contract: string;
@@ -27,7 +28,7 @@ async function main(): Promise<void> {
     .option('-d, --deployer <address>', 'Deployer address to check for role ownership (defaults to network.config.roles.deployer)')
     .option('-g, --governance <address>', 'Governance multisig address to check (defaults to network.config.roles.governance)')
     .option('--manifest <path>', 'Path to a role manifest to evaluate coverage')
-    .option('--drift-check', 'Exit non-zero when deployer-held roles are not covered by the manifest')
+    .option('--drift-check', 'Exit non-zero when deployer-held roles are not covered by the manifest or a declared role has unexpected holders')
     .option('--json-output <path>', 'Write scan report JSON to path (or stdout when set to "-")')
     .option('--deployments-dir <path>', 'Path to deployments directory (defaults to ./deployments)')
     .option('--hardhat-config <path>', 'Path to hardhat.config.ts (defaults to ./hardhat.config.ts)');
@@ -176,15 +177,43 @@ async function main(): Promise<void> {
       driftIssues = [...findOwnableDrift({ manifest, plannedOwnable, exposureOwnable })];
       driftIssues.push(...findDefaultAdminDrift({ manifest, plannedDefaultAdmin, exposureRoles }));
 
+      const privilegeTargets = resolvePrivilegeTargets(manifest, result);
+      if (privilegeTargets.length > 0) {
+        const holders = await scanPrivilegeHolders({
+          hre,
+          targets: privilegeTargets,
+          deployer,
+          governance,
+          deploymentsPath: options.deploymentsDir,
+          logger: (m: string) => logger.info(m),
+        });
+
+        const partial = holders.filter((snapshot) => !snapshot.enumerated && !snapshot.unresolved);
+        if (partial.length > 0) {
+          logger.warn(`\n⚠️  Holders of ${partial.length} declared role(s) could only be probed for known accounts:`);
+          partial.forEach((snapshot) => logger.warn(`- ${snapshot.contractName}.${snapshot.name} (${snapshot.address})`));
+        }
+
+        driftIssues.push(
+          ...findHolderDrift(holders).map((issue) => ({
+            type: issue.kind,
+            deployment: issue.deployment,
+            address: issue.address,
+            contract: issue.contractName,
+            detail: `[${issue.drift}] ${issue.detail}`,
+          })),
+        );
+      }
+
       if (options.driftCheck) {
         if (driftIssues.length > 0) {
-          logger.error('\nDrift detected: deployer retains control outside manifest coverage.');
+          logger.error('\nDrift detected: privileged access differs from the manifest.');
           for (const issue of driftIssues) {
             logger.error(`- [${issue.type}] ${issue.contract} (${issue.address}) :: ${issue.detail}`);
           }
           process.exitCode = 1;
         } else {
-          logger.success('\nNo drift detected. Manifest covers all deployer-held ownership/admin roles.');
+          logger.success('\nNo drift detected. Manifest covers all deployer-held ownership/admin roles and declared role holders.');
         }
       }
     } else if (options.driftCheck) {
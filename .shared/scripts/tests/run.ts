@@ -10,6 +10,16 @@ import { generateNSLOCReport } from '../../lib/deployments/nsloc';
 import { loadProjectModule, getSolidityFiles } from '../../lib/utils';
 import { validateConfig } from '../../lib/validators';
 import { buildAggregatorList } from '../../lib/oracles/prices/asset-extractors';
+import { findPriceStateFailures, parsePriceStates, readWrapperPriceState } from '../../lib/oracles/prices/classification';
+import { createPriceExpectationChecker } from '../../lib/oracles/prices/expectations';
+import type { OracleCall } from '../../lib/oracles/prices/reader';
+import { validateWatchdogOptions } from '../../lib/oracles/prices/watchdog';
+import { FileSafeStateStorage, InMemorySafeStateStorage } from '../../lib/safe/storage';
+import type { SafePendingTransaction } from '../../lib/safe/types';
+import { buildRoleApplyPlan } from '../../lib/roles/apply';
+import { findHolderDrift, PrivilegeHolders, resolvePrivilegeTargets } from '../../lib/roles/holders';
+import { ManifestValidationError, resolveRoleManifest } from '../../lib/roles/manifest';
+import type { ScanResult } from '../../lib/roles/scan';
 
 type TestCase = {
   name: string;
@@ -295,6 +305,351 @@ test('generateNSLOCReport produces metrics for Solidity sources', () => {
   }
 });
 
+test('Safe state storages round-trip the ledger and start empty', async () => {
+  const tempRoot = fs.mkdtempSync(path.join(process.cwd(), 'tmp-safe-state-'));
+  const pending: SafePendingTransaction = {
+    id: '1',
+    safeTxHash: '0x01',
+    description: 'Grant roles (1 operations)',
+    transactionData: { to: '0x0000000000000000000000000000000000000001', value: '0', data: '0x' },
+    createdAt: 1,
+    requiredSignatures: 2,
+    currentSignatures: 0,
+  };
+
+  try {
+    const statePath = path.join(tempRoot, 'mainnet', 'safe-deployment-state.json');
+    const storages = [new FileSafeStateStorage(statePath), new InMemorySafeStateStorage()];
+
+    for (const storage of storages) {
+      assert.deepEqual(await storage.load(), { pendingTransactions: [], completedTransactions: [], failedTransactions: [] });
+
+      const state = await storage.load();
+      state.pendingTransactions.push(pending);
+      assert.equal((await storage.load()).pendingTransactions.length, 0, 'loaded state should be a copy');
+
+      await storage.save(state);
+      assert.deepEqual((await storage.load()).pendingTransactions, [pending]);
+    }
+
+    assert.ok(fs.existsSync(statePath), 'file storage should create the network directory');
+  } finally {
+    fs.rmSync(tempRoot, { recursive: true, force: true });
+  }
+});
+
+test('buildRoleApplyPlan grants to governance before revoking from the deployer and skips satisfied state', () => {
+  const deployer = '0x1000000000000000000000000000000000000001';
+  const governance = '0x2000000000000000000000000000000000000002';
+  const other = '0x3000000000000000000000000000000000000003';
+  const defaultAdmin = { name: 'DEFAULT_ADMIN_ROLE', hash: `0x${'00'.repeat(32)}` };
+  const minter = { name: 'MINTER_ROLE', hash: `0x${'11'.repeat(32)}` };
+  const abi = [
+    'function grantRole(bytes32 role, address account)',
+    'function revokeRole(bytes32 role, address account)',
+    'function transferOwnership(address newOwner)',
+  ] as any[];
+  let nextAddress = 0x100;
+  const address = () => `0x${(nextAddress++).toString(16).padStart(40, '0')}`;
+
+  const roles = (deploymentName: string, heldByDeployer: typeof minter[], governanceHasDefaultAdmin: boolean) => ({
+    deploymentName,
+    name: deploymentName,
+    address: address(),
+    abi,
+    roles: [defaultAdmin, minter],
+    rolesHeldByDeployer: heldByDeployer,
+    rolesHeldByGovernance: governanceHasDefaultAdmin ? [defaultAdmin] : [],
+    defaultAdminRoleHash: defaultAdmin.hash,
+    governanceHasDefaultAdmin,
+  });
+  const ownable = (deploymentName: string, owner: string) => ({
+    deploymentName,
+    name: deploymentName,
+    address: address(),
+    abi,
+    owner,
+    deployerIsOwner: owner === deployer,
+    governanceIsOwner: owner === governance,
+  });
+
+  const scan = {
+    rolesContracts: [
+      roles('Fresh', [defaultAdmin, minter], false),
+      roles('HalfDone', [minter], true),
+      roles('Done', [], true),
+      roles('Stuck', [minter], false),
+    ],
+    ownableContracts: [ownable('OwnedByDeployer', deployer), ownable('OwnedByGov', governance), ownable('OwnedElsewhere', other)],
+    stats: {} as ScanResult['stats'],
+  } as ScanResult;
+
+  const manifest = resolveRoleManifest({
+    version: 2,
+    deployer,
+    governance,
+    autoInclude: { ownable: true, defaultAdmin: true },
+    defaults: { ownable: { newOwner: '{{governance}}' }, defaultAdmin: { newAdmin: '{{governance}}' } },
+    safe: { safeAddress: governance, owners: [other], threshold: 1, chainId: 1 },
+  } as any);
+
+  const plan = buildRoleApplyPlan({ manifest, scan });
+
+  assert.deepEqual(
+    plan.actions.map((action) => [action.execution, action.deployment, action.summary]),
+    [
+      ['direct', 'Fresh', `grantRole(DEFAULT_ADMIN_ROLE, ${governance})`],
+      ['direct', 'OwnedByDeployer', `transferOwnership(${governance})`],
+      ['safe', 'Fresh', `revokeRole(MINTER_ROLE, ${deployer})`],
+      ['safe', 'HalfDone', `revokeRole(MINTER_ROLE, ${deployer})`],
+      ['safe', 'Fresh', `revokeRole(DEFAULT_ADMIN_ROLE, ${deployer})`],
+    ],
+  );
+  assert.deepEqual(
+    plan.satisfied.map((entry) => entry.deployment).sort(),
+    ['Done', 'Done', 'HalfDone', 'OwnedByGov'],
+  );
+  assert.deepEqual(plan.blocked.map((entry) => entry.deployment).sort(), ['OwnedElsewhere', 'Stuck']);
+});
+
+test('role holder policies flag unexpected, denied and missing holders and plan the fixes', () => {
+  const deployer = '0x1000000000000000000000000000000000000001';
+  const governance = '0x2000000000000000000000000000000000000002';
+  const incentives = '0x3000000000000000000000000000000000000003';
+  const stranger = '0x4000000000000000000000000000000000000004';
+  const defaultAdmin = { name: 'DEFAULT_ADMIN_ROLE', hash: `0x${'00'.repeat(32)}` };
+  const rewardsManager = { name: 'REWARDS_MANAGER_ROLE', hash: `0x${'22'.repeat(32)}` };
+  const abi = [
+    'function grantRole(bytes32 role, address account)',
+    'function revokeRole(bytes32 role, address account)',
+    'function getAllowedAmoWallets() view returns (address[])',
+    'function setAmoWalletAllowed(address wallet, bool allowed)',
+  ] as any[];
+  const contract = (deploymentName: string, address: string, rolesHeldByDeployer: typeof defaultAdmin[]) => ({
+    deploymentName,
+    name: deploymentName,
+    address,
+    abi,
+    roles: [defaultAdmin, rewardsManager],
+    rolesHeldByDeployer,
+    rolesHeldByGovernance: [defaultAdmin],
+    defaultAdminRoleHash: defaultAdmin.hash,
+    governanceHasDefaultAdmin: true,
+  });
+
+  const scan = {
+    rolesContracts: [
+      contract('RewardManager', '0x00000000000000000000000000000000000000a1', [defaultAdmin, rewardsManager]),
+      contract('AmoManager', '0x00000000000000000000000000000000000000a2', []),
+      contract('Helper_Implementation', '0x00000000000000000000000000000000000000a3', [defaultAdmin]),
+    ],
+    ownableContracts: [],
+    stats: {} as ScanResult['stats'],
+  } as ScanResult;
+
+  const manifest = resolveRoleManifest({
+    version: 2,
+    deployer,
+    governance,
+    defaults: { roles: { DEFAULT_ADMIN_ROLE: { allow: ['{{governance}}'] } } },
+    exclusions: [{ deploymentPrefix: 'Helper_' }],
+    overrides: [
+      { deployment: 'RewardManager', roles: { REWARDS_MANAGER_ROLE: { allow: [incentives] } } },
+      {
+        deployment: 'AmoManager',
+        roles: { BRIDGE_ROLE: { deny: ['{{deployer}}'] } },
+        addressSets: { getAllowedAmoWallets: { deny: ['{{deployer}}'], setter: 'setAmoWalletAllowed' } },
+      },
+    ],
+    safe: { safeAddress: governance, owners: [incentives], threshold: 1, chainId: 1 },
+  } as any);
+
+  const targets = resolvePrivilegeTargets(manifest, scan);
+  assert.deepEqual(
+    targets.map((target) => [target.deployment, target.name, target.source, target.unresolved]),
+    [
+      ['RewardManager', 'DEFAULT_ADMIN_ROLE', 'auto', undefined],
+      ['RewardManager', 'REWARDS_MANAGER_ROLE', 'override', undefined],
+      ['AmoManager', 'DEFAULT_ADMIN_ROLE', 'auto', undefined],
+      ['AmoManager', 'BRIDGE_ROLE', 'override', 'BRIDGE_ROLE not found on contract'],
+      ['AmoManager', 'getAllowedAmoWallets', 'override', undefined],
+    ],
+  );
+
+  const currentHolders = [[deployer, governance], [deployer, stranger], [governance], [], [deployer]];
+  const holders: PrivilegeHolders[] = targets.map((target, index) => ({ ...target, holders: currentHolders[index], enumerated: true }));
+
+  assert.deepEqual(
+    findHolderDrift(holders).map((issue) => [issue.deployment, issue.name, issue.drift, issue.holder]),
+    [
+      ['RewardManager', 'DEFAULT_ADMIN_ROLE', 'unexpected', deployer],
+      ['RewardManager', 'REWARDS_MANAGER_ROLE', 'unexpected', deployer],
+      ['RewardManager', 'REWARDS_MANAGER_ROLE', 'unexpected', stranger],
+      ['RewardManager', 'REWARDS_MANAGER_ROLE', 'missing', incentives],
+      ['AmoManager', 'BRIDGE_ROLE', 'unresolved', undefined],
+      ['AmoManager', 'getAllowedAmoWallets', 'denied', deployer],
+    ],
+  );
+
+  const plan = buildRoleApplyPlan({ manifest, scan, holders });
+  assert.deepEqual(
+    plan.actions.map((action) => [action.execution, action.deployment, action.summary]),
+    [
+      ['direct', 'RewardManager', `grantRole(REWARDS_MANAGER_ROLE, ${incentives})`],
+      ['safe', 'RewardManager', `revokeRole(REWARDS_MANAGER_ROLE, ${deployer})`],
+      ['direct', 'RewardManager', `revokeRole(REWARDS_MANAGER_ROLE, ${stranger})`],
+      ['safe', 'AmoManager', `setAmoWalletAllowed(${deployer}, false)`],
+      ['safe', 'RewardManager', `revokeRole(DEFAULT_ADMIN_ROLE, ${deployer})`],
+    ],
+  );
+});
+
+test('resolveRoleManifest rejects holder policies that allow and deny the same account', () => {
+  const base = {
+    version: 2,
+    deployer: '0x1000000000000000000000000000000000000001',
+    governance: '0x2000000000000000000000000000000000000002',
+  };
+
+  assert.throws(
+    () => resolveRoleManifest({ ...base, defaults: { roles: { PAUSER_ROLE: { allow: ['{{governance}}'], deny: ['{{governance}}'] } } } } as any),
+    ManifestValidationError,
+  );
+  assert.throws(
+    () => resolveRoleManifest({ ...base, overrides: [{ deployment: 'Token', roles: { owner: { allow: [] } } }] } as any),
+    /not a role constant name/,
+  );
+  assert.deepEqual(resolveRoleManifest({ ...base, defaults: { roles: { PAUSER_ROLE: { deny: ['{{deployer}}'] } } } } as any).defaults.roles, {
+    PAUSER_ROLE: { deny: [base.deployer] },
+  });
+});
+
+test('price expectation checker applies peg, relative and vault profiles and falls back to the default for unpriced references', async () => {
+  const unit = 10n ** 8n;
+  const [usdc, weth, wsteth, susds, usds, other] = ['0xA', '0xB', '0xC', '0xD', '0xE', '0xF'];
+  const prices: Record<string, bigint> = { '0xb': 3_000n * unit, '0xe': unit };
+  const checker = createPriceExpectationChecker({
+    aggregatorKey: 'USD',
+    expectations: {
+      assets: {
+        [usdc]: { kind: 'peg', tolerancePct: 2 },
+        [wsteth]: { kind: 'relative', reference: weth, minRatio: 1, maxRatio: 1.5 },
+        [susds]: { kind: 'vault', underlying: usds },
+        [other]: { kind: 'vault', underlying: '0x1' },
+      },
+    },
+    baseCurrencyUnit: unit,
+    readPrice: async asset => {
+      const price = prices[asset.toLowerCase()];
+      if (price === undefined) {
+        throw new Error('not routed');
+      }
+      return price;
+    },
+  });
+
+  const usdcDepeg = await checker.check(usdc, 97n * 10n ** 6n);
+  assert.equal(usdcDepeg.status, 'failed');
+  assert.equal(usdcDepeg.assertion, 'peg 1 ±2%');
+  assert.match(usdcDepeg.message, /price 0\.97 below \[0\.98, 1\.02\]/);
+  assert.equal((await checker.check(usdc, unit)).status, 'passed');
+
+  assert.equal((await checker.check(wsteth, 3_600n * unit)).status, 'passed');
+  assert.equal((await checker.check(wsteth, 2_900n * unit)).assertion, '1x-1.5x of 0xB');
+  assert.equal((await checker.check(wsteth, 2_900n * unit)).status, 'failed');
+
+  assert.equal((await checker.check(susds, 99n * 10n ** 6n)).status, 'failed');
+  assert.equal((await checker.check(susds, 105n * 10n ** 6n)).status, 'passed');
+  const unpriced = await checker.check(other, unit);
+  assert.deepEqual([unpriced.status, unpriced.assertion], ['passed', 'range [0.0001, 10000000]']);
+  assert.match(unpriced.message, /reference 0x1 has no price on USD/);
+  assert.equal((await checker.check(other, 20_000_000n * unit)).status, 'failed');
+
+  const fallback = await checker.check(weth, 20_000_000n * unit);
+  assert.deepEqual([fallback.status, fallback.assertion], ['failed', 'range [0.0001, 10000000]']);
+});
+
+test('validateWatchdogOptions rejects non-finite and non-positive intervals and thresholds', () => {
+  const options = { sinks: [], intervalMs: 60_000, jumpPct: 5, referencePct: 2, maxFailures: 5 };
+
+  assert.doesNotThrow(() => validateWatchdogOptions(options));
+  assert.doesNotThrow(() => validateWatchdogOptions({ sinks: [], intervalMs: 1000 }));
+  assert.throws(() => validateWatchdogOptions({ ...options, intervalMs: Number('abc') * 1000 }), /Invalid intervalMs NaN/);
+  assert.throws(() => validateWatchdogOptions({ ...options, jumpPct: 0 }), /Invalid jumpPct 0/);
+  assert.throws(() => validateWatchdogOptions({ ...options, referencePct: -1 }), /Invalid referencePct -1/);
+  assert.throws(() => validateWatchdogOptions({ ...options, maxFailures: Infinity }), /Invalid maxFailures Infinity/);
+});
+
+test('readWrapperPriceState classifies live, clamped, pegged and stale wrapper prices', async () => {
+  const zero = '0x0000000000000000000000000000000000000000';
+  const unit = 10n ** 18n;
+  const views: Record<string, any[]> = {
+    'peg:pricePeg': [unit],
+    'single:compositeFeeds': [zero, zero, [0n, 0n], [0n, 0n]],
+    'single:assetToFeed': ['feedA'],
+    'single:assetThresholds': [99n * 10n ** 16n, unit],
+    'composite:compositeFeeds': ['feedA', 'feedB', [0n, 0n], [2n * unit, 2n * unit]],
+    'feedA:latestRoundData': [1n, 100_500_000n, 0n, 1_700_000_000n, 1n],
+    'feedA:decimals': [8],
+    'feedB:read': [15n * 10n ** 17n, 1_700_000_100n],
+    'plain:assetToProxy': ['feedB'],
+  };
+  const call: OracleCall = async (target, fn) => views[`${target}:${fn}`];
+  const cachedCall = (inner: OracleCall, target: string, fn: string) => inner(target, fn, []);
+  const format = (value: bigint) => (Number(value) / 1e18).toString();
+  const read = (wrapper: string, alive = true) => readWrapperPriceState(call, cachedCall, wrapper, '0xasset', unit, alive, format);
+
+  assert.deepEqual(await read('peg'), { state: 'pegged', rawFeeds: [] });
+
+  const clamped = await read('single');
+  assert.equal(clamped.state, 'clamped');
+  assert.deepEqual(clamped.rawFeeds, [{ address: 'feedA', price: '1.005', updatedAt: 1_700_000_000, clampedTo: '1' }]);
+
+  const composite = await read('composite');
+  assert.equal(composite.state, 'live');
+  assert.deepEqual(
+    composite.rawFeeds.map(feed => [feed.address, feed.price, feed.clampedTo]),
+    [
+      ['feedA', '1.005', undefined],
+      ['feedB', '1.5', undefined],
+    ],
+  );
+
+  const stale = await read('plain', false);
+  assert.equal(stale.state, 'stale');
+  assert.equal(stale.rawFeeds[0]?.price, '1.5');
+
+  assert.deepEqual(parsePriceStates('clamped, stale'), ['clamped', 'stale']);
+  assert.throws(() => parsePriceStates('clamped,frozen'), /Unknown price state\(s\) frozen/);
+
+  const failures = findPriceStateFailures(
+    {
+      network: 'test',
+      aggregators: [
+        {
+          key: 'USD',
+          address: '0xagg',
+          assets: [
+            { address: '0x1', priceState: 'clamped' },
+            { address: '0x2', priceState: 'live' },
+            { address: '0x3', priceState: 'unknown' },
+            { address: '0x4' },
+          ],
+        },
+      ],
+    },
+    ['clamped', 'stale'],
+  );
+  assert.deepEqual(
+    failures.map(failure => [failure.aggregator, failure.asset.address]),
+    [
+      ['USD', '0x1'],
+      ['USD', '0x3'],
+      ['USD', '0x4'],
+    ],
+  );
+});
+
 (async () => {
   let failures = 0;
 
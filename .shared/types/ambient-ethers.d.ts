@@ -1,10 +1,127 @@
 declare module "ethers" {
-  export interface ProviderLike {
-    call(transaction: unknown): Promise<unknown>;
+  export type BigNumberish = string | number | bigint;
+  export type BytesLike = string | Uint8Array;
+  export type InterfaceAbi = string | ReadonlyArray<unknown>;
+
+  export const ZeroHash: string;
+
+  export function dataLength(data: BytesLike): number;
+  export function getAddress(address: string): string;
+  export function keccak256(data: BytesLike): string;
+  export function toQuantity(value: BigNumberish): string;
+
+  export interface Result extends Array<any> {
+    readonly [name: string]: any;
+    toObject(): Record<string, any>;
+  }
+
+  export interface ParamType {
+    readonly name: string;
+    readonly type: string;
+    readonly baseType: string;
+    readonly arrayChildren: null | ParamType;
+    isArray(): this is ParamType & { arrayChildren: ParamType };
+  }
+
+  export interface FunctionFragment {
+    readonly name: string;
+    readonly inputs: ReadonlyArray<ParamType>;
+    readonly outputs: ReadonlyArray<ParamType>;
+    readonly stateMutability: "payable" | "nonpayable" | "view" | "pure";
+    readonly selector: string;
+    format(format?: "sighash" | "minimal" | "full" | "json"): string;
+  }
+
+  export interface EventFragment {
+    readonly name: string;
+    readonly inputs: ReadonlyArray<ParamType>;
+    readonly topicHash: string;
+  }
+
+  export class ErrorFragment {
+    readonly name: string;
+    readonly inputs: ReadonlyArray<ParamType>;
+    readonly selector: string;
+    format(format?: "sighash" | "minimal" | "full" | "json"): string;
+  }
+
+  export type Fragment = FunctionFragment | EventFragment | ErrorFragment;
+
+  export interface TransactionDescription {
+    readonly fragment: FunctionFragment;
+    readonly name: string;
+    readonly args: Result;
+    readonly signature: string;
+    readonly selector: string;
+    readonly value: bigint;
+  }
+
+  export interface LogDescription {
+    readonly fragment: EventFragment;
+    readonly name: string;
+    readonly signature: string;
+    readonly topic: string;
+    readonly args: Result;
+  }
+
+  export class Interface {
+    constructor(fragments: InterfaceAbi);
+    readonly fragments: ReadonlyArray<Fragment>;
+    getEvent(key: string): EventFragment | null;
+    forEachFunction(callback: (fragment: FunctionFragment, index: number) => void): void;
+    encodeFunctionData(fragment: FunctionFragment | string, values?: ReadonlyArray<unknown>): string;
+    decodeFunctionResult(fragment: FunctionFragment | string, data: BytesLike): Result;
+    decodeErrorResult(fragment: ErrorFragment | string, data: BytesLike): Result;
+    parseTransaction(transaction: { data: string; value?: BigNumberish }): TransactionDescription | null;
+    parseLog(log: { topics: ReadonlyArray<string>; data: string }): LogDescription | null;
+  }
+
+  export class AbiCoder {
+    static defaultAbiCoder(): AbiCoder;
+    decode(types: ReadonlyArray<string>, data: BytesLike): Result;
+    encode(types: ReadonlyArray<string>, values: ReadonlyArray<unknown>): string;
+  }
+
+  export interface Log {
+    readonly address: string;
+    readonly topics: ReadonlyArray<string>;
+    readonly data: string;
+    readonly blockNumber: number;
+    readonly blockHash: string;
+    readonly transactionHash: string;
+    readonly index: number;
+  }
+
+  export interface Block {
+    readonly number: number;
+    readonly hash: string | null;
+    readonly timestamp: number;
+  }
+
+  export interface Filter {
+    readonly address?: string | string[];
+    readonly topics?: ReadonlyArray<string | null | ReadonlyArray<string>>;
+    readonly fromBlock?: number | string;
+    readonly toBlock?: number | string;
+  }
+
+  export interface TransactionRequest {
+    readonly to?: string;
+    readonly from?: string;
+    readonly data?: string;
+    readonly value?: BigNumberish;
+    readonly blockTag?: number | string;
+  }
+
+  export interface Provider {
+    call(transaction: TransactionRequest): Promise<string>;
+    getBlockNumber(): Promise<number>;
+    getBlock(blockHashOrBlockTag: number | string): Promise<Block | null>;
+    getLogs(filter: Filter): Promise<Log[]>;
   }
 
   export interface Signer {
-    readonly provider?: ProviderLike;
+    readonly provider?: Provider | null;
     getAddress(): Promise<string>;
   }
 }
@@ -1,7 +1,12 @@
 declare module "hardhat-deploy/types" {
   export type Address = string;
+  export type Deployment = {
+    readonly address: string;
+    readonly abi: any[];
+    readonly [key: string]: unknown;
+  };
   export type DeploymentsExtension = {
-    readonly all: () => Promise<Record<string, { address?: string }>>;
+    readonly all: () => Promise<Record<string, Deployment>>;
     readonly getOrNull: (name: string) => Promise<{ address?: string } | undefined>;
   };
   export type RecordExtendedDeployment = Record<string, unknown>;
@@ -10,15 +15,66 @@ declare module "hardhat-deploy/types" {
 declare module "hardhat/types" {
   import type { DeploymentsExtension } from "hardhat-deploy/types";
 
+  export interface RequestArguments {
+    readonly method: string;
+    readonly params?: readonly unknown[] | object;
+  }
+
+  export interface EthereumProvider {
+    request(args: RequestArguments): Promise<unknown>;
+  }
+
+  export interface HardhatNetworkConfig {
+    readonly chainId: number;
+    readonly forking?: {
+      readonly enabled: boolean;
+      readonly url: string;
+      readonly blockNumber?: number;
+      readonly httpHeaders?: Record<string, string>;
+    };
+  }
+
+  export interface HttpNetworkConfig {
+    readonly url: string;
+    readonly chainId?: number;
+    readonly httpHeaders: Record<string, string>;
+  }
+
+  export type NetworkConfig = HardhatNetworkConfig | HttpNetworkConfig;
+
+  export interface HardhatConfig {
+    readonly networks: { readonly hardhat: HardhatNetworkConfig; readonly [name: string]: NetworkConfig };
+    readonly paths: Record<string, string>;
+    readonly [key: string]: unknown;
+  }
+
+  export interface Artifact {
+    readonly contractName: string;
+    readonly sourceName: string;
+    readonly abi: any[];
+    readonly bytecode: string;
+    readonly deployedBytecode: string;
+    readonly linkReferences: LinkReferences;
+    readonly deployedLinkReferences: LinkReferences;
+  }
+
+  export type LinkReferences = Record<string, Record<string, Array<{ length: number; start: number }>>>;
+
+  export interface Artifacts {
+    readArtifact(contractNameOrFullyQualifiedName: string): Promise<Artifact>;
+    getAllFullyQualifiedNames(): Promise<string[]>;
+  }
+
   export interface HardhatRuntimeEnvironment {
     readonly network: {
       readonly name: string;
       readonly chainId?: number;
-      readonly config?: Record<string, unknown>;
+      readonly config: NetworkConfig;
       readonly provider?: any;
       [key: string]: unknown;
     };
-    readonly config: Record<string, unknown>;
+    readonly config: HardhatConfig;
+    readonly artifacts: Artifacts;
     readonly deployments: DeploymentsExtension;
     readonly ethers: {
       readonly formatUnits: (value: unknown, decimals?: number) => string;
@@ -31,9 +87,12 @@ declare module "hardhat/types" {
     } & Record<string, unknown>;
     [key: string]: unknown;
   }
+}
+
+declare module "hardhat/internal/core/providers/construction" {
+  import type { Artifacts, EthereumProvider, HardhatConfig } from "hardhat/types";
 
-  export type Artifact = Record<string, unknown>;
-  export type LinkReferences = Record<string, unknown>;
+  export function createProvider(config: HardhatConfig, networkName: string, artifacts?: Artifacts): Promise<EthereumProvider>;
 }
 
 declare module "hardhat" {
@@ -0,0 +1,39 @@
+import { DLendStressScenario } from "./types";
+
+/* Oracle shocks replayed by `yarn dlend:stress`. Each scenario is applied on its own fork
+ * snapshot; reserves that are not listed on the network are skipped. Shocks are relative
+ * to the current AaveOracle price, so -100 is not allowed (the aggregator rejects a zero price).
+ */
+
+export const dLendStressScenarios: DLendStressScenario[] = [
+  {
+    name: "eth-crash-30",
+    description: "ETH and its liquid staking tokens drop 30%",
+    shocks: { WETH: -30, wstETH: -30, rETH: -30, sfrxETH: -30 },
+  },
+  {
+    name: "lst-depeg-15",
+    description: "Liquid staking tokens depeg 15% against an unchanged ETH",
+    shocks: { wstETH: -15, rETH: -15, sfrxETH: -15 },
+  },
+  {
+    name: "btc-crash-40",
+    description: "BTC and its wrappers drop 40%",
+    shocks: { WBTC: -40, cbBTC: -40, LBTC: -40 },
+  },
+  {
+    name: "yield-stable-depeg-10",
+    description: "Yield-bearing stablecoins lose 10% of their value",
+    shocks: { sUSDe: -10, sUSDS: -10, syrupUSDC: -10, syrupUSDT: -10, sfrxUSD: -10 },
+  },
+  {
+    name: "dusd-spike-5",
+    description: "dUSD trades 5% above peg, inflating dUSD debt",
+    shocks: { dUSD: 5 },
+  },
+  {
+    name: "market-wide-50",
+    description: "Every volatile collateral halves",
+    shocks: { WETH: -50, wstETH: -50, rETH: -50, sfrxETH: -50, WBTC: -50, cbBTC: -50, LBTC: -50, PAXG: -30 },
+  },
+];
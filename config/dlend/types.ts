@@ -11,3 +11,13 @@ export interface DLendConfig {
     [reserveName: string]: IReserveParams;
   };
 }
+
+export interface DLendStressScenario {
+  readonly name: string;
+  readonly description?: string;
+  /**
+   * Price change in percent per reserve, keyed by `config.tokenAddresses` symbol, listed reserve
+   * symbol or address, e.g. `{ wstETH: -30 }` re-prices wstETH at 70% of its current price
+   */
+  readonly shocks: { [reserve: string]: number };
+}
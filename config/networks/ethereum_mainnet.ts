@@ -217,6 +217,23 @@ export async function getConfig(hre: HardhatRuntimeEnvironment): Promise<Config>
         hardDStablePeg: ORACLE_AGGREGATOR_BASE_CURRENCY_UNIT,
         baseCurrency: ZeroAddress,
         chainlinkErc4626OracleAssets: usdChainlinkErc4626Feeds,
+        priceExpectations: {
+          assets: {
+            [USDC_ADDRESS]: { kind: "peg", tolerancePct: 2 },
+            [USDT_ADDRESS]: { kind: "peg", tolerancePct: 2 },
+            [USDS_ADDRESS]: { kind: "peg", tolerancePct: 2 },
+            [FRXUSD_ADDRESS]: { kind: "peg", tolerancePct: 2 },
+            [WSTETH_ADDRESS]: { kind: "relative", reference: WETH_ADDRESS, minRatio: 1, maxRatio: 1.5 },
+            [RETH_ADDRESS]: { kind: "relative", reference: WETH_ADDRESS, minRatio: 1, maxRatio: 1.5 },
+            [SFRXETH_ADDRESS]: { kind: "relative", reference: WETH_ADDRESS, minRatio: 1, maxRatio: 1.5 },
+            [SUSDS_ADDRESS]: { kind: "vault", underlying: USDS_ADDRESS, maxRatio: 2 },
+            [SFRXUSD_ADDRESS]: { kind: "vault", underlying: FRXUSD_ADDRESS, maxRatio: 2 },
+            [SYRUP_USDC_ADDRESS]: { kind: "vault", underlying: USDC_ADDRESS, maxRatio: 2 },
+            [SYRUP_USDT_ADDRESS]: { kind: "vault", underlying: USDT_ADDRESS, maxRatio: 2 },
+            [WBTC_ADDRESS]: { kind: "relative", reference: CBBTC_ADDRESS, minRatio: 0.98, maxRatio: 1.02 },
+            [LBTC_ADDRESS]: { kind: "relative", reference: CBBTC_ADDRESS, minRatio: 0.95, maxRatio: 1.05 },
+          },
+        },
         api3OracleAssets: {
           plainApi3OracleWrappers: {},
           api3OracleWrappersWithThresholding: {},
@@ -233,6 +250,13 @@ export async function getConfig(hre: HardhatRuntimeEnvironment): Promise<Config>
         hardDStablePeg: ORACLE_AGGREGATOR_BASE_CURRENCY_UNIT,
         baseCurrency: WETH_ADDRESS,
         erc4626OracleAssets: ethErc4626OracleAssets,
+        priceExpectations: {
+          assets: {
+            [FRXETH_ADDRESS]: { kind: "peg", tolerancePct: 2 },
+            [WSTETH_ADDRESS]: { kind: "relative", reference: WETH_ADDRESS, minRatio: 1, maxRatio: 1.5 },
+            [SFRXETH_ADDRESS]: { kind: "vault", underlying: FRXETH_ADDRESS, maxRatio: 1.5 },
+          },
+        },
         api3OracleAssets: {
           plainApi3OracleWrappers: {},
           api3OracleWrappersWithThresholding: {},
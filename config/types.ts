@@ -1,6 +1,8 @@
 import { Address } from "hardhat-deploy/types";
 
-import { SafeConfig } from "../typescript/safe/types";
+import { OraclePriceExpectations } from "../.shared/lib/oracles/prices/expectations";
+import { SafeConfig } from "../.shared/lib/safe/types";
+import { TimelockConfig } from "../typescript/hardhat/timelock";
 import { DLendConfig } from "./dlend/types";
 
 export interface Config {
@@ -8,6 +10,7 @@ export interface Config {
   readonly tokenAddresses: TokenAddresses;
   readonly walletAddresses: WalletAddresses;
   readonly safeConfig?: SafeConfig;
+  readonly timelockConfig?: TimelockConfig;
   readonly oracleAggregators: {
     [key: string]: OracleAggregatorConfig;
   };
@@ -74,6 +77,8 @@ export interface OracleAggregatorConfig {
   readonly priceDecimals: number;
   readonly hardDStablePeg: bigint;
   readonly baseCurrency: string;
+  // Per-asset price expectations checked by the oracle deploy scripts and the price inspector
+  readonly priceExpectations?: OraclePriceExpectations;
   readonly chainlinkErc4626OracleAssets?: {
     [assetAddress: string]: {
       vault: string;
@@ -242,11 +247,15 @@ export interface PTTokenConfig {
   readonly market: Address; // Pendle market address
   readonly oracleType: "PT_TO_ASSET" | "PT_TO_SY"; // Oracle pricing type
   readonly twapDuration: number; // TWAP duration in seconds (e.g., 900)
+  readonly aggregator?: string; // Key in oracleAggregators the PT is priced on (default: "USD")
+  readonly assetFeed?: Address; // Chainlink-compatible feed pricing the PT's asset (or SY) in the aggregator base currency; required unless assetIsBaseCurrency is set
+  readonly assetIsBaseCurrency?: boolean; // Set when the PT's asset (or SY) is the aggregator base currency, so the PT rate is the price and no assetFeed is needed
 }
 
 export interface PendleConfig {
   readonly ptYtLpOracleAddress: Address; // Universal Pendle PT/YT/LP Oracle address (0x9a9Fa8338dd5E5B2188006f1Cd2Ef26d921650C2)
   readonly ptTokens: PTTokenConfig[]; // List of PT tokens to configure
+  readonly expiryWarningDays?: number; // Warn when a PT market expires within this many days (default: 14)
 }
 
 // --- Chainlink Composite Wrapper Types ---
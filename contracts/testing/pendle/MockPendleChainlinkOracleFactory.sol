@@ -0,0 +1,71 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import { MockPendlePyLpOracle } from "./MockPendlePyLpOracle.sol";
+
+/// @notice Chainlink-compatible PT oracle reading the mock PT/YT/LP oracle, 18 decimals like Pendle's
+contract MockPendleChainlinkOracle {
+    address public immutable market;
+    uint32 public immutable twapDuration;
+    uint8 public immutable baseOracleType;
+    MockPendlePyLpOracle public immutable pyLpOracle;
+
+    constructor(address _market, uint32 _twapDuration, uint8 _baseOracleType, address _pyLpOracle) {
+        market = _market;
+        twapDuration = _twapDuration;
+        baseOracleType = _baseOracleType;
+        pyLpOracle = MockPendlePyLpOracle(_pyLpOracle);
+    }
+
+    function decimals() external pure returns (uint8) {
+        return 18;
+    }
+
+    function description() external pure returns (string memory) {
+        return "Pendle PT oracle";
+    }
+
+    function version() external pure returns (uint256) {
+        return 1;
+    }
+
+    function latestRoundData() external view returns (uint80, int256, uint256, uint256, uint80) {
+        uint256 rate = baseOracleType == 0
+            ? pyLpOracle.getPtToSyRate(market, twapDuration)
+            : pyLpOracle.getPtToAssetRate(market, twapDuration);
+        return (0, int256(rate), block.timestamp, block.timestamp, 0);
+    }
+
+    function getRoundData(uint80) external view returns (uint80, int256, uint256, uint256, uint80) {
+        return this.latestRoundData();
+    }
+}
+
+/// @notice Mirrors PendleChainlinkOracleFactory.createOracle, including the TWAP readiness check
+contract MockPendleChainlinkOracleFactory {
+    address public immutable pyLpOracle;
+    mapping(bytes32 => address) public oracles;
+
+    error OracleNotReady(bool increaseCardinalityRequired, bool oldestObservationSatisfied);
+    error OracleAlreadyExists();
+
+    constructor(address _pyLpOracle) {
+        pyLpOracle = _pyLpOracle;
+    }
+
+    function createOracle(address market, uint32 twapDuration, uint8 baseOracleType) external returns (address oracle) {
+        (bool increaseCardinalityRequired, , bool oldestObservationSatisfied) = MockPendlePyLpOracle(pyLpOracle)
+            .getOracleState(market, twapDuration);
+        if (increaseCardinalityRequired || !oldestObservationSatisfied) {
+            revert OracleNotReady(increaseCardinalityRequired, oldestObservationSatisfied);
+        }
+
+        bytes32 oracleId = keccak256(abi.encode(market, twapDuration, baseOracleType));
+        if (oracles[oracleId] != address(0)) {
+            revert OracleAlreadyExists();
+        }
+
+        oracle = address(new MockPendleChainlinkOracle(market, twapDuration, baseOracleType, pyLpOracle));
+        oracles[oracleId] = oracle;
+    }
+}
@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @notice Minimal Pendle market exposing its tokens, expiry and observation cardinality
+contract MockPendleMarket {
+    uint256 public expiry;
+    uint16 public observationCardinalityNext;
+    address private _sy;
+    address private _pt;
+    address private _yt;
+
+    constructor(uint256 _expiry) {
+        expiry = _expiry;
+    }
+
+    function setExpiry(uint256 _expiry) external {
+        expiry = _expiry;
+    }
+
+    function setTokens(address sy, address pt, address yt) external {
+        _sy = sy;
+        _pt = pt;
+        _yt = yt;
+    }
+
+    function readTokens() external view returns (address, address, address) {
+        return (_sy, _pt, _yt);
+    }
+
+    function isExpired() external view returns (bool) {
+        return block.timestamp >= expiry;
+    }
+
+    function increaseObservationsCardinalityNext(uint16 cardinalityNext) external {
+        if (cardinalityNext > observationCardinalityNext) {
+            observationCardinalityNext = cardinalityNext;
+        }
+    }
+}
@@ -0,0 +1,11 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @notice PYFactory stub recognizing the PTs registered with setPT
+contract MockPendlePYFactory {
+    mapping(address => bool) public isPT;
+
+    function setPT(address pt, bool value) external {
+        isPT[pt] = value;
+    }
+}
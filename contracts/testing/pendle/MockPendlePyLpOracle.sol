@@ -0,0 +1,49 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @notice Pendle PT/YT/LP oracle with settable TWAP readiness and rates
+contract MockPendlePyLpOracle {
+    struct OracleState {
+        bool increaseCardinalityRequired;
+        uint16 cardinalityRequired;
+        bool oldestObservationSatisfied;
+    }
+
+    mapping(address => OracleState) private _states;
+    mapping(address => uint256) private _ptToAssetRates;
+    mapping(address => uint256) private _ptToSyRates;
+
+    function setOracleState(
+        address market,
+        bool increaseCardinalityRequired,
+        uint16 cardinalityRequired,
+        bool oldestObservationSatisfied
+    ) external {
+        _states[market] = OracleState(increaseCardinalityRequired, cardinalityRequired, oldestObservationSatisfied);
+    }
+
+    function setRates(address market, uint256 ptToAssetRate, uint256 ptToSyRate) external {
+        _ptToAssetRates[market] = ptToAssetRate;
+        _ptToSyRates[market] = ptToSyRate;
+    }
+
+    function getOracleState(
+        address market,
+        uint32
+    )
+        external
+        view
+        returns (bool increaseCardinalityRequired, uint16 cardinalityRequired, bool oldestObservationSatisfied)
+    {
+        OracleState memory state = _states[market];
+        return (state.increaseCardinalityRequired, state.cardinalityRequired, state.oldestObservationSatisfied);
+    }
+
+    function getPtToAssetRate(address market, uint32) external view returns (uint256) {
+        return _ptToAssetRates[market];
+    }
+
+    function getPtToSyRate(address market, uint32) external view returns (uint256) {
+        return _ptToSyRates[market];
+    }
+}
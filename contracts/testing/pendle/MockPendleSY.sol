@@ -0,0 +1,11 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @notice Standardized Yield token stub exposing the wrapped yield token
+contract MockPendleSY {
+    address public yieldToken;
+
+    constructor(address _yieldToken) {
+        yieldToken = _yieldToken;
+    }
+}
@@ -11,11 +11,11 @@ import {
 } from "../../typescript/deploy-ids";
 import { isLocalNetwork } from "../../typescript/hardhat/deploy";
 import { GovernanceExecutor } from "../../typescript/hardhat/governance";
+import { createAggregatorPriceChecker } from "../../typescript/oracle_aggregator/price-expectations";
 import {
-  assertChainlinkErc4626PriceWithinBounds,
-  assertCompositeFeedPriceWithinBounds,
-  assertPlainFeedPriceWithinBounds,
-  getUsdOraclePriceBounds,
+  assertChainlinkErc4626PriceExpectation,
+  assertCompositeFeedPriceExpectation,
+  assertPlainFeedPriceExpectation,
 } from "../_shared/oracle-price-sanity";
 import { assertRoleGrantedToManager } from "../_shared/safe-role";
 
@@ -117,11 +117,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Pr
   const plainFeeds = config.oracleAggregators.USD.redstoneOracleAssets.plainRedstoneOracleWrappers;
   const compositeFeeds = config.oracleAggregators.USD.redstoneOracleAssets.compositeRedstoneOracleWrappersWithThresholding;
   const erc4626Feeds = config.oracleAggregators.USD.chainlinkErc4626OracleAssets ?? {};
-  const [plainBounds, compositeBounds, erc4626Bounds] = await Promise.all([
-    plainWrapper.BASE_CURRENCY_UNIT().then(getUsdOraclePriceBounds),
-    compositeWrapper.BASE_CURRENCY_UNIT().then(getUsdOraclePriceBounds),
-    erc4626Wrapper.BASE_CURRENCY_UNIT().then(getUsdOraclePriceBounds),
-  ]);
+  const checker = await createAggregatorPriceChecker(hre, "USD", config.oracleAggregators.USD);
 
   for (const [asset, feed] of Object.entries(plainFeeds)) {
     const currentFeed = await plainWrapper.assetToFeed(asset);
@@ -130,12 +126,13 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Pr
     const requiresOracleUpdate = normalize(currentOracle) !== normalize(plainWrapperAddress);
 
     if (requiresFeedUpdate || requiresOracleUpdate) {
-      await assertPlainFeedPriceWithinBounds({
+      await assertPlainFeedPriceExpectation({
         hre,
         signer,
         wrapper: plainWrapper,
         feed,
-        bounds: plainBounds,
+        checker,
+        asset,
         label: `USD plain wrapper ${asset}`,
       });
     }
@@ -147,6 +144,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Pr
           throw new Error("Direct execution disabled: queue Safe transaction instead.");
         },
         () => ({ to: plainWrapperAddress, value: "0", data }),
+        `setFeed ${asset}`,
       );
     }
 
@@ -157,6 +155,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Pr
           throw new Error("Direct execution disabled: queue Safe transaction instead.");
         },
         () => ({ to: aggregatorAddress, value: "0", data }),
+        `setOracle ${asset}`,
       );
     }
   }
@@ -177,12 +176,13 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Pr
     const requiresOracleUpdate = normalize(currentOracle) !== normalize(compositeWrapperAddress);
 
     if (requiresUpdate || requiresOracleUpdate) {
-      await assertCompositeFeedPriceWithinBounds({
+      await assertCompositeFeedPriceExpectation({
         hre,
         signer,
         wrapper: compositeWrapper,
         config: feedConfig,
-        bounds: compositeBounds,
+        checker,
+        asset: feedAsset,
         label: `USD composite wrapper ${feedAsset}`,
       });
     }
@@ -202,6 +202,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Pr
           throw new Error("Direct execution disabled: queue Safe transaction instead.");
         },
         () => ({ to: compositeWrapperAddress, value: "0", data }),
+        `addCompositeFeed ${feedAsset}`,
       );
     }
 
@@ -212,6 +213,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Pr
           throw new Error("Direct execution disabled: queue Safe transaction instead.");
         },
         () => ({ to: aggregatorAddress, value: "0", data }),
+        `setOracle ${feedAsset}`,
       );
     }
   }
@@ -226,13 +228,14 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Pr
     const requiresOracleUpdate = normalize(currentOracle) !== normalize(erc4626WrapperAddress);
 
     if (requiresFeedConfigUpdate || requiresOracleUpdate) {
-      await assertChainlinkErc4626PriceWithinBounds({
+      await assertChainlinkErc4626PriceExpectation({
         hre,
         signer,
         wrapper: erc4626Wrapper,
         vault: feedConfig.vault,
         feed: feedConfig.feed,
-        bounds: erc4626Bounds,
+        checker,
+        asset,
         label: `USD ERC4626 wrapper ${asset}`,
       });
     }
@@ -244,6 +247,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Pr
           throw new Error("Direct execution disabled: queue Safe transaction instead.");
         },
         () => ({ to: erc4626WrapperAddress, value: "0", data }),
+        `setERC4626Feed ${asset}`,
       );
     }
 
@@ -254,6 +258,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Pr
           throw new Error("Direct execution disabled: queue Safe transaction instead.");
         },
         () => ({ to: aggregatorAddress, value: "0", data }),
+        `setOracle ${asset}`,
       );
     }
   }
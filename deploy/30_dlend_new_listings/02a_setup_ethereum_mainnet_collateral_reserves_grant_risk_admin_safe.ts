@@ -60,6 +60,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Pr
       throw new Error("Direct execution disabled: queue Safe transaction instead.");
     },
     () => ({ to: aclManagerAddress, value: "0", data: grantRiskAdminData }),
+    `addRiskAdmin ${reservesSetupHelperAddress}`,
   );
 
   const success = await executor.flush("Ethereum mainnet dLEND collateral reserves risk-admin grant");
@@ -280,6 +280,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Pr
         throw new Error("Direct execution disabled: queue Safe transaction instead.");
       },
       () => ({ to: reservesSetupHelperAddress, value: "0", data: configureReservesData }),
+      `configureReserves ${reserveConfigInputParams.map((input) => input.asset).join(", ")}`,
     );
   }
 
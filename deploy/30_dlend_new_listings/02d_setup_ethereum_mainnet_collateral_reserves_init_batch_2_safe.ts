@@ -288,6 +288,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Pr
         throw new Error("Direct execution disabled: queue Safe transaction instead.");
       },
       () => ({ to: poolConfiguratorAddress, value: "0", data }),
+      `initReserves ${initChunk.map((input) => input.underlyingAsset).join(", ")}`,
     );
   }
 
@@ -11,11 +11,11 @@ import {
 } from "../../typescript/deploy-ids";
 import { isLocalNetwork } from "../../typescript/hardhat/deploy";
 import { GovernanceExecutor } from "../../typescript/hardhat/governance";
+import { createAggregatorPriceChecker } from "../../typescript/oracle_aggregator/price-expectations";
 import {
-  assertDirectWrapperPriceWithinBounds,
-  assertErc4626PriceWithinBounds,
-  assertPlainFeedPriceWithinBounds,
-  getEthOraclePriceBounds,
+  assertDirectWrapperPriceExpectation,
+  assertErc4626PriceExpectation,
+  assertPlainFeedPriceExpectation,
 } from "../_shared/oracle-price-sanity";
 import { assertRoleGrantedToManager } from "../_shared/safe-role";
 
@@ -104,11 +104,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Pr
   const redstoneFeeds = ethOracleConfig.redstoneOracleAssets.plainRedstoneOracleWrappers ?? {};
   const erc4626Vaults = ethOracleConfig.erc4626OracleAssets ?? {};
   const frxEthConfig = ethOracleConfig.frxEthFundamentalOracle;
-  const [redstoneBounds, erc4626Bounds, frxWrapperBounds] = await Promise.all([
-    redstoneWrapper.BASE_CURRENCY_UNIT().then(getEthOraclePriceBounds),
-    erc4626Wrapper.BASE_CURRENCY_UNIT().then(getEthOraclePriceBounds),
-    frxEthWrapper.BASE_CURRENCY_UNIT().then(getEthOraclePriceBounds),
-  ]);
+  const checker = await createAggregatorPriceChecker(hre, "ETH", ethOracleConfig);
 
   for (const [asset, feed] of Object.entries(redstoneFeeds)) {
     if (isZeroAddress(asset) || isZeroAddress(feed)) {
@@ -121,12 +117,13 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Pr
     const requiresOracleUpdate = normalize(currentOracle) !== normalize(redstoneWrapperAddress);
 
     if (requiresFeedUpdate || requiresOracleUpdate) {
-      await assertPlainFeedPriceWithinBounds({
+      await assertPlainFeedPriceExpectation({
         hre,
         signer,
         wrapper: redstoneWrapper,
         feed,
-        bounds: redstoneBounds,
+        checker,
+        asset,
         label: `ETH plain wrapper ${asset}`,
       });
     }
@@ -138,6 +135,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Pr
           throw new Error("Direct execution disabled: queue Safe transaction instead.");
         },
         () => ({ to: redstoneWrapperAddress, value: "0", data }),
+        `setFeed ${asset}`,
       );
     }
 
@@ -148,6 +146,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Pr
           throw new Error("Direct execution disabled: queue Safe transaction instead.");
         },
         () => ({ to: aggregatorAddress, value: "0", data }),
+        `setOracle ${asset}`,
       );
     }
   }
@@ -164,12 +163,13 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Pr
     const requiresOracleUpdate = normalize(currentOracle) !== normalize(erc4626WrapperAddress);
 
     if (requiresVaultUpdate || requiresOracleUpdate) {
-      await assertErc4626PriceWithinBounds({
+      await assertErc4626PriceExpectation({
         hre,
         signer,
         wrapper: erc4626Wrapper,
         vault,
-        bounds: erc4626Bounds,
+        checker,
+        asset,
         label: `ETH ERC4626 wrapper ${asset}`,
       });
     }
@@ -181,6 +181,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Pr
           throw new Error("Direct execution disabled: queue Safe transaction instead.");
         },
         () => ({ to: erc4626WrapperAddress, value: "0", data }),
+        `setVault ${asset}`,
       );
     }
 
@@ -191,6 +192,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Pr
           throw new Error("Direct execution disabled: queue Safe transaction instead.");
         },
         () => ({ to: aggregatorAddress, value: "0", data }),
+        `setOracle ${asset}`,
       );
     }
   }
@@ -199,10 +201,10 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Pr
     const currentOracle = await aggregator.assetOracles(frxEthConfig.asset);
 
     if (normalize(currentOracle) !== normalize(frxEthWrapperAddress)) {
-      await assertDirectWrapperPriceWithinBounds({
+      await assertDirectWrapperPriceExpectation({
         wrapper: frxEthWrapper,
         asset: frxEthConfig.asset,
-        bounds: frxWrapperBounds,
+        checker,
         label: `ETH fundamental wrapper ${frxEthConfig.asset}`,
       });
 
@@ -212,6 +214,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Pr
           throw new Error("Direct execution disabled: queue Safe transaction instead.");
         },
         () => ({ to: aggregatorAddress, value: "0", data }),
+        `setOracle ${frxEthConfig.asset}`,
       );
     }
   }
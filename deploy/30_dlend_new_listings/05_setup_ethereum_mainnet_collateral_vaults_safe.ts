@@ -190,6 +190,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Pr
             throw new Error("Direct execution disabled: queue Safe transaction instead.");
           },
           () => ({ to: vaultAddress, value: "0", data }),
+          `allowCollateral ${asset}`,
         );
       }
 
@@ -211,6 +212,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Pr
             throw new Error("Direct execution disabled: queue Safe transaction instead.");
           },
           () => ({ to: redeemerAddress, value: "0", data }),
+          `setCollateralRedemptionFee ${asset}`,
         );
       }
     }
@@ -0,0 +1,66 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+
+import { getConfig } from "../../config/config";
+import { PENDLE_CHAINLINK_ORACLE_FACTORY_ID } from "../../typescript/deploy-ids";
+import {
+  deployPtOracles,
+  increasePtMarketCardinality,
+  ptExpiryWarning,
+  ptTwapReadinessIssue,
+  readPtOracleStatuses,
+  withPendlePtFeeds,
+} from "../../typescript/pendle/pt-oracles";
+import { setupPlannedOracleAssets } from "../_shared/oracle-wrapper-plan";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment): Promise<boolean> {
+  const name = __filename.split("/").slice(-2).join("/");
+  const config = await getConfig(hre);
+  const pendle = config.pendle;
+
+  if (!pendle || pendle.ptTokens.length === 0) {
+    console.log(`🔁 ${name}: no Pendle PT tokens configured – skipping`);
+    return true;
+  }
+
+  const { deployer } = await hre.getNamedAccounts();
+  let statuses = await readPtOracleStatuses(hre, pendle);
+
+  for (const status of statuses) {
+    const warning = ptExpiryWarning(status);
+
+    if (warning) {
+      console.warn(`   ⚠️  ${warning}`);
+    }
+  }
+
+  const increased = await increasePtMarketCardinality(statuses, await hre.ethers.getSigner(deployer));
+  increased.forEach((pt) => console.log(`   ✅ Increased ${pt.name} market observation cardinality`));
+
+  await deployPtOracles(hre, pendle, statuses, config.oracleAggregators, deployer);
+  statuses = await readPtOracleStatuses(hre, pendle);
+
+  for (const aggregatorKey of new Set(statuses.map((status) => status.aggregatorKey))) {
+    const assets = statuses
+      .filter((status) => status.aggregatorKey === aggregatorKey && status.converter)
+      .map((status) => status.pt.ptToken);
+
+    if (assets.length > 0) {
+      const oracleConfig = withPendlePtFeeds(aggregatorKey, config.oracleAggregators[aggregatorKey], statuses);
+      await setupPlannedOracleAssets(hre, aggregatorKey, oracleConfig, assets);
+    }
+  }
+
+  // PTs whose TWAP is not ready yet are picked up when the script is rerun
+  const waiting = statuses.filter((status) => status.expiryStatus !== "expired" && !status.converter);
+  waiting.forEach((status) => console.warn(`   ⏳ ${ptTwapReadinessIssue(status) ?? `${status.pt.name}: oracle not deployed`}`));
+
+  console.log(`🔁 ${name}: ${waiting.length === 0 ? "✅" : `${waiting.length} PT oracle(s) pending`}`);
+  return waiting.length === 0;
+};
+
+func.tags = ["post-deploy", "oracle-rollout", "pendle", "setup-pendle-pt-oracles", PENDLE_CHAINLINK_ORACLE_FACTORY_ID];
+func.dependencies = ["deploy-usd-oracle-aggregator", "setup-usd-oracle-wrappers-v1_1"];
+func.id = "setup-pendle-pt-oracles";
+
+export default func;
@@ -2,6 +2,9 @@ import { BaseContract, Signer } from "ethers";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { DeployFunction } from "hardhat-deploy/types";
 
+import { OraclePriceExpectationChecker } from "../../.shared/lib/oracles/prices/expectations";
+import { assertOraclePriceExpectation } from "../../typescript/oracle_aggregator/price-expectations";
+
 const CHAINLINK_BASE_UNIT = 10n ** 8n;
 const CHAINLINK_EXPECTED_FEED_DECIMALS = 8n;
 const CHAINLINK_HEARTBEAT_SECONDS = 24n * 60n * 60n;
@@ -34,11 +37,6 @@ type DirectOracleLike = BaseContract & {
   getAssetPrice(asset: string): Promise<bigint>;
 };
 
-export type OraclePriceBounds = {
-  minInBase: bigint;
-  maxInBase: bigint;
-};
-
 export type CompositeFeedConfig = {
   feed1: string;
   feed2: string;
@@ -49,49 +47,27 @@ export type CompositeFeedConfig = {
 };
 
 /**
- * Returns broad sanity bounds for USD-denominated prices.
- *
- * @param baseCurrencyUnit Wrapper base unit.
- */
-export function getUsdOraclePriceBounds(baseCurrencyUnit: bigint): OraclePriceBounds {
-  return {
-    minInBase: baseCurrencyUnit / 10_000n,
-    maxInBase: baseCurrencyUnit * 10_000_000n,
-  };
-}
-
-/**
- * Returns broad sanity bounds for ETH-denominated prices.
- *
- * @param baseCurrencyUnit Wrapper base unit.
- */
-export function getEthOraclePriceBounds(baseCurrencyUnit: bigint): OraclePriceBounds {
-  return {
-    minInBase: baseCurrencyUnit / 1_000n,
-    maxInBase: baseCurrencyUnit * 1_000n,
-  };
-}
-
-/**
- * Validates a plain Chainlink-compatible feed value against bounds.
+ * Validates a plain Chainlink-compatible feed value against the asset's price expectation.
  *
  * @param params Validation context.
  * @param params.hre
  * @param params.signer
  * @param params.wrapper
  * @param params.feed
- * @param params.bounds
+ * @param params.checker
+ * @param params.asset
  * @param params.label
  */
-export async function assertPlainFeedPriceWithinBounds(params: {
+export async function assertPlainFeedPriceExpectation(params: {
   hre: HardhatRuntimeEnvironment;
   signer: Signer;
   wrapper: WrapperWithHeartbeat;
   feed: string;
-  bounds: OraclePriceBounds;
+  checker: OraclePriceExpectationChecker;
+  asset: string;
   label: string;
 }): Promise<void> {
-  const { hre, signer, wrapper, feed, bounds, label } = params;
+  const { hre, signer, wrapper, feed, checker, asset, label } = params;
   const [baseUnit, staleLimit, nowTimestamp] = await Promise.all([
     wrapper.BASE_CURRENCY_UNIT(),
     wrapper.heartbeatStaleTimeLimit(),
@@ -103,29 +79,31 @@ export async function assertPlainFeedPriceWithinBounds(params: {
   assertSupportedFeedDecimals(feedDecimals, label);
   assertFresh(updatedAt, staleLimit, nowTimestamp, label);
   const priceInBase = chainlinkPriceToBase(answer, baseUnit);
-  assertPriceBounds(priceInBase, bounds, baseUnit, label);
+  await assertOraclePriceExpectation(checker, asset, priceInBase, label);
 }
 
 /**
- * Validates a composite feed value against bounds using configured thresholds.
+ * Validates a composite feed value against the asset's price expectation using configured thresholds.
  *
  * @param params Validation context.
  * @param params.hre
  * @param params.signer
  * @param params.wrapper
  * @param params.config
- * @param params.bounds
+ * @param params.checker
+ * @param params.asset
  * @param params.label
  */
-export async function assertCompositeFeedPriceWithinBounds(params: {
+export async function assertCompositeFeedPriceExpectation(params: {
   hre: HardhatRuntimeEnvironment;
   signer: Signer;
   wrapper: WrapperWithHeartbeat;
   config: CompositeFeedConfig;
-  bounds: OraclePriceBounds;
+  checker: OraclePriceExpectationChecker;
+  asset: string;
   label: string;
 }): Promise<void> {
-  const { hre, signer, wrapper, config, bounds, label } = params;
+  const { hre, signer, wrapper, config, checker, asset, label } = params;
   const [baseUnit, staleLimit, nowTimestamp] = await Promise.all([
     wrapper.BASE_CURRENCY_UNIT(),
     wrapper.heartbeatStaleTimeLimit(),
@@ -153,11 +131,11 @@ export async function assertCompositeFeedPriceWithinBounds(params: {
   priceInBase2 = applyThreshold(priceInBase2, config.lowerThresholdInBase2, config.fixedPriceInBase2);
 
   const compositePriceInBase = (priceInBase1 * priceInBase2) / baseUnit;
-  assertPriceBounds(compositePriceInBase, bounds, baseUnit, label);
+  await assertOraclePriceExpectation(checker, asset, compositePriceInBase, label);
 }
 
 /**
- * Validates a Chainlink+ERC4626 composed feed value against bounds.
+ * Validates a Chainlink+ERC4626 composed feed value against the asset's price expectation.
  *
  * @param params Validation context.
  * @param params.hre
@@ -165,19 +143,21 @@ export async function assertCompositeFeedPriceWithinBounds(params: {
  * @param params.wrapper
  * @param params.feed
  * @param params.vault
- * @param params.bounds
+ * @param params.checker
+ * @param params.asset
  * @param params.label
  */
-export async function assertChainlinkErc4626PriceWithinBounds(params: {
+export async function assertChainlinkErc4626PriceExpectation(params: {
   hre: HardhatRuntimeEnvironment;
   signer: Signer;
   wrapper: WrapperWithHeartbeat;
   feed: string;
   vault: string;
-  bounds: OraclePriceBounds;
+  checker: OraclePriceExpectationChecker;
+  asset: string;
   label: string;
 }): Promise<void> {
-  const { hre, signer, wrapper, feed, vault, bounds, label } = params;
+  const { hre, signer, wrapper, feed, vault, checker, asset, label } = params;
   const [baseUnit, staleLimit, nowTimestamp] = await Promise.all([
     wrapper.BASE_CURRENCY_UNIT(),
     wrapper.heartbeatStaleTimeLimit(),
@@ -206,29 +186,31 @@ export async function assertChainlinkErc4626PriceWithinBounds(params: {
   const assetUnit = 10n ** assetDecimals;
   const priceInBase = (underlyingPriceInBase * assetsPerShare) / assetUnit;
 
-  assertPriceBounds(priceInBase, bounds, baseUnit, label);
+  await assertOraclePriceExpectation(checker, asset, priceInBase, label);
 }
 
 /**
- * Validates an ERC4626-only oracle wrapper value against bounds.
+ * Validates an ERC4626-only oracle wrapper value against the asset's price expectation.
  *
  * @param params Validation context.
  * @param params.hre
  * @param params.signer
  * @param params.wrapper
  * @param params.vault
- * @param params.bounds
+ * @param params.checker
+ * @param params.asset
  * @param params.label
  */
-export async function assertErc4626PriceWithinBounds(params: {
+export async function assertErc4626PriceExpectation(params: {
   hre: HardhatRuntimeEnvironment;
   signer: Signer;
   wrapper: WrapperWithBaseUnit;
   vault: string;
-  bounds: OraclePriceBounds;
+  checker: OraclePriceExpectationChecker;
+  asset: string;
   label: string;
 }): Promise<void> {
-  const { hre, signer, wrapper, vault, bounds, label } = params;
+  const { hre, signer, wrapper, vault, checker, asset, label } = params;
   const baseUnit = await wrapper.BASE_CURRENCY_UNIT();
   const vaultContract = (await hre.ethers.getContractAt(
     "@openzeppelin/contracts/interfaces/IERC4626.sol:IERC4626",
@@ -245,27 +227,27 @@ export async function assertErc4626PriceWithinBounds(params: {
   const assetUnit = 10n ** assetDecimals;
   const priceInBase = (assetsPerShare * baseUnit) / assetUnit;
 
-  assertPriceBounds(priceInBase, bounds, baseUnit, label);
+  await assertOraclePriceExpectation(checker, asset, priceInBase, label);
 }
 
 /**
- * Validates a wrapper-reported price directly against bounds.
+ * Validates a wrapper-reported price directly against the asset's price expectation.
  *
  * @param params Validation context.
  * @param params.wrapper
  * @param params.asset
- * @param params.bounds
+ * @param params.checker
  * @param params.label
  */
-export async function assertDirectWrapperPriceWithinBounds(params: {
+export async function assertDirectWrapperPriceExpectation(params: {
   wrapper: DirectOracleLike;
   asset: string;
-  bounds: OraclePriceBounds;
+  checker: OraclePriceExpectationChecker;
   label: string;
 }): Promise<void> {
-  const { wrapper, asset, bounds, label } = params;
-  const [baseUnit, priceInBase] = await Promise.all([wrapper.BASE_CURRENCY_UNIT(), wrapper.getAssetPrice(asset)]);
-  assertPriceBounds(priceInBase, bounds, baseUnit, label);
+  const { wrapper, asset, checker, label } = params;
+  const priceInBase = await wrapper.getAssetPrice(asset);
+  await assertOraclePriceExpectation(checker, asset, priceInBase, label);
 }
 
 /**
@@ -355,67 +337,8 @@ function applyThreshold(priceInBase: bigint, lowerThresholdInBase: bigint, fixed
   return priceInBase;
 }
 
-/**
- * Ensures price stays within configured sanity bounds.
- *
- * @param priceInBase Candidate price.
- * @param bounds Accepted range in base unit.
- * @param baseCurrencyUnit Wrapper base unit.
- * @param label Human-readable check label.
- */
-function assertPriceBounds(priceInBase: bigint, bounds: OraclePriceBounds, baseCurrencyUnit: bigint, label: string): void {
-  if (priceInBase < bounds.minInBase || priceInBase > bounds.maxInBase) {
-    throw new Error(
-      [
-        `[oracle-sanity] ${label} price out of bounds.`,
-        `price=${formatPriceInBase(priceInBase, baseCurrencyUnit)}`,
-        `min=${formatPriceInBase(bounds.minInBase, baseCurrencyUnit)}`,
-        `max=${formatPriceInBase(bounds.maxInBase, baseCurrencyUnit)}`,
-      ].join(" "),
-    );
-  }
-}
-
 const func: DeployFunction = async () => true;
 func.skip = async (): Promise<boolean> => true;
 func.id = "oracle-price-sanity-helper";
 
 export default func;
-
-/**
- * Formats a base-unit value into readable decimal string.
- *
- * @param value Price value in base unit.
- * @param baseCurrencyUnit Wrapper base unit.
- */
-function formatPriceInBase(value: bigint, baseCurrencyUnit: bigint): string {
-  const decimals = inferUnitDecimals(baseCurrencyUnit);
-
-  if (decimals === null) {
-    return `${value.toString()} (baseUnit=${baseCurrencyUnit.toString()})`;
-  }
-
-  const denominator = 10n ** BigInt(decimals);
-  const whole = value / denominator;
-  const remainder = value % denominator;
-  const fractional = remainder.toString().padStart(decimals, "0").replace(/0+$/, "");
-
-  return fractional.length > 0 ? `${whole.toString()}.${fractional}` : whole.toString();
-}
-
-/**
- * Infers decimal precision from base unit when power-of-ten.
- *
- * @param baseCurrencyUnit Wrapper base unit.
- */
-function inferUnitDecimals(baseCurrencyUnit: bigint): number | null {
-  let decimals = 0;
-  let value = baseCurrencyUnit;
-
-  while (value > 1n && value % 10n === 0n) {
-    value /= 10n;
-    decimals += 1;
-  }
-
-  return value === 1n ? decimals : null;
-}
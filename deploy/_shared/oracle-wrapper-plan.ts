@@ -0,0 +1,156 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+
+import { getConfig } from "../../config/config";
+import { OracleAggregatorConfig } from "../../config/types";
+import { GovernanceExecutor } from "../../typescript/hardhat/governance";
+import {
+  checkPlannedWrapperPrices,
+  deployPlannedWrappers,
+  executeOracleCallSteps,
+  OracleCallStep,
+  OracleCallStepResults,
+  PLANNED_WRAPPER_KINDS,
+  planOracleWrappers,
+} from "../../typescript/oracle_aggregator/planner";
+
+/**
+ * Deploys the API3 and Redstone wrappers of an aggregator, applies their feed and threshold
+ * configuration from the oracle aggregator config and checks the resulting prices against the
+ * aggregator's price expectations.
+ *
+ * @param hre Hardhat runtime used for deployments and contract lookups.
+ * @param aggregatorKey Key in `config.oracleAggregators` (e.g. USD).
+ */
+export async function setupPlannedOracleWrappers(hre: HardhatRuntimeEnvironment, aggregatorKey: string): Promise<void> {
+  const { deployer } = await hre.getNamedAccounts();
+  const config = await getConfig(hre);
+  const oracleConfig = config.oracleAggregators[aggregatorKey];
+  const options = { kinds: PLANNED_WRAPPER_KINDS };
+
+  await deployPlannedWrappers(hre, await planOracleWrappers(hre, aggregatorKey, oracleConfig, options), deployer);
+
+  const plan = await planOracleWrappers(hre, aggregatorKey, oracleConfig, options);
+
+  if (plan.deployments.length === 0) {
+    console.log(`  ⏭️  No API3 or Redstone oracle assets configured for ${aggregatorKey} – skipping`);
+    return;
+  }
+
+  const results = await executePlannedSteps(hre, plan.configuration, `Configure ${aggregatorKey} oracle wrappers`);
+  await checkPlannedWrapperPrices(hre, plan, oracleConfig, [...results.queued, ...results.blocked]);
+}
+
+/**
+ * Points every asset of an aggregator at the wrapper the oracle aggregator config assigns it.
+ * Fails while an asset's wrapper configuration is still waiting for Safe signatures, so the
+ * aggregator never routes to a wrapper that cannot price the asset yet; rerun once it executed.
+ *
+ * @param hre Hardhat runtime used for deployment lookups.
+ * @param aggregatorKey Key in `config.oracleAggregators` (e.g. USD).
+ * @returns False when no asset is configured for the aggregator.
+ */
+export async function routePlannedOracleWrappers(hre: HardhatRuntimeEnvironment, aggregatorKey: string): Promise<boolean> {
+  const config = await getConfig(hre);
+  const plan = await planOracleWrappers(hre, aggregatorKey, config.oracleAggregators[aggregatorKey]);
+
+  if (plan.routing.length === 0) {
+    return false;
+  }
+
+  await executePlannedSteps(hre, plan.routing, `Route ${aggregatorKey} oracle aggregator assets`);
+  return true;
+}
+
+/**
+ * Deploys, configures and routes selected assets of an aggregator config assembled at deploy
+ * time (e.g. with feeds created by an earlier step) and checks their prices. Steps of the other
+ * assets are left to the regular wrapper scripts.
+ *
+ * @param hre Hardhat runtime used for deployments and contract lookups.
+ * @param aggregatorKey Key in `config.oracleAggregators` (e.g. USD).
+ * @param oracleConfig Aggregator config holding the assets' feeds.
+ * @param assets Assets to set up.
+ */
+export async function setupPlannedOracleAssets(
+  hre: HardhatRuntimeEnvironment,
+  aggregatorKey: string,
+  oracleConfig: OracleAggregatorConfig,
+  assets: readonly string[],
+): Promise<void> {
+  const { deployer } = await hre.getNamedAccounts();
+  const selected = new Set(assets.map((asset) => asset.toLowerCase()));
+  const isSelected = (asset: string): boolean => selected.has(asset.toLowerCase());
+  const options = { kinds: PLANNED_WRAPPER_KINDS };
+
+  const initial = await planOracleWrappers(hre, aggregatorKey, oracleConfig, options);
+  await deployPlannedWrappers(
+    hre,
+    { ...initial, deployments: initial.deployments.filter((step) => step.assets.some(isSelected)) },
+    deployer,
+  );
+
+  const plan = await planOracleWrappers(hre, aggregatorKey, oracleConfig, options);
+  const configured = await executePlannedSteps(
+    hre,
+    plan.configuration.filter((step) => isSelected(step.asset)),
+    `Configure ${aggregatorKey} oracle wrappers`,
+  );
+  // Re-plan so routing sees the configuration just applied; assets still waiting on it stay blocked
+  const configuredPlan = await planOracleWrappers(hre, aggregatorKey, oracleConfig, options);
+  await executePlannedSteps(
+    hre,
+    configuredPlan.routing.filter((step) => isSelected(step.asset)),
+    `Route ${aggregatorKey} oracle aggregator assets`,
+  );
+  await checkPlannedWrapperPrices(
+    hre,
+    { ...plan, deployments: plan.deployments.map((step) => ({ ...step, assets: step.assets.filter(isSelected) })) },
+    oracleConfig,
+    [...configured.queued, ...configured.blocked],
+  );
+}
+
+/**
+ * Executes plan steps with the deployer, queueing the ones it lacks the role for in Safe mode.
+ *
+ * @param hre Hardhat runtime used for signer lookup.
+ * @param steps Plan steps to execute.
+ * @param description Safe batch description.
+ */
+async function executePlannedSteps(
+  hre: HardhatRuntimeEnvironment,
+  steps: readonly OracleCallStep[],
+  description: string,
+): Promise<OracleCallStepResults> {
+  const { deployer } = await hre.getNamedAccounts();
+  const signer = await hre.ethers.getSigner(deployer);
+  const config = await getConfig(hre);
+
+  const executor = new GovernanceExecutor(hre, signer, config.safeConfig);
+  await executor.initialize();
+
+  const results = await executeOracleCallSteps(executor, signer, steps);
+
+  if (results.blocked.length > 0) {
+    throw new Error(
+      `[oracle-wrappers] ${description}: ${results.blocked.map((step) => `${step.description} (${step.detail})`).join(", ")}`,
+    );
+  }
+
+  if (executor.mode === "direct" && results.queued.length > 0) {
+    throw new Error(
+      `[oracle-wrappers] ${description}: deployer could not execute ${results.queued.map((step) => step.description).join(", ")}. ` +
+        `Use Safe mode or grant the role before rerunning.`,
+    );
+  }
+
+  await executor.flush(description);
+  return results;
+}
+
+const func: DeployFunction = async () => true;
+func.skip = async (): Promise<boolean> => true;
+func.id = "oracle-wrapper-plan-helper";
+
+export default func;
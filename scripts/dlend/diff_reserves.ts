@@ -0,0 +1,147 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { ReserveDriftReport } from "../../typescript/dlend/reserve-drift";
+
+interface CliOptions {
+  network?: string;
+  reserves: string[];
+  safeBatch: boolean;
+  json: boolean;
+}
+
+function printHelp(): void {
+  console.log(`
+dTRINITY dLEND Reserve Config Diff
+==================================
+
+Usage:
+  yarn dlend:diff --network <name> [--reserve <symbol>] [--safe-batch] [--json]
+
+Options:
+  --network, -n   Hardhat network to check
+  --reserve       dLend.reservesConfig symbol to check (repeatable, default: all)
+  --safe-batch    Queue the corrective PoolConfigurator calls through GovernanceExecutor (needs safeConfig)
+  --json          Print the differences and corrective calls as JSON
+  --help, -h      Display this help message
+
+Description:
+  Reads every configured reserve through the AaveProtocolDataProvider (LTV, liquidation
+  threshold and bonus, reserve factor, flags, caps, debt ceiling, liquidation protocol fee)
+  and the parameters of its interest rate strategy, and compares them with
+  config.dLend.reservesConfig. Lists every difference in percent and token amounts, builds
+  the PoolConfigurator calls that correct them and exits with code 1 when drift is found.
+  Strategies are immutable: a reserve is switched to the ReserveStrategy-<name> deployment
+  when that deployment matches the config, otherwise the strategy must be redeployed.
+`);
+}
+
+function readFlagValues(argv: string[], ...flags: string[]): string[] {
+  return argv.flatMap((arg, index) => (flags.includes(arg) && index + 1 < argv.length ? [argv[index + 1]] : []));
+}
+
+function parseArgs(argv: string[]): CliOptions | null {
+  if (argv.includes("--help") || argv.includes("-h")) {
+    printHelp();
+    return null;
+  }
+
+  return {
+    network: readFlagValues(argv, "--network", "-n")[0],
+    reserves: readFlagValues(argv, "--reserve"),
+    safeBatch: argv.includes("--safe-batch"),
+    json: argv.includes("--json"),
+  };
+}
+
+function printReport(report: ReserveDriftReport): void {
+  console.log(`\n=== dLEND reserves: ${report.checked} checked ===`);
+
+  if (report.issues.length === 0) {
+    console.log("No drift.");
+    return;
+  }
+
+  for (const issue of report.issues) {
+    console.log(`- [${issue.drift}] ${issue.detail}`);
+  }
+
+  if (report.fixes.length > 0) {
+    console.log(`\nCorrective PoolConfigurator calls (${report.fixes.length}):`);
+    report.fixes.forEach((fix, index) => console.log(`  ${index + 1}. ${fix.description} -> ${fix.transaction.to}`));
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    return;
+  }
+
+  if (options.network) {
+    process.env.HARDHAT_NETWORK = options.network;
+  }
+
+  const hre: HardhatRuntimeEnvironment = require("hardhat");
+  const { getConfig } = await import("../../config/config");
+  const { diffReserves, readReserveStates, resolveExpectedReserves } = await import("../../typescript/dlend/reserve-drift");
+  const config = await getConfig(hre);
+
+  if (!config.dLend) {
+    throw new Error(`dLend configuration is required for network ${hre.network.name}`);
+  }
+
+  const reserves = await resolveExpectedReserves(hre, config.dLend, config.tokenAddresses, options.reserves);
+  const report = diffReserves(await readReserveStates(hre, reserves));
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+
+  if (report.issues.length > 0) {
+    process.exitCode = 1;
+  }
+
+  if (!options.safeBatch || report.fixes.length === 0) {
+    return;
+  }
+
+  if (!config.safeConfig) {
+    throw new Error(`Missing safeConfig in ${hre.network.name} network config`);
+  }
+
+  const { GovernanceExecutor } = await import("../../typescript/hardhat/governance");
+  const { deployer } = await hre.getNamedAccounts();
+  const executor = new GovernanceExecutor(hre, await hre.ethers.getSigner(deployer), config.safeConfig, undefined, config.timelockConfig);
+
+  if (executor.mode === "direct") {
+    throw new Error(`Safe mode is disabled on ${hre.network.name}; set USE_SAFE=true to queue the corrective batch`);
+  }
+  await executor.initialize();
+
+  for (const fix of report.fixes) {
+    await executor.tryOrQueue(
+      async () => {
+        throw new Error("Direct execution disabled: queue Safe transaction instead.");
+      },
+      () => fix.transaction,
+      fix.description,
+    );
+  }
+
+  if (!(await executor.flush(`dLEND reserve config correction (${report.fixes.length} operations)`))) {
+    throw new Error("Failed to prepare the corrective Safe batch");
+  }
+
+  const flushed = executor.lastFlushReport;
+  console.log(
+    `\nQueued ${flushed?.queued.length ?? report.fixes.length} corrective call(s); ${flushed?.deduplicated.length ?? 0} already pending.` +
+      (flushed?.safeTxHashes?.length ? ` SafeTxHash: ${flushed.safeTxHashes.join(", ")}` : ""),
+  );
+}
+
+main().catch((error) => {
+  console.error("dLEND reserve diff failed:", error);
+  process.exitCode = 1;
+});
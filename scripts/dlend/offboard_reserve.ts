@@ -0,0 +1,226 @@
+import { formatUnits } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import {
+  OFFBOARDING_PHASES,
+  OffboardingPhase,
+  ReserveOffboardingPlan,
+  ReserveOffboardingState,
+} from "../../typescript/dlend/reserve-offboarding";
+
+interface CliOptions {
+  network?: string;
+  reserve: string;
+  phase?: OffboardingPhase;
+  execute: boolean;
+  safeBatch: boolean;
+  fromBlock?: number;
+  json: boolean;
+}
+
+function printHelp(): void {
+  console.log(`
+dTRINITY dLEND Reserve Offboarding
+==================================
+
+Usage:
+  yarn dlend:offboard --network <name> --reserve <symbol|address> [--from-block <n>] [--json]
+  yarn dlend:offboard --network <name> --reserve <symbol|address> --execute [--phase <phase>]
+  yarn dlend:offboard --network <name> --reserve <symbol|address> --safe-batch [--phase <phase>]
+
+Options:
+  --network, -n   Hardhat network
+  --reserve       Reserve to offboard: config.tokenAddresses symbol, listed reserve symbol or address
+  --phase         Phase to run (default: the next pending phase): ${OFFBOARDING_PHASES.join(", ")}
+  --execute       Send the phase's calls from the deployer
+  --safe-batch    Queue the phase's calls through GovernanceExecutor (needs safeConfig)
+  --from-block    First block scanned for aToken and debt token holders (default: the reserve's ReserveInitialized block)
+  --json          Print the state and plan as JSON
+  --help, -h      Display this help message
+
+Description:
+  Offboards a reserve in phases: freeze, set its LTV to 0 (the liquidation threshold is kept),
+  lower its supply and borrow caps to 1 token, then dropReserve once aToken supply, debt and
+  treasury accruals are zero. Without --execute or --safe-batch the command only reports the
+  outstanding supply and debt, the users still exposed (from Transfer events) and what blocks
+  the next phase. A phase only runs when it is unblocked; the executing account (deployer,
+  Safe or timelock) must hold the ACL role the PoolConfigurator requires. Exits with code 1
+  when the requested phase is blocked.
+`);
+}
+
+function readFlagValues(argv: string[], ...flags: string[]): string[] {
+  return argv.flatMap((arg, index) => (flags.includes(arg) && index + 1 < argv.length ? [argv[index + 1]] : []));
+}
+
+function parseArgs(argv: string[]): CliOptions | null {
+  if (argv.includes("--help") || argv.includes("-h")) {
+    printHelp();
+    return null;
+  }
+
+  const reserve = readFlagValues(argv, "--reserve")[0];
+  const phase = readFlagValues(argv, "--phase")[0];
+  const fromBlock = readFlagValues(argv, "--from-block")[0];
+
+  if (!reserve) {
+    throw new Error("--reserve is required");
+  }
+
+  if (phase && !OFFBOARDING_PHASES.includes(phase as OffboardingPhase)) {
+    throw new Error(`Unknown --phase ${phase}; use ${OFFBOARDING_PHASES.join(", ")}`);
+  }
+
+  if (fromBlock !== undefined && !Number.isInteger(Number(fromBlock))) {
+    throw new Error("--from-block expects a block number");
+  }
+
+  const options: CliOptions = {
+    network: readFlagValues(argv, "--network", "-n")[0],
+    reserve,
+    phase: phase as OffboardingPhase | undefined,
+    execute: argv.includes("--execute"),
+    safeBatch: argv.includes("--safe-batch"),
+    fromBlock: fromBlock === undefined ? undefined : Number(fromBlock),
+    json: argv.includes("--json"),
+  };
+
+  if (options.execute && options.safeBatch) {
+    throw new Error("Use either --execute or --safe-batch");
+  }
+  return options;
+}
+
+function printPlan(state: ReserveOffboardingState, plan: ReserveOffboardingPlan): void {
+  const amount = (value: bigint): string => `${formatUnits(value, state.decimals)} ${state.symbol}`;
+
+  console.log(`\n=== Offboarding ${state.symbol} (${state.asset}) ===`);
+
+  if (!state.listed) {
+    console.log("Reserve is not listed on the pool.");
+    return;
+  }
+
+  console.log(`  Frozen:          ${state.frozen}`);
+  console.log(`  LTV / LT / LB:   ${state.ltv} / ${state.liquidationThreshold} / ${state.liquidationBonus} bps`);
+  console.log(`  Caps:            supply ${state.supplyCap}, borrow ${state.borrowCap}`);
+  console.log(`  aToken supply:   ${amount(state.totalAToken)}`);
+  console.log(`  Debt:            ${amount(state.totalVariableDebt)} variable, ${amount(state.totalStableDebt)} stable`);
+  console.log(`  Treasury accrued (scaled): ${amount(state.accruedToTreasury)}`);
+  console.log(`  Executor:        ${state.executor} (risk admin: ${state.executorIsRiskAdmin}, pool admin: ${state.executorIsPoolAdmin})`);
+  console.log(`  Exposed users:   ${state.exposedUsers.length}`);
+
+  for (const exposure of state.exposedUsers) {
+    console.log(`    ${exposure.user}: supplied ${amount(exposure.supplied)}, debt ${amount(exposure.variableDebt + exposure.stableDebt)}`);
+  }
+
+  console.log("\nPhases:");
+
+  for (const status of plan.phases) {
+    const label = status.done ? "done" : status.blockers.length > 0 ? "blocked" : "ready";
+    console.log(`  ${status.phase === plan.next ? "→" : " "} ${status.phase}: ${label}`);
+    status.blockers.forEach((blocker) => console.log(`      - ${blocker}`));
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    return;
+  }
+
+  if (options.network) {
+    process.env.HARDHAT_NETWORK = options.network;
+  }
+
+  const hre: HardhatRuntimeEnvironment = require("hardhat");
+  const { getConfig } = await import("../../config/config");
+  const { GovernanceExecutor } = await import("../../typescript/hardhat/governance");
+  const { planReserveOffboarding, readReserveOffboardingState, resolveReserveAsset } =
+    await import("../../typescript/dlend/reserve-offboarding");
+  const config = await getConfig(hre);
+  const { deployer } = await hre.getNamedAccounts();
+  const signer = await hre.ethers.getSigner(deployer);
+  const executor = new GovernanceExecutor(
+    hre,
+    signer,
+    options.safeBatch ? config.safeConfig : undefined,
+    undefined,
+    options.safeBatch ? config.timelockConfig : undefined,
+  );
+
+  if (options.safeBatch && executor.mode === "direct") {
+    throw new Error(`Safe mode is unavailable on ${hre.network.name}; provide safeConfig and set USE_SAFE=true`);
+  }
+
+  const sender =
+    executor.mode === "timelock" ? config.timelockConfig!.address : executor.mode === "safe" ? config.safeConfig!.safeAddress : deployer;
+  const asset = await resolveReserveAsset(hre, options.reserve, config.tokenAddresses);
+  const state = await readReserveOffboardingState(hre, asset, { executor: sender, fromBlock: options.fromBlock });
+  const plan = planReserveOffboarding(state);
+
+  if (options.json) {
+    console.log(JSON.stringify({ state, plan }, (_key, value) => (typeof value === "bigint" ? value.toString() : value), 2));
+  } else {
+    printPlan(state, plan);
+  }
+
+  if (!options.execute && !options.safeBatch) {
+    return;
+  }
+
+  const target = plan.phases.find((status) => status.phase === (options.phase ?? plan.next));
+
+  if (!target || target.done) {
+    console.log(`\nNothing to run: ${options.phase ?? "every phase"} is already applied.`);
+    return;
+  }
+
+  if (target.blockers.length > 0) {
+    console.error(`\n${target.phase} is blocked:`);
+    target.blockers.forEach((blocker) => console.error(`  - ${blocker}`));
+    process.exitCode = 1;
+    return;
+  }
+
+  await executor.initialize();
+  let applied = true;
+
+  for (const call of target.calls) {
+    console.log(`${executor.mode === "direct" ? "Sending" : "Queueing"} ${call.description}`);
+    applied =
+      (await executor.tryOrQueue(
+        async () => {
+          if (executor.mode !== "direct") {
+            throw new Error("Direct execution disabled: queue Safe transaction instead.");
+          }
+          await (await signer.sendTransaction({ to: call.transaction.to, data: call.transaction.data })).wait();
+        },
+        () => call.transaction,
+        call.description,
+      )) && applied;
+  }
+
+  if (executor.mode === "direct") {
+    if (!applied) {
+      throw new Error(`${target.phase} failed; see the errors above`);
+    }
+    console.log(`\n✅ ${target.phase} applied`);
+    return;
+  }
+
+  if (!(await executor.flush(`dLEND offboarding ${state.symbol}: ${target.phase}`))) {
+    throw new Error("Failed to prepare the offboarding Safe batch");
+  }
+
+  const flushed = executor.lastFlushReport;
+  console.log(
+    `\nQueued ${flushed?.queued.length ?? target.calls.length} call(s) for ${target.phase}; ${flushed?.deduplicated.length ?? 0} already pending.` +
+      (flushed?.safeTxHashes?.length ? ` SafeTxHash: ${flushed.safeTxHashes.join(", ")}` : ""),
+  );
+}
+
+main().catch((error) => {
+  console.error("dLEND reserve offboarding failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,212 @@
+import * as fs from "fs";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import * as rateStrategies from "../../config/dlend/interest-rate-strategies";
+import { IInterestRateStrategyParams } from "../../config/types";
+import {
+  buildRateCurve,
+  compareRateCurves,
+  formatRateCurvesCsv,
+  formatRatePercent,
+  RateCurve,
+  RateCurveComparisonRow,
+  readDeployedReserveRates,
+  renderRateCurvesSvg,
+} from "../../typescript/dlend/interest-rate-curve";
+import { expectedStrategyFields, formatBps } from "../../typescript/dlend/reserve-drift";
+
+type OutputFormat = "table" | "csv" | "svg";
+
+interface CliOptions {
+  network?: string;
+  strategies: string[];
+  reserve?: string;
+  reserveFactor?: bigint;
+  stepBps: bigint;
+  format: OutputFormat;
+  output?: string;
+}
+
+const CONFIG_STRATEGIES = Object.values(rateStrategies).filter(
+  (value): value is IInterestRateStrategyParams => typeof value === "object" && value !== null && "optimalUsageRatio" in value,
+);
+
+function printHelp(): void {
+  console.log(`
+dTRINITY dLEND Interest Rate Curves
+===================================
+
+Usage:
+  yarn dlend:rate-curves [--strategy <name>] [--reserve-factor <bps>] [--format table|csv|svg] [--output <path>]
+  yarn dlend:rate-curves --network <name> --reserve <symbol> [--strategy <name>] [--reserve-factor <bps>] [--format ...]
+
+Options:
+  --network, -n     Hardhat network (required with --reserve)
+  --strategy        Strategy from config/dlend/interest-rate-strategies.ts (repeatable, default: all).
+                    With --reserve: the proposed strategy (default: the reserve's configured strategy)
+  --reserve         dLend.reservesConfig symbol: compare the proposed strategy with the deployed one
+  --reserve-factor  Reserve factor in bps (default: 1000, or the reserve's configured value with --reserve)
+  --step            Utilization step in bps (default: 100)
+  --format          table (default), csv or svg
+  --output, -o      Write the CSV or SVG to a file instead of stdout
+  --help, -h        Display this help message
+
+Description:
+  Renders the variable borrow APR and the supply APR (after the reserve factor) of each
+  interest rate strategy across 0-100% utilization, using the same math and rounding as
+  DefaultReserveInterestRateStrategy with all debt at the variable rate. With --reserve, the
+  strategy and reserve factor the reserve currently uses are read on chain and the table shows
+  both curves and the change every 10% and at each optimal usage ratio.
+`);
+}
+
+function readFlagValues(argv: string[], ...flags: string[]): string[] {
+  return argv.flatMap((arg, index) => (flags.includes(arg) && index + 1 < argv.length ? [argv[index + 1]] : []));
+}
+
+function parseArgs(argv: string[]): CliOptions | null {
+  if (argv.includes("--help") || argv.includes("-h")) {
+    printHelp();
+    return null;
+  }
+
+  const format = readFlagValues(argv, "--format")[0] ?? "table";
+  const reserveFactor = readFlagValues(argv, "--reserve-factor")[0];
+  const step = readFlagValues(argv, "--step")[0] ?? "100";
+
+  if (format !== "table" && format !== "csv" && format !== "svg") {
+    throw new Error(`Unsupported --format ${format}; use table, csv or svg`);
+  }
+
+  if (reserveFactor !== undefined && !/^\d+$/.test(reserveFactor)) {
+    throw new Error("--reserve-factor expects basis points, e.g. 1000");
+  }
+
+  if (!/^\d+$/.test(step)) {
+    throw new Error("--step expects basis points, e.g. 100");
+  }
+
+  const options: CliOptions = {
+    network: readFlagValues(argv, "--network", "-n")[0],
+    strategies: readFlagValues(argv, "--strategy"),
+    reserve: readFlagValues(argv, "--reserve")[0],
+    reserveFactor: reserveFactor === undefined ? undefined : BigInt(reserveFactor),
+    stepBps: BigInt(step),
+    format,
+    output: readFlagValues(argv, "--output", "-o")[0],
+  };
+
+  if (options.reserve && !options.network) {
+    throw new Error("--reserve needs --network to read the deployed strategy");
+  }
+
+  if (options.reserve && options.strategies.length > 1) {
+    throw new Error("--reserve compares a single proposed --strategy");
+  }
+  return options;
+}
+
+function findStrategy(name: string): IInterestRateStrategyParams {
+  const strategy = CONFIG_STRATEGIES.find((candidate) => candidate.name === name);
+
+  if (!strategy) {
+    throw new Error(`Unknown strategy ${name}; available: ${CONFIG_STRATEGIES.map((candidate) => candidate.name).join(", ")}`);
+  }
+  return strategy;
+}
+
+function printCurves(curves: RateCurve[]): void {
+  for (const curve of curves) {
+    console.log(`\n=== ${curve.label} (reserve factor ${formatBps(curve.reserveFactor)}) ===`);
+    console.log("  Utilization   Borrow APR   Supply APR");
+
+    for (const point of curve.points.filter((candidate) => candidate.utilizationBps % 1000n === 0n)) {
+      console.log(
+        `  ${formatBps(point.utilizationBps).padStart(11)}` +
+          `  ${formatRatePercent(point.variableBorrowRate, 2).padStart(10)}%` +
+          `  ${formatRatePercent(point.liquidityRate, 2).padStart(10)}%`,
+      );
+    }
+  }
+}
+
+function printComparison(current: RateCurve, proposed: RateCurve, rows: RateCurveComparisonRow[]): void {
+  const signed = (ray: bigint): string => `${ray >= 0n ? "+" : "-"}${formatRatePercent(ray >= 0n ? ray : -ray, 2)}%`;
+
+  console.log(`\n=== ${current.label} -> ${proposed.label} ===`);
+  console.log(`  Reserve factor: ${formatBps(current.reserveFactor)} -> ${formatBps(proposed.reserveFactor)}`);
+  console.log(
+    `  ${"Utilization".padStart(11)}   ${"Borrow APR (current -> proposed, change)".padEnd(45)}   Supply APR (current -> proposed, change)`,
+  );
+
+  for (const row of rows) {
+    const borrow = `${formatRatePercent(row.current.variableBorrowRate, 2)}% -> ${formatRatePercent(row.proposed.variableBorrowRate, 2)}% (${signed(row.variableBorrowRateDelta)})`;
+    const supply = `${formatRatePercent(row.current.liquidityRate, 2)}% -> ${formatRatePercent(row.proposed.liquidityRate, 2)}% (${signed(row.liquidityRateDelta)})`;
+    console.log(`  ${formatBps(row.utilizationBps).padStart(11)}   ${borrow.padEnd(45)}   ${supply}`);
+  }
+}
+
+async function readReserveCurves(options: CliOptions): Promise<RateCurve[]> {
+  process.env.HARDHAT_NETWORK = options.network;
+  const hre: HardhatRuntimeEnvironment = require("hardhat");
+  const { getConfig } = await import("../../config/config");
+  const config = await getConfig(hre);
+  const symbol = options.reserve!;
+  const params = config.dLend?.reservesConfig[symbol];
+  const asset = (config.tokenAddresses as Record<string, string | undefined>)[symbol];
+
+  if (!params || !asset) {
+    throw new Error(`${symbol} is not a dLend.reservesConfig reserve with a config.tokenAddresses entry on ${hre.network.name}`);
+  }
+
+  const deployed = await readDeployedReserveRates(hre, asset);
+  const proposed = options.strategies[0] ? findStrategy(options.strategies[0]) : params.strategy;
+  return [
+    buildRateCurve(`${symbol} deployed`, deployed.strategy, deployed.reserveFactor, options.stepBps),
+    buildRateCurve(
+      `${symbol} ${proposed.name}`,
+      expectedStrategyFields(proposed),
+      options.reserveFactor ?? BigInt(params.reserveFactor),
+      options.stepBps,
+    ),
+  ];
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    return;
+  }
+
+  const curves = options.reserve
+    ? await readReserveCurves(options)
+    : (options.strategies.length > 0 ? options.strategies.map(findStrategy) : CONFIG_STRATEGIES).map((strategy) =>
+        buildRateCurve(strategy.name, expectedStrategyFields(strategy), options.reserveFactor ?? 1000n, options.stepBps),
+      );
+
+  if (options.format === "table") {
+    if (options.reserve) {
+      printComparison(curves[0], curves[1], compareRateCurves(curves[0], curves[1]));
+    } else {
+      printCurves(curves);
+    }
+    return;
+  }
+
+  const serialized =
+    options.format === "csv"
+      ? formatRateCurvesCsv(curves)
+      : renderRateCurvesSvg(curves, options.reserve ? `${options.reserve}: deployed vs proposed` : undefined);
+
+  if (options.output) {
+    fs.writeFileSync(options.output, serialized);
+    console.log(`Saved ${curves.length} curve(s) to ${options.output}`);
+  } else {
+    process.stdout.write(serialized);
+  }
+}
+
+main().catch((error) => {
+  console.error("dLEND rate curves failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,174 @@
+import { formatUnits, parseUnits } from "ethers";
+import * as fs from "fs";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { PositionScanReport } from "../../typescript/dlend/position-scanner";
+
+type OutputFormat = "table" | "json" | "csv";
+
+interface CliOptions {
+  network?: string;
+  healthFactor: bigint;
+  fromBlock?: number;
+  toBlock?: number;
+  multicall?: string;
+  format: OutputFormat;
+  output?: string;
+}
+
+function printHelp(): void {
+  console.log(`
+dTRINITY dLEND Position Scanner
+===============================
+
+Usage:
+  yarn dlend:scan-positions --network <name> [--health-factor <hf>] [--from-block <n>] [--to-block <n>]
+                            [--format table|json|csv] [--output <path>]
+
+Options:
+  --network, -n     Hardhat network to scan
+  --health-factor   Report accounts with debt below this health factor (default: 1.1)
+  --from-block      First block scanned for Pool Supply and Borrow events (default: 0)
+  --to-block        Last block scanned (default: latest)
+  --multicall       Multicall3 address (default: canonical deployment, falls back to single calls)
+  --format          table (default), json or csv
+  --output, -o      Write the JSON or CSV to a file instead of stdout
+  --help, -h        Display this help message
+
+Description:
+  Collects every account that supplied or borrowed on the dLEND Pool in the block range,
+  reads Pool.getUserAccountData for each through Multicall3 and lists the accounts below
+  the health factor threshold, lowest first, with their collateral and debt per reserve.
+  For accounts below a health factor of 1 it sizes the best single liquidationCall: the
+  debt repayable under the close factor (50%, or 100% at or below CLOSE_FACTOR_HF_THRESHOLD),
+  capped by the collateral balance, and the bonus the liquidator keeps after the protocol
+  fee. Collateral and debt at risk are also totalled per asset.
+`);
+}
+
+function readFlagValues(argv: string[], ...flags: string[]): string[] {
+  return argv.flatMap((arg, index) => (flags.includes(arg) && index + 1 < argv.length ? [argv[index + 1]] : []));
+}
+
+function parseBlock(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (!Number.isInteger(Number(value))) {
+    throw new Error(`${flag} expects a block number`);
+  }
+  return Number(value);
+}
+
+function parseArgs(argv: string[]): CliOptions | null {
+  if (argv.includes("--help") || argv.includes("-h")) {
+    printHelp();
+    return null;
+  }
+
+  const format = readFlagValues(argv, "--format")[0] ?? "table";
+  const healthFactor = readFlagValues(argv, "--health-factor")[0] ?? "1.1";
+
+  if (format !== "table" && format !== "json" && format !== "csv") {
+    throw new Error(`Unsupported --format ${format}; use table, json or csv`);
+  }
+
+  if (!/^\d+(\.\d+)?$/.test(healthFactor)) {
+    throw new Error("--health-factor expects a number, e.g. 1.05");
+  }
+
+  return {
+    network: readFlagValues(argv, "--network", "-n")[0],
+    healthFactor: parseUnits(healthFactor, 18),
+    fromBlock: parseBlock(readFlagValues(argv, "--from-block")[0], "--from-block"),
+    toBlock: parseBlock(readFlagValues(argv, "--to-block")[0], "--to-block"),
+    multicall: readFlagValues(argv, "--multicall")[0],
+    format,
+    output: readFlagValues(argv, "--output", "-o")[0],
+  };
+}
+
+function printReport(report: PositionScanReport): void {
+  const decimals = new Map(report.markets.map((market) => [market.asset.toLowerCase(), market.decimals]));
+  const base = (value: bigint): string => formatUnits(value, report.baseCurrencyDecimals);
+  const token = (asset: string, value: bigint): string => formatUnits(value, decimals.get(asset.toLowerCase()) ?? 18);
+
+  console.log(`\n=== dLEND positions: blocks ${report.fromBlock}-${report.toBlock} ===`);
+  console.log(`  Accounts scanned: ${report.accountsScanned} (${report.borrowers} with debt)`);
+  console.log(`  Below health factor ${formatUnits(report.healthFactorThreshold, 18)}: ${report.positions.length}`);
+
+  for (const position of report.positions) {
+    console.log(`\n${position.user}  HF ${formatUnits(position.healthFactor, 18)}${position.liquidatable ? "  [LIQUIDATABLE]" : ""}`);
+    console.log(`  Collateral ${base(position.totalCollateralBase)}, debt ${base(position.totalDebtBase)} (base currency)`);
+    position.collateral.forEach((amount) =>
+      console.log(`    + ${token(amount.asset, amount.amount)} ${amount.symbol} (${base(amount.valueBase)})`),
+    );
+    position.debt.forEach((amount) =>
+      console.log(`    - ${token(amount.asset, amount.amount)} ${amount.symbol} (${base(amount.valueBase)})`),
+    );
+
+    const liquidation = position.liquidation;
+
+    if (liquidation) {
+      console.log(
+        `  Liquidation: repay ${token(liquidation.debtAsset, liquidation.debtToCover)} ${liquidation.debtSymbol}` +
+          ` (close factor ${Number(liquidation.closeFactor) / 100}%) for ${token(liquidation.collateralAsset, liquidation.collateralToLiquidator)} ${liquidation.collateralSymbol},` +
+          ` liquidator bonus ${base(liquidation.liquidatorBonusBase)}`,
+      );
+    }
+  }
+
+  if (report.concentration.length > 0) {
+    console.log("\nConcentration of the reported positions:");
+
+    for (const total of report.concentration) {
+      console.log(
+        `  ${total.symbol}: ${total.accounts} account(s), collateral ${token(total.asset, total.collateral)} (${base(total.collateralBase)}),` +
+          ` debt ${token(total.asset, total.debt)} (${base(total.debtBase)})`,
+      );
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    return;
+  }
+
+  if (options.network) {
+    process.env.HARDHAT_NETWORK = options.network;
+  }
+
+  const hre: HardhatRuntimeEnvironment = require("hardhat");
+  const { formatPositionsCsv, scanPositions } = await import("../../typescript/dlend/position-scanner");
+  const report = await scanPositions(hre, {
+    healthFactorThreshold: options.healthFactor,
+    fromBlock: options.fromBlock,
+    toBlock: options.toBlock,
+    multicallAddress: options.multicall,
+  });
+
+  if (options.format === "table") {
+    printReport(report);
+    return;
+  }
+
+  const serialized =
+    options.format === "csv"
+      ? formatPositionsCsv(report)
+      : `${JSON.stringify(report, (_key, value) => (typeof value === "bigint" ? value.toString() : value), 2)}\n`;
+
+  if (options.output) {
+    fs.writeFileSync(options.output, serialized);
+    console.log(`Saved ${report.positions.length} position(s) to ${options.output}`);
+  } else {
+    process.stdout.write(serialized);
+  }
+}
+
+main().catch((error) => {
+  console.error("dLEND position scan failed:", error);
+  process.exitCode = 1;
+});
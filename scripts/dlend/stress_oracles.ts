@@ -0,0 +1,201 @@
+import { formatUnits } from "ethers";
+import * as fs from "fs";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import * as path from "path";
+
+import type { DLendStressScenario } from "../../config/dlend/types";
+import type { OracleStressReport } from "../../typescript/dlend/oracle-stress";
+
+type OutputFormat = "table" | "json";
+
+const DEFAULT_SCENARIOS_FILE = "config/dlend/stress-scenarios.ts";
+
+interface CliOptions {
+  network?: string;
+  scenariosFile: string;
+  scenarios: string[];
+  block?: number;
+  fromBlock?: number;
+  multicall?: string;
+  format: OutputFormat;
+  output?: string;
+}
+
+function printHelp(): void {
+  console.log(`
+dTRINITY dLEND Oracle Stress Test
+=================================
+
+Usage:
+  yarn dlend:stress --network <name> [--scenarios-file <path>] [--scenario <name>]... [--block <n>]
+                    [--from-block <n>] [--format table|json] [--output <path>]
+
+Options:
+  --network, -n       Hardhat network to fork
+  --scenarios-file    Module exporting dLendStressScenarios, or a JSON array (default: ${DEFAULT_SCENARIOS_FILE})
+  --scenario          Run only this scenario (repeatable, default: all)
+  --block             Block to fork from (default: latest)
+  --from-block        First block scanned for Pool Supply and Borrow events (default: 0)
+  --multicall         Multicall3 address (default: canonical deployment, falls back to single calls)
+  --format            table (default) or json
+  --output, -o        Write the JSON to a file instead of stdout
+  --help, -h          Display this help message
+
+Description:
+  Forks the network and, for each scenario, re-prices the shocked reserves by swapping a
+  MockOracleAggregator in through OracleAggregatorV1_1.setOracle, sent as the Safe, timelock
+  or deployer (whichever holds ORACLE_MANAGER_ROLE). Every account found in Pool events is
+  then re-read. The report lists the accounts that become liquidatable, the bad debt left
+  per debt reserve once liquidators seize all collateral at its bonus, and whether the
+  treasury's aTokens, accruals and underlying cover it at the shocked prices. Scenarios are
+  rolled back before the next one runs. Exits with code 1 when the treasury does not cover
+  the bad debt of a scenario.
+`);
+}
+
+function readFlagValues(argv: string[], ...flags: string[]): string[] {
+  return argv.flatMap((arg, index) => (flags.includes(arg) && index + 1 < argv.length ? [argv[index + 1]] : []));
+}
+
+function parseBlock(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (!Number.isInteger(Number(value))) {
+    throw new Error(`${flag} expects a block number`);
+  }
+  return Number(value);
+}
+
+function parseArgs(argv: string[]): CliOptions | null {
+  if (argv.includes("--help") || argv.includes("-h")) {
+    printHelp();
+    return null;
+  }
+
+  const format = readFlagValues(argv, "--format")[0] ?? "table";
+
+  if (format !== "table" && format !== "json") {
+    throw new Error(`Unsupported --format ${format}; use table or json`);
+  }
+
+  return {
+    network: readFlagValues(argv, "--network", "-n")[0],
+    scenariosFile: readFlagValues(argv, "--scenarios-file")[0] ?? DEFAULT_SCENARIOS_FILE,
+    scenarios: readFlagValues(argv, "--scenario"),
+    block: parseBlock(readFlagValues(argv, "--block")[0], "--block"),
+    fromBlock: parseBlock(readFlagValues(argv, "--from-block")[0], "--from-block"),
+    multicall: readFlagValues(argv, "--multicall")[0],
+    format,
+    output: readFlagValues(argv, "--output", "-o")[0],
+  };
+}
+
+function loadScenarios(file: string, names: string[]): DLendStressScenario[] {
+  const loaded = require(path.resolve(file));
+  const scenarios: DLendStressScenario[] | undefined = Array.isArray(loaded) ? loaded : (loaded.dLendStressScenarios ?? loaded.default);
+
+  if (!Array.isArray(scenarios)) {
+    throw new Error(`${file} must export dLendStressScenarios or be a JSON array of scenarios`);
+  }
+
+  const unknown = names.filter((name) => !scenarios.some((scenario) => scenario.name === name));
+
+  if (unknown.length > 0) {
+    throw new Error(`Unknown --scenario ${unknown.join(", ")}; ${file} defines ${scenarios.map((scenario) => scenario.name).join(", ")}`);
+  }
+  return names.length > 0 ? scenarios.filter((scenario) => names.includes(scenario.name)) : scenarios;
+}
+
+function printReport(report: OracleStressReport): void {
+  const base = (value: bigint): string => formatUnits(value, report.baseCurrencyDecimals);
+
+  console.log(`\n=== dLEND oracle stress test: ${report.network} at block ${report.forkBlockNumber} ===`);
+  console.log(`  Accounts scanned: ${report.accountsScanned}`);
+  console.log(`  Treasury: ${report.treasuries.join(", ")}`);
+
+  for (const scenario of report.scenarios) {
+    console.log(`\n${scenario.name}${scenario.description ? ` — ${scenario.description}` : ""}`);
+
+    for (const shock of scenario.shocks) {
+      console.log(`  ${shock.symbol}: ${Number(shock.shockBps) / 100}% (${base(shock.priceBefore)} -> ${base(shock.priceAfter)})`);
+    }
+
+    if (scenario.skipped.length > 0) {
+      console.log(`  Skipped (not listed): ${scenario.skipped.join(", ")}`);
+    }
+
+    console.log(
+      `  Liquidatable: ${scenario.liquidatable} of ${scenario.borrowers} borrowers (${scenario.liquidatableBefore} before),` +
+        ` debt ${base(scenario.liquidatableDebtBase)}`,
+    );
+
+    for (const position of scenario.newlyLiquidatable) {
+      console.log(
+        `    ${position.user}: HF ${formatUnits(position.healthFactorBefore, 18)} -> ${formatUnits(position.healthFactor, 18)},` +
+          ` debt ${base(position.totalDebtBase)}`,
+      );
+    }
+
+    console.log(`  Insolvent accounts: ${scenario.insolvent.length}, bad debt ${base(scenario.badDebtBase)}`);
+
+    for (const reserve of scenario.reserves) {
+      console.log(
+        `    ${reserve.symbol}: ${base(reserve.badDebtBase)} across ${reserve.accounts} account(s),` +
+          ` treasury holds ${base(reserve.treasuryBalanceBase)}${reserve.covered ? "" : "  [UNCOVERED]"}`,
+      );
+    }
+
+    console.log(`  Treasury ${base(scenario.treasuryBase)} ${scenario.treasuryCovers ? "covers" : "DOES NOT cover"} the bad debt`);
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    return;
+  }
+
+  if (options.network) {
+    process.env.HARDHAT_NETWORK = options.network;
+  }
+
+  const scenarios = loadScenarios(options.scenariosFile, options.scenarios);
+  const hre: HardhatRuntimeEnvironment = require("hardhat");
+  const { getConfig } = await import("../../config/config");
+  const { runOracleStressTest } = await import("../../typescript/dlend/oracle-stress");
+  const config = await getConfig(hre);
+  const { deployer } = await hre.getNamedAccounts();
+  const managers = [config.safeConfig?.safeAddress, config.timelockConfig?.address, config.walletAddresses.governanceMultisig, deployer];
+
+  const report = await runOracleStressTest(hre, scenarios, {
+    tokenAddresses: config.tokenAddresses,
+    oracleManagers: [...new Set(managers.filter((manager): manager is string => Boolean(manager)))],
+    forkBlockNumber: options.block,
+    fromBlock: options.fromBlock,
+    multicallAddress: options.multicall,
+  });
+
+  if (options.format === "table") {
+    printReport(report);
+  } else {
+    const serialized = `${JSON.stringify(report, (_key, value) => (typeof value === "bigint" ? value.toString() : value), 2)}\n`;
+
+    if (options.output) {
+      fs.writeFileSync(options.output, serialized);
+      console.log(`Saved ${report.scenarios.length} scenario(s) to ${options.output}`);
+    } else {
+      process.stdout.write(serialized);
+    }
+  }
+
+  if (report.scenarios.some((scenario) => !scenario.treasuryCovers)) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error("dLEND oracle stress test failed:", error);
+  process.exitCode = 1;
+});
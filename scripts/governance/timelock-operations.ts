@@ -0,0 +1,153 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { TimelockOperationRecord, TimelockOperationStatus } from "../../typescript/hardhat/timelock";
+
+interface CliOptions {
+  network?: string;
+  ledgerPath?: string;
+  includeDone: boolean;
+  safeBatch: boolean;
+  json: boolean;
+}
+
+interface ListedOperation {
+  record: TimelockOperationRecord;
+  status: TimelockOperationStatus;
+}
+
+function printHelp(): void {
+  console.log(`
+dTRINITY Timelock Operations
+============================
+
+Usage:
+  yarn timelock:list --network <name> [--ledger <path>] [--all] [--safe-batch] [--json]
+
+Options:
+  --network, -n   Hardhat network whose timelock-operations.json should be listed
+  --ledger        Ledger file (default: deployments/<network>/timelock-operations.json)
+  --all           Include operations that were already executed
+  --safe-batch    Queue executeBatch for every ready operation as one Safe batch (needs safeConfig)
+  --json          Print operations, their state and executeBatch payloads as JSON
+  --help, -h      Display this help message
+
+Description:
+  Lists the TimelockController batches scheduled by GovernanceExecutor in timelock mode with
+  their on-chain state (unset = schedule not executed yet, waiting, ready, done) and the time
+  from which each becomes executable. Ready operations print the matching executeBatch payload.
+`);
+}
+
+function readFlagValue(argv: string[], ...flags: string[]): string | undefined {
+  const index = argv.findIndex((arg) => flags.includes(arg));
+  return index !== -1 && index + 1 < argv.length ? argv[index + 1] : undefined;
+}
+
+function parseArgs(argv: string[]): CliOptions | null {
+  if (argv.includes("--help") || argv.includes("-h")) {
+    printHelp();
+    return null;
+  }
+
+  return {
+    network: readFlagValue(argv, "--network", "-n"),
+    ledgerPath: readFlagValue(argv, "--ledger"),
+    includeDone: argv.includes("--all"),
+    safeBatch: argv.includes("--safe-batch"),
+    json: argv.includes("--json"),
+  };
+}
+
+function formatExecutableAt({ state, executableAt, estimated }: TimelockOperationStatus): string {
+  if (state === "done") {
+    return "executed";
+  }
+
+  const when = new Date(executableAt * 1000).toISOString();
+  return estimated ? `~${when} (delay starts once the schedule call executes)` : when;
+}
+
+function printOperations(operations: ListedOperation[]): void {
+  if (operations.length === 0) {
+    console.log("No timelock operations recorded.");
+    return;
+  }
+
+  for (const { record, status } of operations) {
+    const via = record.scheduledVia === "safe" ? `Safe batch ${record.safeTxHash ?? "unknown"}` : `tx ${record.scheduleTransactionHash}`;
+    console.log(`\n${status.state.toUpperCase().padEnd(7)} ${record.description}`);
+    console.log(`  id:            ${record.id}`);
+    console.log(`  calls:         ${record.targets.length} (delay ${record.delay}s, scheduled via ${via})`);
+    console.log(`  executable at: ${formatExecutableAt(status)}`);
+
+    if (status.state === "ready") {
+      console.log(`  executeBatch:  to ${record.executeTransaction.to} value ${record.executeTransaction.value}`);
+      console.log(`                 data ${record.executeTransaction.data}`);
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    return;
+  }
+
+  if (options.network) {
+    process.env.HARDHAT_NETWORK = options.network;
+  }
+
+  const hre: HardhatRuntimeEnvironment = require("hardhat");
+  const { getTimelockLedgerPath, getTimelockOperationStatus, readTimelockOperations } = await import("../../typescript/hardhat/timelock");
+
+  const ledgerPath = getTimelockLedgerPath(hre, { ledgerPath: options.ledgerPath });
+  const operations: ListedOperation[] = [];
+
+  for (const record of readTimelockOperations(ledgerPath)) {
+    const status = await getTimelockOperationStatus(hre.ethers.provider, record);
+
+    if (status.state !== "done" || options.includeDone) {
+      operations.push({ record, status });
+    }
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(operations, null, 2));
+  } else {
+    console.log(`Timelock ledger: ${ledgerPath}`);
+    printOperations(operations);
+  }
+
+  const ready = operations.filter(({ status }) => status.state === "ready");
+
+  if (!options.safeBatch || ready.length === 0) {
+    return;
+  }
+
+  const { getConfig } = await import("../../config/config");
+  const { SafeManager } = await import("../../.shared/lib/safe/safe-manager");
+  const config = await getConfig(hre);
+
+  if (!config.safeConfig) {
+    throw new Error(`Missing safeConfig in ${hre.network.name} network config`);
+  }
+
+  const { deployer } = await hre.getNamedAccounts();
+  const safeManager = new SafeManager(hre, await hre.ethers.getSigner(deployer), { safeConfig: config.safeConfig });
+  await safeManager.initialize();
+
+  const result = await safeManager.createBatchTransaction({
+    description: `Execute ${ready.length} ready timelock operation(s)`,
+    transactions: ready.map(({ record }) => record.executeTransaction),
+  });
+
+  if (!result.success) {
+    throw new Error(`Failed to prepare Safe batch: ${result.error ?? "unknown error"}`);
+  }
+  console.log(`\nQueued executeBatch for ${ready.length} operation(s) in Safe batch ${result.safeTxHash}`);
+}
+
+main().catch((error) => {
+  console.error("Timelock listing failed:", error);
+  process.exitCode = 1;
+});
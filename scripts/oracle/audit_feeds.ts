@@ -0,0 +1,184 @@
+import * as fs from "fs";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { FeedAuditEntry, FeedProvider } from "../../typescript/oracle_aggregator/feed-audit";
+
+type OutputFormat = "text" | "json" | "csv" | "markdown";
+
+interface CliOptions {
+  aggregators: string[];
+  providers: string[];
+  format: OutputFormat;
+  output?: string;
+  staleAfter: Partial<Record<FeedProvider, number>>;
+}
+
+function printHelp(): void {
+  console.log(`
+dTRINITY Oracle Feed Audit
+==========================
+
+Usage:
+  yarn oracles:audit-feeds --network <name> [--provider <name>] [--aggregator <key>] [--format text|json|csv|markdown]
+
+Options:
+  --network, -n   Hardhat network to read
+  --aggregator    Oracle aggregator config key to audit (repeatable, default: all, e.g. USD, ETH)
+  --provider      Only audit feeds of this provider (repeatable): chainlink, api3, redstone, erc4626
+  --format        Output format (default: text)
+  --output, -o    Write the report to a file instead of stdout
+  --stale-after   Staleness threshold override as <provider>=<seconds> (repeatable)
+                  Defaults: chainlink and redstone 3600, api3 90000; erc4626 rates are never stale
+  --help, -h      Display this help message
+
+Description:
+  Reads every feed referenced by config.oracleAggregators through its provider's interface
+  (Chainlink/Redstone latestRoundData, API3 read(), ERC4626 convertToAssets), and reports the
+  price, last update, staleness and the decimal scaling the consuming wrapper has to apply.
+  Exits with code 1 when a feed is stale or unreadable.
+`);
+}
+
+function readFlagValues(argv: string[], ...flags: string[]): string[] {
+  return argv.flatMap((arg, index) => (flags.includes(arg) && index + 1 < argv.length ? [argv[index + 1]] : []));
+}
+
+function parseArgs(argv: string[], providers: FeedProvider[]): CliOptions {
+  const format = readFlagValues(argv, "--format")[0] ?? "text";
+
+  if (!["text", "json", "csv", "markdown"].includes(format)) {
+    throw new Error(`Unsupported --format ${format}; use text, json, csv or markdown`);
+  }
+
+  const requested = readFlagValues(argv, "--provider");
+  const unknown = requested.filter((provider) => !providers.includes(provider as FeedProvider));
+
+  if (unknown.length > 0) {
+    throw new Error(`Unknown --provider ${unknown.join(", ")}; use ${providers.join(", ")}`);
+  }
+
+  const staleAfter: Partial<Record<FeedProvider, number>> = {};
+
+  for (const value of readFlagValues(argv, "--stale-after")) {
+    const [provider, seconds] = value.split("=");
+
+    if (!providers.includes(provider as FeedProvider) || !Number.isFinite(Number(seconds))) {
+      throw new Error(`Invalid --stale-after ${value}; expected <provider>=<seconds>`);
+    }
+    staleAfter[provider as FeedProvider] = Number(seconds);
+  }
+
+  return {
+    aggregators: readFlagValues(argv, "--aggregator"),
+    providers: requested,
+    format: format as OutputFormat,
+    output: readFlagValues(argv, "--output", "-o")[0],
+    staleAfter,
+  };
+}
+
+function printText(entries: FeedAuditEntry[]): void {
+  console.log("\n" + "=".repeat(80));
+  console.log("📊 ORACLE FEED AUDIT");
+  console.log("=".repeat(80));
+
+  if (entries.length === 0) {
+    console.log("❌ No feeds found in the configuration.");
+    return;
+  }
+
+  for (const entry of entries) {
+    const status = entry.error ? "❌ UNREADABLE" : entry.isStale ? "🔴 STALE" : "🟢 FRESH";
+    const scaling =
+      entry.scalingNeeded === "none"
+        ? `${entry.actualDecimals} decimals (matches expected ${entry.expectedDecimals})`
+        : `${entry.actualDecimals} → ${entry.expectedDecimals} decimals (${entry.scalingNeeded === "upscale" ? "multiply" : "divide"} by ${entry.scalingFactor})`;
+
+    console.log(`  🔗 ${entry.address} [${entry.provider}]`);
+    console.log(`     📝 ${entry.pairDescription} - ${entry.description}`);
+    console.log(`     🏷️  ${entry.feedType} (${entry.baseCurrency} aggregator)`);
+    console.log(`     🪙 Asset: ${entry.assetSymbol} (${entry.assetAddress})`);
+    console.log(`     💲 Current Price: ${entry.currentPrice} ${status}`);
+    console.log(`     🕐 Last Update: ${entry.priceTimestamp > 0 ? new Date(entry.priceTimestamp * 1000).toISOString() : "n/a"}`);
+    console.log(`     📊 ${scaling}`);
+
+    if (entry.error) {
+      console.log(`     ⚠️  ${entry.error}`);
+    }
+    console.log("");
+  }
+
+  const count = (predicate: (entry: FeedAuditEntry) => boolean): number => entries.filter(predicate).length;
+  console.log("=".repeat(80));
+  console.log("📋 SUMMARY:");
+  console.log(`  Total feeds audited: ${entries.length}`);
+  console.log(`  ✅ No scaling needed: ${count((entry) => entry.scalingNeeded === "none")}`);
+  console.log(`  ⬆️  Upscaling needed: ${count((entry) => entry.scalingNeeded === "upscale")}`);
+  console.log(`  ⬇️  Downscaling needed: ${count((entry) => entry.scalingNeeded === "downscale")}`);
+  console.log(`  🔴 Stale or unreadable feeds: ${count((entry) => entry.isStale)}`);
+  console.log("=".repeat(80));
+}
+
+async function main(): Promise<void> {
+  const argv = process.argv.slice(2);
+
+  if (argv.includes("--help") || argv.includes("-h")) {
+    printHelp();
+    return;
+  }
+
+  const network = readFlagValues(argv, "--network", "-n")[0];
+
+  if (network) {
+    process.env.HARDHAT_NETWORK = network;
+  }
+
+  // feed-audit loads hardhat, so it is imported once the network is selected
+  const { FEED_PROVIDERS, auditFeeds, collectConfiguredFeeds, formatFeedAuditCsv, formatFeedAuditMarkdown } =
+    await import("../../typescript/oracle_aggregator/feed-audit");
+  const options = parseArgs(argv, FEED_PROVIDERS);
+  const hre: HardhatRuntimeEnvironment = require("hardhat");
+  const { getConfig } = await import("../../config/config");
+  const config = await getConfig(hre);
+
+  const aggregatorKeys = options.aggregators.length > 0 ? options.aggregators : Object.keys(config.oracleAggregators);
+  const sources = aggregatorKeys.flatMap((key) => {
+    if (!config.oracleAggregators[key]) {
+      throw new Error(`No oracle aggregator "${key}" in ${hre.network.name} config`);
+    }
+    return collectConfiguredFeeds(key, config.oracleAggregators[key]);
+  });
+  const entries = await auditFeeds(
+    hre,
+    sources.filter((source) => options.providers.length === 0 || options.providers.includes(source.provider)),
+    { staleAfterSeconds: options.staleAfter },
+  );
+
+  if (entries.some((entry) => entry.isStale)) {
+    process.exitCode = 1;
+  }
+
+  if (options.format === "text") {
+    printText(entries);
+    return;
+  }
+
+  const serialized =
+    options.format === "csv"
+      ? formatFeedAuditCsv(entries)
+      : options.format === "markdown"
+        ? formatFeedAuditMarkdown(entries)
+        : `${JSON.stringify(entries, null, 2)}\n`;
+
+  if (options.output) {
+    fs.writeFileSync(options.output, serialized);
+    console.log(`Saved ${entries.length} feed(s) to ${options.output}`);
+  } else {
+    process.stdout.write(serialized);
+  }
+}
+
+main().catch((error) => {
+  console.error("Oracle feed audit failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,157 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { OracleDriftReport } from "../../typescript/oracle_aggregator/drift";
+
+interface CliOptions {
+  network?: string;
+  aggregators: string[];
+  multicall?: string;
+  safeBatch: boolean;
+  json: boolean;
+}
+
+function printHelp(): void {
+  console.log(`
+dTRINITY Oracle Drift Check
+===========================
+
+Usage:
+  yarn oracles:drift --network <name> [--aggregator <key>] [--multicall <address>] [--safe-batch] [--json]
+
+Options:
+  --network, -n   Hardhat network to check
+  --aggregator    Oracle aggregator config key to check (repeatable, default: all, e.g. USD, ETH)
+  --multicall     Multicall3 address (default: canonical deployment, falls back to single calls)
+  --safe-batch    Queue the corrective calls through GovernanceExecutor as a Safe batch (needs safeConfig)
+  --json          Print the issues and corrective calls as JSON
+  --help, -h      Display this help message
+
+Description:
+  Compares config.oracleAggregators with the chain: the wrapper each asset is routed to on
+  OracleAggregatorV1_1.assetOracles(asset), and the proxy, feed, vault and thresholds stored
+  in that wrapper. Reports every mismatch and exits with code 1 when drift is found.
+  Wrappers configured at deployment (frxETH fundamental, ChainlinkCompositeAggregator) are
+  reported but cannot be corrected by a batch.
+`);
+}
+
+function readFlagValues(argv: string[], ...flags: string[]): string[] {
+  return argv.flatMap((arg, index) => (flags.includes(arg) && index + 1 < argv.length ? [argv[index + 1]] : []));
+}
+
+function parseArgs(argv: string[]): CliOptions | null {
+  if (argv.includes("--help") || argv.includes("-h")) {
+    printHelp();
+    return null;
+  }
+
+  return {
+    network: readFlagValues(argv, "--network", "-n")[0],
+    aggregators: readFlagValues(argv, "--aggregator"),
+    multicall: readFlagValues(argv, "--multicall")[0],
+    safeBatch: argv.includes("--safe-batch"),
+    json: argv.includes("--json"),
+  };
+}
+
+function printReport(aggregatorKey: string, report: OracleDriftReport): void {
+  console.log(`\n=== ${aggregatorKey} oracle aggregator: ${report.checked} route(s) checked ===`);
+
+  if (report.issues.length === 0) {
+    console.log("No drift.");
+    return;
+  }
+
+  for (const issue of report.issues) {
+    console.log(`- [${issue.drift}] ${issue.asset} (${issue.kind}): ${issue.detail}`);
+  }
+
+  if (report.fixes.length > 0) {
+    console.log(`\nCorrective calls (${report.fixes.length}):`);
+    report.fixes.forEach((fix, index) => console.log(`  ${index + 1}. ${fix.description} -> ${fix.transaction.to}`));
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    return;
+  }
+
+  if (options.network) {
+    process.env.HARDHAT_NETWORK = options.network;
+  }
+
+  const hre: HardhatRuntimeEnvironment = require("hardhat");
+  const { getConfig } = await import("../../config/config");
+  const { diffOracleRoutes, readOracleRouteStates, resolveExpectedOracleRoutes } = await import("../../typescript/oracle_aggregator/drift");
+  const config = await getConfig(hre);
+
+  const aggregatorKeys = options.aggregators.length > 0 ? options.aggregators : Object.keys(config.oracleAggregators);
+  const reports: Record<string, OracleDriftReport> = {};
+
+  for (const key of aggregatorKeys) {
+    const aggregatorConfig = config.oracleAggregators[key];
+
+    if (!aggregatorConfig) {
+      throw new Error(`No oracle aggregator "${key}" in ${hre.network.name} config`);
+    }
+
+    const routes = await resolveExpectedOracleRoutes(hre, key, aggregatorConfig);
+    reports[key] = diffOracleRoutes(await readOracleRouteStates(hre, routes, options.multicall));
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(reports, (_key, value) => (typeof value === "bigint" ? value.toString() : value), 2));
+  } else {
+    Object.entries(reports).forEach(([key, report]) => printReport(key, report));
+  }
+
+  const fixes = Object.values(reports).flatMap((report) => report.fixes);
+
+  if (Object.values(reports).some((report) => report.issues.length > 0)) {
+    process.exitCode = 1;
+  }
+
+  if (!options.safeBatch || fixes.length === 0) {
+    return;
+  }
+
+  if (!config.safeConfig) {
+    throw new Error(`Missing safeConfig in ${hre.network.name} network config`);
+  }
+
+  const { GovernanceExecutor } = await import("../../typescript/hardhat/governance");
+  const { deployer } = await hre.getNamedAccounts();
+  const executor = new GovernanceExecutor(hre, await hre.ethers.getSigner(deployer), config.safeConfig, undefined, config.timelockConfig);
+
+  if (executor.mode === "direct") {
+    throw new Error(`Safe mode is disabled on ${hre.network.name}; set USE_SAFE=true to queue the corrective batch`);
+  }
+  await executor.initialize();
+
+  for (const fix of fixes) {
+    await executor.tryOrQueue(
+      async () => {
+        throw new Error("Direct execution disabled: queue Safe transaction instead.");
+      },
+      () => fix.transaction,
+      fix.description,
+    );
+  }
+
+  if (!(await executor.flush(`Oracle drift correction (${fixes.length} operations)`))) {
+    throw new Error("Failed to prepare the corrective Safe batch");
+  }
+
+  const report = executor.lastFlushReport;
+  console.log(
+    `\nQueued ${report?.queued.length ?? fixes.length} corrective call(s); ${report?.deduplicated.length ?? 0} already pending.` +
+      (report?.safeTxHashes?.length ? ` SafeTxHash: ${report.safeTxHashes.join(", ")}` : ""),
+  );
+}
+
+main().catch((error) => {
+  console.error("Oracle drift check failed:", error);
+  process.exitCode = 1;
+});
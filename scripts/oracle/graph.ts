@@ -0,0 +1,142 @@
+import * as fs from "fs";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { OracleDependencyGraph, OracleGraphImpact } from "../../typescript/oracle_aggregator/graph";
+
+interface CliOptions {
+  network?: string;
+  aggregators: string[];
+  multicall?: string;
+  format: "json" | "dot";
+  output?: string;
+  feeds: string[];
+  json: boolean;
+  reserves: boolean;
+}
+
+function printHelp(): void {
+  console.log(`
+dTRINITY Oracle Dependency Graph
+================================
+
+Usage:
+  yarn oracles:graph --network <name> [--aggregator <key>] [--format json|dot] [--output <path>]
+  yarn oracles:graph --network <name> --feed <address> [--feed <address>] [--json]
+
+Options:
+  --network, -n   Hardhat network to read
+  --aggregator    Oracle aggregator config key to include (repeatable, default: all, e.g. USD, ETH)
+  --multicall     Multicall3 address (default: canonical deployment, falls back to single calls)
+  --format        Graph export format: json (default) or dot (Graphviz)
+  --output, -o    Write the graph to a file instead of stdout
+  --feed          Reverse query: list the aggregator assets and dLEND reserves that depend on this
+                  feed, wrapper or aggregator address (repeatable)
+  --json          Print reverse query results as JSON
+  --no-reserves   Skip the dLEND reserve lookup
+  --help, -h      Display this help message
+
+Description:
+  Builds the pricing dependency graph of config.oracleAggregators from deployments and on-chain
+  reads: each asset's routed wrapper (OracleAggregatorV1_1.assetOracles), the proxies, feeds and
+  vaults stored in that wrapper, and the ChainlinkDecimalConverter, ChainlinkCompositeAggregator
+  and Chainlink proxy layers below them. dLEND reserves are linked to the asset AaveOracle prices
+  them with. Render DOT output with e.g. \`dot -Tsvg graph.dot -o graph.svg\`.
+`);
+}
+
+function readFlagValues(argv: string[], ...flags: string[]): string[] {
+  return argv.flatMap((arg, index) => (flags.includes(arg) && index + 1 < argv.length ? [argv[index + 1]] : []));
+}
+
+function parseArgs(argv: string[]): CliOptions | null {
+  if (argv.includes("--help") || argv.includes("-h")) {
+    printHelp();
+    return null;
+  }
+
+  const format = readFlagValues(argv, "--format")[0] ?? "json";
+
+  if (format !== "json" && format !== "dot") {
+    throw new Error(`Unsupported --format ${format}; use json or dot`);
+  }
+
+  return {
+    network: readFlagValues(argv, "--network", "-n")[0],
+    aggregators: readFlagValues(argv, "--aggregator"),
+    multicall: readFlagValues(argv, "--multicall")[0],
+    format,
+    output: readFlagValues(argv, "--output", "-o")[0],
+    feeds: readFlagValues(argv, "--feed"),
+    json: argv.includes("--json"),
+    reserves: !argv.includes("--no-reserves"),
+  };
+}
+
+function printImpact(graph: OracleDependencyGraph, impact: OracleGraphImpact): void {
+  const labels = new Map(graph.nodes.map((node) => [node.id, node.label]));
+  console.log(`\n=== ${impact.address} ===`);
+
+  if (!impact.found) {
+    console.log("Not part of the oracle dependency graph.");
+    return;
+  }
+
+  console.log(`Aggregator assets (${impact.assets.length}):`);
+  impact.assets.forEach((node) =>
+    console.log(`  - ${node.aggregatorKey} ${node.label}: ${impact.paths[node.id].map((id) => labels.get(id) ?? id).join(" -> ")}`),
+  );
+  console.log(`dLEND reserves (${impact.reserves.length}):`);
+  impact.reserves.forEach((node) => console.log(`  - ${node.label} (${node.address})`));
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    return;
+  }
+
+  if (options.network) {
+    process.env.HARDHAT_NETWORK = options.network;
+  }
+
+  const hre: HardhatRuntimeEnvironment = require("hardhat");
+  const { getConfig } = await import("../../config/config");
+  const { buildOracleDependencyGraph, findOracleDependents, formatOracleGraphDot } =
+    await import("../../typescript/oracle_aggregator/graph");
+  const config = await getConfig(hre);
+
+  const graph = await buildOracleDependencyGraph(hre, config, {
+    aggregators: options.aggregators.length > 0 ? options.aggregators : undefined,
+    multicallAddress: options.multicall,
+    includeReserves: options.reserves,
+  });
+
+  if (options.feeds.length > 0) {
+    const impacts = options.feeds.map((feed) => findOracleDependents(graph, feed));
+
+    if (options.json) {
+      console.log(JSON.stringify(impacts, null, 2));
+    } else {
+      impacts.forEach((impact) => printImpact(graph, impact));
+    }
+
+    if (impacts.some((impact) => !impact.found)) {
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  const serialized = options.format === "dot" ? formatOracleGraphDot(graph) : `${JSON.stringify(graph, null, 2)}\n`;
+
+  if (options.output) {
+    fs.writeFileSync(options.output, serialized);
+    console.log(`Saved ${graph.nodes.length} node(s) and ${graph.edges.length} edge(s) to ${options.output}`);
+  } else {
+    process.stdout.write(serialized);
+  }
+}
+
+main().catch((error) => {
+  console.error("Oracle dependency graph failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,94 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { PtOracleStatus } from "../../typescript/pendle/pt-oracles";
+
+function printHelp(): void {
+  console.log(`
+dTRINITY Pendle PT Oracle Status
+================================
+
+Usage:
+  yarn oracles:pendle-pt --network <name> [--json]
+
+Options:
+  --network, -n   Hardhat network to read
+  --json          Print the statuses as JSON
+  --help, -h      Display this help message
+
+Description:
+  For every PT in config.pendle.ptTokens, reports the market expiry, the TWAP readiness from the
+  Pendle PT/YT/LP oracle getOracleState, the deployed factory oracle and decimal converter, and
+  whether the dLEND reserve is frozen. Exits with code 1 when a market is near or past expiry
+  while its reserve is not frozen (window: config.pendle.expiryWarningDays, default 14 days).
+`);
+}
+
+function readFlagValues(argv: string[], ...flags: string[]): string[] {
+  return argv.flatMap((arg, index) => (flags.includes(arg) && index + 1 < argv.length ? [argv[index + 1]] : []));
+}
+
+function printStatus(status: PtOracleStatus, warning: string | undefined, twapIssue: string | undefined): void {
+  const frozen = status.reserveFrozen === undefined ? "not listed" : status.reserveFrozen ? "frozen" : "not frozen";
+
+  console.log(`\n=== ${status.pt.name} (${status.pt.ptToken}) ===`);
+  console.log(`  Market:     ${status.pt.market}`);
+  console.log(`  Expiry:     ${new Date(status.expiry * 1000).toISOString()} (${status.expiryStatus})`);
+  console.log(`  TWAP:       ${twapIssue ?? `ready (${status.pt.twapDuration}s, ${status.pt.oracleType})`}`);
+  console.log(`  Oracle:     ${status.oracle ?? `${status.oracleId} not deployed`}`);
+  console.log(`  Converter:  ${status.converter ?? `${status.converterId} not deployed`}`);
+  console.log(`  Aggregator: ${status.aggregatorKey}`);
+  console.log(`  Reserve:    ${frozen}`);
+
+  if (warning) {
+    console.log(`  ⚠️  ${warning}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const argv = process.argv.slice(2);
+
+  if (argv.includes("--help") || argv.includes("-h")) {
+    printHelp();
+    return;
+  }
+
+  const network = readFlagValues(argv, "--network", "-n")[0];
+
+  if (network) {
+    process.env.HARDHAT_NETWORK = network;
+  }
+
+  const hre: HardhatRuntimeEnvironment = require("hardhat");
+  const { getConfig } = await import("../../config/config");
+  const { ptExpiryWarning, ptTwapReadinessIssue, readPtOracleStatuses } = await import("../../typescript/pendle/pt-oracles");
+  const config = await getConfig(hre);
+
+  if (!config.pendle || config.pendle.ptTokens.length === 0) {
+    console.log(`No Pendle PT tokens configured for ${hre.network.name}.`);
+    return;
+  }
+
+  const statuses = await readPtOracleStatuses(hre, config.pendle);
+  const warnings = statuses.map((status) => ptExpiryWarning(status));
+
+  if (argv.includes("--json")) {
+    console.log(
+      JSON.stringify(
+        statuses.map((status, index) => ({ ...status, warning: warnings[index] })),
+        null,
+        2,
+      ),
+    );
+  } else {
+    statuses.forEach((status, index) => printStatus(status, warnings[index], ptTwapReadinessIssue(status)));
+  }
+
+  if (warnings.some(Boolean)) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error("Pendle PT oracle status failed:", error);
+  process.exitCode = 1;
+});
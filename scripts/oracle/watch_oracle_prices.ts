@@ -0,0 +1,3 @@
+import { runOracleWatchdogCli } from "../../.shared/lib/oracles/prices/watch-cli";
+
+void runOracleWatchdogCli();
@@ -0,0 +1,140 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import {
+  createHostedPendleMarketData,
+  createRecordingPendleMarketData,
+  DEFAULT_PENDLE_FIXTURE_PATH,
+  loadPendleMarketDataFixture,
+  PendleMarketDataFixture,
+  PendleMarketDataProvider,
+  savePendleMarketDataFixture,
+} from "../../typescript/pendle/market-data";
+
+interface CliOptions {
+  source: "hosted" | "onchain";
+  chainIds: number[];
+  output: string;
+  network?: string;
+  pyFactory?: string;
+}
+
+function printHelp(): void {
+  console.log(`
+dTRINITY Pendle Market Fixture Refresh
+======================================
+
+Usage:
+  yarn pendle:refresh-fixtures [--chain <id>] [--output <path>]
+  yarn pendle:refresh-fixtures --source onchain --network <name> --py-factory <address>
+
+Options:
+  --source        Where to record from: hosted (default, Pendle API) or onchain
+  --chain         Chain id whose markets are recorded (repeatable, default: 1; onchain: the network's chain)
+  --output, -o    Fixture file (default: ${DEFAULT_PENDLE_FIXTURE_PATH})
+  --network, -n   Hardhat network read by the onchain source
+  --py-factory    PYFactory address the onchain source confirms PTs with
+  --help, -h      Display this help message
+
+Description:
+  Records Pendle market metadata (PT, market, SY, YT, underlying, expiry) into the fixture the
+  "fixture" market data provider replays (PENDLE_MARKET_DATA=fixture). The hosted source also
+  re-requests every SDK response already saved in the fixture, so recorded swap calldata stays
+  current. The onchain source reads the markets of config.pendle.ptTokens.
+`);
+}
+
+function readFlagValues(argv: string[], ...flags: string[]): string[] {
+  return argv.flatMap((arg, index) => (flags.includes(arg) && index + 1 < argv.length ? [argv[index + 1]] : []));
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const source = readFlagValues(argv, "--source")[0] ?? "hosted";
+
+  if (source !== "hosted" && source !== "onchain") {
+    throw new Error(`Unsupported --source ${source}; use hosted or onchain`);
+  }
+
+  const options: CliOptions = {
+    source,
+    chainIds: readFlagValues(argv, "--chain").map(Number),
+    output: readFlagValues(argv, "--output", "-o")[0] ?? DEFAULT_PENDLE_FIXTURE_PATH,
+    network: readFlagValues(argv, "--network", "-n")[0],
+    pyFactory: readFlagValues(argv, "--py-factory")[0],
+  };
+
+  if (options.chainIds.some((chainId) => !Number.isInteger(chainId))) {
+    throw new Error("--chain expects a numeric chain id");
+  }
+
+  if (source === "onchain" && (!options.network || !options.pyFactory)) {
+    throw new Error("--source onchain requires --network and --py-factory");
+  }
+  return options;
+}
+
+async function createOnChainSource(options: CliOptions): Promise<{ provider: PendleMarketDataProvider; chainId: number }> {
+  process.env.HARDHAT_NETWORK = options.network;
+
+  const hre: HardhatRuntimeEnvironment = require("hardhat");
+  const { getConfig } = await import("../../config/config");
+  const { createOnChainPendleMarketData } = await import("../../typescript/pendle/market-data");
+  const config = await getConfig(hre);
+  const markets = config.pendle?.ptTokens.map((pt) => pt.market) ?? [];
+
+  if (markets.length === 0) {
+    throw new Error(`No Pendle PT tokens configured for ${hre.network.name}`);
+  }
+
+  return {
+    provider: createOnChainPendleMarketData(hre.ethers.provider, { pyFactory: options.pyFactory!, markets }),
+    chainId: Number((await hre.ethers.provider.getNetwork()).chainId),
+  };
+}
+
+async function main(): Promise<void> {
+  const argv = process.argv.slice(2);
+
+  if (argv.includes("--help") || argv.includes("-h")) {
+    printHelp();
+    return;
+  }
+
+  const options = parseArgs(argv);
+  let previous: PendleMarketDataFixture = { markets: {}, sdk: {} };
+
+  try {
+    previous = loadPendleMarketDataFixture(options.output);
+  } catch {
+    console.log(`Creating ${options.output}`);
+  }
+
+  const fixture: PendleMarketDataFixture = { markets: { ...previous.markets }, sdk: {} };
+
+  if (options.source === "onchain") {
+    const { provider, chainId } = await createOnChainSource(options);
+    const markets = await createRecordingPendleMarketData(provider, fixture).getMarkets(chainId);
+    console.log(`Recorded ${markets.length} on-chain market(s) for chain ${chainId}`);
+    fixture.sdk = previous.sdk;
+  } else {
+    const recorder = createRecordingPendleMarketData(createHostedPendleMarketData(), fixture);
+
+    for (const chainId of options.chainIds.length > 0 ? options.chainIds : [1]) {
+      const markets = await recorder.getMarkets(chainId);
+      console.log(`Recorded ${markets.length} market(s) for chain ${chainId}`);
+    }
+
+    for (const key of Object.keys(previous.sdk)) {
+      const [sdkPath, query] = key.split("?");
+      await recorder.callSdk(sdkPath, Object.fromEntries(new URLSearchParams(query ?? "")));
+    }
+    console.log(`Re-recorded ${Object.keys(previous.sdk).length} SDK response(s)`);
+  }
+
+  savePendleMarketDataFixture(options.output, fixture);
+  console.log(`Saved ${options.output}`);
+}
+
+main().catch((error) => {
+  console.error("Pendle fixture refresh failed:", error);
+  process.exitCode = 1;
+});
@@ -1,7 +1,7 @@
 import { getConfig } from "../../config/config";
 import { scanRolesAndOwnership } from "./lib/scan";
-import { SafeManager } from "../../typescript/safe/SafeManager";
-import { SafeTransactionData } from "../../typescript/safe/types";
+import { SafeManager } from "../../.shared/lib/safe/safe-manager";
+import { SafeTransactionData } from "../../.shared/lib/safe/types";
 
 async function main() {
   const hre = require("hardhat");
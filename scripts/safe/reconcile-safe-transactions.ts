@@ -0,0 +1,147 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { SafeReconcileReport } from "../../.shared/lib/safe/reconcile";
+
+interface CliOptions {
+  network?: string;
+  fromBlock?: number;
+  toBlock?: number;
+  logChunkSize?: number;
+  dryRun: boolean;
+  json: boolean;
+}
+
+function printHelp(): void {
+  console.log(`
+dTRINITY Safe Ledger Reconciliation
+===================================
+
+Usage:
+  yarn safe:reconcile --network <name> [--from-block <n>] [--to-block <n>] [--chunk-size <n>] [--dry-run] [--json]
+
+Options:
+  --network, -n   Hardhat network whose safe-deployment-state.json should be reconciled
+  --from-block    First block to scan for ExecutionSuccess/ExecutionFailure events
+                  (default: block of the oldest pending entry)
+  --to-block      Last block to scan (default: latest)
+  --chunk-size    Max block span per eth_getLogs request (default: 10000)
+  --dry-run       Report changes without rewriting the state file
+  --json          Print the report as JSON
+  --help, -h      Display this help message
+
+Description:
+  Compares the pending Safe batches recorded in deployments/<network>/safe-deployment-state.json
+  with the Safe's on-chain nonce and execution events. Executed batches move to completed with
+  their real transaction hash, failed executions move to failed, and pending batches whose nonce
+  was consumed by a different Safe transaction are flagged and moved to failed.
+`);
+}
+
+function parseIntegerFlag(argv: string[], flag: string): number | undefined {
+  const index = argv.indexOf(flag);
+  if (index === -1 || index + 1 >= argv.length) {
+    return undefined;
+  }
+
+  const value = Number(argv[index + 1]);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${flag} expects a non-negative integer, got "${argv[index + 1]}"`);
+  }
+  return value;
+}
+
+function parseArgs(argv: string[]): CliOptions | null {
+  if (argv.includes("--help") || argv.includes("-h")) {
+    printHelp();
+    return null;
+  }
+
+  const opts: CliOptions = {
+    fromBlock: parseIntegerFlag(argv, "--from-block"),
+    toBlock: parseIntegerFlag(argv, "--to-block"),
+    logChunkSize: parseIntegerFlag(argv, "--chunk-size"),
+    dryRun: argv.includes("--dry-run"),
+    json: argv.includes("--json"),
+  };
+
+  const networkFlagIndex = argv.findIndex((arg) => arg === "--network" || arg === "-n");
+  if (networkFlagIndex !== -1 && networkFlagIndex + 1 < argv.length) {
+    opts.network = argv[networkFlagIndex + 1];
+  }
+
+  return opts;
+}
+
+function printReport(report: SafeReconcileReport, dryRun: boolean): void {
+  console.log(`\nSafe ${report.safeAddress} (on-chain nonce ${report.currentNonce})`);
+  console.log(`Scanned blocks ${report.fromBlock} → ${report.toBlock}${dryRun ? " (dry run, state not written)" : ""}`);
+
+  console.log(`\n✅ Executed: ${report.completed.length}`);
+  for (const tx of report.completed) {
+    console.log(`  - ${tx.description} (${tx.safeTxHash}) in ${tx.transactionHash}`);
+  }
+
+  const executionFailures = report.failed.filter((tx) => !report.superseded.some((s) => s.pending.safeTxHash === tx.safeTxHash));
+  console.log(`\n❌ Failed on-chain: ${executionFailures.length}`);
+  for (const tx of executionFailures) {
+    console.log(`  - ${tx.description} (${tx.safeTxHash}): ${tx.error}`);
+  }
+
+  console.log(`\n⚠️ Nonce consumed by a different transaction: ${report.superseded.length}`);
+  for (const { pending, consumedBy } of report.superseded) {
+    const replacement = consumedBy ? `${consumedBy.safeTxHash} (tx ${consumedBy.transactionHash})` : "unknown transaction";
+    console.log(`  - ${pending.description} (${pending.safeTxHash}) nonce ${pending.nonce} → ${replacement}`);
+  }
+
+  console.log(`\n⏳ Still pending: ${report.stillPending.length}`);
+  for (const tx of report.stillPending) {
+    const nonce = tx.nonce === undefined ? "unknown nonce" : `nonce ${tx.nonce}`;
+    console.log(`  - ${tx.description} (${tx.safeTxHash}) ${nonce}, ${tx.currentSignatures}/${tx.requiredSignatures} signatures`);
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    return;
+  }
+
+  if (options.network) {
+    process.env.HARDHAT_NETWORK = options.network;
+  }
+
+  const hre: HardhatRuntimeEnvironment = require("hardhat");
+  const { getConfig } = await import("../../config/config");
+  const { SafeManager } = await import("../../.shared/lib/safe/safe-manager");
+
+  const config = await getConfig(hre);
+  if (!config.safeConfig) {
+    throw new Error(`Missing safeConfig in ${hre.network.name} network config`);
+  }
+
+  const { deployer } = await hre.getNamedAccounts();
+  const signer = await hre.ethers.getSigner(deployer);
+  const safeManager = new SafeManager(hre, signer, { safeConfig: config.safeConfig });
+
+  const report = await safeManager.reconcileTransactions({
+    fromBlock: options.fromBlock,
+    toBlock: options.toBlock,
+    logChunkSize: options.logChunkSize,
+    dryRun: options.dryRun,
+  });
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report, options.dryRun);
+  }
+
+  if (report.superseded.length > 0) {
+    process.exitCode = 2;
+  }
+}
+
+main().catch((error) => {
+  console.error("Safe reconciliation failed:", error);
+  process.exitCode = 1;
+});
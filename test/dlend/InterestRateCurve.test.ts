@@ -0,0 +1,172 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import {
+  rateStrategyBorrowDStable,
+  rateStrategyHighLiquidityVolatile,
+  rateStrategyMediumLiquidityStable,
+} from "../../config/dlend/interest-rate-strategies";
+import { IInterestRateStrategyParams } from "../../config/types";
+import {
+  buildRateCurve,
+  calculateInterestRates,
+  compareRateCurves,
+  formatRateCurvesCsv,
+  InterestRateInputs,
+  RAY,
+  renderRateCurvesSvg,
+} from "../../typescript/dlend/interest-rate-curve";
+import { expectedStrategyFields, readStrategyFields, RESERVE_DRIFT_ABI, StrategyFields } from "../../typescript/dlend/reserve-drift";
+
+describe("dLEND interest rate curves", () => {
+  const aToken = ethers.Wallet.createRandom().address;
+
+  /** Stable rate parameters exercising the stable branches of the contract */
+  const stableHeavy: StrategyFields = {
+    ...expectedStrategyFields(rateStrategyMediumLiquidityStable),
+    stableRateSlope1: ethers.parseUnits("0.04", 27),
+    stableRateSlope2: ethers.parseUnits("0.6", 27),
+    baseStableRateOffset: ethers.parseUnits("0.02", 27),
+    stableRateExcessOffset: ethers.parseUnits("0.08", 27),
+    optimalStableToTotalDebtRatio: ethers.parseUnits("0.2", 27),
+  };
+
+  /**
+   * Deploy a DefaultReserveInterestRateStrategy with the given parameters
+   *
+   * @param strategy - Strategy parameters in ray
+   */
+  async function deployStrategy(strategy: StrategyFields) {
+    const factory = await ethers.getContractFactory("DefaultReserveInterestRateStrategy");
+    return factory.deploy(
+      ethers.Wallet.createRandom().address,
+      strategy.optimalUsageRatio,
+      strategy.baseVariableBorrowRate,
+      strategy.variableRateSlope1,
+      strategy.variableRateSlope2,
+      strategy.stableRateSlope1,
+      strategy.stableRateSlope2,
+      strategy.baseStableRateOffset,
+      strategy.stableRateExcessOffset,
+      strategy.optimalStableToTotalDebtRatio,
+    );
+  }
+
+  /**
+   * Compare the TypeScript port with the deployed contract
+   *
+   * @param strategy - Strategy parameters in ray
+   * @param cases - Reserve states to evaluate
+   */
+  async function expectContractRates(strategy: StrategyFields, cases: InterestRateInputs[]): Promise<void> {
+    const token = await (await ethers.getContractFactory("TestERC20")).deploy("Reserve", "RSV", 18);
+    const contract = await deployStrategy(strategy);
+
+    for (const inputs of cases) {
+      const [liquidityRate, stableBorrowRate, variableBorrowRate] = await contract.calculateInterestRates({
+        unbacked: inputs.unbacked ?? 0n,
+        liquidityAdded: inputs.availableLiquidity,
+        liquidityTaken: 0n,
+        totalStableDebt: inputs.totalStableDebt ?? 0n,
+        totalVariableDebt: inputs.totalVariableDebt,
+        averageStableBorrowRate: inputs.averageStableBorrowRate ?? 0n,
+        reserveFactor: inputs.reserveFactor,
+        reserve: await token.getAddress(),
+        aToken,
+      });
+
+      expect(calculateInterestRates(strategy, inputs)).to.deep.equal({ liquidityRate, stableBorrowRate, variableBorrowRate });
+    }
+  }
+
+  /**
+   * All-variable reserve states at the given utilizations
+   *
+   * @param reserveFactor - Reserve factor in bps
+   * @param liquidity - Total liquidity in wei
+   * @param utilizations - Borrow usage ratios in ppm
+   */
+  function variableCases(reserveFactor: bigint, liquidity: bigint, utilizations: bigint[]): InterestRateInputs[] {
+    return utilizations.map((ppm) => {
+      const totalVariableDebt = (liquidity * ppm) / 1_000_000n;
+      return { availableLiquidity: liquidity - totalVariableDebt, totalVariableDebt, reserveFactor };
+    });
+  }
+
+  const utilizations = [0n, 1n, 123_457n, 399_999n, 400_000n, 500_000n, 500_001n, 777_777n, 800_000n, 912_345n, 999_999n, 1_000_000n];
+
+  for (const config of [rateStrategyBorrowDStable, rateStrategyHighLiquidityVolatile] as IInterestRateStrategyParams[]) {
+    it(`matches DefaultReserveInterestRateStrategy for ${config.name} around the kink`, async () => {
+      await expectContractRates(expectedStrategyFields(config), [
+        ...variableCases(1000n, ethers.parseUnits("1000000", 18), utilizations),
+        ...variableCases(1500n, 987_654_321n, utilizations),
+      ]);
+    });
+  }
+
+  it("matches the contract with stable debt, unbacked liquidity and an excess stable ratio", async () => {
+    await expectContractRates(stableHeavy, [
+      {
+        availableLiquidity: ethers.parseUnits("400", 6),
+        totalVariableDebt: ethers.parseUnits("350", 6),
+        totalStableDebt: ethers.parseUnits("250", 6),
+        averageStableBorrowRate: ethers.parseUnits("0.0733", 27),
+        unbacked: ethers.parseUnits("50", 6),
+        reserveFactor: 2000n,
+      },
+      {
+        availableLiquidity: 1n,
+        totalVariableDebt: ethers.parseUnits("10", 18),
+        totalStableDebt: ethers.parseUnits("1", 18),
+        averageStableBorrowRate: ethers.parseUnits("0.05", 27),
+        reserveFactor: 0n,
+      },
+    ]);
+  });
+
+  it("reads deployed parameters back into the strategy config", async () => {
+    const contract = await deployStrategy(stableHeavy);
+    const read = await readStrategyFields(new ethers.Contract(await contract.getAddress(), RESERVE_DRIFT_ABI, ethers.provider));
+
+    expect(read).to.deep.equal(stableHeavy);
+  });
+
+  it("samples curves, compares them at both kinks and renders CSV and SVG", () => {
+    const current = buildRateCurve("deployed", expectedStrategyFields(rateStrategyHighLiquidityVolatile), 1000n);
+    const proposed = buildRateCurve("proposed", expectedStrategyFields(rateStrategyBorrowDStable), 2000n);
+
+    expect(current.points).to.have.length(101);
+    expect(current.points[50]).to.include({ utilizationBps: 5000n, variableBorrowRate: ethers.parseUnits("0.03", 27) });
+    expect(current.points[100].variableBorrowRate).to.equal(2n * RAY);
+    expect(current.points[100].liquidityRate).to.equal(ethers.parseUnits("1.8", 27));
+
+    const rows = compareRateCurves(current, proposed);
+    expect(rows.map((row) => row.utilizationBps)).to.deep.equal([
+      0n,
+      1000n,
+      2000n,
+      3000n,
+      4000n,
+      5000n,
+      6000n,
+      7000n,
+      8000n,
+      9000n,
+      10000n,
+    ]);
+    expect(rows[8].variableBorrowRateDelta).to.equal(ethers.parseUnits("0.1", 27) - ethers.parseUnits("1.212", 27));
+
+    const csv = formatRateCurvesCsv([current, proposed]).trim().split("\n");
+    expect(csv[0]).to.equal(
+      "utilization_pct,deployed borrow_apr_pct,deployed supply_apr_pct,proposed borrow_apr_pct,proposed supply_apr_pct",
+    );
+    expect(csv[81]).to.equal("80.0,121.2000,87.2640,10.0000,6.4000");
+
+    const svg = renderRateCurvesSvg([current, proposed]);
+    expect(svg.match(/<polyline /g)).to.have.length(4);
+    expect(svg).to.include("deployed borrow").and.include("supply (RF 20%)");
+    expect(() => formatRateCurvesCsv([current, buildRateCurve("coarse", current.strategy, 1000n, 1000n)])).to.throw(
+      /different utilization steps/,
+    );
+  });
+});
@@ -0,0 +1,213 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+
+import { dLendStressScenarios } from "../../config/dlend/stress-scenarios";
+import {
+  assessStressScenario,
+  positionShortfall,
+  runOracleStressTest,
+  TreasuryHolding,
+  validateStressScenarios,
+} from "../../typescript/dlend/oracle-stress";
+import {
+  AccountData,
+  buildPositionScanReport,
+  PositionScanReport,
+  ReserveMarket,
+  UserReservePosition,
+} from "../../typescript/dlend/position-scanner";
+import { dLendFixture } from "./fixtures";
+
+describe("dLEND oracle stress test", () => {
+  const weth = ethers.Wallet.createRandom().address;
+  const dUSD = ethers.Wallet.createRandom().address;
+  const [risky, safe] = Array.from({ length: 2 }, () => ethers.Wallet.createRandom().address);
+  const treasury = ethers.Wallet.createRandom().address;
+
+  /**
+   * WETH and dUSD reserves at a WETH price
+   *
+   * @param wethPrice - WETH price as a decimal string
+   */
+  function markets(wethPrice: string): ReserveMarket[] {
+    return [
+      {
+        asset: weth,
+        symbol: "WETH",
+        decimals: 18,
+        price: ethers.parseUnits(wethPrice, 8),
+        liquidationThreshold: 8000n,
+        liquidationBonus: 10500n,
+        liquidationProtocolFee: 1000n,
+      },
+      {
+        asset: dUSD,
+        symbol: "dUSD",
+        decimals: 18,
+        price: ethers.parseUnits("1", 8),
+        liquidationThreshold: 0n,
+        liquidationBonus: 0n,
+        liquidationProtocolFee: 0n,
+      },
+    ];
+  }
+
+  /**
+   * Scan report of every borrower holding 1 WETH against dUSD debt
+   *
+   * @param wethPrice - WETH price as a decimal string
+   * @param debts - dUSD debt per user
+   */
+  function scan(wethPrice: string, debts: [string, string][]): PositionScanReport {
+    const reserves = markets(wethPrice);
+    const collateralBase = reserves[0].price;
+    const accounts: AccountData[] = debts.map(([user, debt]) => {
+      const totalDebtBase = ethers.parseUnits(debt, 8);
+      return {
+        user,
+        totalCollateralBase: collateralBase,
+        totalDebtBase,
+        availableBorrowsBase: 0n,
+        currentLiquidationThreshold: 8000n,
+        ltv: 7500n,
+        healthFactor: (collateralBase * 8000n * 10n ** 18n) / (10000n * totalDebtBase),
+      };
+    });
+    const positions = new Map<string, UserReservePosition[]>(
+      debts.map(([user, debt]) => [
+        user,
+        [
+          { asset: weth, supplied: ethers.parseUnits("1", 18), stableDebt: 0n, variableDebt: 0n, usageAsCollateralEnabled: true },
+          { asset: dUSD, supplied: 0n, stableDebt: 0n, variableDebt: ethers.parseUnits(debt, 18), usageAsCollateralEnabled: false },
+        ],
+      ]),
+    );
+
+    return buildPositionScanReport(accounts, positions, reserves, {
+      fromBlock: 0,
+      toBlock: 100,
+      baseCurrencyDecimals: 8,
+      healthFactorThreshold: ethers.MaxUint256,
+      closeFactorHFThreshold: ethers.parseUnits("0.95", 18),
+    });
+  }
+
+  it("measures the debt left once all collateral is seized at its bonus", () => {
+    const [position] = scan("1400", [[risky, "1500"]]).positions;
+
+    // 1400 of WETH repays 1400 / 1.05 = 1333.33 dUSD
+    expect(positionShortfall(position, markets("1400"))).to.equal(ethers.parseUnits("1500", 8) - 133333333333n);
+    expect(positionShortfall(scan("2000", [[risky, "1500"]]).positions[0], markets("2000"))).to.equal(0n);
+  });
+
+  it("reports new liquidations, bad debt per reserve and treasury coverage", () => {
+    const debts: [string, string][] = [
+      [risky, "1500"],
+      [safe, "1000"],
+    ];
+    const holdings: TreasuryHolding[] = [
+      { asset: weth, treasury, aTokenBalance: ethers.parseUnits("0.1", 18), accruedToTreasury: 0n, underlyingBalance: 0n },
+      {
+        asset: dUSD,
+        treasury,
+        aTokenBalance: ethers.parseUnits("100", 18),
+        accruedToTreasury: ethers.parseUnits("50", 18),
+        underlyingBalance: 0n,
+      },
+    ];
+    const result = assessStressScenario(
+      { name: "eth-crash-30" },
+      new Map([[weth, -3000n]]),
+      ["rETH"],
+      scan("2000", debts),
+      scan("1400", debts),
+      holdings,
+    );
+
+    expect(result.shocks).to.deep.equal([
+      {
+        asset: weth,
+        symbol: "WETH",
+        shockBps: -3000n,
+        priceBefore: ethers.parseUnits("2000", 8),
+        priceAfter: ethers.parseUnits("1400", 8),
+      },
+    ]);
+    expect(result.skipped).to.deep.equal(["rETH"]);
+    expect([result.borrowers, result.liquidatableBefore, result.liquidatable]).to.deep.equal([2, 0, 1]);
+    expect(result.newlyLiquidatable.map((position) => position.user)).to.deep.equal([risky]);
+    expect(result.newlyLiquidatable[0].healthFactorBefore).to.equal(1066666666666666666n);
+    expect(result.insolvent.map((position) => position.user)).to.deep.equal([risky]);
+    expect(result.liquidatableDebtBase).to.equal(ethers.parseUnits("1500", 8));
+    expect(result.reserves).to.deep.equal([
+      {
+        asset: dUSD,
+        symbol: "dUSD",
+        accounts: 1,
+        badDebt: 166666666670000000000n,
+        badDebtBase: 16666666667n,
+        treasuryBalance: ethers.parseUnits("150", 18),
+        treasuryBalanceBase: ethers.parseUnits("150", 8),
+        covered: false,
+      },
+    ]);
+    // 150 dUSD plus 0.1 WETH at 1400 outweigh the 166.67 dUSD shortfall
+    expect(result.treasuryBase).to.equal(ethers.parseUnits("290", 8));
+    expect(result.treasuryCovers).to.equal(true);
+  });
+
+  it("validates the configured scenarios and rejects unusable shocks", () => {
+    expect(() => validateStressScenarios(dLendStressScenarios)).not.to.throw();
+    expect(() => validateStressScenarios([{ name: "wipeout", shocks: { WETH: -100 } }])).to.throw(/above -100/);
+    expect(() => validateStressScenarios([{ name: "empty", shocks: {} }])).to.throw(/no shocks/);
+    expect(() =>
+      validateStressScenarios([
+        { name: "twice", shocks: { WETH: -10 } },
+        { name: "twice", shocks: { WETH: -20 } },
+      ]),
+    ).to.throw(/unique/);
+  });
+
+  describe("on a local deployment", () => {
+    it("re-prices collateral through the aggregator and rolls the shock back", async () => {
+      const fixture = await dLendFixture();
+      const { deployer, user1 } = await hre.getNamedAccounts();
+      const user1Signer = await ethers.getSigner(user1);
+      const pool = fixture.contracts.pool;
+      const poolAddress = await pool.getAddress();
+      const { address: collateralAsset } = (await fixture.contracts.dataProvider.getAllReservesTokens()).find(
+        (token) => token.symbol === "sfrxUSD",
+      )!;
+      const dUsd = await ethers.getContractAt("TestERC20", fixture.dStables.dUSD);
+      const collateral = await ethers.getContractAt("TestERC20", collateralAsset);
+      const amount = ethers.parseUnits("100", 18);
+
+      await dUsd.approve(poolAddress, ethers.parseUnits("1000", 18));
+      await pool.supply(fixture.dStables.dUSD, ethers.parseUnits("1000", 18), deployer, 0);
+      await collateral.transfer(user1, amount);
+      await collateral.connect(user1Signer).approve(poolAddress, amount);
+      await pool.connect(user1Signer).supply(collateralAsset, amount, user1, 0);
+      await pool.connect(user1Signer).setUserUseReserveAsCollateral(collateralAsset, true);
+
+      const { availableBorrowsBase } = await pool.getUserAccountData(user1);
+      const dUsdPrice = await fixture.contracts.priceOracle.getAssetPrice(fixture.dStables.dUSD);
+      await pool
+        .connect(user1Signer)
+        .borrow(fixture.dStables.dUSD, (availableBorrowsBase * 10n ** 18n * 99n) / (dUsdPrice * 100n), 2, 0, user1);
+
+      const priceBefore = await fixture.contracts.priceOracle.getAssetPrice(collateralAsset);
+      const report = await runOracleStressTest(hre, [{ name: "sfrxUSD-halved", shocks: { sfrxUSD: -50, UNLISTED: -10 } }], {
+        tokenAddresses: { sfrxUSD: collateralAsset },
+        oracleManagers: [deployer],
+      });
+      const [scenario] = report.scenarios;
+
+      expect(scenario.shocks).to.have.length(1);
+      expect(scenario.shocks[0]).to.deep.include({ symbol: "sfrxUSD", shockBps: -5000n, priceBefore });
+      expect(scenario.shocks[0].priceAfter).to.be.closeTo(priceBefore / 2n, 1n);
+      expect(scenario.skipped).to.deep.equal(["UNLISTED"]);
+      expect(scenario.newlyLiquidatable.map((position) => position.user)).to.deep.equal([user1]);
+      expect(await fixture.contracts.priceOracle.getAssetPrice(collateralAsset)).to.equal(priceBefore);
+    });
+  });
+});
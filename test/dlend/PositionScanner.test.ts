@@ -0,0 +1,222 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+
+import { POOL_ADDRESSES_PROVIDER_ID } from "../../typescript/deploy-ids";
+import {
+  AccountData,
+  assessPosition,
+  buildPositionScanReport,
+  formatPositionsCsv,
+  ReserveMarket,
+  scanPositions,
+  UserReservePosition,
+} from "../../typescript/dlend/position-scanner";
+import { dLendFixture } from "./fixtures";
+
+describe("dLEND position scanner", () => {
+  const closeFactorHFThreshold = ethers.parseUnits("0.95", 18);
+  const weth: ReserveMarket = {
+    asset: ethers.Wallet.createRandom().address,
+    symbol: "WETH",
+    decimals: 18,
+    price: ethers.parseUnits("2000", 8),
+    liquidationThreshold: 8000n,
+    liquidationBonus: 10500n,
+    liquidationProtocolFee: 1000n,
+  };
+  const sfrxUSD: ReserveMarket = {
+    asset: ethers.Wallet.createRandom().address,
+    symbol: "sfrxUSD",
+    decimals: 18,
+    price: ethers.parseUnits("1", 8),
+    liquidationThreshold: 9000n,
+    liquidationBonus: 10200n,
+    liquidationProtocolFee: 0n,
+  };
+  const dUSD: ReserveMarket = {
+    asset: ethers.Wallet.createRandom().address,
+    symbol: "dUSD",
+    decimals: 18,
+    price: ethers.parseUnits("1", 8),
+    liquidationThreshold: 0n,
+    liquidationBonus: 0n,
+    liquidationProtocolFee: 0n,
+  };
+  const markets = [weth, sfrxUSD, dUSD];
+
+  /**
+   * Account data with a given health factor
+   *
+   * @param user - Account
+   * @param healthFactor - Health factor as a decimal string
+   * @param totalDebtBase - Debt in base currency units
+   */
+  function account(user: string, healthFactor: string, totalDebtBase = ethers.parseUnits("1900", 8)): AccountData {
+    return {
+      user,
+      totalCollateralBase: ethers.parseUnits("2000", 8),
+      totalDebtBase,
+      availableBorrowsBase: 0n,
+      currentLiquidationThreshold: 8000n,
+      ltv: 7500n,
+      healthFactor: ethers.parseUnits(healthFactor, 18),
+    };
+  }
+
+  /**
+   * A user with WETH collateral and dUSD debt
+   *
+   * @param supplied - WETH supplied
+   * @param debt - dUSD borrowed
+   */
+  function wethBorrower(supplied: string, debt: string): UserReservePosition[] {
+    return [
+      { asset: weth.asset, supplied: ethers.parseUnits(supplied, 18), stableDebt: 0n, variableDebt: 0n, usageAsCollateralEnabled: true },
+      { asset: dUSD.asset, supplied: 0n, stableDebt: 0n, variableDebt: ethers.parseUnits(debt, 18), usageAsCollateralEnabled: false },
+    ];
+  }
+
+  it("repays the whole debt below the close factor threshold and nets the protocol fee out of the bonus", () => {
+    const user = ethers.Wallet.createRandom().address;
+    const report = assessPosition(account(user, "0.842105263157894736"), wethBorrower("1", "1900"), markets, closeFactorHFThreshold);
+
+    expect(report.collateral.map((amount) => [amount.symbol, amount.valueBase])).to.deep.equal([["WETH", ethers.parseUnits("2000", 8)]]);
+    expect(report.debt.map((amount) => [amount.symbol, amount.valueBase])).to.deep.equal([["dUSD", ethers.parseUnits("1900", 8)]]);
+    expect(report.liquidatable).to.equal(true);
+    expect(report.liquidation).to.deep.include({
+      debtSymbol: "dUSD",
+      collateralSymbol: "WETH",
+      closeFactor: 10000n,
+      maxDebtToCover: ethers.parseUnits("1900", 18),
+      debtToCover: ethers.parseUnits("1900", 18),
+      // 0.95 WETH plus a 5% bonus, of which 10% goes to the treasury
+      collateralToLiquidator: ethers.parseUnits("0.99275", 18),
+      protocolFee: ethers.parseUnits("0.00475", 18),
+      liquidatorBonusBase: ethers.parseUnits("85.5", 8),
+    });
+  });
+
+  it("halves the repayable debt above the close factor threshold and caps it by the collateral balance", () => {
+    const user = ethers.Wallet.createRandom().address;
+    const halved = assessPosition(account(user, "0.97"), wethBorrower("1", "1640"), markets, closeFactorHFThreshold);
+
+    expect(halved.liquidation?.closeFactor).to.equal(5000n);
+    expect(halved.liquidation?.debtToCover).to.equal(ethers.parseUnits("820", 18));
+
+    const capped = assessPosition(account(user, "0.76"), wethBorrower("1", "2100"), markets, closeFactorHFThreshold);
+
+    expect(capped.liquidation?.maxDebtToCover).to.equal(ethers.parseUnits("2100", 18));
+    expect(capped.liquidation?.debtToCover).to.equal(1904761904761904761905n);
+    expect(capped.liquidation!.collateralToLiquidator + capped.liquidation!.protocolFee).to.equal(ethers.parseUnits("1", 18));
+  });
+
+  it("picks the collateral that pays the liquidator the most and skips healthy positions", () => {
+    const user = ethers.Wallet.createRandom().address;
+    const positions: UserReservePosition[] = [
+      ...wethBorrower("0.5", "1900"),
+      { asset: sfrxUSD.asset, supplied: ethers.parseUnits("1000", 18), stableDebt: 0n, variableDebt: 0n, usageAsCollateralEnabled: true },
+    ];
+
+    expect(assessPosition(account(user, "0.9"), positions, markets, closeFactorHFThreshold).liquidation?.collateralSymbol).to.equal("WETH");
+    expect(assessPosition(account(user, "1.04"), positions, markets, closeFactorHFThreshold)).to.deep.include({
+      liquidatable: false,
+      liquidation: undefined,
+    });
+  });
+
+  it("reports indebted accounts below the threshold lowest first with per-asset concentration", () => {
+    const [risky, watched, healthy, supplier] = Array.from({ length: 4 }, () => ethers.Wallet.createRandom().address);
+    const report = buildPositionScanReport(
+      [account(watched, "1.04"), account(healthy, "1.5"), account(risky, "0.9"), account(supplier, "1000000", 0n)],
+      new Map([
+        [risky, wethBorrower("1", "1900")],
+        [watched, wethBorrower("2", "3800")],
+      ]),
+      markets,
+      { fromBlock: 0, toBlock: 100, baseCurrencyDecimals: 8, healthFactorThreshold: ethers.parseUnits("1.1", 18), closeFactorHFThreshold },
+    );
+
+    expect(report.accountsScanned).to.equal(4);
+    expect(report.borrowers).to.equal(3);
+    expect(report.positions.map((position) => position.user)).to.deep.equal([risky, watched]);
+    expect(report.concentration.map((total) => [total.symbol, total.accounts, total.collateral, total.debtBase])).to.deep.equal([
+      ["dUSD", 2, 0n, ethers.parseUnits("5700", 8)],
+      ["WETH", 2, ethers.parseUnits("3", 18), 0n],
+    ]);
+
+    const csv = formatPositionsCsv(report).trim().split("\n");
+    expect(csv).to.have.length(3);
+    expect(csv[1]).to.equal(`${risky},0.9,2000.0,1900.0,8000,WETH:1.0,dUSD:1900.0,true,10000,dUSD,1900.0,1900.0,WETH,0.99275,85.5`);
+    expect(csv[2].endsWith(",false,,,,,,,")).to.equal(true);
+  });
+
+  describe("on a local deployment", () => {
+    it("finds seeded borrowers and sizes the liquidation the Pool executes", async () => {
+      const fixture = await dLendFixture();
+      const { deployer, user1, user2 } = await hre.getNamedAccounts();
+      const [deployerSigner, user1Signer, user2Signer] = await Promise.all(
+        [deployer, user1, user2].map((address) => ethers.getSigner(address)),
+      );
+      const pool = fixture.contracts.pool;
+      const poolAddress = await pool.getAddress();
+      const { address: collateralAsset } = (await fixture.contracts.dataProvider.getAllReservesTokens()).find(
+        (token) => token.symbol === "sfrxUSD",
+      )!;
+      const dUsd = await ethers.getContractAt("TestERC20", fixture.dStables.dUSD);
+      const collateral = await ethers.getContractAt("TestERC20", collateralAsset);
+      const amount = ethers.parseUnits("100", 18);
+
+      // Liquidity for borrowers
+      await dUsd.approve(poolAddress, ethers.parseUnits("1000", 18));
+      await pool.supply(fixture.dStables.dUSD, ethers.parseUnits("1000", 18), deployer, 0);
+
+      // user1 borrows close to its limit, user2 only supplies
+      for (const signer of [user1Signer, user2Signer]) {
+        await collateral.transfer(signer.address, amount);
+        await collateral.connect(signer).approve(poolAddress, amount);
+        await pool.connect(signer).supply(collateralAsset, amount, signer.address, 0);
+        await pool.connect(signer).setUserUseReserveAsCollateral(collateralAsset, true);
+      }
+
+      const { availableBorrowsBase } = await pool.getUserAccountData(user1);
+      const dUsdPrice = await fixture.contracts.priceOracle.getAssetPrice(fixture.dStables.dUSD);
+      await pool
+        .connect(user1Signer)
+        .borrow(fixture.dStables.dUSD, (availableBorrowsBase * 10n ** 18n * 99n) / (dUsdPrice * 100n), 2, 0, user1);
+
+      const watched = await scanPositions(hre, { healthFactorThreshold: ethers.parseUnits("1.5", 18) });
+
+      expect(watched.positions.map((position) => position.user)).to.deep.equal([user1]);
+      expect(watched.positions[0].collateral.map((entry) => [entry.symbol, entry.amount])).to.deep.equal([["sfrxUSD", amount]]);
+      expect(watched.positions[0].debt.map((entry) => entry.symbol)).to.deep.equal(["dUSD"]);
+      expect(watched.positions[0].liquidatable).to.equal(false);
+
+      // Halve the liquidation threshold to push user1 under water
+      const addressesProvider = await ethers.getContractAt(
+        "PoolAddressesProvider",
+        (await hre.deployments.get(POOL_ADDRESSES_PROVIDER_ID)).address,
+      );
+      const aclManager = await ethers.getContractAt("ACLManager", await addressesProvider.getACLManager());
+      await aclManager.addPoolAdmin(deployer);
+      const config = await fixture.contracts.dataProvider.getReserveConfigurationData(collateralAsset);
+      await fixture.contracts.poolConfigurator.configureReserveAsCollateral(
+        collateralAsset,
+        config.ltv / 2n,
+        config.liquidationThreshold / 2n,
+        config.liquidationBonus,
+      );
+
+      const [position] = (await scanPositions(hre, { healthFactorThreshold: ethers.parseUnits("1", 18) })).positions;
+      const liquidation = position.liquidation!;
+
+      expect(position.user).to.equal(user1);
+      expect(liquidation).to.deep.include({ debtSymbol: "dUSD", collateralSymbol: "sfrxUSD", closeFactor: 10000n });
+
+      const balanceBefore = await collateral.balanceOf(deployer);
+      await dUsd.connect(deployerSigner).approve(poolAddress, liquidation.debtToCover);
+      await pool.liquidationCall(collateralAsset, fixture.dStables.dUSD, user1, liquidation.debtToCover, false);
+
+      expect((await collateral.balanceOf(deployer)) - balanceBefore).to.equal(liquidation.collateralToLiquidator);
+    });
+  });
+});
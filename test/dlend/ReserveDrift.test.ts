@@ -0,0 +1,157 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+
+import { rateStrategyHighLiquidityVolatile, rateStrategyMediumLiquidityVolatile } from "../../config/dlend/interest-rate-strategies";
+import { IInterestRateStrategyParams, IReserveParams } from "../../config/types";
+import {
+  diffReserves,
+  ExpectedReserve,
+  RESERVE_DRIFT_ABI,
+  ReserveConfigFields,
+  ReserveState,
+  StrategyFields,
+} from "../../typescript/dlend/reserve-drift";
+
+describe("dLEND reserve drift", () => {
+  const iface = new ethers.Interface(RESERVE_DRIFT_ABI);
+  const poolConfigurator = ethers.Wallet.createRandom().address;
+  const asset = ethers.Wallet.createRandom().address;
+  const strategy = ethers.Wallet.createRandom().address;
+  const oldStrategy = ethers.Wallet.createRandom().address;
+
+  const params: IReserveParams = {
+    aTokenImpl: "ATokenImpl",
+    reserveDecimals: "18",
+    reserveFactor: "1000",
+    supplyCap: "500",
+    borrowCap: "0",
+    debtCeiling: "0",
+    borrowingEnabled: false,
+    stableBorrowRateEnabled: false,
+    borrowableIsolation: false,
+    flashLoanEnabled: true,
+    baseLTVAsCollateral: "8000",
+    liquidationThreshold: "8500",
+    liquidationBonus: "10500",
+    liquidationProtocolFee: "1000",
+    strategy: rateStrategyHighLiquidityVolatile,
+  };
+
+  const matching: ReserveConfigFields = {
+    baseLTVAsCollateral: 8000n,
+    liquidationThreshold: 8500n,
+    liquidationBonus: 10500n,
+    reserveFactor: 1000n,
+    borrowingEnabled: false,
+    stableBorrowRateEnabled: false,
+    borrowableIsolation: false,
+    flashLoanEnabled: true,
+    borrowCap: 0n,
+    supplyCap: 500n,
+    debtCeiling: 0n,
+    liquidationProtocolFee: 1000n,
+  };
+
+  /**
+   * Strategy parameters as read on chain
+   *
+   * @param config - Strategy config
+   */
+  function strategyFields(config: IInterestRateStrategyParams): StrategyFields {
+    const { name: _name, ...fields } = config;
+    return Object.fromEntries(Object.entries(fields).map(([field, value]) => [field, BigInt(value)])) as StrategyFields;
+  }
+
+  /**
+   * State of a listed WETH reserve
+   *
+   * @param overrides - State fields to replace
+   */
+  function wethState(overrides: Partial<ReserveState> = {}): ReserveState {
+    const reserve: ExpectedReserve = {
+      symbol: "WETH",
+      asset,
+      params,
+      poolConfigurator,
+      strategyId: "ReserveStrategy-rateStrategyHighLiquidityVolatile",
+      strategy,
+    };
+    return {
+      reserve,
+      listed: true,
+      decimals: 18,
+      actual: matching,
+      strategyAddress: strategy,
+      strategyParams: strategyFields(rateStrategyHighLiquidityVolatile),
+      ...overrides,
+    };
+  }
+
+  it("reports nothing when the reserve matches the config", () => {
+    const report = diffReserves([wethState()]);
+
+    expect(report.checked).to.equal(1);
+    expect(report.issues).to.be.empty;
+    expect(report.fixes).to.be.empty;
+  });
+
+  it("lists field differences in human units and batches one PoolConfigurator call per setter", () => {
+    const report = diffReserves([
+      wethState({
+        actual: { ...matching, baseLTVAsCollateral: 7500n, liquidationBonus: 10850n, supplyCap: 450n, flashLoanEnabled: false },
+      }),
+    ]);
+
+    expect(report.issues.map((issue) => [issue.field, issue.actual, issue.expected])).to.deep.equal([
+      ["baseLTVAsCollateral", "75%", "80%"],
+      ["liquidationBonus", "108.5%", "105%"],
+      ["flashLoanEnabled", "disabled", "enabled"],
+      ["supplyCap", "450 WETH", "500 WETH"],
+    ]);
+    expect(report.fixes.map((fix) => [fix.description, fix.transaction.to])).to.deep.equal([
+      ["configureReserveAsCollateral WETH", poolConfigurator],
+      ["setReserveFlashLoaning WETH", poolConfigurator],
+      ["setSupplyCap WETH", poolConfigurator],
+    ]);
+    expect(iface.decodeFunctionData("configureReserveAsCollateral", report.fixes[0].transaction.data).toArray()).to.deep.equal([
+      asset,
+      8000n,
+      8500n,
+      10500n,
+    ]);
+    expect(iface.decodeFunctionData("setSupplyCap", report.fixes[2].transaction.data).toArray()).to.deep.equal([asset, 500n]);
+  });
+
+  it("switches to the configured strategy deployment when the current one differs", () => {
+    const report = diffReserves([
+      wethState({
+        strategyAddress: oldStrategy,
+        strategyParams: strategyFields(rateStrategyMediumLiquidityVolatile),
+        deployedStrategyParams: strategyFields(rateStrategyHighLiquidityVolatile),
+      }),
+    ]);
+
+    expect(report.issues.map((issue) => issue.drift)).to.include("strategyMismatch");
+    expect(report.issues.find((issue) => issue.field === "optimalUsageRatio")?.expected).to.equal("50%");
+    expect(report.fixes).to.have.length(1);
+    expect(iface.decodeFunctionData("setReserveInterestRateStrategyAddress", report.fixes[0].transaction.data).toArray()).to.deep.equal([
+      asset,
+      strategy,
+    ]);
+  });
+
+  it("reports unlisted reserves and strategies that need a redeploy without fixing them", () => {
+    const report = diffReserves([
+      wethState({ listed: false, actual: undefined }),
+      wethState({
+        strategyAddress: oldStrategy,
+        strategyParams: strategyFields(rateStrategyMediumLiquidityVolatile),
+        deployedStrategyParams: strategyFields(rateStrategyMediumLiquidityVolatile),
+      }),
+    ]);
+
+    expect(report.issues[0].drift).to.equal("unlisted");
+    expect(report.issues.slice(1).every((issue) => issue.detail.includes("redeploy required"))).to.equal(true);
+    expect(report.fixes).to.be.empty;
+  });
+});
@@ -0,0 +1,110 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+
+import {
+  OFFBOARDING_CAP,
+  planReserveOffboarding,
+  RESERVE_OFFBOARDING_ABI,
+  ReserveOffboardingState,
+} from "../../typescript/dlend/reserve-offboarding";
+
+describe("dLEND reserve offboarding", () => {
+  const iface = new ethers.Interface(RESERVE_OFFBOARDING_ABI);
+  const asset = ethers.Wallet.createRandom().address;
+  const poolConfigurator = ethers.Wallet.createRandom().address;
+  const executor = ethers.Wallet.createRandom().address;
+  const user = ethers.Wallet.createRandom().address;
+
+  const listed: ReserveOffboardingState = {
+    asset,
+    symbol: "wstkscUSD",
+    decimals: 6,
+    pool: ethers.Wallet.createRandom().address,
+    poolConfigurator,
+    listed: true,
+    frozen: false,
+    ltv: 8000n,
+    liquidationThreshold: 8500n,
+    liquidationBonus: 10500n,
+    borrowCap: 0n,
+    supplyCap: 1_000_000n,
+    totalAToken: 2_500_000n,
+    totalStableDebt: 0n,
+    totalVariableDebt: 1_000_000n,
+    accruedToTreasury: 0n,
+    exposedUsers: [{ user, supplied: 2_500_000n, stableDebt: 0n, variableDebt: 1_000_000n }],
+    executor,
+    executorIsRiskAdmin: true,
+    executorIsPoolAdmin: false,
+  };
+
+  it("starts with freezing and blocks later phases until earlier ones are applied", () => {
+    const plan = planReserveOffboarding(listed);
+
+    expect(plan.next).to.equal("freeze");
+    expect(plan.phases.map((status) => [status.phase, status.done, status.blockers.length > 0])).to.deep.equal([
+      ["freeze", false, false],
+      ["zeroLtv", false, true],
+      ["dropCaps", false, true],
+      ["drop", false, true],
+    ]);
+    expect(plan.phases[0].calls.map((call) => [call.description, call.transaction.to])).to.deep.equal([
+      ["setReserveFreeze wstkscUSD", poolConfigurator],
+    ]);
+    expect(plan.phases[1].blockers).to.deep.equal(["freeze not applied yet"]);
+  });
+
+  it("keeps the liquidation threshold when zeroing the LTV and lowers both caps", () => {
+    const plan = planReserveOffboarding({ ...listed, frozen: true });
+    const [zeroLtv] = plan.phases[1].calls;
+
+    expect(plan.next).to.equal("zeroLtv");
+    expect(iface.decodeFunctionData("configureReserveAsCollateral", zeroLtv.transaction.data).toArray()).to.deep.equal([
+      asset,
+      0n,
+      8500n,
+      10500n,
+    ]);
+    expect(plan.phases[2].calls.map((call) => call.description)).to.deep.equal(["setSupplyCap wstkscUSD", "setBorrowCap wstkscUSD"]);
+  });
+
+  it("reports outstanding supply, debt, exposed users and the missing pool admin role before dropReserve", () => {
+    const plan = planReserveOffboarding({
+      ...listed,
+      frozen: true,
+      ltv: 0n,
+      supplyCap: OFFBOARDING_CAP,
+      borrowCap: OFFBOARDING_CAP,
+      accruedToTreasury: 10n,
+    });
+    const drop = plan.phases[3];
+
+    expect(plan.next).to.equal("drop");
+    expect(drop.blockers).to.deep.equal([
+      "aToken supply is 2.5 wstkscUSD",
+      "variable debt is 1.0 wstkscUSD",
+      "0.00001 wstkscUSD (scaled) accrued to treasury: call Pool.mintToTreasury and redeem the treasury aTokens",
+      `1 user(s) still exposed: ${user}`,
+      `${executor} is not a pool admin (dropReserve is onlyPoolAdmin)`,
+    ]);
+  });
+
+  it("allows dropReserve once every balance is zero and treats an unlisted reserve as done", () => {
+    const drained: ReserveOffboardingState = {
+      ...listed,
+      frozen: true,
+      ltv: 0n,
+      supplyCap: OFFBOARDING_CAP,
+      borrowCap: OFFBOARDING_CAP,
+      totalAToken: 0n,
+      totalVariableDebt: 0n,
+      exposedUsers: [],
+      executorIsPoolAdmin: true,
+    };
+    const plan = planReserveOffboarding(drained);
+
+    expect(plan.phases[3].blockers).to.be.empty;
+    expect(iface.decodeFunctionData("dropReserve", plan.phases[3].calls[0].transaction.data).toArray()).to.deep.equal([asset]);
+    expect(planReserveOffboarding({ ...drained, listed: false }).next).to.equal(undefined);
+  });
+});
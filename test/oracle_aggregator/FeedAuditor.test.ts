@@ -0,0 +1,84 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+
+import { OracleAggregatorConfig } from "../../config/types";
+import {
+  auditFeeds,
+  collectConfiguredFeeds,
+  formatFeedAuditCsv,
+  formatFeedAuditMarkdown,
+} from "../../typescript/oracle_aggregator/feed-audit";
+
+describe("Oracle feed auditor", () => {
+  it("reads Chainlink, API3, Redstone and ERC4626 feeds through one report", async () => {
+    const [deployer] = await ethers.getSigners();
+    const usdc = await ethers.deployContract("TestERC20", ["USD Coin", "USDC", 6], deployer);
+    const weth = await ethers.deployContract("TestERC20", ["Wrapped Ether", "WETH", 18], deployer);
+    const vault = await ethers.deployContract("MockERC4626Vault", ["Savings USDC", "sUSDC", usdc.target, 18, 1_050_000n], deployer);
+
+    const redstoneFeed = await ethers.deployContract("MockChainlinkAggregatorV3", [8, "USDC / USD"], deployer);
+    const wideFeed = await ethers.deployContract("MockChainlinkAggregatorV3", [18, "USDC / USD (18)"], deployer);
+    const api3Proxy = await ethers.deployContract("MockApi3Proxy", [], deployer);
+
+    const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+    await redstoneFeed.setMockWithTimestamp(100_000_000n, now);
+    await wideFeed.setMockWithTimestamp(10n ** 18n, now);
+    await api3Proxy.setValue(3_000n * 10n ** 18n, now - 26 * 3600);
+
+    const config: OracleAggregatorConfig = {
+      priceDecimals: 8,
+      hardDStablePeg: 10n ** 8n,
+      baseCurrency: ethers.ZeroAddress,
+      api3OracleAssets: {
+        plainApi3OracleWrappers: { [weth.target as string]: api3Proxy.target as string },
+        api3OracleWrappersWithThresholding: {},
+        compositeApi3OracleWrappersWithThresholding: {},
+      },
+      redstoneOracleAssets: {
+        plainRedstoneOracleWrappers: { [usdc.target as string]: redstoneFeed.target as string, [ethers.ZeroAddress]: ethers.ZeroAddress },
+        redstoneOracleWrappersWithThresholding: {},
+        compositeRedstoneOracleWrappersWithThresholding: {},
+      },
+      chainlinkErc4626OracleAssets: {
+        [vault.target as string]: { vault: vault.target as string, feed: wideFeed.target as string },
+      },
+    };
+
+    const sources = collectConfiguredFeeds("USD", config);
+    expect(sources.map((source) => [source.provider, source.role])).to.deep.equal([
+      ["api3", "feed"],
+      ["redstone", "feed"],
+      ["chainlink", "primary"],
+      ["erc4626", "vault"],
+    ]);
+
+    const entries = await auditFeeds(hre, sources, { now });
+    const summary = entries.map((entry) => [
+      entry.assetSymbol,
+      entry.pairDescription,
+      entry.currentPrice,
+      entry.scalingNeeded,
+      entry.scalingFactor,
+      entry.isStale,
+    ]);
+    expect(summary).to.deep.equal([
+      ["WETH", "WETH/USD", "3000.0", "none", 1, true],
+      ["USDC", "USDC/USD", "1.0", "none", 1, false],
+      ["sUSDC", "sUSDC/intermediary (Primary)", "1.0", "downscale", 1e10, false],
+      ["sUSDC", "sUSDC/underlying (Vault Rate)", "1.05", "none", 1, false],
+    ]);
+    expect(entries[0].description).to.equal("Unknown");
+    expect(entries[3].description).to.equal("sUSDC / USDC exchange rate");
+
+    const relaxed = await auditFeeds(hre, sources.slice(0, 1), { now, staleAfterSeconds: { api3: 30 * 3600 } });
+    expect(relaxed[0].isStale).to.equal(false);
+
+    const unreadable = await auditFeeds(hre, [{ ...sources[1], address: usdc.target as string }], { now });
+    expect([unreadable[0].isStale, unreadable[0].currentPrice, Boolean(unreadable[0].error)]).to.deep.equal([true, "0.0", true]);
+
+    const csv = formatFeedAuditCsv(entries).trim().split("\n");
+    expect(csv).to.have.length(5);
+    expect(csv[0].split(",").slice(0, 3)).to.deep.equal(["baseCurrency", "provider", "feedType"]);
+    expect(formatFeedAuditMarkdown(entries)).to.contain("4 feed(s): 1 stale, 1 need rescaling.");
+  });
+});
@@ -0,0 +1,94 @@
+import { expect } from "chai";
+import hre, { deployments, ethers } from "hardhat";
+
+import { Config, OracleAggregatorConfig } from "../../config/types";
+import { USD_ORACLE_AGGREGATOR_ID, USD_REDSTONE_ORACLE_WRAPPER_ID } from "../../typescript/deploy-ids";
+import { buildOracleDependencyGraph, findOracleDependents, formatOracleGraphDot } from "../../typescript/oracle_aggregator/graph";
+
+const BASE_UNIT = 10n ** 8n;
+
+describe("Oracle dependency graph", () => {
+  it("links assets to their wrapper, feeds and converter layers and answers reverse queries", async () => {
+    const [deployer] = await ethers.getSigners();
+    const convertedAsset = ethers.Wallet.createRandom().address;
+    const directAsset = ethers.Wallet.createRandom().address;
+    const unroutedAsset = ethers.Wallet.createRandom().address;
+
+    const sourceFeed = await ethers.deployContract("MockChainlinkAggregatorV3", [18, "SOURCE / USD"], deployer);
+    const directFeed = await ethers.deployContract("MockChainlinkAggregatorV3", [8, "DIRECT / USD"], deployer);
+    const converter = await ethers.deployContract("ChainlinkDecimalConverter", [sourceFeed.target, 8], deployer);
+
+    const aggregator = await ethers.deployContract("OracleAggregatorV1_1", [ethers.ZeroAddress, BASE_UNIT], deployer);
+    const wrapper = await ethers.deployContract("RedstoneChainlinkWrapperV1_1", [ethers.ZeroAddress, BASE_UNIT], deployer);
+    await deployments.save(USD_ORACLE_AGGREGATOR_ID, {
+      address: await aggregator.getAddress(),
+      abi: (await hre.artifacts.readArtifact("OracleAggregatorV1_1")).abi,
+    });
+    await deployments.save(USD_REDSTONE_ORACLE_WRAPPER_ID, {
+      address: await wrapper.getAddress(),
+      abi: (await hre.artifacts.readArtifact("RedstoneChainlinkWrapperV1_1")).abi,
+    });
+
+    await wrapper.setFeed(convertedAsset, converter.target);
+    await wrapper.setFeed(directAsset, directFeed.target);
+    await aggregator.setOracle(convertedAsset, wrapper.target);
+    await aggregator.setOracle(directAsset, wrapper.target);
+
+    const config: OracleAggregatorConfig = {
+      priceDecimals: 8,
+      hardDStablePeg: BASE_UNIT,
+      baseCurrency: ethers.ZeroAddress,
+      api3OracleAssets: {
+        plainApi3OracleWrappers: {},
+        api3OracleWrappersWithThresholding: {},
+        compositeApi3OracleWrappersWithThresholding: {},
+      },
+      redstoneOracleAssets: {
+        plainRedstoneOracleWrappers: {
+          [convertedAsset]: converter.target as string,
+          [directAsset]: directFeed.target as string,
+          [unroutedAsset]: directFeed.target as string,
+        },
+        redstoneOracleWrappersWithThresholding: {},
+        compositeRedstoneOracleWrappersWithThresholding: {},
+      },
+    };
+
+    const graphConfig: Pick<Config, "oracleAggregators" | "tokenAddresses"> = {
+      oracleAggregators: { USD: config },
+      tokenAddresses: { WETH: "", dUSD: "", dETH: "", CONVERTED: convertedAsset },
+    };
+    const graph = await buildOracleDependencyGraph(hre, graphConfig, { includeReserves: false });
+    const assetId = `asset:USD:${convertedAsset.toLowerCase()}`;
+    const nodeIds = (nodes: { id: string }[]): string[] => nodes.map((node) => node.id).sort();
+
+    expect(graph.edges).to.deep.include.members([
+      { from: assetId, to: (wrapper.target as string).toLowerCase(), relation: "assetOracles" },
+      { from: assetId, to: (converter.target as string).toLowerCase(), relation: "feed" },
+      { from: (converter.target as string).toLowerCase(), to: (sourceFeed.target as string).toLowerCase(), relation: "sourceFeed" },
+    ]);
+    expect(graph.nodes.find((node) => node.id === assetId)?.label).to.equal("CONVERTED");
+    expect(graph.nodes.find((node) => node.id === (sourceFeed.target as string).toLowerCase())?.label).to.equal("SOURCE / USD");
+    expect(graph.nodes.find((node) => node.id === `asset:USD:${unroutedAsset.toLowerCase()}`)?.notes).to.deep.equal([
+      "Not routed on the USD aggregator",
+    ]);
+
+    const sourceImpact = findOracleDependents(graph, sourceFeed.target as string);
+    expect(sourceImpact.found).to.equal(true);
+    expect(nodeIds(sourceImpact.assets)).to.deep.equal([assetId]);
+    expect(sourceImpact.paths[assetId]).to.deep.equal([
+      assetId,
+      (converter.target as string).toLowerCase(),
+      (sourceFeed.target as string).toLowerCase(),
+    ]);
+
+    expect(nodeIds(findOracleDependents(graph, wrapper.target as string).assets)).to.deep.equal(
+      [assetId, `asset:USD:${directAsset.toLowerCase()}`].sort(),
+    );
+    expect(findOracleDependents(graph, ethers.Wallet.createRandom().address).found).to.equal(false);
+
+    const dot = formatOracleGraphDot(graph);
+    expect(dot).to.contain('subgraph "cluster_USD"');
+    expect(dot).to.contain(`"${assetId}" -> "${(converter.target as string).toLowerCase()}" [label="feed"];`);
+  });
+});
@@ -0,0 +1,121 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+
+import {
+  diffOracleRoutes,
+  ExpectedOracleRoute,
+  ORACLE_DRIFT_ABI,
+  OracleRouteFields,
+  OracleRouteState,
+} from "../../typescript/oracle_aggregator/drift";
+
+describe("Oracle drift", () => {
+  const iface = new ethers.Interface(ORACLE_DRIFT_ABI);
+  const aggregator = ethers.Wallet.createRandom().address;
+  const wrapper = ethers.Wallet.createRandom().address;
+  const otherWrapper = ethers.Wallet.createRandom().address;
+  const asset = ethers.Wallet.createRandom().address;
+  const feed = ethers.Wallet.createRandom().address;
+  const staleFeed = ethers.Wallet.createRandom().address;
+
+  /**
+   * Route state for one asset served by a thresholded Redstone wrapper
+   *
+   * @param routedOracle - Current `assetOracles(asset)`
+   * @param actual - Current wrapper storage
+   */
+  function redstoneState(routedOracle: string, actual: OracleRouteFields): OracleRouteState {
+    const route: ExpectedOracleRoute = {
+      aggregatorKey: "USD",
+      aggregatorId: "USD_OracleAggregator",
+      aggregator,
+      asset,
+      kind: "redstoneThresholding",
+      wrapperId: "USD_RedstoneChainlinkWrapperWithThresholding",
+      wrapper,
+      expected: { feed, lowerThreshold: 99_000_000n, fixedPrice: 100_000_000n },
+    };
+    return { route, routedOracle, actual };
+  }
+
+  it("reports nothing when routing and wrapper storage match the config", () => {
+    const report = diffOracleRoutes([
+      redstoneState(wrapper, { feed: feed.toLowerCase(), lowerThreshold: 99_000_000n, fixedPrice: 100_000_000n }),
+    ]);
+
+    expect(report.issues).to.be.empty;
+    expect(report.fixes).to.be.empty;
+  });
+
+  it("reports a wrong wrapper, feed and threshold and fixes storage before routing", () => {
+    const report = diffOracleRoutes([redstoneState(otherWrapper, { feed: staleFeed, lowerThreshold: 0n, fixedPrice: 100_000_000n })]);
+
+    expect(report.issues.map((issue) => [issue.drift, issue.field])).to.deep.equal([
+      ["wrongWrapper", undefined],
+      ["feedMismatch", "feed"],
+      ["thresholdMismatch", "lowerThreshold"],
+    ]);
+    expect(report.fixes.map((fix) => [fix.description, fix.transaction.to])).to.deep.equal([
+      [`setFeed ${asset}`, wrapper],
+      [`setThresholdConfig ${asset}`, wrapper],
+      [`setOracle ${asset}`, aggregator],
+    ]);
+    expect(iface.decodeFunctionData("setOracle", report.fixes[2].transaction.data)).to.deep.equal([asset, wrapper]);
+  });
+
+  it("reports an asset missing from the aggregator", () => {
+    const report = diffOracleRoutes([redstoneState(ethers.ZeroAddress, { feed, lowerThreshold: 99_000_000n, fixedPrice: 100_000_000n })]);
+
+    expect(report.issues.map((issue) => issue.drift)).to.deep.equal(["missingRoute"]);
+    expect(report.fixes.map((fix) => fix.description)).to.deep.equal([`setOracle ${asset}`]);
+  });
+
+  it("re-adds a composite feed whose sources changed and only updates thresholds otherwise", () => {
+    const expected = {
+      proxy1: feed,
+      proxy2: feed,
+      lowerThresholdInBase1: 1n,
+      fixedPriceInBase1: 2n,
+      lowerThresholdInBase2: 3n,
+      fixedPriceInBase2: 4n,
+    };
+    const route: ExpectedOracleRoute = {
+      aggregatorKey: "ETH",
+      aggregatorId: "ETH_OracleAggregator",
+      aggregator,
+      asset,
+      kind: "api3Composite",
+      wrapperId: "ETH_API3CompositeWrapperWithThresholding",
+      wrapper,
+      expected,
+    };
+
+    const repointed = diffOracleRoutes([{ route, routedOracle: wrapper, actual: { ...expected, proxy2: staleFeed } }]);
+    const retuned = diffOracleRoutes([{ route, routedOracle: wrapper, actual: { ...expected, fixedPriceInBase2: 5n } }]);
+
+    expect(repointed.fixes.map((fix) => fix.description)).to.deep.equal([`removeCompositeFeed ${asset}`, `addCompositeFeed ${asset}`]);
+    expect(retuned.fixes.map((fix) => fix.description)).to.deep.equal([`updateCompositeFeed ${asset}`]);
+  });
+
+  it("reports undeployed and immutable wrappers without corrective calls", () => {
+    const route: ExpectedOracleRoute = {
+      aggregatorKey: "ETH",
+      aggregatorId: "ETH_OracleAggregator",
+      aggregator,
+      asset,
+      kind: "frxEthFundamental",
+      wrapperId: "ETH_FrxEthFundamentalOracleWrapper",
+      wrapper,
+      expected: { asset, etherRouter: feed, redemptionQueue: feed },
+    };
+
+    const report = diffOracleRoutes([
+      { route: { ...route, wrapper: undefined } },
+      { route, routedOracle: wrapper, actual: { asset, etherRouter: staleFeed, redemptionQueue: feed } },
+    ]);
+
+    expect(report.issues.map((issue) => issue.drift)).to.deep.equal(["missingWrapper", "feedMismatch"]);
+    expect(report.issues[1].detail).to.contain("redeploy required");
+    expect(report.fixes).to.be.empty;
+  });
+});
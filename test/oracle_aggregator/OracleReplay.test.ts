@@ -0,0 +1,56 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+
+import { buildReplayBlocks, formatOracleReplayCsv, replayOraclePrices } from "../../.shared/lib/oracles/prices/replay";
+
+const BASE_UNIT = 10n ** 8n;
+
+describe("Oracle price replay", () => {
+  it("samples every N blocks and always includes the last block", () => {
+    expect(buildReplayBlocks(100, 350, 100)).to.deep.equal([100, 200, 300, 350]);
+    expect(buildReplayBlocks(5, 5, 10)).to.deep.equal([5]);
+    expect(() => buildReplayBlocks(10, 5, 1)).to.throw("Replay range is empty");
+  });
+
+  it("reports threshold activations, stale windows and the largest deviation from the raw feed", async () => {
+    const [deployer] = await ethers.getSigners();
+    const asset = ethers.Wallet.createRandom().address;
+
+    const feed = await ethers.deployContract("MockChainlinkAggregatorV3", [8, "ASSET / USD"], deployer);
+    const wrapper = await ethers.deployContract("RedstoneChainlinkWrapperWithThresholdingV1_1", [ethers.ZeroAddress, BASE_UNIT], deployer);
+    const aggregator = await ethers.deployContract("OracleAggregatorV1_1", [ethers.ZeroAddress, BASE_UNIT], deployer);
+
+    await feed.setMock(98_000_000n);
+    await wrapper.setFeed(asset, await feed.getAddress());
+    await wrapper.setThresholdConfig(asset, 99_000_000n, BASE_UNIT);
+    await aggregator.setOracle(asset, await wrapper.getAddress());
+
+    // Advance the feed one round per sampled block
+    const blocks: number[] = [await ethers.provider.getBlockNumber()];
+    await feed.setMock(99_500_000n);
+    blocks.push(await ethers.provider.getBlockNumber());
+    await feed.setMock(99_800_000n);
+    blocks.push(await ethers.provider.getBlockNumber());
+    await feed.setMockWithTimestamp(97_000_000n, (await time.latest()) - 2 * 24 * 60 * 60);
+    blocks.push(await ethers.provider.getBlockNumber());
+    await feed.setMock(97_000_000n);
+    blocks.push(await ethers.provider.getBlockNumber());
+
+    const [report] = await replayOraclePrices(
+      hre,
+      [{ key: "USD", address: await aggregator.getAddress(), assets: [{ address: asset, symbol: "ASSET" }] }],
+      blocks,
+    );
+
+    expect(report.samples.map((sample) => sample.aggregatorPrice)).to.deep.equal(["0.98", "1.0", "1.0", "0.97", "0.97"]);
+    expect(report.samples.map((sample) => sample.feedPrice)).to.deep.equal(["0.98", "0.995", "0.998", "0.97", "0.97"]);
+    expect(report.thresholdWindows).to.deep.equal([{ fromBlock: blocks[1], toBlock: blocks[2], samples: 2 }]);
+    expect(report.staleWindows).to.deep.equal([{ fromBlock: blocks[3], toBlock: blocks[3], samples: 1 }]);
+    expect(report.maxDeviation).to.deep.equal({ block: blocks[1], bps: 50.25 });
+
+    const csv = formatOracleReplayCsv({ network: "hardhat", fromBlock: blocks[0], toBlock: blocks[4], step: 1, assets: [report] });
+    expect(csv.split("\n")).to.have.length(blocks.length + 1);
+    expect(csv.split("\n")[2]).to.contain(`USD,${asset},ASSET,${blocks[1]}`);
+  });
+});
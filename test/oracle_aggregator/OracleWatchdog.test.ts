@@ -0,0 +1,98 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import fs from "fs";
+import hre, { ethers } from "hardhat";
+import os from "os";
+import path from "path";
+
+import { createAlertSink, OracleAlertSink } from "../../.shared/lib/oracles/prices/alert-sinks";
+import type { OracleWatchAlert } from "../../.shared/lib/oracles/prices/types";
+import { OracleWatchdog } from "../../.shared/lib/oracles/prices/watchdog";
+
+const BASE_UNIT = 10n ** 8n;
+
+describe("Oracle watchdog", () => {
+  it("fires and resolves jump, reference and heartbeat alerts as the feed moves", async () => {
+    const [deployer] = await ethers.getSigners();
+    const asset = ethers.Wallet.createRandom().address;
+
+    const feed = await ethers.deployContract("MockChainlinkAggregatorV3", [8, "ASSET / USD"], deployer);
+    const reference = await ethers.deployContract("MockApi3Proxy", [], deployer);
+    const wrapper = await ethers.deployContract("RedstoneChainlinkWrapperV1_1", [ethers.ZeroAddress, BASE_UNIT], deployer);
+    const aggregator = await ethers.deployContract("OracleAggregatorV1_1", [ethers.ZeroAddress, BASE_UNIT], deployer);
+
+    await feed.setMock(BASE_UNIT);
+    await reference.setValue(10n ** 18n, await time.latest());
+    await wrapper.setFeed(asset, await feed.getAddress());
+    await aggregator.setOracle(asset, await wrapper.getAddress());
+
+    const sent: OracleWatchAlert[] = [];
+    const sink: OracleAlertSink = { name: "memory", send: async (alert) => void sent.push(alert) };
+    const watchdog = new OracleWatchdog(
+      hre,
+      [{ key: "USD", address: await aggregator.getAddress(), assets: [{ address: asset, symbol: "ASSET" }] }],
+      { jumpPct: 5, referencePct: 2, references: { [asset]: await reference.getAddress() } },
+      [sink],
+    );
+
+    expect((await watchdog.poll()).active).to.be.empty;
+
+    await feed.setMock(110_000_000n);
+    const jumped = await watchdog.poll();
+    expect(jumped.fired.map((alert) => [alert.type, alert.severity, alert.value])).to.deep.equal([
+      ["priceJump", "warning", 1000],
+      ["referenceDeviation", "warning", 1000],
+    ]);
+
+    await reference.setValue(11n * 10n ** 17n, await time.latest());
+    const settled = await watchdog.poll();
+    expect(settled.resolved.map((alert) => [alert.type, alert.status])).to.deep.equal([
+      ["priceJump", "resolved"],
+      ["referenceDeviation", "resolved"],
+    ]);
+    expect(settled.active).to.be.empty;
+
+    await time.increase(24 * 60 * 60 + 60);
+    await ethers.provider.send("evm_mine", []);
+    const overdue = await watchdog.poll();
+    expect(overdue.fired.map((alert) => [alert.type, alert.severity])).to.deep.equal([["heartbeat", "warning"]]);
+    expect(watchdog.hasCriticalAlerts()).to.equal(false);
+
+    await time.increase(30 * 60);
+    await ethers.provider.send("evm_mine", []);
+    const stale = await watchdog.poll();
+    expect(stale.fired.map((alert) => [alert.type, alert.severity])).to.deep.equal([
+      ["stale", "critical"],
+      ["heartbeat", "critical"],
+    ]);
+    expect(stale.resolved.map((alert) => [alert.type, alert.severity])).to.deep.equal([["heartbeat", "warning"]]);
+    expect(watchdog.hasCriticalAlerts()).to.equal(true);
+
+    // Only transitions reach the sinks
+    expect(sent).to.have.length(2 + 2 + 1 + 3);
+  });
+
+  it("writes JSON lines to a file sink and rejects unknown sink specs", async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "oracle-watchdog-")), "alerts.jsonl");
+    const sink = createAlertSink(`file:${file}`);
+    const alert: OracleWatchAlert = {
+      type: "stale",
+      severity: "critical",
+      status: "firing",
+      aggregator: "USD",
+      asset: ethers.ZeroAddress,
+      message: "Aggregator reports isAlive=false",
+      block: 1,
+      timestamp: 1,
+    };
+
+    await sink.send(alert);
+    await sink.send({ ...alert, status: "resolved" });
+
+    const lines = fs.readFileSync(file, "utf8").trim().split("\n");
+    expect(lines.map((line) => JSON.parse(line).status)).to.deep.equal(["firing", "resolved"]);
+    expect(createAlertSink("webhook:https://alerts.example.com/hook").name).to.equal("webhook:alerts.example.com");
+    expect(() => createAlertSink("pager")).to.throw('Unknown alert sink "pager"');
+    fs.rmSync(path.dirname(file), { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,129 @@
+import { expect } from "chai";
+import hre, { deployments, ethers } from "hardhat";
+
+import { OracleAggregatorConfig } from "../../config/types";
+import {
+  USD_ORACLE_AGGREGATOR_ID,
+  USD_REDSTONE_ORACLE_WRAPPER_ID,
+  USD_REDSTONE_WRAPPER_WITH_THRESHOLDING_ID,
+} from "../../typescript/deploy-ids";
+import { GovernanceExecutor } from "../../typescript/hardhat/governance";
+import {
+  deployPlannedWrappers,
+  executeOracleCallSteps,
+  OracleWrapperPlan,
+  PLANNED_WRAPPER_KINDS,
+  planOracleWrappers,
+} from "../../typescript/oracle_aggregator/planner";
+
+const BASE_UNIT = 10n ** 8n;
+
+describe("Oracle wrapper planner", () => {
+  it("deploys, configures and routes the wrappers of a config and reports each step's status", async () => {
+    const [deployer] = await ethers.getSigners();
+    const plainAsset = ethers.Wallet.createRandom().address;
+    const thresholdAsset = ethers.Wallet.createRandom().address;
+
+    const plainFeed = await ethers.deployContract("MockChainlinkAggregatorV3", [8, "PLAIN / USD"], deployer);
+    const thresholdFeed = await ethers.deployContract("MockChainlinkAggregatorV3", [8, "PEGGED / USD"], deployer);
+    await plainFeed.setMock(2n * BASE_UNIT);
+    await thresholdFeed.setMock(BASE_UNIT);
+
+    const aggregator = await ethers.deployContract("OracleAggregatorV1_1", [ethers.ZeroAddress, BASE_UNIT], deployer);
+    const { abi } = await hre.artifacts.readArtifact("OracleAggregatorV1_1");
+    await deployments.save(USD_ORACLE_AGGREGATOR_ID, { address: await aggregator.getAddress(), abi });
+
+    const config = (lowerThreshold: bigint): OracleAggregatorConfig => ({
+      priceDecimals: 8,
+      hardDStablePeg: BASE_UNIT,
+      baseCurrency: ethers.ZeroAddress,
+      api3OracleAssets: {
+        plainApi3OracleWrappers: {},
+        api3OracleWrappersWithThresholding: {},
+        compositeApi3OracleWrappersWithThresholding: {},
+      },
+      redstoneOracleAssets: {
+        plainRedstoneOracleWrappers: { [plainAsset]: plainFeed.target as string },
+        redstoneOracleWrappersWithThresholding: {
+          [thresholdAsset]: { feed: thresholdFeed.target as string, lowerThreshold, fixedPrice: BASE_UNIT },
+        },
+        compositeRedstoneOracleWrappersWithThresholding: {},
+      },
+    });
+    const summary = (plan: OracleWrapperPlan): string[][] =>
+      [...plan.configuration, ...plan.routing].map((step) => [step.description.split(" ")[0], step.status, step.target ? "target" : "-"]);
+
+    const fresh = await planOracleWrappers(hre, "USD", config(99_000_000n), { kinds: PLANNED_WRAPPER_KINDS });
+    expect(fresh.deployments.map((step) => [step.deploymentId, step.status])).to.deep.equal([
+      [USD_REDSTONE_ORACLE_WRAPPER_ID, "pending"],
+      [USD_REDSTONE_WRAPPER_WITH_THRESHOLDING_ID, "pending"],
+    ]);
+    expect(summary(fresh)).to.deep.equal([
+      ["setFeed", "pending", "-"],
+      ["setFeed", "pending", "-"],
+      ["setThresholdConfig", "pending", "-"],
+      ["setOracle", "blocked", "target"],
+      ["setOracle", "blocked", "target"],
+    ]);
+
+    expect(await deployPlannedWrappers(hre, fresh, deployer.address)).to.have.length(2);
+
+    const deployed = await planOracleWrappers(hre, "USD", config(99_000_000n));
+    expect(deployed.deployments.every((step) => step.status === "done")).to.equal(true);
+
+    const executor = new GovernanceExecutor(hre, deployer);
+    const configured = await executeOracleCallSteps(executor, deployer, deployed.configuration);
+    const routed = await executeOracleCallSteps(executor, deployer, (await planOracleWrappers(hre, "USD", config(99_000_000n))).routing);
+    expect([configured.executed.length, routed.executed.length, configured.queued.length, routed.blocked.length]).to.deep.equal([
+      3, 2, 0, 0,
+    ]);
+
+    const applied = await planOracleWrappers(hre, "USD", config(99_000_000n));
+    expect(summary(applied).every(([, status]) => status === "done")).to.equal(true);
+    expect(await aggregator.getAssetPrice(plainAsset)).to.equal(2n * BASE_UNIT);
+    expect(await aggregator.getAssetPrice(thresholdAsset)).to.equal(BASE_UNIT);
+
+    const retuned = await planOracleWrappers(hre, "USD", config(98_000_000n));
+    expect(summary(retuned).filter(([, status]) => status === "pending")).to.deep.equal([["setThresholdConfig", "pending", "target"]]);
+  });
+
+  it("blocks routing while an asset's wrapper configuration is queued for governance", async () => {
+    const [deployer, outsider] = await ethers.getSigners();
+    const asset = ethers.Wallet.createRandom().address;
+    const feed = await ethers.deployContract("MockChainlinkAggregatorV3", [8, "QUEUED / USD"], deployer);
+    await feed.setMock(3n * BASE_UNIT);
+
+    const aggregator = await ethers.deployContract("OracleAggregatorV1_1", [ethers.ZeroAddress, BASE_UNIT], deployer);
+    const { abi } = await hre.artifacts.readArtifact("OracleAggregatorV1_1");
+    await deployments.save(USD_ORACLE_AGGREGATOR_ID, { address: await aggregator.getAddress(), abi });
+
+    const config: OracleAggregatorConfig = {
+      priceDecimals: 8,
+      hardDStablePeg: BASE_UNIT,
+      baseCurrency: ethers.ZeroAddress,
+      api3OracleAssets: {
+        plainApi3OracleWrappers: {},
+        api3OracleWrappersWithThresholding: {},
+        compositeApi3OracleWrappersWithThresholding: {},
+      },
+      redstoneOracleAssets: {
+        plainRedstoneOracleWrappers: { [asset]: feed.target as string },
+        redstoneOracleWrappersWithThresholding: {},
+        compositeRedstoneOracleWrappersWithThresholding: {},
+      },
+    };
+    await deployPlannedWrappers(hre, await planOracleWrappers(hre, "USD", config, { kinds: PLANNED_WRAPPER_KINDS }), deployer.address);
+
+    // The outsider lacks the wrapper's manager role, so setFeed stays queued
+    const executor = new GovernanceExecutor(hre, outsider);
+    const configured = await executeOracleCallSteps(executor, outsider, (await planOracleWrappers(hre, "USD", config)).configuration);
+    expect(configured.queued.map((step) => step.description)).to.deep.equal([`setFeed ${asset}`]);
+
+    const [route] = (await planOracleWrappers(hre, "USD", config)).routing;
+    expect([route.status, route.detail]).to.deep.equal(["blocked", `waiting for setFeed on ${USD_REDSTONE_ORACLE_WRAPPER_ID}`]);
+
+    const routed = await executeOracleCallSteps(executor, deployer, [route]);
+    expect([routed.executed.length, routed.blocked.length]).to.deep.equal([0, 1]);
+    expect(await aggregator.assetOracles(asset)).to.equal(ethers.ZeroAddress);
+  });
+});
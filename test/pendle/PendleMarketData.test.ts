@@ -0,0 +1,105 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import { ethers } from "hardhat";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  createFixturePendleMarketData,
+  createOnChainPendleMarketData,
+  createRecordingPendleMarketData,
+  MethodReturnType,
+  PendleMarketDataFixture,
+  PendleMarketDataProvider,
+  savePendleMarketDataFixture,
+} from "../../typescript/pendle/market-data";
+import { estimateSwapExactIn, getPTMarketInfo, RedeemPyData } from "../../typescript/pendle/sdk";
+
+describe("Pendle market data providers", () => {
+  it("records on-chain market metadata and SDK responses into a fixture replayed without network access", async () => {
+    const [deployer] = await ethers.getSigners();
+    const chainId = 1;
+    const expiry = 1_900_000_000;
+    const underlying = await ethers.deployContract("TestERC20", ["Syrup USDC", "syrupUSDC", 6], deployer);
+    const sy = await ethers.deployContract("MockPendleSY", [underlying.target], deployer);
+    const pt = await ethers.deployContract("MockPTToken", ["PT syrupUSDC", "PT-syrupUSDC-30OCT2030", sy.target], deployer);
+    const yt = ethers.Wallet.createRandom().address;
+    const pyFactory = await ethers.deployContract("MockPendlePYFactory", [], deployer);
+    await pyFactory.setPT(pt.target, true);
+
+    const market = await ethers.deployContract("MockPendleMarket", [expiry], deployer);
+    const unknownMarket = await ethers.deployContract("MockPendleMarket", [expiry], deployer);
+    await market.setTokens(sy.target, pt.target, yt);
+    await unknownMarket.setTokens(sy.target, underlying.target, yt);
+
+    const onChain = createOnChainPendleMarketData(ethers.provider, {
+      pyFactory: pyFactory.target as string,
+      markets: [market.target as string, unknownMarket.target as string],
+    });
+    const swapResponse: MethodReturnType<RedeemPyData> = {
+      tx: { data: "0x1234", to: ethers.ZeroAddress, value: "0" },
+      data: { amountOut: "990000", priceImpact: 0.001 },
+    };
+    const quoting: PendleMarketDataProvider = { ...onChain, callSdk: async <Data>() => swapResponse as MethodReturnType<Data> };
+
+    const fixture: PendleMarketDataFixture = { markets: {}, sdk: {} };
+    const recorder = createRecordingPendleMarketData(quoting, fixture);
+    const recorded = await recorder.getMarkets(chainId);
+    expect(recorded).to.deep.equal([
+      {
+        chainId,
+        name: "PT-syrupUSDC-30OCT2030",
+        market: market.target,
+        pt: pt.target,
+        yt,
+        sy: sy.target,
+        underlyingAsset: underlying.target,
+        expiry,
+      },
+    ]);
+    await estimateSwapExactIn(
+      pt.target as string,
+      "1000000",
+      underlying.target as string,
+      deployer.address,
+      market.target as string,
+      chainId,
+      0.01,
+      recorder,
+    );
+    await expect(onChain.callSdk("v2/sdk/1/markets/0x/swap")).to.be.rejectedWith("not available from on-chain market data");
+
+    const fixturePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "pendle-fixture-")), "pendle-market-data.json");
+    savePendleMarketDataFixture(fixturePath, fixture);
+    const replay = createFixturePendleMarketData(fixturePath);
+
+    const info = await getPTMarketInfo((pt.target as string).toLowerCase(), chainId, replay);
+    expect(info).to.deep.equal({ marketAddress: market.target, underlyingAsset: underlying.target });
+
+    const quote = await estimateSwapExactIn(
+      pt.target as string,
+      "1000000",
+      underlying.target as string,
+      deployer.address,
+      market.target as string,
+      chainId,
+      0.01,
+      replay,
+    );
+    expect(quote.data).to.deep.equal(swapResponse);
+
+    await expect(
+      estimateSwapExactIn(
+        pt.target as string,
+        "5",
+        underlying.target as string,
+        deployer.address,
+        market.target as string,
+        chainId,
+        0.01,
+        replay,
+      ),
+    ).to.be.rejectedWith("No recorded Pendle SDK response");
+    await expect(getPTMarketInfo(pt.target as string, 146, replay)).to.be.rejectedWith("Could not determine market info");
+  });
+});
@@ -0,0 +1,134 @@
+import { expect } from "chai";
+import hre, { deployments, ethers } from "hardhat";
+
+import { OracleAggregatorConfig, PendleConfig } from "../../config/types";
+import { PENDLE_CHAINLINK_ORACLE_FACTORY_ID, USD_ORACLE_AGGREGATOR_ID } from "../../typescript/deploy-ids";
+import { GovernanceExecutor } from "../../typescript/hardhat/governance";
+import {
+  deployPlannedWrappers,
+  executeOracleCallSteps,
+  PLANNED_WRAPPER_KINDS,
+  planOracleWrappers,
+} from "../../typescript/oracle_aggregator/planner";
+import {
+  deployPtOracles,
+  increasePtMarketCardinality,
+  pendlePtDecimalConverterDeploymentId,
+  ptExpiryWarning,
+  readPtOracleStatuses,
+  withPendlePtFeeds,
+} from "../../typescript/pendle/pt-oracles";
+
+const BASE_UNIT = 10n ** 8n;
+const DAY = 86400;
+
+describe("Pendle PT oracles", () => {
+  it("deploys TWAP oracles for ready markets, routes them on the aggregator and flags expiring markets", async () => {
+    const [deployer] = await ethers.getSigners();
+    const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+    const pyLpOracle = await ethers.deployContract("MockPendlePyLpOracle", [], deployer);
+    const factory = await ethers.deployContract("MockPendleChainlinkOracleFactory", [pyLpOracle.target], deployer);
+    await deployments.save(PENDLE_CHAINLINK_ORACLE_FACTORY_ID, {
+      address: await factory.getAddress(),
+      abi: (await hre.artifacts.readArtifact("MockPendleChainlinkOracleFactory")).abi,
+    });
+
+    const aggregator = await ethers.deployContract("OracleAggregatorV1_1", [ethers.ZeroAddress, BASE_UNIT], deployer);
+    await deployments.save(USD_ORACLE_AGGREGATOR_ID, {
+      address: await aggregator.getAddress(),
+      abi: (await hre.artifacts.readArtifact("OracleAggregatorV1_1")).abi,
+    });
+    const assetFeed = await ethers.deployContract("MockChainlinkAggregatorV3", [8, "ASSET / USD"], deployer);
+    await assetFeed.setMock(2n * BASE_UNIT);
+
+    const markets = await Promise.all(
+      [60 * DAY, 5 * DAY, 90 * DAY, -DAY].map((offset) => ethers.deployContract("MockPendleMarket", [now + offset], deployer)),
+    );
+    const [stableMarket, compositeMarket, coldMarket, expiredMarket] = markets;
+    await pyLpOracle.setOracleState(stableMarket.target, false, 0, true);
+    await pyLpOracle.setOracleState(compositeMarket.target, false, 0, true);
+    await pyLpOracle.setOracleState(coldMarket.target, true, 120, false);
+    await pyLpOracle.setOracleState(expiredMarket.target, false, 0, true);
+    await pyLpOracle.setRates(stableMarket.target, 98n * 10n ** 16n, 0n);
+    await pyLpOracle.setRates(compositeMarket.target, 95n * 10n ** 16n, 0n);
+
+    const pt = (name: string, index: number, extra: object = {}): PendleConfig["ptTokens"][number] => ({
+      name,
+      ptToken: ethers.Wallet.createRandom().address,
+      market: markets[index].target as string,
+      oracleType: "PT_TO_ASSET",
+      twapDuration: 900,
+      ...extra,
+    });
+    const pendle: PendleConfig = {
+      ptYtLpOracleAddress: pyLpOracle.target as string,
+      ptTokens: [
+        pt("PT-stable-1JAN2030", 0, { assetIsBaseCurrency: true }),
+        pt("PT-composite-1JAN2030", 1, { assetFeed: assetFeed.target as string }),
+        pt("PT-cold-1JAN2030", 2),
+        pt("PT-expired-1JAN2020", 3),
+      ],
+    };
+
+    const statuses = await readPtOracleStatuses(hre, pendle, { now });
+    expect(statuses.map((status) => [status.expiryStatus, status.twapReady, status.aggregatorKey])).to.deep.equal([
+      ["active", true, "USD"],
+      ["nearExpiry", true, "USD"],
+      ["active", false, "USD"],
+      ["expired", true, "USD"],
+    ]);
+    expect(statuses[0].converterId).to.equal("ChainlinkDecimalConverter_PT_stable_1JAN2030");
+    expect(pendlePtDecimalConverterDeploymentId("PT-aUSDC-14AUG2025")).to.equal("ChainlinkDecimalConverter_PT_aUSDC_14AUG2025");
+    expect(statuses.map((status) => ptExpiryWarning(status) !== undefined)).to.deep.equal([false, true, false, true]);
+    expect(ptExpiryWarning(statuses[3])).to.contain("PT-expired-1JAN2020 market expired at");
+
+    expect((await increasePtMarketCardinality(statuses, deployer)).map((config) => config.name)).to.deep.equal(["PT-cold-1JAN2030"]);
+    expect(await coldMarket.observationCardinalityNext()).to.equal(120n);
+
+    const usd: OracleAggregatorConfig = {
+      priceDecimals: 8,
+      hardDStablePeg: BASE_UNIT,
+      baseCurrency: ethers.ZeroAddress,
+      api3OracleAssets: {
+        plainApi3OracleWrappers: {},
+        api3OracleWrappersWithThresholding: {},
+        compositeApi3OracleWrappersWithThresholding: {},
+      },
+      redstoneOracleAssets: {
+        plainRedstoneOracleWrappers: {},
+        redstoneOracleWrappersWithThresholding: {},
+        compositeRedstoneOracleWrappersWithThresholding: {},
+      },
+    };
+    const deployed = await deployPtOracles(hre, pendle, statuses, { USD: usd }, deployer.address);
+    expect(deployed).to.deep.equal([
+      "PendleChainlinkOracle_PT_stable_1JAN2030",
+      "ChainlinkDecimalConverter_PT_stable_1JAN2030",
+      "PendleChainlinkOracle_PT_composite_1JAN2030",
+      "ChainlinkDecimalConverter_PT_composite_1JAN2030",
+    ]);
+
+    const refreshed = await readPtOracleStatuses(hre, pendle, { now });
+    expect(refreshed.map((status) => Boolean(status.converter))).to.deep.equal([true, true, false, false]);
+    expect(await deployPtOracles(hre, pendle, refreshed, { USD: usd }, deployer.address)).to.deep.equal([]);
+
+    const config = withPendlePtFeeds("USD", usd, refreshed);
+    expect(config.redstoneOracleAssets.plainRedstoneOracleWrappers).to.deep.equal({ [pendle.ptTokens[0].ptToken]: refreshed[0].converter });
+    expect(Object.keys(config.redstoneOracleAssets.compositeRedstoneOracleWrappersWithThresholding)).to.deep.equal([
+      "PT-composite-1JAN2030",
+    ]);
+
+    const unpriced = { ...refreshed[0], pt: { ...refreshed[0].pt, assetIsBaseCurrency: undefined } };
+    expect(() => withPendlePtFeeds("USD", usd, [unpriced])).to.throw("PT-stable-1JAN2030: no assetFeed configured");
+
+    const options = { kinds: PLANNED_WRAPPER_KINDS };
+    await deployPlannedWrappers(hre, await planOracleWrappers(hre, "USD", config, options), deployer.address);
+    const plan = await planOracleWrappers(hre, "USD", config, options);
+    const executor = new GovernanceExecutor(hre, deployer);
+    await executeOracleCallSteps(executor, deployer, plan.configuration);
+    await executeOracleCallSteps(executor, deployer, (await planOracleWrappers(hre, "USD", config, options)).routing);
+
+    expect(await aggregator.getAssetPrice(pendle.ptTokens[0].ptToken)).to.equal(98_000_000n);
+    expect(await aggregator.getAssetPrice(pendle.ptTokens[1].ptToken)).to.equal(190_000_000n);
+  });
+});
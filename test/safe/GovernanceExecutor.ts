@@ -0,0 +1,118 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+
+import { safeOperationKey } from "../../.shared/lib/safe/operation-key";
+import { InMemorySafeStateStorage } from "../../.shared/lib/safe/storage";
+import { SafeTransactionData } from "../../.shared/lib/safe/types";
+import { GovernanceExecutor } from "../../typescript/hardhat/governance";
+
+describe("GovernanceExecutor idempotency keys", function () {
+  const safeAddress = ethers.Wallet.createRandom().address;
+  const target = ethers.Wallet.createRandom().address;
+  const setOracle: SafeTransactionData = { to: target, value: "0", data: "0x12345678" };
+  const setFeed: SafeTransactionData = { to: target, value: "0", data: "0x87654321" };
+  const pendingSafeTxHash = ethers.keccak256(ethers.toUtf8Bytes("pending batch"));
+
+  let previousUseSafe: string | undefined;
+
+  before(function () {
+    previousUseSafe = process.env.USE_SAFE;
+    process.env.USE_SAFE = "true";
+  });
+
+  after(function () {
+    process.env.USE_SAFE = previousUseSafe;
+  });
+
+  /**
+   * Build an executor whose Safe ledger already holds one pending batch with `setOracle`
+   *
+   * @param nonce - Safe nonce the pending batch was created with
+   */
+  async function createExecutor(nonce?: number): Promise<GovernanceExecutor> {
+    const [signer] = await ethers.getSigners();
+    const storage = new InMemorySafeStateStorage({
+      pendingTransactions: [
+        {
+          id: "1",
+          safeTxHash: pendingSafeTxHash,
+          description: "Oracle rollout (1 operations)",
+          transactionData: setOracle,
+          createdAt: 0,
+          requiredSignatures: 2,
+          currentSignatures: 0,
+          operationKeys: [safeOperationKey(setOracle, "setOracle WETH")],
+          nonce,
+        },
+      ],
+      completedTransactions: [],
+      failedTransactions: [],
+    });
+    return new GovernanceExecutor(hre, signer, { safeAddress, owners: [], threshold: 2, chainId: 31337 }, { storage });
+  }
+
+  /**
+   * Queue an operation as if its direct call failed
+   *
+   * @param executor - The executor
+   * @param transaction - The Safe transaction to queue
+   * @param description - The operation description
+   */
+  async function queue(executor: GovernanceExecutor, transaction: SafeTransactionData, description: string): Promise<void> {
+    await executor.tryOrQueue(
+      async () => {
+        throw new Error("Direct execution disabled");
+      },
+      () => transaction,
+      description,
+    );
+  }
+
+  it("derives the key from target, calldata hash and description", function () {
+    const key = safeOperationKey(setOracle, "setOracle WETH");
+
+    expect(key).to.equal(`${target.toLowerCase()}:${ethers.keccak256(setOracle.data)}:setOracle WETH`);
+    expect(safeOperationKey({ ...setOracle, to: target.toLowerCase() }, "setOracle WETH")).to.equal(key);
+    expect(safeOperationKey(setOracle, "setOracle WBTC")).to.not.equal(key);
+  });
+
+  it("separates operations already pending or queued twice from new ones", async function () {
+    const executor = await createExecutor();
+    await queue(executor, setOracle, "setOracle WETH");
+    await queue(executor, setFeed, "setFeed WETH");
+    await queue(executor, setFeed, "setFeed WETH");
+
+    const report = await executor.previewFlush();
+
+    expect(report.queued.map((operation) => operation.description)).to.deep.equal(["setFeed WETH"]);
+    expect(report.deduplicated.map((operation) => [operation.description, operation.pendingSafeTxHash])).to.deep.equal([
+      ["setOracle WETH", pendingSafeTxHash],
+      ["setFeed WETH", undefined],
+    ]);
+  });
+
+  it("does not create a batch when every operation is already pending", async function () {
+    const executor = await createExecutor();
+    await queue(executor, setOracle, "setOracle WETH");
+
+    expect(await executor.flush("Oracle rollout")).to.equal(true);
+    expect(executor.lastFlushReport?.queued).to.be.empty;
+    expect(executor.lastFlushReport?.deduplicated).to.have.length(1);
+    expect(executor.lastFlushReport?.safeTxHashes).to.be.undefined;
+  });
+
+  it("queues operations again once reconciliation finds their batch superseded", async function () {
+    // Answers every call, including nonce(), with 1: the pending batch's nonce 0 was used by another transaction
+    await ethers.provider.send("hardhat_setCode", [safeAddress, "0x600160005260206000f3"]);
+    const executor = await createExecutor(0);
+    await queue(executor, setOracle, "setOracle WETH");
+
+    try {
+      const report = await executor.previewFlush();
+      expect(report.queued.map((operation) => operation.description)).to.deep.equal(["setOracle WETH"]);
+      expect(report.deduplicated).to.be.empty;
+    } finally {
+      await ethers.provider.send("hardhat_setCode", [safeAddress, "0x"]);
+    }
+  });
+});
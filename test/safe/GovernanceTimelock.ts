@@ -0,0 +1,120 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import fs from "fs";
+import hre, { ethers } from "hardhat";
+import os from "os";
+import path from "path";
+
+import { GovernanceExecutor } from "../../typescript/hardhat/governance";
+import { getTimelockOperationStatus, readTimelockOperations } from "../../typescript/hardhat/timelock";
+import type { TestTimelockController } from "../../typechain-types";
+
+const MIN_DELAY = 3600;
+
+describe("GovernanceExecutor timelock mode", function () {
+  let timelock: TestTimelockController;
+  let timelockAddress: string;
+  let ledgerPath: string;
+
+  /**
+   * Deploy a TimelockController with the first signer as proposer and open execution
+   */
+  async function deployTimelock(): Promise<TestTimelockController> {
+    const [proposer] = await ethers.getSigners();
+    const factory = await ethers.getContractFactory("TestTimelockController");
+    return await factory.deploy(MIN_DELAY, [proposer.address], [ethers.ZeroAddress], ethers.ZeroAddress);
+  }
+
+  /**
+   * Executor in timelock mode that queues `updateDelay(newDelay)` on the timelock itself
+   *
+   * @param newDelay - Delay the queued call sets
+   */
+  async function queueUpdateDelay(newDelay: number): Promise<GovernanceExecutor> {
+    const [proposer] = await ethers.getSigners();
+    const executor = new GovernanceExecutor(hre, proposer, undefined, undefined, { address: timelockAddress, ledgerPath });
+    await executor.tryOrQueue(
+      async () => timelock.updateDelay(newDelay),
+      () => ({ to: timelockAddress, value: "0", data: timelock.interface.encodeFunctionData("updateDelay", [newDelay]) }),
+      `updateDelay ${newDelay}`,
+    );
+    return executor;
+  }
+
+  beforeEach(async function () {
+    timelock = await deployTimelock();
+    timelockAddress = await timelock.getAddress();
+    ledgerPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "timelock-")), "timelock-operations.json");
+  });
+
+  afterEach(function () {
+    fs.rmSync(path.dirname(ledgerPath), { recursive: true, force: true });
+  });
+
+  it("schedules failed calls as a batch and records the matching executeBatch payload", async function () {
+    const executor = await queueUpdateDelay(2 * MIN_DELAY);
+    expect(executor.mode).to.equal("timelock");
+
+    expect(await executor.flush("Double timelock delay")).to.equal(true);
+
+    const [record] = readTimelockOperations(ledgerPath);
+    expect(record.id).to.equal(executor.lastFlushReport?.timelockOperationId);
+    expect(record.scheduledVia).to.equal("signer");
+    expect(record.id).to.equal(
+      await timelock.hashOperationBatch(record.targets, record.values, record.payloads, record.predecessor, record.salt),
+    );
+
+    const waiting = await getTimelockOperationStatus(ethers.provider, record);
+    expect(waiting.state).to.equal("waiting");
+    expect(waiting.executableAt).to.equal((await time.latest()) + MIN_DELAY);
+    expect(executor.queuedTransactions[0].to).to.equal(timelockAddress);
+
+    const [, anyone] = await ethers.getSigners();
+    await expect(anyone.sendTransaction(record.executeTransaction)).to.be.reverted;
+
+    await time.increaseTo(waiting.executableAt);
+    expect((await getTimelockOperationStatus(ethers.provider, record)).state).to.equal("ready");
+
+    await anyone.sendTransaction(record.executeTransaction);
+    expect(await timelock.getMinDelay()).to.equal(2 * MIN_DELAY);
+    expect((await getTimelockOperationStatus(ethers.provider, record)).state).to.equal("done");
+  });
+
+  it("does not schedule an operation again while it is waiting", async function () {
+    await (await queueUpdateDelay(2 * MIN_DELAY)).flush("Double timelock delay");
+
+    const rerun = await queueUpdateDelay(2 * MIN_DELAY);
+    expect(await rerun.flush("Double timelock delay")).to.equal(true);
+
+    expect(rerun.lastFlushReport?.queued).to.be.empty;
+    expect(rerun.lastFlushReport?.deduplicated).to.have.length(1);
+    expect(readTimelockOperations(ledgerPath)).to.have.length(1);
+  });
+
+  it("queues a cancelled operation again", async function () {
+    await (await queueUpdateDelay(2 * MIN_DELAY)).flush("Double timelock delay");
+    const [record] = readTimelockOperations(ledgerPath);
+    await timelock.cancel(record.id);
+
+    const report = await (await queueUpdateDelay(2 * MIN_DELAY)).previewFlush();
+
+    expect(report.queued.map((operation) => operation.description)).to.deep.equal([`updateDelay ${2 * MIN_DELAY}`]);
+    expect(report.deduplicated).to.be.empty;
+  });
+
+  it("schedules the same calls again under a new salt once the earlier operation executed", async function () {
+    await (await queueUpdateDelay(2 * MIN_DELAY)).flush("Double timelock delay");
+    const [executed] = readTimelockOperations(ledgerPath);
+    await time.increase(MIN_DELAY);
+    await (await ethers.getSigners())[1].sendTransaction(executed.executeTransaction);
+    expect((await getTimelockOperationStatus(ethers.provider, executed)).state).to.equal("done");
+
+    const rerun = await queueUpdateDelay(2 * MIN_DELAY);
+    expect(await rerun.flush("Double timelock delay")).to.equal(true);
+
+    const [, rescheduled] = readTimelockOperations(ledgerPath);
+    expect(rerun.lastFlushReport?.queued).to.have.length(1);
+    expect(rescheduled.id).to.not.equal(executed.id);
+    expect((await getTimelockOperationStatus(ethers.provider, rescheduled)).state).to.equal("waiting");
+  });
+});
@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import hre, { deployments, ethers } from "hardhat";
+
+import { SafeBatchSimulator } from "../../.shared/lib/safe/batch-simulator";
+import { SafeTransactionData } from "../../.shared/lib/safe/types";
+import type { HardPegOracleWrapperV1_1, MockChainlinkAggregatorV3, OracleAggregatorV1_1 } from "../../typechain-types";
+
+const BASE_UNIT = 10n ** 8n;
+
+describe("SafeBatchSimulator", function () {
+  const safeAddress = ethers.Wallet.createRandom().address;
+  const asset = ethers.Wallet.createRandom().address;
+
+  let aggregator: OracleAggregatorV1_1;
+  let wrapper: HardPegOracleWrapperV1_1;
+  let feed: MockChainlinkAggregatorV3;
+  let managerRole: string;
+
+  beforeEach(async function () {
+    aggregator = await (await ethers.getContractFactory("OracleAggregatorV1_1")).deploy(ethers.ZeroAddress, BASE_UNIT);
+    wrapper = await (await ethers.getContractFactory("HardPegOracleWrapperV1_1")).deploy(ethers.ZeroAddress, BASE_UNIT, BASE_UNIT);
+    feed = await (await ethers.getContractFactory("MockChainlinkAggregatorV3")).deploy(8, "TEST / USD");
+    managerRole = await aggregator.ORACLE_MANAGER_ROLE();
+    await aggregator.grantRole(await aggregator.DEFAULT_ADMIN_ROLE(), safeAddress);
+
+    for (const [name, contract] of [
+      ["OracleAggregatorV1_1", aggregator],
+      ["MockChainlinkAggregatorV3", feed],
+    ] as const) {
+      const artifact = await deployments.getArtifact(name);
+      await deployments.save(name, { address: await contract.getAddress(), abi: artifact.abi });
+    }
+  });
+
+  /**
+   * Encode a call as a Safe batch entry
+   *
+   * @param to Target contract
+   * @param data Calldata
+   */
+  async function call(to: { getAddress(): Promise<string> }, data: string): Promise<SafeTransactionData> {
+    return { to: await to.getAddress(), value: "0", data };
+  }
+
+  it("runs calls in order so later calls see earlier state changes", async function () {
+    const batch = [
+      await call(aggregator, aggregator.interface.encodeFunctionData("grantRole", [managerRole, safeAddress])),
+      await call(aggregator, aggregator.interface.encodeFunctionData("setOracle", [asset, await wrapper.getAddress()])),
+      await call(feed, feed.interface.encodeFunctionData("setMock", [2n * BASE_UNIT])),
+    ];
+
+    const simulation = await new SafeBatchSimulator(hre).simulate(safeAddress, batch);
+
+    expect(simulation.success).to.equal(true);
+    expect(simulation.calls.map((c) => c.status)).to.deep.equal(["success", "success", "success"]);
+    expect(simulation.calls[0].contractName).to.equal("OracleAggregatorV1_1");
+    expect(simulation.calls[0].method).to.equal("grantRole(bytes32,address)");
+    expect(simulation.calls[0].roleChanges).to.deep.include({
+      contract: await aggregator.getAddress(),
+      contractName: "OracleAggregatorV1_1",
+      change: "granted",
+      role: managerRole,
+      account: safeAddress,
+    });
+    expect(simulation.calls[2].configChanges.map((c) => c.getter)).to.include("latestRoundData");
+
+    // The simulation runs on a snapshot and leaves no trace on the network
+    expect(await aggregator.hasRole(managerRole, safeAddress)).to.equal(false);
+  });
+
+  it("decodes custom errors and stops the batch at the first revert", async function () {
+    const batch = [
+      await call(aggregator, aggregator.interface.encodeFunctionData("grantRole", [managerRole, safeAddress])),
+      await call(aggregator, aggregator.interface.encodeFunctionData("setOracle", [asset, ethers.ZeroAddress])),
+      await call(feed, feed.interface.encodeFunctionData("setMock", [2n * BASE_UNIT])),
+    ];
+
+    const simulation = await new SafeBatchSimulator(hre).simulate(safeAddress, batch);
+
+    expect(simulation.success).to.equal(false);
+    expect(simulation.calls.map((c) => c.status)).to.deep.equal(["success", "reverted", "not_executed"]);
+    expect(simulation.calls[1].revertReason).to.equal("ZeroAddress(oracle)");
+  });
+
+  it("reports missing permissions when calls are not ordered after the grant", async function () {
+    const batch = [
+      await call(aggregator, aggregator.interface.encodeFunctionData("setOracle", [asset, await wrapper.getAddress()])),
+      await call(aggregator, aggregator.interface.encodeFunctionData("grantRole", [managerRole, safeAddress])),
+    ];
+
+    const simulation = await new SafeBatchSimulator(hre).simulate(safeAddress, batch);
+
+    expect(simulation.calls[0].status).to.equal("reverted");
+    expect(simulation.calls[0].revertReason).to.equal(`AccessControlUnauthorizedAccount(${safeAddress}, ${managerRole})`);
+  });
+
+  it("funds the impersonated Safe for value-bearing calls without leaving the balance behind", async function () {
+    const recipient = ethers.Wallet.createRandom().address;
+    const batch = [{ to: recipient, value: ethers.parseEther("1").toString(), data: "0x" }];
+
+    const simulation = await new SafeBatchSimulator(hre).simulate(safeAddress, batch);
+
+    expect(simulation.calls.map((c) => c.status)).to.deep.equal(["success"]);
+    expect(await ethers.provider.getBalance(safeAddress)).to.equal(0n);
+    expect(await ethers.provider.getBalance(recipient)).to.equal(0n);
+  });
+});
@@ -0,0 +1,170 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import fs from "fs";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import os from "os";
+import path from "path";
+
+import { SafeManager } from "../../.shared/lib/safe/safe-manager";
+import { SafeTransactionService } from "../../.shared/lib/safe/transaction-service";
+import { MockTransactionService, signSafeTxHash } from "./mock-transaction-service";
+
+const CHAIN_ID = 31337;
+
+describe("SafeTransactionService", function () {
+  const owner1 = ethers.Wallet.createRandom();
+  const owner2 = ethers.Wallet.createRandom();
+  const safeAddress = ethers.Wallet.createRandom().address;
+
+  let mock: MockTransactionService;
+  let service: SafeTransactionService;
+
+  beforeEach(async function () {
+    mock = new MockTransactionService(safeAddress, 2, 7);
+    await mock.start();
+    service = new SafeTransactionService({ chainId: CHAIN_ID, txServiceUrl: mock.url, retryAttempts: 3, retryDelayMs: 1 });
+  });
+
+  afterEach(async function () {
+    await mock.stop();
+  });
+
+  /**
+   * Propose a dummy transaction signed by owner1
+   *
+   * @param nonce Safe nonce for the proposal
+   */
+  async function propose(nonce: number): Promise<string> {
+    const safeTxHash = ethers.keccak256(ethers.toUtf8Bytes(`batch-${nonce}`));
+    await service.proposeTransaction({
+      safeAddress,
+      safeTxHash,
+      safeTransactionData: {
+        to: ethers.Wallet.createRandom().address,
+        value: "0",
+        data: "0x",
+        operation: 0,
+        safeTxGas: "0",
+        baseGas: "0",
+        gasPrice: "0",
+        gasToken: ethers.ZeroAddress,
+        refundReceiver: ethers.ZeroAddress,
+        nonce,
+      },
+      senderAddress: owner1.address,
+      senderSignature: await signSafeTxHash(owner1, safeTxHash),
+    });
+    return safeTxHash;
+  }
+
+  it("returns undefined for transactions that were never proposed", async function () {
+    expect(await service.getSignatureStatus(ethers.ZeroHash)).to.be.undefined;
+  });
+
+  it("uses the on-chain nonce when nothing is queued and the next free nonce otherwise", async function () {
+    expect(await service.getNextNonce(safeAddress)).to.equal(7);
+    await propose(7);
+    expect(await service.getNextNonce(safeAddress)).to.equal(8);
+  });
+
+  it("tracks proposer and additional owner confirmations", async function () {
+    const safeTxHash = await propose(7);
+
+    let status = await service.getSignatureStatus(safeTxHash);
+    expect(status?.confirmations).to.deep.equal([owner1.address]);
+    expect(status?.confirmationsRequired).to.equal(2);
+    expect(status?.isExecuted).to.equal(false);
+
+    await service.confirmTransaction(safeTxHash, await signSafeTxHash(owner2, safeTxHash));
+
+    status = await service.getSignatureStatus(safeTxHash);
+    expect(status?.confirmations).to.deep.equal([owner1.address, owner2.address]);
+  });
+
+  it("retries transient service failures", async function () {
+    mock.failNextRequests = 2;
+    expect(await service.getNextNonce(safeAddress)).to.equal(7);
+  });
+
+  it("gives up after the configured number of attempts", async function () {
+    mock.failNextRequests = 10;
+    await expect(service.getNextNonce(safeAddress)).to.be.rejectedWith("Service temporarily unavailable");
+  });
+
+  describe("SafeManager.refreshPendingSignatures", function () {
+    let deploymentsRoot: string;
+
+    beforeEach(function () {
+      deploymentsRoot = fs.mkdtempSync(path.join(os.tmpdir(), "safe-manager-"));
+    });
+
+    afterEach(function () {
+      fs.rmSync(deploymentsRoot, { recursive: true, force: true });
+    });
+
+    it("updates currentSignatures of pending entries from the service", async function () {
+      const proposedHash = await propose(7);
+      const offlineHash = ethers.keccak256(ethers.toUtf8Bytes("never-proposed"));
+      const statePath = path.join(deploymentsRoot, "safe-test", "safe-deployment-state.json");
+      fs.mkdirSync(path.dirname(statePath), { recursive: true });
+      fs.writeFileSync(
+        statePath,
+        JSON.stringify({
+          pendingTransactions: [proposedHash, offlineHash].map((safeTxHash) => ({
+            id: safeTxHash,
+            safeTxHash,
+            description: "test batch",
+            transactionData: { to: safeAddress, value: "0", data: "0x" },
+            createdAt: 0,
+            requiredSignatures: 2,
+            currentSignatures: 0,
+          })),
+          completedTransactions: [],
+          failedTransactions: [],
+        }),
+      );
+
+      const hre = {
+        network: { name: "safe-test" },
+        config: { paths: { deployments: deploymentsRoot, root: deploymentsRoot } },
+      } as unknown as HardhatRuntimeEnvironment;
+      const manager = new SafeManager(hre, owner1, {
+        safeConfig: {
+          safeAddress,
+          owners: [owner1.address, owner2.address],
+          threshold: 2,
+          chainId: CHAIN_ID,
+          txServiceUrl: mock.url,
+        },
+        enableApiKit: true,
+        retryDelayMs: 1,
+      });
+
+      mock.addExternalConfirmation(proposedHash, owner2.address);
+      const refreshed = await manager.refreshPendingSignatures();
+
+      const proposed = refreshed.find((tx) => tx.safeTxHash === proposedHash);
+      expect(proposed?.currentSignatures).to.equal(2);
+      expect(proposed?.signers).to.deep.equal([owner1.address, owner2.address]);
+      expect(proposed?.nonce).to.equal(7);
+      expect(proposed?.proposed).to.equal(true);
+
+      const offline = refreshed.find((tx) => tx.safeTxHash === offlineHash);
+      expect(offline?.currentSignatures).to.equal(0);
+
+      const persisted = JSON.parse(fs.readFileSync(statePath, "utf8"));
+      expect(persisted.pendingTransactions[0].currentSignatures).to.equal(2);
+    });
+
+    it("rejects online mode without a transaction service URL", function () {
+      const hre = { network: { name: "safe-test" }, config: { paths: {} } } as unknown as HardhatRuntimeEnvironment;
+      expect(
+        () =>
+          new SafeManager(hre, owner1, {
+            safeConfig: { safeAddress, owners: [], threshold: 1, chainId: CHAIN_ID },
+            enableApiKit: true,
+          }),
+      ).to.throw("enableApiKit requires safeConfig.txServiceUrl");
+    });
+  });
+});
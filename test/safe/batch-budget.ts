@@ -0,0 +1,85 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+
+import { estimateSafeCallGas, sliceSafeBatchSimulation, splitSafeBatch } from "../../.shared/lib/safe/batch-budget";
+import { SafeBatchSimulation, SafeSimulatedCall, SafeTransactionData } from "../../.shared/lib/safe/types";
+
+describe("Safe batch budgeting", function () {
+  const target = ethers.Wallet.createRandom().address;
+
+  /**
+   * Call with `size` bytes of calldata
+   *
+   * @param size - Calldata length in bytes
+   */
+  function call(size: number): SafeTransactionData {
+    return { to: target, value: "0", data: ethers.hexlify(new Uint8Array(size).fill(1)) };
+  }
+
+  /**
+   * Simulated call result
+   *
+   * @param index - Call index
+   * @param status - Call status
+   * @param gasUsed - Gas used by the standalone transaction
+   */
+  function simulated(index: number, status: SafeSimulatedCall["status"], gasUsed?: number): SafeSimulatedCall {
+    return {
+      index,
+      to: target,
+      status,
+      gasUsed: gasUsed?.toString(),
+      roleChanges: [],
+      ownershipChanges: [],
+      configChanges: [],
+    };
+  }
+
+  it("keeps calls in order and starts a new batch when the gas ceiling would be exceeded", function () {
+    const transactions = [call(4), call(4), call(4), call(4)];
+    const chunks = splitSafeBatch(transactions, [400_000, 400_000, 400_000, 100_000], { maxGas: 1_000_000 });
+
+    expect(chunks.map((chunk) => [chunk.start, chunk.transactions.length])).to.deep.equal([
+      [0, 2],
+      [2, 2],
+    ]);
+    expect(chunks[0].transactions).to.deep.equal(transactions.slice(0, 2));
+    expect(chunks[0].estimatedGas).to.equal(900_000);
+  });
+
+  it("splits on the MultiSend calldata size limit", function () {
+    const chunks = splitSafeBatch([call(1000), call(1000), call(1000)], [1, 1, 1], { maxCalldataBytes: 2200 });
+
+    expect(chunks.map((chunk) => chunk.transactions.length)).to.deep.equal([2, 1]);
+    expect(chunks[0].calldataBytes).to.equal(2 * (85 + 1000));
+  });
+
+  it("gives a call that alone exceeds the budget its own batch", function () {
+    const chunks = splitSafeBatch([call(4), call(4), call(4)], [100_000, 5_000_000, 100_000], { maxGas: 1_000_000 });
+
+    expect(chunks.map((chunk) => chunk.transactions.length)).to.deep.equal([1, 1, 1]);
+  });
+
+  it("uses simulated gas without the intrinsic cost and falls back for calls that did not run", function () {
+    const simulation = { calls: [simulated(0, "success", 71_000), simulated(1, "reverted"), simulated(2, "not_executed")] };
+    const gas = estimateSafeCallGas([call(4), call(4), call(4)], simulation as SafeBatchSimulation, 300_000);
+
+    expect(gas).to.deep.equal([50_000, 300_000, 300_000]);
+    expect(estimateSafeCallGas([call(4)], undefined)).to.deep.equal([500_000]);
+  });
+
+  it("slices the simulation for each batch", function () {
+    const simulation: SafeBatchSimulation = {
+      success: false,
+      safeAddress: target,
+      network: "hardhat",
+      forkBlockNumber: 1,
+      simulatedAt: 0,
+      calls: [simulated(0, "success", 30_000), simulated(1, "success", 30_000), simulated(2, "reverted")],
+    };
+    const [first, second] = splitSafeBatch([call(4), call(4), call(4)], [1, 1, 1], { maxCalldataBytes: 200 });
+
+    expect(sliceSafeBatchSimulation(simulation, first).success).to.equal(true);
+    expect(sliceSafeBatchSimulation(simulation, second).calls.map((c) => [c.index, c.status])).to.deep.equal([[0, "reverted"]]);
+  });
+});
@@ -0,0 +1,213 @@
+import { ethers } from "ethers";
+import http from "http";
+import { AddressInfo } from "net";
+
+interface MockConfirmation {
+  owner: string;
+  signature: string;
+  submissionDate: string;
+}
+
+interface MockMultisigTransaction {
+  safe: string;
+  to: string;
+  value: string;
+  data: string | null;
+  operation: number;
+  nonce: number;
+  safeTxHash: string;
+  confirmationsRequired: number;
+  confirmations: MockConfirmation[];
+  isExecuted: boolean;
+  transactionHash: string | null;
+}
+
+/**
+ * Minimal in-process Safe Transaction Service used to exercise SafeManager/API Kit flows
+ * without network access. Only the endpoints used by SafeTransactionService are implemented.
+ */
+export class MockTransactionService {
+  readonly transactions = new Map<string, MockMultisigTransaction>();
+  requestCount = 0;
+  failNextRequests = 0;
+
+  private server?: http.Server;
+
+  constructor(
+    private readonly safeAddress: string,
+    private readonly threshold: number,
+    private readonly safeNonce = 0,
+  ) {}
+
+  /**
+   * Base URL to pass as `txServiceUrl`
+   */
+  get url(): string {
+    const address = this.server?.address() as AddressInfo | null;
+
+    if (!address) {
+      throw new Error("Mock transaction service not started");
+    }
+    return `http://127.0.0.1:${address.port}/api`;
+  }
+
+  /**
+   * Start listening on a random local port
+   */
+  async start(): Promise<void> {
+    this.server = http.createServer((req, res) => {
+      void this.handle(req, res);
+    });
+    await new Promise<void>((resolve) => this.server!.listen(0, "127.0.0.1", resolve));
+  }
+
+  /**
+   * Stop the server
+   */
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => (this.server ? this.server.close(() => resolve()) : resolve()));
+  }
+
+  /**
+   * Record a confirmation directly (simulates another owner signing in the Safe UI)
+   *
+   * @param safeTxHash Safe transaction hash
+   * @param owner Owner address
+   */
+  addExternalConfirmation(safeTxHash: string, owner: string): void {
+    const tx = this.transactions.get(safeTxHash.toLowerCase());
+
+    if (!tx) {
+      throw new Error(`Unknown transaction ${safeTxHash}`);
+    }
+    tx.confirmations.push({ owner, signature: "0x", submissionDate: new Date().toISOString() });
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    this.requestCount += 1;
+
+    if (this.failNextRequests > 0) {
+      this.failNextRequests -= 1;
+      return this.reply(res, 503, { detail: "Service temporarily unavailable" });
+    }
+
+    const url = new URL(req.url ?? "/", "http://127.0.0.1");
+    const path = url.pathname.replace(/^\/api/, "");
+    const body = await readBody(req);
+
+    let match = path.match(/^\/v1\/safes\/(0x[0-9a-fA-F]{40})\/$/);
+
+    if (match && req.method === "GET") {
+      return this.reply(res, 200, {
+        address: this.safeAddress,
+        nonce: String(this.safeNonce),
+        threshold: this.threshold,
+        owners: [],
+        masterCopy: ethers.ZeroAddress,
+      });
+    }
+
+    match = path.match(/^\/v1\/safes\/(0x[0-9a-fA-F]{40})\/multisig-transactions\/$/);
+
+    if (match && req.method === "GET") {
+      const minNonce = Number(url.searchParams.get("nonce__gte") ?? 0);
+      const results = Array.from(this.transactions.values()).filter((tx) => !tx.isExecuted && tx.nonce >= minNonce);
+      return this.reply(res, 200, { count: results.length, results });
+    }
+
+    if (match && req.method === "POST") {
+      const hash = String(body.contractTransactionHash).toLowerCase();
+      this.transactions.set(hash, {
+        safe: match[1],
+        to: body.to,
+        value: String(body.value),
+        data: body.data ?? null,
+        operation: Number(body.operation ?? 0),
+        nonce: Number(body.nonce),
+        safeTxHash: body.contractTransactionHash,
+        confirmationsRequired: this.threshold,
+        confirmations: [{ owner: body.sender, signature: body.signature, submissionDate: new Date().toISOString() }],
+        isExecuted: false,
+        transactionHash: null,
+      });
+      return this.reply(res, 201, {});
+    }
+
+    match = path.match(/^\/v1\/multisig-transactions\/(0x[0-9a-fA-F]{64})\/$/);
+
+    if (match && req.method === "GET") {
+      const tx = this.transactions.get(match[1].toLowerCase());
+      return tx ? this.reply(res, 200, tx) : this.reply(res, 404, { detail: "Not found." });
+    }
+
+    match = path.match(/^\/v1\/multisig-transactions\/(0x[0-9a-fA-F]{64})\/confirmations\/$/);
+
+    if (match && req.method === "POST") {
+      const tx = this.transactions.get(match[1].toLowerCase());
+
+      if (!tx) {
+        return this.reply(res, 404, { detail: "Not found." });
+      }
+      tx.confirmations.push({
+        owner: recoverEthSignOwner(tx.safeTxHash, body.signature),
+        signature: body.signature,
+        submissionDate: new Date().toISOString(),
+      });
+      return this.reply(res, 201, { signature: body.signature });
+    }
+
+    return this.reply(res, 404, { detail: "Not found." });
+  }
+
+  private reply(res: http.ServerResponse, status: number, payload: unknown): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(payload));
+  }
+}
+
+/**
+ * Sign a Safe transaction hash the way Protocol Kit does for eth_sign owners (v + 4)
+ *
+ * @param wallet Owner wallet
+ * @param safeTxHash Safe transaction hash
+ */
+export async function signSafeTxHash(wallet: ethers.Wallet, safeTxHash: string): Promise<string> {
+  const signature = ethers.Signature.from(await wallet.signMessage(ethers.getBytes(safeTxHash)));
+  return ethers.concat([signature.r, signature.s, ethers.toBeHex(signature.v + 4, 1)]);
+}
+
+/**
+ * Recover the owner of an eth_sign style Safe signature
+ *
+ * @param safeTxHash Safe transaction hash
+ * @param signature Signature with Safe's v + 4 adjustment
+ */
+function recoverEthSignOwner(safeTxHash: string, signature: string): string {
+  const bytes = ethers.getBytes(signature);
+  const v = bytes[64] > 30 ? bytes[64] - 4 : bytes[64];
+  const normalized = ethers.concat([bytes.slice(0, 64), ethers.toBeHex(v, 1)]);
+  return ethers.verifyMessage(ethers.getBytes(safeTxHash), normalized);
+}
+
+/**
+ * Read and parse a JSON request body
+ *
+ * @param req Incoming request
+ */
+async function readBody(req: http.IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  if (chunks.length === 0) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,168 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+
+import { reconcileSafeDeploymentState, SafeReconcileProvider } from "../../.shared/lib/safe/reconcile";
+import { SafeDeploymentState, SafePendingTransaction } from "../../.shared/lib/safe/types";
+
+const safeInterface = new ethers.Interface([
+  "function nonce() view returns (uint256)",
+  "event ExecutionSuccess(bytes32 indexed txHash, uint256 payment)",
+  "event ExecutionFailure(bytes32 txHash, uint256 payment)",
+]);
+
+interface FakeExecution {
+  safeTxHash: string;
+  success: boolean;
+  blockNumber: number;
+}
+
+/**
+ * In-memory chain with one Safe: every execution bumps the nonce in its block
+ */
+class FakeSafeChain {
+  readonly executions: FakeExecution[] = [];
+  archive = true;
+
+  constructor(
+    readonly safeAddress: string,
+    private readonly startNonce: number,
+    private readonly latestBlock: number,
+  ) {}
+
+  /**
+   * Record an execution; success logs use the v1.4 indexed layout, failures the v1.3 data layout
+   *
+   * @param safeTxHash Executed Safe transaction hash
+   * @param blockNumber Block of execution
+   * @param success Whether the inner call succeeded
+   */
+  execute(safeTxHash: string, blockNumber: number, success = true): void {
+    this.executions.push({ safeTxHash, success, blockNumber });
+  }
+
+  /**
+   * Safe nonce after a given block
+   *
+   * @param blockNumber Block number
+   */
+  nonceAt(blockNumber: number): number {
+    return this.startNonce + this.executions.filter((e) => e.blockNumber <= blockNumber).length;
+  }
+
+  get provider(): SafeReconcileProvider {
+    return {
+      getBlockNumber: async () => this.latestBlock,
+      getBlock: async (block: ethers.BlockTag) => ({ timestamp: Number(block) * 12 }) as ethers.Block,
+      call: async (tx: ethers.TransactionRequest) => {
+        const blockTag = tx.blockTag === undefined ? this.latestBlock : Number(tx.blockTag);
+
+        if (blockTag !== this.latestBlock && !this.archive) {
+          throw new Error("missing trie node");
+        }
+        return safeInterface.encodeFunctionResult("nonce", [this.nonceAt(blockTag)]);
+      },
+      getLogs: async (filter: ethers.Filter) =>
+        this.executions
+          .filter((e) => e.blockNumber >= Number(filter.fromBlock) && e.blockNumber <= Number(filter.toBlock))
+          .map((e, index) => {
+            const event = safeInterface.getEvent(e.success ? "ExecutionSuccess" : "ExecutionFailure")!;
+            const topics = e.success ? [event.topicHash, e.safeTxHash] : [event.topicHash];
+            const data = e.success
+              ? ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [0])
+              : ethers.AbiCoder.defaultAbiCoder().encode(["bytes32", "uint256"], [e.safeTxHash, 0]);
+            return {
+              topics,
+              data,
+              blockNumber: e.blockNumber,
+              index,
+              transactionHash: ethers.keccak256(ethers.toUtf8Bytes(`tx-${e.safeTxHash}`)),
+            } as unknown as ethers.Log;
+          }),
+    };
+  }
+}
+
+/**
+ * Build a pending ledger entry
+ *
+ * @param label Label used to derive the hash
+ * @param nonce Safe nonce the batch was created with
+ */
+function pending(label: string, nonce?: number): SafePendingTransaction {
+  const safeTxHash = ethers.keccak256(ethers.toUtf8Bytes(label));
+  return {
+    id: safeTxHash,
+    safeTxHash,
+    description: label,
+    transactionData: { to: ethers.ZeroAddress, value: "0", data: "0x" },
+    createdAt: 1_000 * 12 * 1000,
+    requiredSignatures: 2,
+    currentSignatures: 1,
+    nonce,
+  };
+}
+
+describe("reconcileSafeDeploymentState", function () {
+  const safeAddress = ethers.Wallet.createRandom().address;
+
+  it("moves executed and failed batches out of pending", async function () {
+    const chain = new FakeSafeChain(safeAddress, 5, 2_000);
+    const executed = pending("executed", 5);
+    const reverted = pending("reverted", 6);
+    const queued = pending("queued", 7);
+    chain.execute(executed.safeTxHash, 1_500);
+    chain.execute(reverted.safeTxHash, 1_600, false);
+
+    const state: SafeDeploymentState = {
+      pendingTransactions: [executed, reverted, queued],
+      completedTransactions: [],
+      failedTransactions: [],
+    };
+    const { state: reconciled, report } = await reconcileSafeDeploymentState(chain.provider, safeAddress, state, { logChunkSize: 300 });
+
+    expect(report.currentNonce).to.equal(7);
+    expect(report.fromBlock).to.equal(1_000);
+    expect(reconciled.pendingTransactions.map((tx) => tx.description)).to.deep.equal(["queued"]);
+    expect(reconciled.completedTransactions).to.have.length(1);
+    expect(reconciled.completedTransactions[0].transactionHash).to.equal(ethers.keccak256(ethers.toUtf8Bytes(`tx-${executed.safeTxHash}`)));
+    expect(reconciled.completedTransactions[0].executedAt).to.equal(1_500 * 12 * 1000);
+    expect(reconciled.failedTransactions.map((tx) => tx.description)).to.deep.equal(["reverted"]);
+    expect(report.superseded).to.be.empty;
+  });
+
+  it("flags pending batches whose nonce was consumed by another transaction", async function () {
+    const chain = new FakeSafeChain(safeAddress, 3, 2_000);
+    const replaced = pending("replaced", 3);
+    const replacement = ethers.keccak256(ethers.toUtf8Bytes("created in the Safe UI"));
+    chain.execute(replacement, 1_200);
+
+    const { state: reconciled, report } = await reconcileSafeDeploymentState(
+      chain.provider,
+      safeAddress,
+      { pendingTransactions: [replaced], completedTransactions: [], failedTransactions: [] },
+      { fromBlock: 1_000 },
+    );
+
+    expect(reconciled.pendingTransactions).to.be.empty;
+    expect(report.superseded).to.have.length(1);
+    expect(report.superseded[0].consumedBy?.safeTxHash).to.equal(replacement);
+    expect(reconciled.failedTransactions[0].error).to.contain(`Nonce 3 consumed by ${replacement}`);
+  });
+
+  it("still flags superseded batches when historical nonces are unavailable", async function () {
+    const chain = new FakeSafeChain(safeAddress, 3, 2_000);
+    chain.archive = false;
+    chain.execute(ethers.keccak256(ethers.toUtf8Bytes("other")), 1_200);
+
+    const { report } = await reconcileSafeDeploymentState(
+      chain.provider,
+      safeAddress,
+      { pendingTransactions: [pending("replaced", 3), pending("legacy")], completedTransactions: [], failedTransactions: [] },
+      { fromBlock: 1_000 },
+    );
+
+    expect(report.superseded).to.have.length(1);
+    expect(report.superseded[0].consumedBy).to.be.undefined;
+    expect(report.stillPending.map((tx) => tx.description)).to.deep.equal(["legacy"]);
+  });
+});
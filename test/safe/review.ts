@@ -0,0 +1,118 @@
+import { expect } from "chai";
+import hre, { deployments, ethers } from "hardhat";
+
+import { buildSafeBatchReview, renderSafeBatchReviewHtml, renderSafeBatchReviewMarkdown } from "../../.shared/lib/safe/review";
+import type { HardPegOracleWrapperV1_1, OracleAggregatorV1_1 } from "../../typechain-types";
+
+const BASE_UNIT = 10n ** 8n;
+
+describe("Safe batch review", function () {
+  const safeAddress = ethers.Wallet.createRandom().address;
+
+  let aggregator: OracleAggregatorV1_1;
+  let wrapper: HardPegOracleWrapperV1_1;
+  let aggregatorAddress: string;
+  let deployerAddress: string;
+
+  beforeEach(async function () {
+    const [deployer] = await ethers.getSigners();
+    deployerAddress = deployer.address;
+    aggregator = await (await ethers.getContractFactory("OracleAggregatorV1_1")).deploy(ethers.ZeroAddress, BASE_UNIT);
+    wrapper = await (await ethers.getContractFactory("HardPegOracleWrapperV1_1")).deploy(ethers.ZeroAddress, BASE_UNIT, BASE_UNIT);
+    aggregatorAddress = await aggregator.getAddress();
+
+    for (const [name, contract] of [
+      ["OracleAggregatorV1_1", aggregator],
+      ["HardPegOracleWrapperV1_1", wrapper],
+    ] as const) {
+      const artifact = await deployments.getArtifact(name);
+      await deployments.save(name, { address: await contract.getAddress(), abi: artifact.abi });
+    }
+  });
+
+  it("names targets, arguments and role hashes and flags dangerous operations", async function () {
+    const managerRole = await aggregator.ORACLE_MANAGER_ROLE();
+    const asset = ethers.Wallet.createRandom().address;
+    const review = await buildSafeBatchReview(hre, {
+      description: "Hand over oracle management",
+      safeTxHash: ethers.ZeroHash,
+      safeAddress,
+      chainId: 31337,
+      transactions: [
+        { to: aggregatorAddress, value: "0", data: aggregator.interface.encodeFunctionData("grantRole", [managerRole, safeAddress]) },
+        {
+          to: aggregatorAddress,
+          value: "0",
+          data: aggregator.interface.encodeFunctionData("setOracle", [asset, await wrapper.getAddress()]),
+        },
+        {
+          to: aggregatorAddress,
+          value: "0",
+          data: aggregator.interface.encodeFunctionData("revokeRole", [ethers.ZeroHash, deployerAddress]),
+        },
+        { to: aggregatorAddress, value: "0", data: aggregator.interface.encodeFunctionData("renounceRole", [managerRole, safeAddress]) },
+        { to: asset, value: "0", data: "0x12345678" },
+      ],
+    });
+
+    const [grant, setOracle, revoke, renounce, unknown] = review.calls;
+
+    expect(grant.contractName).to.equal("OracleAggregatorV1_1");
+    expect(grant.signature).to.equal("grantRole(bytes32,address)");
+    expect(grant.args.map((arg) => [arg.name, arg.label])).to.deep.equal([
+      ["role", "ORACLE_MANAGER_ROLE"],
+      ["account", "Safe"],
+    ]);
+    expect(grant.flags).to.be.empty;
+
+    expect(setOracle.args[1].label).to.equal("HardPegOracleWrapperV1_1");
+
+    expect(revoke.args[0].label).to.equal("DEFAULT_ADMIN_ROLE");
+    expect(revoke.flags.map((flag) => flag.severity)).to.deep.equal(["danger"]);
+    expect(renounce.flags[0].message).to.contain("Renounces ORACLE_MANAGER_ROLE");
+
+    expect(unknown.functionName).to.be.undefined;
+    expect(unknown.flags[0].severity).to.equal("warning");
+
+    const markdown = renderSafeBatchReviewMarkdown(review);
+    expect(markdown).to.contain("### 1. OracleAggregatorV1_1.grantRole");
+    expect(markdown).to.contain("**ORACLE_MANAGER_ROLE**");
+    expect(markdown).to.contain("Requires attention (3)");
+
+    const html = renderSafeBatchReviewHtml(review);
+    expect(html).to.contain("<h1>Safe batch review: Hand over oracle management</h1>");
+    expect(html).to.contain('<li class="danger">');
+  });
+
+  it("labels the elements of address and bytes32 array arguments", async function () {
+    const managerRole = await aggregator.ORACLE_MANAGER_ROLE();
+    const batcher = new ethers.Interface(["function grantRoles(bytes32[] roles, address[] accounts)"]);
+    const batcherAddress = ethers.Wallet.createRandom().address;
+    const outsider = ethers.Wallet.createRandom().address;
+    await deployments.save("RoleBatcher", { address: batcherAddress, abi: JSON.parse(batcher.formatJson()) });
+
+    const review = await buildSafeBatchReview(hre, {
+      description: "Grant roles in bulk",
+      safeTxHash: ethers.ZeroHash,
+      safeAddress,
+      chainId: 31337,
+      transactions: [
+        { to: aggregatorAddress, value: "0", data: aggregator.interface.encodeFunctionData("grantRole", [managerRole, batcherAddress]) },
+        {
+          to: batcherAddress,
+          value: "0",
+          data: batcher.encodeFunctionData("grantRoles", [
+            [managerRole, ethers.ZeroHash],
+            [safeAddress, aggregatorAddress, outsider],
+          ]),
+        },
+      ],
+    });
+
+    expect(review.calls[1].args.map((arg) => [arg.name, arg.label])).to.deep.equal([
+      ["roles", "[ORACLE_MANAGER_ROLE, DEFAULT_ADMIN_ROLE]"],
+      ["accounts", "[Safe, OracleAggregatorV1_1, ?]"],
+    ]);
+    expect(review.calls[1].args[1].value).to.equal(JSON.stringify([safeAddress, aggregatorAddress, outsider]));
+  });
+});
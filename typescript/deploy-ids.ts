@@ -11,8 +11,7 @@ export const USD_HARD_PEG_ORACLE_WRAPPER_ID = "USD_HardPegOracleWrapper";
 
 // Pendle PT Oracles
 export const PENDLE_CHAINLINK_ORACLE_FACTORY_ID = "PendleChainlinkOracleFactory";
-export const PENDLE_PT_AUSDC_DECIMAL_CONVERTER_ID = "ChainlinkDecimalConverter_PT_aUSDC_14AUG2025";
-export const PENDLE_PT_WSTKSCUSD_DECIMAL_CONVERTER_ID = "ChainlinkDecimalConverter_PT_wstkscUSD_18DEC2025";
+// Per-PT oracle and converter ids are derived from the PT name, see typescript/pendle/pt-oracles.ts
 export const OS_TO_S_DECIMAL_CONVERTER_ID = "ChainlinkDecimalConverter_OS_to_S";
 export const WOS_TO_OS_DECIMAL_CONVERTER_ID = "ChainlinkDecimalConverter_wOS_to_OS";
 
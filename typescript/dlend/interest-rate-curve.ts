@@ -0,0 +1,416 @@
+import { Contract, formatUnits } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { POOL_DATA_PROVIDER_ID } from "../deploy-ids";
+import { formatBps, readStrategyFields, RESERVE_DRIFT_ABI, StrategyFields } from "./reserve-drift";
+
+export const RAY = 10n ** 27n;
+const HALF_RAY = RAY / 2n;
+const WAD_RAY_RATIO = 10n ** 9n;
+const PERCENTAGE_FACTOR = 10000n;
+const HALF_PERCENTAGE_FACTOR = PERCENTAGE_FACTOR / 2n;
+
+/** Liquidity (wad) the curves are sampled on; large enough that rounding matches the contract at every step */
+const CURVE_LIQUIDITY = 10n ** 24n;
+
+/**
+ * Reserve state fed to `DefaultReserveInterestRateStrategy.calculateInterestRates`. Amounts are
+ * in the reserve's units, `availableLiquidity` is the aToken balance plus added minus taken
+ * liquidity.
+ */
+export interface InterestRateInputs {
+  readonly availableLiquidity: bigint;
+  readonly totalVariableDebt: bigint;
+  readonly totalStableDebt?: bigint;
+  readonly averageStableBorrowRate?: bigint;
+  readonly unbacked?: bigint;
+  /** Reserve factor in basis points */
+  readonly reserveFactor: bigint;
+}
+
+/**
+ * Annual rates in ray, as returned by `calculateInterestRates`
+ */
+export interface InterestRates {
+  readonly liquidityRate: bigint;
+  readonly stableBorrowRate: bigint;
+  readonly variableBorrowRate: bigint;
+}
+
+export interface RateCurvePoint extends InterestRates {
+  /** Borrow usage ratio in basis points */
+  readonly utilizationBps: bigint;
+}
+
+/**
+ * Borrow and supply APR of one strategy across 0-100% utilization
+ */
+export interface RateCurve {
+  readonly label: string;
+  readonly strategy: StrategyFields;
+  readonly reserveFactor: bigint;
+  readonly points: RateCurvePoint[];
+}
+
+/**
+ * One utilization of a current vs proposed comparison
+ */
+export interface RateCurveComparisonRow {
+  readonly utilizationBps: bigint;
+  readonly current: InterestRates;
+  readonly proposed: InterestRates;
+  readonly variableBorrowRateDelta: bigint;
+  readonly liquidityRateDelta: bigint;
+}
+
+/**
+ * Rate setup of a listed reserve
+ */
+export interface DeployedReserveRates {
+  readonly asset: string;
+  readonly strategyAddress: string;
+  readonly strategy: StrategyFields;
+  readonly reserveFactor: bigint;
+}
+
+const CURVE_COLORS = ["#1f77b4", "#d62728", "#2ca02c", "#ff7f0e", "#9467bd", "#8c564b", "#e377c2", "#17becf"];
+
+/**
+ * Port of `DefaultReserveInterestRateStrategy.calculateInterestRates`, rounding half up like
+ * WadRayMath and PercentageMath so the results match the contract to the wei.
+ *
+ * @param strategy - Strategy parameters in ray (`baseStableRateOffset` as configured)
+ * @param inputs - Reserve state
+ * @returns Liquidity, stable and variable borrow rates in ray
+ */
+export function calculateInterestRates(strategy: StrategyFields, inputs: InterestRateInputs): InterestRates {
+  const totalStableDebt = inputs.totalStableDebt ?? 0n;
+  const totalDebt = totalStableDebt + inputs.totalVariableDebt;
+  let variableBorrowRate = strategy.baseVariableBorrowRate;
+  let stableBorrowRate = strategy.variableRateSlope1 + strategy.baseStableRateOffset;
+  let stableToTotalDebtRatio = 0n;
+  let borrowUsageRatio = 0n;
+  let supplyUsageRatio = 0n;
+
+  if (totalDebt !== 0n) {
+    stableToTotalDebtRatio = rayDiv(totalStableDebt, totalDebt);
+    const availableLiquidityPlusDebt = inputs.availableLiquidity + totalDebt;
+    borrowUsageRatio = rayDiv(totalDebt, availableLiquidityPlusDebt);
+    supplyUsageRatio = rayDiv(totalDebt, availableLiquidityPlusDebt + (inputs.unbacked ?? 0n));
+  }
+
+  if (borrowUsageRatio > strategy.optimalUsageRatio) {
+    const excessBorrowUsageRatio = rayDiv(borrowUsageRatio - strategy.optimalUsageRatio, RAY - strategy.optimalUsageRatio);
+    stableBorrowRate += strategy.stableRateSlope1 + rayMul(strategy.stableRateSlope2, excessBorrowUsageRatio);
+    variableBorrowRate += strategy.variableRateSlope1 + rayMul(strategy.variableRateSlope2, excessBorrowUsageRatio);
+  } else {
+    stableBorrowRate += rayDiv(rayMul(strategy.stableRateSlope1, borrowUsageRatio), strategy.optimalUsageRatio);
+    variableBorrowRate += rayDiv(rayMul(strategy.variableRateSlope1, borrowUsageRatio), strategy.optimalUsageRatio);
+  }
+
+  if (stableToTotalDebtRatio > strategy.optimalStableToTotalDebtRatio) {
+    const excessStableDebtRatio = rayDiv(
+      stableToTotalDebtRatio - strategy.optimalStableToTotalDebtRatio,
+      RAY - strategy.optimalStableToTotalDebtRatio,
+    );
+    stableBorrowRate += rayMul(strategy.stableRateExcessOffset, excessStableDebtRatio);
+  }
+
+  const overallBorrowRate =
+    totalDebt === 0n
+      ? 0n
+      : rayDiv(
+          rayMul(inputs.totalVariableDebt * WAD_RAY_RATIO, variableBorrowRate) +
+            rayMul(totalStableDebt * WAD_RAY_RATIO, inputs.averageStableBorrowRate ?? 0n),
+          totalDebt * WAD_RAY_RATIO,
+        );
+  const liquidityRate = percentMul(rayMul(overallBorrowRate, supplyUsageRatio), PERCENTAGE_FACTOR - inputs.reserveFactor);
+
+  return { liquidityRate, stableBorrowRate, variableBorrowRate };
+}
+
+/**
+ * Rates at a given utilization when all debt is variable
+ *
+ * @param strategy - Strategy parameters in ray
+ * @param reserveFactor - Reserve factor in basis points
+ * @param utilizationBps - Borrow usage ratio in basis points
+ * @returns The rates the contract returns for that utilization
+ */
+export function ratesAtUtilization(strategy: StrategyFields, reserveFactor: bigint, utilizationBps: bigint): InterestRates {
+  const totalVariableDebt = (CURVE_LIQUIDITY * utilizationBps) / PERCENTAGE_FACTOR;
+  return calculateInterestRates(strategy, {
+    availableLiquidity: CURVE_LIQUIDITY - totalVariableDebt,
+    totalVariableDebt,
+    reserveFactor,
+  });
+}
+
+/**
+ * Sample a strategy from 0% to 100% utilization
+ *
+ * @param label - Curve name used in CSV headers and the SVG legend
+ * @param strategy - Strategy parameters in ray
+ * @param reserveFactor - Reserve factor in basis points
+ * @param stepBps - Utilization step in basis points (default: 1%)
+ * @returns The sampled curve, always including 0% and 100%
+ */
+export function buildRateCurve(label: string, strategy: StrategyFields, reserveFactor: bigint, stepBps = 100n): RateCurve {
+  if (stepBps <= 0n || stepBps > PERCENTAGE_FACTOR) {
+    throw new Error(`Utilization step must be between 1 and ${PERCENTAGE_FACTOR} bps, got ${stepBps}`);
+  }
+
+  if (strategy.optimalUsageRatio === 0n) {
+    throw new Error(`${label} has a zero optimalUsageRatio; DefaultReserveInterestRateStrategy reverts on it`);
+  }
+
+  const points: RateCurvePoint[] = [];
+
+  for (let utilizationBps = 0n; utilizationBps < PERCENTAGE_FACTOR; utilizationBps += stepBps) {
+    points.push({ utilizationBps, ...ratesAtUtilization(strategy, reserveFactor, utilizationBps) });
+  }
+  points.push({ utilizationBps: PERCENTAGE_FACTOR, ...ratesAtUtilization(strategy, reserveFactor, PERCENTAGE_FACTOR) });
+
+  return { label, strategy, reserveFactor, points };
+}
+
+/**
+ * Compare two curves every 10% and at both optimal usage ratios
+ *
+ * @param current - Curve of the deployed strategy
+ * @param proposed - Curve of the proposed strategy
+ * @returns One row per utilization, in ascending order
+ */
+export function compareRateCurves(current: RateCurve, proposed: RateCurve): RateCurveComparisonRow[] {
+  const kinks = [current, proposed].map((curve) => (curve.strategy.optimalUsageRatio * PERCENTAGE_FACTOR) / RAY);
+  const utilizations = [...new Set([...Array.from({ length: 11 }, (_, index) => BigInt(index) * 1000n), ...kinks])].sort((a, b) =>
+    a < b ? -1 : a > b ? 1 : 0,
+  );
+
+  return utilizations.map((utilizationBps) => {
+    const currentRates = ratesAtUtilization(current.strategy, current.reserveFactor, utilizationBps);
+    const proposedRates = ratesAtUtilization(proposed.strategy, proposed.reserveFactor, utilizationBps);
+    return {
+      utilizationBps,
+      current: currentRates,
+      proposed: proposedRates,
+      variableBorrowRateDelta: proposedRates.variableBorrowRate - currentRates.variableBorrowRate,
+      liquidityRateDelta: proposedRates.liquidityRate - currentRates.liquidityRate,
+    };
+  });
+}
+
+/**
+ * Read the strategy and reserve factor a reserve currently uses
+ *
+ * @param hre - Hardhat runtime
+ * @param asset - Reserve asset
+ * @returns The deployed strategy parameters and reserve factor
+ */
+export async function readDeployedReserveRates(hre: HardhatRuntimeEnvironment, asset: string): Promise<DeployedReserveRates> {
+  const runner = hre.ethers.provider;
+  const dataProvider = new Contract((await hre.deployments.get(POOL_DATA_PROVIDER_ID)).address, RESERVE_DRIFT_ABI, runner);
+  const [strategyAddress, configuration] = await Promise.all([
+    dataProvider.getInterestRateStrategyAddress(asset),
+    dataProvider.getReserveConfigurationData(asset),
+  ]);
+
+  if (BigInt(strategyAddress) === 0n) {
+    throw new Error(`${asset} is not listed on the pool`);
+  }
+
+  return {
+    asset,
+    strategyAddress,
+    strategy: await readStrategyFields(new Contract(strategyAddress, RESERVE_DRIFT_ABI, runner)),
+    reserveFactor: configuration.reserveFactor,
+  };
+}
+
+/**
+ * Format an annual rate in ray as a percentage with fixed precision
+ *
+ * @param ray - Rate in ray (1e27 = 100%)
+ * @param decimals - Digits after the decimal point
+ * @returns E.g. "4.1250"
+ */
+export function formatRatePercent(ray: bigint, decimals = 4): string {
+  return Number(formatUnits(ray, 25)).toFixed(decimals);
+}
+
+/**
+ * Render curves sampled on the same utilization steps as CSV, one borrow and one supply column
+ * per curve
+ *
+ * @param curves - Curves from `buildRateCurve`
+ * @returns CSV with a header row, rates in percent
+ */
+export function formatRateCurvesCsv(curves: RateCurve[]): string {
+  assertSameSteps(curves);
+  const header = ["utilization_pct", ...curves.flatMap((curve) => [`${curve.label} borrow_apr_pct`, `${curve.label} supply_apr_pct`])];
+  const rows = curves[0].points.map((point, index) => [
+    formatUnits(point.utilizationBps, 2),
+    ...curves.flatMap((curve) => [
+      formatRatePercent(curve.points[index].variableBorrowRate),
+      formatRatePercent(curve.points[index].liquidityRate),
+    ]),
+  ]);
+  return `${[header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n")}\n`;
+}
+
+/**
+ * Render curves as an SVG line chart: solid lines for borrow APR, dashed for supply APR
+ *
+ * @param curves - Curves from `buildRateCurve`
+ * @param title - Chart title
+ * @returns A standalone SVG document
+ */
+export function renderRateCurvesSvg(curves: RateCurve[], title = "dLEND interest rate curves"): string {
+  const [width, height] = [900, 520];
+  const plot = { left: 70, right: 240, top: 50, bottom: 60 };
+  const plotWidth = width - plot.left - plot.right;
+  const plotHeight = height - plot.top - plot.bottom;
+  const maxRate = Math.max(...curves.flatMap((curve) => curve.points.map((point) => Number(formatUnits(point.variableBorrowRate, 25)))));
+  const yMax = niceCeiling(maxRate);
+  const x = (utilizationBps: bigint): number => plot.left + (Number(utilizationBps) / 10000) * plotWidth;
+  const y = (rate: bigint): number => plot.top + plotHeight - (Number(formatUnits(rate, 25)) / yMax) * plotHeight;
+  const fixed = (value: number): string => value.toFixed(1);
+  const lines: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="sans-serif" font-size="12">`,
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+    `<text x="${plot.left}" y="28" font-size="16" font-weight="bold">${escapeXml(title)}</text>`,
+  ];
+
+  for (let tick = 0; tick <= 10; tick++) {
+    const tickX = fixed(plot.left + (tick / 10) * plotWidth);
+    lines.push(
+      `<line x1="${tickX}" y1="${plot.top}" x2="${tickX}" y2="${plot.top + plotHeight}" stroke="#e5e5e5"/>`,
+      `<text x="${tickX}" y="${plot.top + plotHeight + 18}" text-anchor="middle">${tick * 10}%</text>`,
+    );
+  }
+
+  for (let tick = 0; tick <= 5; tick++) {
+    const tickY = fixed(plot.top + plotHeight - (tick / 5) * plotHeight);
+    lines.push(
+      `<line x1="${plot.left}" y1="${tickY}" x2="${plot.left + plotWidth}" y2="${tickY}" stroke="#e5e5e5"/>`,
+      `<text x="${plot.left - 8}" y="${tickY}" text-anchor="end" dominant-baseline="middle">${+((yMax * tick) / 5).toFixed(2)}%</text>`,
+    );
+  }
+
+  lines.push(
+    `<rect x="${plot.left}" y="${plot.top}" width="${plotWidth}" height="${plotHeight}" fill="none" stroke="#333333"/>`,
+    `<text x="${plot.left + plotWidth / 2}" y="${height - 18}" text-anchor="middle">Utilization</text>`,
+    `<text x="18" y="${plot.top + plotHeight / 2}" text-anchor="middle" transform="rotate(-90 18 ${plot.top + plotHeight / 2})">APR</text>`,
+  );
+
+  curves.forEach((curve, index) => {
+    const color = CURVE_COLORS[index % CURVE_COLORS.length];
+    const polyline = (rate: (point: RateCurvePoint) => bigint, dash: string): string =>
+      `<polyline fill="none" stroke="${color}" stroke-width="2"${dash} points="${curve.points
+        .map((point) => `${fixed(x(point.utilizationBps))},${fixed(y(rate(point)))}`)
+        .join(" ")}"/>`;
+    const legendY = plot.top + 10 + index * 40;
+    const legendX = plot.left + plotWidth + 16;
+
+    lines.push(
+      polyline((point) => point.variableBorrowRate, ""),
+      polyline((point) => point.liquidityRate, ' stroke-dasharray="6 4"'),
+      `<line x1="${legendX}" y1="${legendY}" x2="${legendX + 24}" y2="${legendY}" stroke="${color}" stroke-width="2"/>`,
+      `<text x="${legendX + 30}" y="${legendY}" dominant-baseline="middle">${escapeXml(curve.label)} borrow</text>`,
+      `<line x1="${legendX}" y1="${legendY + 16}" x2="${legendX + 24}" y2="${legendY + 16}" stroke="${color}" stroke-width="2" stroke-dasharray="6 4"/>`,
+      `<text x="${legendX + 30}" y="${legendY + 16}" dominant-baseline="middle">supply (RF ${formatBps(curve.reserveFactor)})</text>`,
+    );
+  });
+
+  lines.push("</svg>");
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * WadRayMath.rayMul
+ *
+ * @param a - Ray
+ * @param b - Ray
+ * @returns a * b in ray, rounded half up
+ */
+function rayMul(a: bigint, b: bigint): bigint {
+  return (a * b + HALF_RAY) / RAY;
+}
+
+/**
+ * WadRayMath.rayDiv
+ *
+ * @param a - Ray
+ * @param b - Ray
+ * @returns a / b in ray, rounded half up
+ */
+function rayDiv(a: bigint, b: bigint): bigint {
+  if (b === 0n) {
+    throw new Error("rayDiv by zero");
+  }
+  return (a * RAY + b / 2n) / b;
+}
+
+/**
+ * PercentageMath.percentMul
+ *
+ * @param value - Value to scale
+ * @param percentage - Percentage in basis points
+ * @returns value * percentage / 10000, rounded half up
+ */
+function percentMul(value: bigint, percentage: bigint): bigint {
+  return (value * percentage + HALF_PERCENTAGE_FACTOR) / PERCENTAGE_FACTOR;
+}
+
+/**
+ * Curves are rendered side by side, so they must share their utilization steps
+ *
+ * @param curves - Curves to render
+ */
+function assertSameSteps(curves: RateCurve[]): void {
+  if (curves.length === 0) {
+    throw new Error("No rate curves to render");
+  }
+
+  const steps = curves[0].points.map((point) => point.utilizationBps).join(",");
+
+  for (const curve of curves) {
+    if (curve.points.map((point) => point.utilizationBps).join(",") !== steps) {
+      throw new Error(`${curve.label} is sampled on different utilization steps than ${curves[0].label}`);
+    }
+  }
+}
+
+/**
+ * Round the top of the Y axis up to a readable value
+ *
+ * @param percent - Highest rate on the chart, in percent
+ * @returns 1, 2 or 5 times a power of ten, at least 1%
+ */
+function niceCeiling(percent: number): number {
+  if (percent <= 1) {
+    return 1;
+  }
+  const magnitude = 10 ** Math.floor(Math.log10(percent));
+  return [1, 2, 5, 10].map((factor) => factor * magnitude).find((candidate) => candidate >= percent)!;
+}
+
+/**
+ * Quote a CSV cell when it contains a separator, quote or newline
+ *
+ * @param value - Cell text
+ * @returns The cell as written to the CSV
+ */
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Escape text placed in SVG elements and attributes
+ *
+ * @param value - Raw text
+ * @returns XML-safe text
+ */
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
@@ -0,0 +1,508 @@
+import { BrowserProvider, Contract, ContractFactory, MaxUint256 } from "ethers";
+import { EthereumProvider, HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { createNetworkFork } from "../../.shared/lib/fork";
+import { DLendStressScenario } from "../../config/dlend/types";
+import { POOL_ADDRESSES_PROVIDER_ID, POOL_DATA_PROVIDER_ID } from "../deploy-ids";
+import { RAY } from "./interest-rate-curve";
+import { findPoolAccounts, PositionReport, PositionScanReport, ReserveMarket, scanPositions } from "./position-scanner";
+import { resolveReserveAsset } from "./reserve-offboarding";
+
+const PERCENTAGE_FACTOR = 10000n;
+
+export const ORACLE_STRESS_ABI = [
+  // PoolAddressesProvider
+  "function getPool() view returns (address)",
+  "function getPriceOracle() view returns (address)",
+  // AaveOracle
+  "function getSourceOfAsset(address asset) view returns (address)",
+  // OracleAggregatorV1_1
+  "function ORACLE_MANAGER_ROLE() view returns (bytes32)",
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "function BASE_CURRENCY() view returns (address)",
+  "function BASE_CURRENCY_UNIT() view returns (uint256)",
+  "function getAssetPrice(address asset) view returns (uint256)",
+  "function setOracle(address asset, address oracle)",
+  // MockOracleAggregator
+  "function setPrice(address asset, uint256 price, bool isAlive)",
+  // AaveProtocolDataProvider
+  "function getReserveTokensAddresses(address asset) view returns (address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress)",
+  "function getReserveData(address asset) view returns (uint256 unbacked, uint256 accruedToTreasuryScaled, uint256 totalAToken, uint256 totalStableDebt, uint256 totalVariableDebt, uint256 liquidityRate, uint256 variableBorrowRate, uint256 stableBorrowRate, uint256 averageStableBorrowRate, uint256 liquidityIndex, uint256 variableBorrowIndex, uint40 lastUpdateTimestamp)",
+  // AToken
+  "function RESERVE_TREASURY_ADDRESS() view returns (address)",
+  // ERC20
+  "function balanceOf(address account) view returns (uint256)",
+];
+
+/**
+ * A reserve re-priced by a scenario, prices in the AaveOracle base currency
+ */
+export interface ReservePriceShock {
+  readonly asset: string;
+  readonly symbol: string;
+  /** Price change in bps, e.g. -3000 */
+  readonly shockBps: bigint;
+  readonly priceBefore: bigint;
+  readonly priceAfter: bigint;
+}
+
+/**
+ * What the treasury holds of one reserve: aTokens, accruals not yet minted and the underlying
+ */
+export interface TreasuryHolding {
+  readonly asset: string;
+  readonly treasury: string;
+  readonly aTokenBalance: bigint;
+  readonly accruedToTreasury: bigint;
+  readonly underlyingBalance: bigint;
+}
+
+/**
+ * Bad debt left in one debt reserve once every insolvent position is liquidated
+ */
+export interface ReserveBadDebt {
+  readonly asset: string;
+  readonly symbol: string;
+  readonly accounts: number;
+  readonly badDebt: bigint;
+  readonly badDebtBase: bigint;
+  /** Treasury holdings of the same reserve */
+  readonly treasuryBalance: bigint;
+  readonly treasuryBalanceBase: bigint;
+  readonly covered: boolean;
+}
+
+export interface StressedPosition extends PositionReport {
+  readonly healthFactorBefore: bigint;
+  /** Debt left once liquidators seized all collateral at its bonus, in base currency */
+  readonly shortfallBase: bigint;
+}
+
+export interface StressScenarioResult {
+  readonly name: string;
+  readonly description?: string;
+  readonly shocks: ReservePriceShock[];
+  /** Shock keys that do not resolve to a listed reserve */
+  readonly skipped: string[];
+  readonly borrowers: number;
+  readonly liquidatableBefore: number;
+  readonly liquidatable: number;
+  /** Liquidatable accounts that were not liquidatable before the shock, lowest health factor first */
+  readonly newlyLiquidatable: StressedPosition[];
+  /** Accounts whose debt exceeds what their collateral repays, largest shortfall first */
+  readonly insolvent: StressedPosition[];
+  readonly liquidatableDebtBase: bigint;
+  readonly badDebtBase: bigint;
+  readonly treasuryBase: bigint;
+  readonly treasuryCovers: boolean;
+  /** Debt reserves carrying bad debt, largest first */
+  readonly reserves: ReserveBadDebt[];
+}
+
+export interface OracleStressReport {
+  readonly network: string;
+  readonly forkBlockNumber: number;
+  readonly baseCurrencyDecimals: number;
+  readonly accountsScanned: number;
+  readonly treasuries: string[];
+  readonly scenarios: StressScenarioResult[];
+}
+
+export interface OracleStressOptions {
+  /** `config.tokenAddresses`, used to resolve shock keys */
+  readonly tokenAddresses: Record<string, string | undefined>;
+  /** Accounts tried, in order, as holder of ORACLE_MANAGER_ROLE on the aggregator (Safe, timelock, deployer) */
+  readonly oracleManagers: string[];
+  /** Block to fork from when stressing a live network (default: latest) */
+  readonly forkBlockNumber?: number;
+  /** First block scanned for Supply and Borrow events (default: 0) */
+  readonly fromBlock?: number;
+  /** Blocks per `eth_getLogs` request (default: 10000) */
+  readonly logChunkSize?: number;
+  /** Multicall3 address (default: canonical deployment, falls back to single calls) */
+  readonly multicallAddress?: string;
+}
+
+/**
+ * Replay oracle shocks on a fork: every scenario swaps a MockOracleAggregator in through
+ * `OracleAggregatorV1_1.setOracle` as the oracle manager, re-reads every known position and
+ * reports liquidations, bad debt per reserve and treasury coverage. Live networks are stressed
+ * on an in-process fork; the hardhat network is used directly. Each scenario is rolled back
+ * with a snapshot.
+ *
+ * @param hre - Hardhat runtime of the network to stress
+ * @param scenarios - Scenarios to replay
+ * @param options - Token addresses, oracle managers and scan range
+ * @returns The stress report
+ */
+export async function runOracleStressTest(
+  hre: HardhatRuntimeEnvironment,
+  scenarios: DLendStressScenario[],
+  options: OracleStressOptions,
+): Promise<OracleStressReport> {
+  validateStressScenarios(scenarios);
+
+  const fork = await createNetworkFork(hre, { blockNumber: options.forkBlockNumber, purpose: "the oracle stress test" });
+  const provider = new BrowserProvider(fork);
+  const forkBlockNumber = Number(await fork.request({ method: "eth_blockNumber" }));
+  const addressesProvider = new Contract((await hre.deployments.get(POOL_ADDRESSES_PROVIDER_ID)).address, ORACLE_STRESS_ABI, provider);
+  const dataProvider = new Contract((await hre.deployments.get(POOL_DATA_PROVIDER_ID)).address, ORACLE_STRESS_ABI, provider);
+  const priceOracle = new Contract(await addressesProvider.getPriceOracle(), ORACLE_STRESS_ABI, provider);
+
+  // Logs come from the network itself: the fork would proxy every historical range anyway
+  const accounts = await findPoolAccounts(hre.ethers.provider, await addressesProvider.getPool(), {
+    fromBlock: options.fromBlock ?? 0,
+    toBlock: forkBlockNumber,
+    logChunkSize: options.logChunkSize,
+  });
+  const scan = async (): Promise<PositionScanReport> =>
+    scanPositions(hre, {
+      healthFactorThreshold: MaxUint256,
+      fromBlock: options.fromBlock,
+      toBlock: forkBlockNumber,
+      multicallAddress: options.multicallAddress,
+      provider,
+      accounts,
+    });
+
+  const baseline = await scan();
+  const treasury = await readTreasuryHoldings(dataProvider, baseline.markets);
+  const listed = new Map(baseline.markets.map((market) => [market.asset.toLowerCase(), market]));
+  const results: StressScenarioResult[] = [];
+
+  for (const scenario of scenarios) {
+    const shocks = new Map<string, bigint>();
+    const skipped: string[] = [];
+
+    for (const [key, percent] of Object.entries(scenario.shocks)) {
+      const asset = await resolveReserveAsset(hre, key, options.tokenAddresses).catch(() => undefined);
+
+      if (asset && listed.has(asset.toLowerCase())) {
+        shocks.set(listed.get(asset.toLowerCase())!.asset, percentToBps(percent));
+      } else {
+        skipped.push(key);
+      }
+    }
+
+    const snapshotId = await fork.request({ method: "evm_snapshot" });
+
+    try {
+      await applyPriceShocks(hre, fork, priceOracle, shocks, options.oracleManagers);
+      results.push(assessStressScenario(scenario, shocks, skipped, baseline, await scan(), treasury));
+    } finally {
+      await fork.request({ method: "evm_revert", params: [snapshotId] });
+    }
+  }
+
+  return {
+    network: hre.network.name,
+    forkBlockNumber,
+    baseCurrencyDecimals: baseline.baseCurrencyDecimals,
+    accountsScanned: baseline.accountsScanned,
+    treasuries: [...new Set(treasury.map((holding) => holding.treasury))],
+    scenarios: results,
+  };
+}
+
+/**
+ * Compare the positions before and after a scenario's shocks: newly liquidatable accounts,
+ * insolvent accounts and their bad debt spread over the debt reserves, and whether the
+ * treasury's holdings at the shocked prices cover it
+ *
+ * @param scenario - Scenario name and description
+ * @param shocks - Applied shocks in bps, keyed by reserve asset
+ * @param skipped - Shock keys that were not applied
+ * @param baseline - Every borrower before the shocks
+ * @param stressed - Every borrower after the shocks
+ * @param treasury - Treasury holdings per reserve
+ * @returns The scenario result
+ */
+export function assessStressScenario(
+  scenario: Pick<DLendStressScenario, "name" | "description">,
+  shocks: Map<string, bigint>,
+  skipped: string[],
+  baseline: PositionScanReport,
+  stressed: PositionScanReport,
+  treasury: TreasuryHolding[],
+): StressScenarioResult {
+  const marketBefore = new Map(baseline.markets.map((market) => [market.asset.toLowerCase(), market]));
+  const marketAfter = new Map(stressed.markets.map((market) => [market.asset.toLowerCase(), market]));
+  const before = new Map(baseline.positions.map((position) => [position.user, position]));
+  const positions: StressedPosition[] = stressed.positions.map((position) => ({
+    ...position,
+    healthFactorBefore: before.get(position.user)?.healthFactor ?? MaxUint256,
+    shortfallBase: positionShortfall(position, stressed.markets),
+  }));
+
+  const badDebt = new Map<string, { badDebtBase: bigint; users: Set<string> }>();
+
+  for (const position of positions.filter((entry) => entry.shortfallBase > 0n)) {
+    const debtBase = position.debt.reduce((total, amount) => total + amount.valueBase, 0n);
+
+    for (const amount of position.debt) {
+      const key = amount.asset.toLowerCase();
+      const total = badDebt.get(key) ?? { badDebtBase: 0n, users: new Set<string>() };
+      total.badDebtBase += debtBase === 0n ? 0n : (position.shortfallBase * amount.valueBase) / debtBase;
+      total.users.add(position.user);
+      badDebt.set(key, total);
+    }
+  }
+
+  const holdings = new Map(treasury.map((holding) => [holding.asset.toLowerCase(), holding]));
+
+  const treasuryBalance = (asset: string): bigint => {
+    const holding = holdings.get(asset.toLowerCase());
+    return holding ? holding.aTokenBalance + holding.accruedToTreasury + holding.underlyingBalance : 0n;
+  };
+  const reserves: ReserveBadDebt[] = [...badDebt.entries()]
+    .map(([key, total]) => {
+      const market = marketAfter.get(key)!;
+      const balance = treasuryBalance(market.asset);
+      const amount = market.price === 0n ? 0n : (total.badDebtBase * 10n ** BigInt(market.decimals)) / market.price;
+      return {
+        asset: market.asset,
+        symbol: market.symbol,
+        accounts: total.users.size,
+        badDebt: amount,
+        badDebtBase: total.badDebtBase,
+        treasuryBalance: balance,
+        treasuryBalanceBase: valueBase(market, balance),
+        covered: balance >= amount,
+      };
+    })
+    .sort((a, b) => compareDescending(a.badDebtBase, b.badDebtBase));
+
+  const liquidatable = positions.filter((position) => position.liquidatable);
+  const badDebtBase = reserves.reduce((total, reserve) => total + reserve.badDebtBase, 0n);
+  const treasuryBase = stressed.markets.reduce((total, market) => total + valueBase(market, treasuryBalance(market.asset)), 0n);
+
+  return {
+    name: scenario.name,
+    description: scenario.description,
+    shocks: [...shocks.entries()].map(([asset, shockBps]) => ({
+      asset,
+      symbol: marketAfter.get(asset.toLowerCase())?.symbol ?? asset,
+      shockBps,
+      priceBefore: marketBefore.get(asset.toLowerCase())?.price ?? 0n,
+      priceAfter: marketAfter.get(asset.toLowerCase())?.price ?? 0n,
+    })),
+    skipped,
+    borrowers: stressed.borrowers,
+    liquidatableBefore: baseline.positions.filter((position) => position.liquidatable).length,
+    liquidatable: liquidatable.length,
+    newlyLiquidatable: liquidatable.filter((position) => !before.get(position.user)?.liquidatable),
+    insolvent: positions
+      .filter((position) => position.shortfallBase > 0n)
+      .sort((a, b) => compareDescending(a.shortfallBase, b.shortfallBase)),
+    liquidatableDebtBase: liquidatable.reduce((total, position) => total + position.totalDebtBase, 0n),
+    badDebtBase,
+    treasuryBase,
+    treasuryCovers: treasuryBase >= badDebtBase,
+    reserves,
+  };
+}
+
+/**
+ * Debt a position leaves behind once liquidators seize all of its collateral: each collateral
+ * repays its value divided by its liquidation bonus
+ *
+ * @param position - Position report with its collateral and debt breakdown
+ * @param markets - Listed reserves at the prices the position was valued at
+ * @returns The shortfall in base currency, 0 for solvent positions
+ */
+export function positionShortfall(position: PositionReport, markets: ReserveMarket[]): bigint {
+  const bonus = new Map(markets.map((market) => [market.asset.toLowerCase(), market.liquidationBonus]));
+  const debtBase = position.debt.reduce((total, amount) => total + amount.valueBase, 0n);
+  const repayableBase = position.collateral.reduce((total, amount) => {
+    const liquidationBonus = bonus.get(amount.asset.toLowerCase()) ?? 0n;
+    return total + (liquidationBonus === 0n ? amount.valueBase : (amount.valueBase * PERCENTAGE_FACTOR) / liquidationBonus);
+  }, 0n);
+  return debtBase > repayableBase ? debtBase - repayableBase : 0n;
+}
+
+/**
+ * Check that scenario names are unique and every shock is a finite change above -100%
+ *
+ * @param scenarios - Scenarios to check
+ */
+export function validateStressScenarios(scenarios: DLendStressScenario[]): void {
+  const names = new Set<string>();
+
+  for (const scenario of scenarios) {
+    if (!scenario.name || names.has(scenario.name)) {
+      throw new Error(`Stress scenario names must be unique and non-empty: "${scenario.name}"`);
+    }
+    names.add(scenario.name);
+
+    if (Object.keys(scenario.shocks).length === 0) {
+      throw new Error(`Stress scenario ${scenario.name} has no shocks`);
+    }
+
+    for (const [reserve, percent] of Object.entries(scenario.shocks)) {
+      if (!Number.isFinite(percent) || percent <= -100) {
+        throw new Error(`Stress scenario ${scenario.name}: shock for ${reserve} must be a percentage above -100, got ${percent}`);
+      }
+    }
+  }
+}
+
+/**
+ * Re-price the shocked reserves: deploy one MockOracleAggregator per aggregator seeded with the
+ * shocked prices and route the reserves to it through `setOracle`, sent from the first account
+ * holding ORACLE_MANAGER_ROLE
+ *
+ * @param hre - Hardhat runtime, for the MockOracleAggregator artifact
+ * @param fork - Fork provider
+ * @param priceOracle - AaveOracle on the fork
+ * @param shocks - Shocks in bps, keyed by reserve asset
+ * @param managers - Candidate oracle managers
+ */
+async function applyPriceShocks(
+  hre: HardhatRuntimeEnvironment,
+  fork: EthereumProvider,
+  priceOracle: Contract,
+  shocks: Map<string, bigint>,
+  managers: string[],
+): Promise<void> {
+  const runner = priceOracle.runner;
+  const byAggregator = new Map<string, string[]>();
+
+  for (const asset of shocks.keys()) {
+    const aggregator: string = await priceOracle.getSourceOfAsset(asset);
+    byAggregator.set(aggregator, [...(byAggregator.get(aggregator) ?? []), asset]);
+  }
+
+  const artifact = await hre.artifacts.readArtifact("MockOracleAggregator");
+
+  for (const [address, assets] of byAggregator) {
+    const aggregator = new Contract(address, ORACLE_STRESS_ABI, runner);
+    const role: string = await aggregator.ORACLE_MANAGER_ROLE();
+    let manager: string | undefined;
+
+    for (const candidate of managers) {
+      if (await aggregator.hasRole(role, candidate)) {
+        manager = candidate;
+        break;
+      }
+    }
+
+    if (!manager) {
+      throw new Error(`None of ${managers.join(", ")} holds ORACLE_MANAGER_ROLE on aggregator ${address}`);
+    }
+
+    const deployment = await new ContractFactory(artifact.abi, artifact.bytecode).getDeployTransaction(
+      await aggregator.BASE_CURRENCY(),
+      await aggregator.BASE_CURRENCY_UNIT(),
+    );
+
+    await fork.request({ method: "hardhat_impersonateAccount", params: [manager] });
+
+    try {
+      const mock = (await sendAs(fork, manager, undefined, deployment.data)).contractAddress!;
+
+      for (const asset of assets) {
+        const price: bigint = await aggregator.getAssetPrice(asset);
+        const shocked = (price * (PERCENTAGE_FACTOR + shocks.get(asset)!)) / PERCENTAGE_FACTOR;
+        await sendAs(fork, manager, mock, aggregator.interface.encodeFunctionData("setPrice", [asset, shocked, true]));
+        await sendAs(fork, manager, address, aggregator.interface.encodeFunctionData("setOracle", [asset, mock]));
+      }
+    } finally {
+      await fork.request({ method: "hardhat_stopImpersonatingAccount", params: [manager] });
+    }
+  }
+}
+
+/**
+ * Send a transaction from an impersonated account without paying gas
+ *
+ * @param fork - Fork provider
+ * @param from - Impersonated sender
+ * @param to - Target, undefined for a deployment
+ * @param data - Calldata or init code
+ * @returns The receipt
+ */
+async function sendAs(
+  fork: EthereumProvider,
+  from: string,
+  to: string | undefined,
+  data: string,
+): Promise<{ status: string; contractAddress?: string }> {
+  await fork.request({ method: "hardhat_setNextBlockBaseFeePerGas", params: ["0x0"] });
+  const hash = await fork.request({
+    method: "eth_sendTransaction",
+    params: [{ from, to, data, maxFeePerGas: "0x0", maxPriorityFeePerGas: "0x0" }],
+  });
+  const receipt = (await fork.request({ method: "eth_getTransactionReceipt", params: [hash] })) as {
+    status: string;
+    contractAddress?: string;
+  };
+
+  if (BigInt(receipt.status) !== 1n) {
+    throw new Error(`Transaction from ${from} to ${to ?? "a new contract"} reverted`);
+  }
+  return receipt;
+}
+
+/**
+ * Read the treasury's aToken balance, unminted accruals and underlying balance of every reserve
+ *
+ * @param dataProvider - AaveProtocolDataProvider
+ * @param markets - Listed reserves
+ * @returns One holding per reserve
+ */
+async function readTreasuryHoldings(dataProvider: Contract, markets: ReserveMarket[]): Promise<TreasuryHolding[]> {
+  const runner = dataProvider.runner;
+
+  return Promise.all(
+    markets.map(async (market) => {
+      const [tokens, reserveData]: [{ aTokenAddress: string }, { accruedToTreasuryScaled: bigint; liquidityIndex: bigint }] =
+        await Promise.all([dataProvider.getReserveTokensAddresses(market.asset), dataProvider.getReserveData(market.asset)]);
+      const aToken = new Contract(tokens.aTokenAddress, ORACLE_STRESS_ABI, runner);
+      const treasury: string = await aToken.RESERVE_TREASURY_ADDRESS();
+      const [aTokenBalance, underlyingBalance] = await Promise.all([
+        aToken.balanceOf(treasury),
+        new Contract(market.asset, ORACLE_STRESS_ABI, runner).balanceOf(treasury),
+      ]);
+      return {
+        asset: market.asset,
+        treasury,
+        aTokenBalance,
+        // WadRayMath.rayMul, as AToken.balanceOf scales the accruals once minted
+        accruedToTreasury: (reserveData.accruedToTreasuryScaled * reserveData.liquidityIndex + RAY / 2n) / RAY,
+        underlyingBalance,
+      };
+    }),
+  );
+}
+
+/**
+ * Convert a percentage to basis points
+ *
+ * @param percent - Percentage, e.g. -30 or 2.5
+ * @returns The change in bps
+ */
+function percentToBps(percent: number): bigint {
+  return BigInt(Math.round(percent * 100));
+}
+
+/**
+ * Value a reserve amount in the oracle base currency
+ *
+ * @param market - Reserve
+ * @param amount - Amount in the reserve's decimals
+ * @returns The base currency value
+ */
+function valueBase(market: ReserveMarket, amount: bigint): bigint {
+  return (amount * market.price) / 10n ** BigInt(market.decimals);
+}
+
+/**
+ * Sort comparator for bigints, largest first
+ *
+ * @param a - First value
+ * @param b - Second value
+ * @returns Negative when a sorts first
+ */
+function compareDescending(a: bigint, b: bigint): number {
+  return a > b ? -1 : a < b ? 1 : 0;
+}
@@ -0,0 +1,712 @@
+import { Contract, formatUnits, getAddress, id, Interface, Provider } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { DEFAULT_MULTICALL3_ADDRESS, executeMulticallBatches } from "../../.shared/lib/roles/multicall";
+import { POOL_ADDRESSES_PROVIDER_ID, POOL_DATA_PROVIDER_ID } from "../deploy-ids";
+import { getCloseFactorHFThreshold } from "./helpers";
+
+/** Health factor below which a position can be liquidated (LiquidationLogic.HEALTH_FACTOR_LIQUIDATION_THRESHOLD) */
+export const HEALTH_FACTOR_LIQUIDATION_THRESHOLD = 10n ** 18n;
+/** Close factor above `CLOSE_FACTOR_HF_THRESHOLD` (LiquidationLogic.DEFAULT_LIQUIDATION_CLOSE_FACTOR) */
+export const DEFAULT_LIQUIDATION_CLOSE_FACTOR = 5000n;
+/** Close factor at or below `CLOSE_FACTOR_HF_THRESHOLD` (LiquidationLogic.MAX_LIQUIDATION_CLOSE_FACTOR) */
+export const MAX_LIQUIDATION_CLOSE_FACTOR = 10000n;
+
+const PERCENTAGE_FACTOR = 10000n;
+
+export const POSITION_SCANNER_ABI = [
+  // Pool
+  "event Supply(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint16 indexed referralCode)",
+  "event Borrow(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint8 interestRateMode, uint256 borrowRate, uint16 indexed referralCode)",
+  "function getReservesList() view returns (address[])",
+  "function getUserAccountData(address user) view returns (uint256 totalCollateralBase, uint256 totalDebtBase, uint256 availableBorrowsBase, uint256 currentLiquidationThreshold, uint256 ltv, uint256 healthFactor)",
+  // PoolAddressesProvider
+  "function getPool() view returns (address)",
+  "function getPriceOracle() view returns (address)",
+  // AaveProtocolDataProvider
+  "function getAllReservesTokens() view returns ((string symbol, address tokenAddress)[])",
+  "function getReserveConfigurationData(address asset) view returns (uint256 decimals, uint256 ltv, uint256 liquidationThreshold, uint256 liquidationBonus, uint256 reserveFactor, bool usageAsCollateralEnabled, bool borrowingEnabled, bool stableBorrowRateEnabled, bool isActive, bool isFrozen)",
+  "function getLiquidationProtocolFee(address asset) view returns (uint256)",
+  "function getUserReserveData(address asset, address user) view returns (uint256 currentATokenBalance, uint256 currentStableDebt, uint256 currentVariableDebt, uint256 principalStableDebt, uint256 scaledVariableDebt, uint256 stableBorrowRate, uint256 liquidityRate, uint40 stableRateLastUpdated, bool usageAsCollateralEnabled)",
+  // AaveOracle
+  "function BASE_CURRENCY_UNIT() view returns (uint256)",
+  "function getAssetsPrices(address[] assets) view returns (uint256[])",
+];
+
+const scannerInterface = new Interface(POSITION_SCANNER_ABI);
+const POSITION_EVENT_TOPICS = [
+  id("Supply(address,address,address,uint256,uint16)"),
+  id("Borrow(address,address,address,uint256,uint8,uint256,uint16)"),
+];
+
+/**
+ * `Pool.getUserAccountData` of one account, amounts in the oracle base currency
+ */
+export interface AccountData {
+  readonly user: string;
+  readonly totalCollateralBase: bigint;
+  readonly totalDebtBase: bigint;
+  readonly availableBorrowsBase: bigint;
+  readonly currentLiquidationThreshold: bigint;
+  readonly ltv: bigint;
+  readonly healthFactor: bigint;
+}
+
+/**
+ * Reserve parameters used to value positions and size liquidations
+ */
+export interface ReserveMarket {
+  readonly asset: string;
+  readonly symbol: string;
+  readonly decimals: number;
+  /** AaveOracle price in the base currency */
+  readonly price: bigint;
+  readonly liquidationThreshold: bigint;
+  /** Liquidation bonus in bps, e.g. 10500 */
+  readonly liquidationBonus: bigint;
+  readonly liquidationProtocolFee: bigint;
+}
+
+/**
+ * One user's balances in one reserve, as returned by `getUserReserveData`
+ */
+export interface UserReservePosition {
+  readonly asset: string;
+  readonly supplied: bigint;
+  readonly stableDebt: bigint;
+  readonly variableDebt: bigint;
+  readonly usageAsCollateralEnabled: boolean;
+}
+
+export interface PositionAmount {
+  readonly asset: string;
+  readonly symbol: string;
+  readonly amount: bigint;
+  readonly valueBase: bigint;
+}
+
+/**
+ * The most profitable single `liquidationCall` on a position, sized like LiquidationLogic
+ */
+export interface LiquidationEstimate {
+  readonly debtAsset: string;
+  readonly debtSymbol: string;
+  readonly collateralAsset: string;
+  readonly collateralSymbol: string;
+  readonly closeFactor: bigint;
+  /** Debt that can be repaid under the close factor */
+  readonly maxDebtToCover: bigint;
+  /** Debt actually repaid, lower when the collateral balance runs out */
+  readonly debtToCover: bigint;
+  readonly debtToCoverBase: bigint;
+  /** Collateral received by the liquidator */
+  readonly collateralToLiquidator: bigint;
+  /** Collateral sent to the treasury as liquidation protocol fee */
+  readonly protocolFee: bigint;
+  /** Value received by the liquidator above the debt repaid */
+  readonly liquidatorBonusBase: bigint;
+}
+
+export interface PositionReport {
+  readonly user: string;
+  readonly healthFactor: bigint;
+  readonly totalCollateralBase: bigint;
+  readonly totalDebtBase: bigint;
+  readonly ltv: bigint;
+  readonly liquidationThreshold: bigint;
+  readonly collateral: PositionAmount[];
+  readonly debt: PositionAmount[];
+  readonly liquidatable: boolean;
+  readonly liquidation?: LiquidationEstimate;
+}
+
+/**
+ * Exposure of the reported positions to one asset
+ */
+export interface AssetConcentration {
+  readonly asset: string;
+  readonly symbol: string;
+  readonly accounts: number;
+  readonly collateral: bigint;
+  readonly collateralBase: bigint;
+  readonly debt: bigint;
+  readonly debtBase: bigint;
+}
+
+export interface PositionScanReport {
+  readonly fromBlock: number;
+  readonly toBlock: number;
+  readonly baseCurrencyDecimals: number;
+  readonly healthFactorThreshold: bigint;
+  readonly closeFactorHFThreshold: bigint;
+  /** Accounts found in Supply and Borrow events */
+  readonly accountsScanned: number;
+  /** Accounts with outstanding debt */
+  readonly borrowers: number;
+  /** Listed reserves with the prices the positions were valued at */
+  readonly markets: ReserveMarket[];
+  /** Accounts below the threshold, lowest health factor first */
+  readonly positions: PositionReport[];
+  readonly concentration: AssetConcentration[];
+}
+
+export interface ScanPositionsOptions {
+  /** Report accounts with a health factor below this value (wad) */
+  readonly healthFactorThreshold: bigint;
+  /** First block scanned for Supply and Borrow events (default: 0) */
+  readonly fromBlock?: number;
+  /** Last block scanned (default: latest) */
+  readonly toBlock?: number;
+  /** Blocks per `eth_getLogs` request (default: 10000) */
+  readonly logChunkSize?: number;
+  /** Multicall3 address (default: canonical deployment, falls back to single calls) */
+  readonly multicallAddress?: string;
+  /** Provider the positions are read from (default: `hre.ethers.provider`), e.g. a fork */
+  readonly provider?: Provider;
+  /** Accounts to read instead of collecting them from Supply and Borrow events */
+  readonly accounts?: string[];
+}
+
+/**
+ * Find borrowers and suppliers, read their account data and report the positions below the
+ * health factor threshold with their collateral, debt and liquidation sizing
+ *
+ * @param hre - Hardhat runtime whose provider is queried
+ * @param options - Scan range and threshold
+ * @returns The scan report
+ */
+export async function scanPositions(hre: HardhatRuntimeEnvironment, options: ScanPositionsOptions): Promise<PositionScanReport> {
+  const runner = options.provider ?? hre.ethers.provider;
+  const addressesProvider = new Contract((await hre.deployments.get(POOL_ADDRESSES_PROVIDER_ID)).address, POSITION_SCANNER_ABI, runner);
+  const dataProvider = new Contract((await hre.deployments.get(POOL_DATA_PROVIDER_ID)).address, POSITION_SCANNER_ABI, runner);
+  const pool: string = await addressesProvider.getPool();
+  const oracle = new Contract(await addressesProvider.getPriceOracle(), POSITION_SCANNER_ABI, runner);
+  const fromBlock = options.fromBlock ?? 0;
+  const toBlock = options.toBlock ?? (await runner.getBlockNumber());
+  const multicallAddress = options.multicallAddress ?? DEFAULT_MULTICALL3_ADDRESS;
+
+  const users = options.accounts ?? (await findPoolAccounts(runner, pool, { fromBlock, toBlock, logChunkSize: options.logChunkSize }));
+  const accountResults = await staticCallAll(
+    runner,
+    users.map((user) => ({ target: pool, callData: scannerInterface.encodeFunctionData("getUserAccountData", [user]) })),
+    multicallAddress,
+  );
+  const accounts: AccountData[] = [];
+
+  accountResults.forEach((returnData, index) => {
+    if (returnData === undefined) {
+      throw new Error(`getUserAccountData reverted for ${users[index]}`);
+    }
+    const decoded = scannerInterface.decodeFunctionResult("getUserAccountData", returnData);
+    accounts.push({
+      user: users[index],
+      totalCollateralBase: decoded.totalCollateralBase,
+      totalDebtBase: decoded.totalDebtBase,
+      availableBorrowsBase: decoded.availableBorrowsBase,
+      currentLiquidationThreshold: decoded.currentLiquidationThreshold,
+      ltv: decoded.ltv,
+      healthFactor: decoded.healthFactor,
+    });
+  });
+
+  const atRisk = accounts.filter((account) => isBelowThreshold(account, options.healthFactorThreshold));
+  const markets = await readReserveMarkets(dataProvider, oracle, await new Contract(pool, POSITION_SCANNER_ABI, runner).getReservesList());
+  const positions = await readUserPositions(runner, await dataProvider.getAddress(), atRisk, markets, multicallAddress);
+  const closeFactorHFThreshold = BigInt(Math.round((await getCloseFactorHFThreshold(hre)) * 1e4)) * 10n ** 14n;
+  const baseCurrencyUnit: bigint = await oracle.BASE_CURRENCY_UNIT();
+
+  return buildPositionScanReport(accounts, positions, markets, {
+    fromBlock,
+    toBlock,
+    baseCurrencyDecimals: baseCurrencyUnit.toString().length - 1,
+    healthFactorThreshold: options.healthFactorThreshold,
+    closeFactorHFThreshold,
+  });
+}
+
+/**
+ * Assemble the report from account data and reserve balances
+ *
+ * @param accounts - Account data of every scanned account
+ * @param positions - Reserve balances of the accounts below the threshold, keyed by user
+ * @param markets - Listed reserves
+ * @param scan - Scan range, base currency and thresholds
+ * @param scan.fromBlock - First block scanned
+ * @param scan.toBlock - Last block scanned
+ * @param scan.baseCurrencyDecimals - Decimals of the oracle base currency
+ * @param scan.healthFactorThreshold - Report accounts below this health factor (wad)
+ * @param scan.closeFactorHFThreshold - LiquidationLogic.CLOSE_FACTOR_HF_THRESHOLD (wad)
+ * @returns The scan report, lowest health factor first
+ */
+export function buildPositionScanReport(
+  accounts: AccountData[],
+  positions: Map<string, UserReservePosition[]>,
+  markets: ReserveMarket[],
+  scan: {
+    fromBlock: number;
+    toBlock: number;
+    baseCurrencyDecimals: number;
+    healthFactorThreshold: bigint;
+    closeFactorHFThreshold: bigint;
+  },
+): PositionScanReport {
+  const reports = accounts
+    .filter((account) => isBelowThreshold(account, scan.healthFactorThreshold))
+    .sort((a, b) => compareDescending(b.healthFactor, a.healthFactor))
+    .map((account) => assessPosition(account, positions.get(account.user) ?? [], markets, scan.closeFactorHFThreshold));
+
+  return {
+    ...scan,
+    accountsScanned: accounts.length,
+    borrowers: accounts.filter((account) => account.totalDebtBase > 0n).length,
+    markets,
+    positions: reports,
+    concentration: summarizeConcentration(reports),
+  };
+}
+
+/**
+ * Break a position down by reserve and size the best liquidation when its health factor is
+ * below 1
+ *
+ * @param account - Account data
+ * @param positions - The account's reserve balances
+ * @param markets - Listed reserves
+ * @param closeFactorHFThreshold - LiquidationLogic.CLOSE_FACTOR_HF_THRESHOLD (wad)
+ * @returns The position report
+ */
+export function assessPosition(
+  account: AccountData,
+  positions: UserReservePosition[],
+  markets: ReserveMarket[],
+  closeFactorHFThreshold: bigint,
+): PositionReport {
+  const marketByAsset = new Map(markets.map((market) => [market.asset.toLowerCase(), market]));
+  const collateral: { position: UserReservePosition; market: ReserveMarket; amount: PositionAmount }[] = [];
+  const debt: { market: ReserveMarket; amount: PositionAmount }[] = [];
+
+  for (const position of positions) {
+    const market = marketByAsset.get(position.asset.toLowerCase());
+
+    if (!market) {
+      throw new Error(`No reserve market for ${position.asset}`);
+    }
+
+    if (position.supplied > 0n && position.usageAsCollateralEnabled && market.liquidationThreshold > 0n) {
+      collateral.push({ position, market, amount: valueOf(market, position.supplied) });
+    }
+
+    const totalDebt = position.stableDebt + position.variableDebt;
+
+    if (totalDebt > 0n) {
+      debt.push({ market, amount: valueOf(market, totalDebt) });
+    }
+  }
+
+  const liquidatable = account.healthFactor < HEALTH_FACTOR_LIQUIDATION_THRESHOLD;
+  const closeFactor = account.healthFactor > closeFactorHFThreshold ? DEFAULT_LIQUIDATION_CLOSE_FACTOR : MAX_LIQUIDATION_CLOSE_FACTOR;
+  let liquidation: LiquidationEstimate | undefined;
+
+  if (liquidatable) {
+    for (const debtEntry of debt) {
+      for (const collateralEntry of collateral) {
+        const estimate = estimateLiquidation(
+          debtEntry.market,
+          debtEntry.amount.amount,
+          collateralEntry.market,
+          collateralEntry.position.supplied,
+          closeFactor,
+        );
+
+        if (!liquidation || estimate.liquidatorBonusBase > liquidation.liquidatorBonusBase) {
+          liquidation = estimate;
+        }
+      }
+    }
+  }
+
+  return {
+    user: account.user,
+    healthFactor: account.healthFactor,
+    totalCollateralBase: account.totalCollateralBase,
+    totalDebtBase: account.totalDebtBase,
+    ltv: account.ltv,
+    liquidationThreshold: account.currentLiquidationThreshold,
+    collateral: collateral.map((entry) => entry.amount),
+    debt: debt.map((entry) => entry.amount),
+    liquidatable,
+    liquidation,
+  };
+}
+
+/**
+ * Collateral and debt of the reported positions per asset
+ *
+ * @param reports - Position reports
+ * @returns One entry per asset, largest debt first
+ */
+export function summarizeConcentration(reports: PositionReport[]): AssetConcentration[] {
+  type Total = {
+    asset: string;
+    symbol: string;
+    users: Set<string>;
+    collateral: bigint;
+    collateralBase: bigint;
+    debt: bigint;
+    debtBase: bigint;
+  };
+  const byAsset = new Map<string, Total>();
+
+  const entry = (amount: PositionAmount): Total => {
+    const key = amount.asset.toLowerCase();
+
+    if (!byAsset.has(key)) {
+      byAsset.set(key, {
+        asset: amount.asset,
+        symbol: amount.symbol,
+        users: new Set(),
+        collateral: 0n,
+        collateralBase: 0n,
+        debt: 0n,
+        debtBase: 0n,
+      });
+    }
+    return byAsset.get(key)!;
+  };
+
+  for (const report of reports) {
+    for (const amount of report.collateral) {
+      const total = entry(amount);
+      total.users.add(report.user);
+      total.collateral += amount.amount;
+      total.collateralBase += amount.valueBase;
+    }
+
+    for (const amount of report.debt) {
+      const total = entry(amount);
+      total.users.add(report.user);
+      total.debt += amount.amount;
+      total.debtBase += amount.valueBase;
+    }
+  }
+
+  return [...byAsset.values()]
+    .map(({ users, ...total }) => ({ ...total, accounts: users.size }))
+    .sort((a, b) => compareDescending(a.debtBase, b.debtBase) || compareDescending(a.collateralBase, b.collateralBase));
+}
+
+/**
+ * Render the reported positions as CSV, one row per account
+ *
+ * @param report - Scan report
+ * @returns CSV with a header row
+ */
+export function formatPositionsCsv(report: PositionScanReport): string {
+  const decimals = new Map(report.markets.map((market) => [market.asset.toLowerCase(), market.decimals]));
+  const base = (value: bigint): string => formatUnits(value, report.baseCurrencyDecimals);
+  const token = (asset: string, value: bigint): string => formatUnits(value, decimals.get(asset.toLowerCase()) ?? 18);
+  const breakdown = (amounts: PositionAmount[]): string =>
+    amounts.map((amount) => `${amount.symbol}:${token(amount.asset, amount.amount)}`).join(" ");
+  const header = [
+    "user",
+    "health_factor",
+    "collateral_base",
+    "debt_base",
+    "liquidation_threshold_bps",
+    "collateral",
+    "debt",
+    "liquidatable",
+    "close_factor_bps",
+    "debt_asset",
+    "debt_to_cover",
+    "debt_to_cover_base",
+    "collateral_asset",
+    "collateral_to_liquidator",
+    "liquidator_bonus_base",
+  ];
+  const rows = report.positions.map((position) => {
+    const liquidation = position.liquidation;
+    return [
+      position.user,
+      formatUnits(position.healthFactor, 18),
+      base(position.totalCollateralBase),
+      base(position.totalDebtBase),
+      position.liquidationThreshold.toString(),
+      breakdown(position.collateral),
+      breakdown(position.debt),
+      String(position.liquidatable),
+      liquidation ? liquidation.closeFactor.toString() : "",
+      liquidation?.debtSymbol ?? "",
+      liquidation ? token(liquidation.debtAsset, liquidation.debtToCover) : "",
+      liquidation ? base(liquidation.debtToCoverBase) : "",
+      liquidation?.collateralSymbol ?? "",
+      liquidation ? token(liquidation.collateralAsset, liquidation.collateralToLiquidator) : "",
+      liquidation ? base(liquidation.liquidatorBonusBase) : "",
+    ];
+  });
+  return `${[header, ...rows].map((row) => row.join(",")).join("\n")}\n`;
+}
+
+/**
+ * Collect every `onBehalfOf` account from the Pool's Supply and Borrow events
+ *
+ * @param provider - Provider the logs are read from
+ * @param pool - Pool address
+ * @param range - Block range
+ * @param range.fromBlock - First block
+ * @param range.toBlock - Last block
+ * @param range.logChunkSize - Blocks per `eth_getLogs` request (default: 10000)
+ * @returns Unique accounts in first-seen order
+ */
+export async function findPoolAccounts(
+  provider: Provider,
+  pool: string,
+  range: { fromBlock: number; toBlock: number; logChunkSize?: number },
+): Promise<string[]> {
+  const chunkSize = range.logChunkSize ?? 10_000;
+  const accounts = new Set<string>();
+
+  for (let fromBlock = range.fromBlock; fromBlock <= range.toBlock; fromBlock += chunkSize) {
+    const logs = await provider.getLogs({
+      address: pool,
+      topics: [POSITION_EVENT_TOPICS],
+      fromBlock,
+      toBlock: Math.min(fromBlock + chunkSize - 1, range.toBlock),
+    });
+
+    for (const log of logs) {
+      accounts.add(getAddress(`0x${log.topics[2].slice(26)}`));
+    }
+  }
+  return [...accounts];
+}
+
+/**
+ * Size a `liquidationCall(collateral, debt)` like LiquidationLogic: the close factor caps the
+ * debt repaid, and the repaid debt shrinks when the bonus-adjusted collateral exceeds the
+ * user's balance. The protocol fee is taken from the bonus.
+ *
+ * @param debtMarket - Debt reserve
+ * @param totalDebt - User's stable plus variable debt in the debt reserve
+ * @param collateralMarket - Collateral reserve
+ * @param collateralBalance - User's aToken balance in the collateral reserve
+ * @param closeFactor - Close factor in bps
+ * @returns The liquidation sizing
+ */
+function estimateLiquidation(
+  debtMarket: ReserveMarket,
+  totalDebt: bigint,
+  collateralMarket: ReserveMarket,
+  collateralBalance: bigint,
+  closeFactor: bigint,
+): LiquidationEstimate {
+  const debtUnit = 10n ** BigInt(debtMarket.decimals);
+  const collateralUnit = 10n ** BigInt(collateralMarket.decimals);
+  const bonus = collateralMarket.liquidationBonus;
+  const maxDebtToCover = percentMul(totalDebt, closeFactor);
+  const baseCollateral = (debtMarket.price * maxDebtToCover * collateralUnit) / (collateralMarket.price * debtUnit);
+  const maxCollateralToLiquidate = percentMul(baseCollateral, bonus);
+  let collateralAmount = maxCollateralToLiquidate;
+  let debtToCover = maxDebtToCover;
+
+  if (maxCollateralToLiquidate > collateralBalance) {
+    collateralAmount = collateralBalance;
+    debtToCover = percentDiv((collateralMarket.price * collateralAmount * debtUnit) / (debtMarket.price * collateralUnit), bonus);
+  }
+
+  const protocolFee =
+    collateralMarket.liquidationProtocolFee === 0n
+      ? 0n
+      : percentMul(collateralAmount - percentDiv(collateralAmount, bonus), collateralMarket.liquidationProtocolFee);
+  const collateralToLiquidator = collateralAmount - protocolFee;
+  const debtToCoverBase = (debtToCover * debtMarket.price) / debtUnit;
+
+  return {
+    debtAsset: debtMarket.asset,
+    debtSymbol: debtMarket.symbol,
+    collateralAsset: collateralMarket.asset,
+    collateralSymbol: collateralMarket.symbol,
+    closeFactor,
+    maxDebtToCover,
+    debtToCover,
+    debtToCoverBase,
+    collateralToLiquidator,
+    protocolFee,
+    liquidatorBonusBase: (collateralToLiquidator * collateralMarket.price) / collateralUnit - debtToCoverBase,
+  };
+}
+
+/**
+ * Read decimals, liquidation parameters and prices of every listed reserve
+ *
+ * @param dataProvider - AaveProtocolDataProvider
+ * @param oracle - AaveOracle
+ * @param reserves - Pool.getReservesList()
+ * @returns One market per reserve, in list order
+ */
+async function readReserveMarkets(dataProvider: Contract, oracle: Contract, reserves: string[]): Promise<ReserveMarket[]> {
+  const symbols = new Map<string, string>(
+    (await dataProvider.getAllReservesTokens()).map((token: { symbol: string; tokenAddress: string }) => [
+      token.tokenAddress.toLowerCase(),
+      token.symbol,
+    ]),
+  );
+  const prices: bigint[] = await oracle.getAssetsPrices(reserves);
+
+  return Promise.all(
+    reserves.map(async (asset, index) => {
+      const [configuration, liquidationProtocolFee] = await Promise.all([
+        dataProvider.getReserveConfigurationData(asset),
+        dataProvider.getLiquidationProtocolFee(asset),
+      ]);
+      return {
+        asset,
+        symbol: symbols.get(asset.toLowerCase()) ?? asset,
+        decimals: Number(configuration.decimals),
+        price: prices[index],
+        liquidationThreshold: configuration.liquidationThreshold,
+        liquidationBonus: configuration.liquidationBonus,
+        liquidationProtocolFee,
+      };
+    }),
+  );
+}
+
+/**
+ * Read every reserve balance of the given accounts through `getUserReserveData`
+ *
+ * @param provider - Provider the balances are read from
+ * @param dataProvider - AaveProtocolDataProvider address
+ * @param accounts - Accounts to break down
+ * @param markets - Listed reserves
+ * @param multicallAddress - Multicall3 address
+ * @returns Non-empty balances per account
+ */
+async function readUserPositions(
+  provider: Provider,
+  dataProvider: string,
+  accounts: AccountData[],
+  markets: ReserveMarket[],
+  multicallAddress: string,
+): Promise<Map<string, UserReservePosition[]>> {
+  const pairs = accounts.flatMap((account) => markets.map((market) => ({ user: account.user, asset: market.asset })));
+  const results = await staticCallAll(
+    provider,
+    pairs.map((pair) => ({
+      target: dataProvider,
+      callData: scannerInterface.encodeFunctionData("getUserReserveData", [pair.asset, pair.user]),
+    })),
+    multicallAddress,
+  );
+  const positions = new Map<string, UserReservePosition[]>(accounts.map((account) => [account.user, []]));
+
+  results.forEach((returnData, index) => {
+    const { user, asset } = pairs[index];
+
+    if (returnData === undefined) {
+      throw new Error(`getUserReserveData reverted for ${user} in ${asset}`);
+    }
+
+    const decoded = scannerInterface.decodeFunctionResult("getUserReserveData", returnData);
+
+    if (decoded.currentATokenBalance > 0n || decoded.currentStableDebt > 0n || decoded.currentVariableDebt > 0n) {
+      positions.get(user)!.push({
+        asset,
+        supplied: decoded.currentATokenBalance,
+        stableDebt: decoded.currentStableDebt,
+        variableDebt: decoded.currentVariableDebt,
+        usageAsCollateralEnabled: decoded.usageAsCollateralEnabled,
+      });
+    }
+  });
+  return positions;
+}
+
+/**
+ * Run static calls through Multicall3, falling back to one `eth_call` each when it is unavailable
+ *
+ * @param provider - Provider the calls are sent to
+ * @param calls - Calls to run
+ * @param multicallAddress - Multicall3 address
+ * @returns Return data per call, undefined for calls that reverted
+ */
+async function staticCallAll(
+  provider: Provider,
+  calls: { target: string; callData: string }[],
+  multicallAddress: string,
+): Promise<(string | undefined)[]> {
+  if ((await provider.getCode(multicallAddress)) !== "0x") {
+    // executeMulticallBatches only needs getContractAt, bound here to the given provider
+    const reader = { ethers: { getContractAt: async (abi: any, address: string): Promise<any> => new Contract(address, abi, provider) } };
+    const batch = await executeMulticallBatches(reader, calls, { address: multicallAddress });
+
+    if (batch) {
+      return batch.results.map((result) => (result.success ? result.returnData : undefined));
+    }
+  }
+
+  return await Promise.all(
+    calls.map(async (call) => {
+      try {
+        return await provider.call({ to: call.target, data: call.callData });
+      } catch {
+        return undefined;
+      }
+    }),
+  );
+}
+
+/**
+ * Whether an account has debt and a health factor below the threshold
+ *
+ * @param account - Account data
+ * @param threshold - Health factor threshold (wad)
+ * @returns True when the account is reported
+ */
+function isBelowThreshold(account: AccountData, threshold: bigint): boolean {
+  return account.totalDebtBase > 0n && account.healthFactor < threshold;
+}
+
+/**
+ * Value a reserve amount in the oracle base currency, like GenericLogic
+ *
+ * @param market - Reserve
+ * @param amount - Amount in the reserve's decimals
+ * @returns The amount and its base currency value
+ */
+function valueOf(market: ReserveMarket, amount: bigint): PositionAmount {
+  return { asset: market.asset, symbol: market.symbol, amount, valueBase: (amount * market.price) / 10n ** BigInt(market.decimals) };
+}
+
+/**
+ * Sort comparator for bigints, largest first
+ *
+ * @param a - First value
+ * @param b - Second value
+ * @returns Negative when a sorts first
+ */
+function compareDescending(a: bigint, b: bigint): number {
+  return a > b ? -1 : a < b ? 1 : 0;
+}
+
+/**
+ * PercentageMath.percentMul
+ *
+ * @param value - Value to scale
+ * @param percentage - Percentage in basis points
+ * @returns value * percentage / 10000, rounded half up
+ */
+function percentMul(value: bigint, percentage: bigint): bigint {
+  return (value * percentage + PERCENTAGE_FACTOR / 2n) / PERCENTAGE_FACTOR;
+}
+
+/**
+ * PercentageMath.percentDiv
+ *
+ * @param value - Value to scale
+ * @param percentage - Percentage in basis points
+ * @returns value * 10000 / percentage, rounded half up
+ */
+function percentDiv(value: bigint, percentage: bigint): bigint {
+  return (value * PERCENTAGE_FACTOR + percentage / 2n) / percentage;
+}
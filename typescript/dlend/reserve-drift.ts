@@ -0,0 +1,593 @@
+import { Contract, formatUnits, Interface, ZeroAddress } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { SafeTransactionData } from "../../.shared/lib/safe/types";
+import { DLendConfig } from "../../config/dlend/types";
+import { IInterestRateStrategyParams, IReserveParams } from "../../config/types";
+import { POOL_ADDRESSES_PROVIDER_ID, POOL_DATA_PROVIDER_ID } from "../deploy-ids";
+
+/**
+ * Reserve configuration fields compared with `IReserveParams`
+ */
+export type ReserveConfigField =
+  | "baseLTVAsCollateral"
+  | "liquidationThreshold"
+  | "liquidationBonus"
+  | "reserveFactor"
+  | "borrowingEnabled"
+  | "stableBorrowRateEnabled"
+  | "borrowableIsolation"
+  | "flashLoanEnabled"
+  | "borrowCap"
+  | "supplyCap"
+  | "debtCeiling"
+  | "liquidationProtocolFee";
+
+/** Interest rate strategy parameters compared with `IInterestRateStrategyParams` */
+export type StrategyField = Exclude<keyof IInterestRateStrategyParams, "name">;
+
+export type ReserveConfigFields = Record<ReserveConfigField, bigint | boolean>;
+export type StrategyFields = Record<StrategyField, bigint>;
+
+/**
+ * What the config says one reserve should look like on chain
+ */
+export interface ExpectedReserve {
+  readonly symbol: string;
+  /** Undefined when the token address is neither configured nor deployed */
+  readonly asset?: string;
+  readonly params: IReserveParams;
+  readonly poolConfigurator: string;
+  /** `ReserveStrategy-<strategy.name>` */
+  readonly strategyId: string;
+  /** Undefined when the strategy is not deployed on this network */
+  readonly strategy?: string;
+}
+
+/**
+ * On-chain view of one expected reserve
+ */
+export interface ReserveState {
+  readonly reserve: ExpectedReserve;
+  readonly listed: boolean;
+  readonly decimals?: number;
+  readonly actual?: ReserveConfigFields;
+  /** `getInterestRateStrategyAddress(asset)` */
+  readonly strategyAddress?: string;
+  /** Parameters of the strategy the reserve currently uses */
+  readonly strategyParams?: StrategyFields;
+  /** Parameters of the `strategyId` deployment, when it is not the current strategy */
+  readonly deployedStrategyParams?: StrategyFields;
+  /** Set when the reserve could not be read */
+  readonly error?: string;
+}
+
+export type ReserveDriftKind = "unlisted" | "configMismatch" | "strategyMismatch" | "strategyNotDeployed" | "unreadable";
+
+/**
+ * One difference between the config and the chain, with values in human units
+ */
+export interface ReserveDriftIssue {
+  readonly symbol: string;
+  readonly asset?: string;
+  readonly drift: ReserveDriftKind;
+  readonly field?: ReserveConfigField | StrategyField;
+  readonly expected?: string;
+  readonly actual?: string;
+  readonly detail: string;
+}
+
+/**
+ * PoolConfigurator call that brings a reserve back in line with the config
+ */
+export interface ReserveDriftFix {
+  readonly symbol: string;
+  readonly asset: string;
+  /** Idempotency description, e.g. `setSupplyCap sUSDe` */
+  readonly description: string;
+  readonly transaction: SafeTransactionData;
+}
+
+/**
+ * Every issue found across the checked reserves and the calls that correct them, in execution order
+ */
+export interface ReserveDriftReport {
+  readonly checked: number;
+  readonly issues: ReserveDriftIssue[];
+  readonly fixes: ReserveDriftFix[];
+}
+
+export const RESERVE_DRIFT_ABI = [
+  // PoolAddressesProvider
+  "function getPool() view returns (address)",
+  "function getPoolConfigurator() view returns (address)",
+  // AaveProtocolDataProvider
+  "function getReserveConfigurationData(address asset) view returns (uint256 decimals, uint256 ltv, uint256 liquidationThreshold, uint256 liquidationBonus, uint256 reserveFactor, bool usageAsCollateralEnabled, bool borrowingEnabled, bool stableBorrowRateEnabled, bool isActive, bool isFrozen)",
+  "function getReserveCaps(address asset) view returns (uint256 borrowCap, uint256 supplyCap)",
+  "function getDebtCeiling(address asset) view returns (uint256)",
+  "function getFlashLoanEnabled(address asset) view returns (bool)",
+  "function getLiquidationProtocolFee(address asset) view returns (uint256)",
+  "function getInterestRateStrategyAddress(address asset) view returns (address)",
+  "function getReserveTokensAddresses(address asset) view returns (address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress)",
+  // Pool
+  "function getConfiguration(address asset) view returns (uint256 data)",
+  // DefaultReserveInterestRateStrategy
+  "function OPTIMAL_USAGE_RATIO() view returns (uint256)",
+  "function OPTIMAL_STABLE_TO_TOTAL_DEBT_RATIO() view returns (uint256)",
+  "function getBaseVariableBorrowRate() view returns (uint256)",
+  "function getVariableRateSlope1() view returns (uint256)",
+  "function getVariableRateSlope2() view returns (uint256)",
+  "function getStableRateSlope1() view returns (uint256)",
+  "function getStableRateSlope2() view returns (uint256)",
+  "function getBaseStableBorrowRate() view returns (uint256)",
+  "function getStableRateExcessOffset() view returns (uint256)",
+  // PoolConfigurator
+  "function configureReserveAsCollateral(address asset, uint256 ltv, uint256 liquidationThreshold, uint256 liquidationBonus)",
+  "function setReserveFactor(address asset, uint256 newReserveFactor)",
+  "function setReserveBorrowing(address asset, bool enabled)",
+  "function setReserveStableRateBorrowing(address asset, bool enabled)",
+  "function setBorrowableInIsolation(address asset, bool borrowable)",
+  "function setReserveFlashLoaning(address asset, bool enabled)",
+  "function setBorrowCap(address asset, uint256 newBorrowCap)",
+  "function setSupplyCap(address asset, uint256 newSupplyCap)",
+  "function setDebtCeiling(address asset, uint256 newDebtCeiling)",
+  "function setLiquidationProtocolFee(address asset, uint256 newFee)",
+  "function setReserveInterestRateStrategyAddress(address asset, address newRateStrategyAddress)",
+];
+
+const reserveInterface = new Interface(RESERVE_DRIFT_ABI);
+
+// ReserveConfiguration.BORROWABLE_IN_ISOLATION_START_BIT_POSITION
+const BORROWABLE_IN_ISOLATION_BIT = 61n;
+
+type FieldUnit = "percent" | "tokens" | "usd" | "flag";
+
+/**
+ * How each field is displayed and which PoolConfigurator call writes it. The three
+ * collateral fields share `configureReserveAsCollateral`.
+ */
+const RESERVE_FIELDS: { field: ReserveConfigField; unit: FieldUnit; setter: string }[] = [
+  { field: "baseLTVAsCollateral", unit: "percent", setter: "configureReserveAsCollateral" },
+  { field: "liquidationThreshold", unit: "percent", setter: "configureReserveAsCollateral" },
+  { field: "liquidationBonus", unit: "percent", setter: "configureReserveAsCollateral" },
+  { field: "reserveFactor", unit: "percent", setter: "setReserveFactor" },
+  { field: "borrowingEnabled", unit: "flag", setter: "setReserveBorrowing" },
+  { field: "stableBorrowRateEnabled", unit: "flag", setter: "setReserveStableRateBorrowing" },
+  { field: "borrowableIsolation", unit: "flag", setter: "setBorrowableInIsolation" },
+  { field: "flashLoanEnabled", unit: "flag", setter: "setReserveFlashLoaning" },
+  { field: "borrowCap", unit: "tokens", setter: "setBorrowCap" },
+  { field: "supplyCap", unit: "tokens", setter: "setSupplyCap" },
+  { field: "debtCeiling", unit: "usd", setter: "setDebtCeiling" },
+  { field: "liquidationProtocolFee", unit: "percent", setter: "setLiquidationProtocolFee" },
+];
+
+const RESERVE_SETTERS = [...new Set(RESERVE_FIELDS.map((entry) => entry.setter))];
+
+const STRATEGY_FIELDS: StrategyField[] = [
+  "optimalUsageRatio",
+  "baseVariableBorrowRate",
+  "variableRateSlope1",
+  "variableRateSlope2",
+  "stableRateSlope1",
+  "stableRateSlope2",
+  "baseStableRateOffset",
+  "stableRateExcessOffset",
+  "optimalStableToTotalDebtRatio",
+];
+
+/**
+ * Flatten `dLend.reservesConfig` into the reserves it expects on chain
+ *
+ * @param hre - Hardhat runtime used to resolve deployments
+ * @param dLendConfig - The dLEND config
+ * @param tokenAddresses - `config.tokenAddresses`
+ * @param symbols - Reserves to check (default: every configured reserve)
+ * @returns One entry per reserve, in config order
+ */
+export async function resolveExpectedReserves(
+  hre: HardhatRuntimeEnvironment,
+  dLendConfig: DLendConfig,
+  tokenAddresses: Record<string, string | undefined>,
+  symbols?: string[],
+): Promise<ExpectedReserve[]> {
+  const addressesProvider = new Contract(
+    (await hre.deployments.get(POOL_ADDRESSES_PROVIDER_ID)).address,
+    RESERVE_DRIFT_ABI,
+    hre.ethers.provider,
+  );
+  const poolConfigurator: string = await addressesProvider.getPoolConfigurator();
+  const targets = symbols && symbols.length > 0 ? symbols : Object.keys(dLendConfig.reservesConfig);
+  const reserves: ExpectedReserve[] = [];
+
+  for (const symbol of targets) {
+    const params = dLendConfig.reservesConfig[symbol];
+
+    if (!params) {
+      throw new Error(`No dLend.reservesConfig entry for ${symbol}`);
+    }
+
+    const configured = tokenAddresses[symbol];
+    const asset = configured && configured !== ZeroAddress ? configured : (await hre.deployments.getOrNull(symbol))?.address;
+    const strategyId = `ReserveStrategy-${params.strategy.name}`;
+
+    reserves.push({
+      symbol,
+      asset,
+      params,
+      poolConfigurator,
+      strategyId,
+      strategy: (await hre.deployments.getOrNull(strategyId))?.address,
+    });
+  }
+  return reserves;
+}
+
+/**
+ * Read the configuration bitmap, caps and interest rate strategy of every reserve
+ * through the AaveProtocolDataProvider
+ *
+ * @param hre - Hardhat runtime whose provider is queried
+ * @param reserves - Reserves from `resolveExpectedReserves`
+ * @returns The on-chain state of each reserve, in input order
+ */
+export async function readReserveStates(hre: HardhatRuntimeEnvironment, reserves: ExpectedReserve[]): Promise<ReserveState[]> {
+  const runner = hre.ethers.provider;
+  const dataProvider = new Contract((await hre.deployments.get(POOL_DATA_PROVIDER_ID)).address, RESERVE_DRIFT_ABI, runner);
+  const addressesProvider = new Contract((await hre.deployments.get(POOL_ADDRESSES_PROVIDER_ID)).address, RESERVE_DRIFT_ABI, runner);
+  const pool = new Contract(await addressesProvider.getPool(), RESERVE_DRIFT_ABI, runner);
+  const strategies = new Map<string, Promise<StrategyFields>>();
+
+  const readStrategy = (address: string): Promise<StrategyFields> => {
+    const key = address.toLowerCase();
+
+    if (!strategies.has(key)) {
+      strategies.set(key, readStrategyFields(new Contract(address, RESERVE_DRIFT_ABI, runner)));
+    }
+    return strategies.get(key)!;
+  };
+  const states: ReserveState[] = [];
+
+  for (const reserve of reserves) {
+    const { asset } = reserve;
+
+    if (!asset) {
+      states.push({ reserve, listed: false });
+      continue;
+    }
+
+    try {
+      const { aTokenAddress } = await dataProvider.getReserveTokensAddresses(asset);
+
+      if (aTokenAddress === ZeroAddress) {
+        states.push({ reserve, listed: false });
+        continue;
+      }
+
+      const [configuration, caps, debtCeiling, flashLoanEnabled, liquidationProtocolFee, bitmap, strategyAddress] = await Promise.all([
+        dataProvider.getReserveConfigurationData(asset),
+        dataProvider.getReserveCaps(asset),
+        dataProvider.getDebtCeiling(asset),
+        dataProvider.getFlashLoanEnabled(asset),
+        dataProvider.getLiquidationProtocolFee(asset),
+        pool.getConfiguration(asset),
+        dataProvider.getInterestRateStrategyAddress(asset) as Promise<string>,
+      ]);
+      const current = strategyAddress === ZeroAddress ? undefined : await readStrategy(strategyAddress);
+      const deployed =
+        reserve.strategy && !sameAddress(reserve.strategy, strategyAddress) ? await readStrategy(reserve.strategy) : undefined;
+
+      states.push({
+        reserve,
+        listed: true,
+        decimals: Number(configuration.decimals),
+        actual: {
+          baseLTVAsCollateral: configuration.ltv,
+          liquidationThreshold: configuration.liquidationThreshold,
+          liquidationBonus: configuration.liquidationBonus,
+          reserveFactor: configuration.reserveFactor,
+          borrowingEnabled: configuration.borrowingEnabled,
+          stableBorrowRateEnabled: configuration.stableBorrowRateEnabled,
+          borrowableIsolation: ((BigInt(bitmap) >> BORROWABLE_IN_ISOLATION_BIT) & 1n) === 1n,
+          flashLoanEnabled,
+          borrowCap: caps.borrowCap,
+          supplyCap: caps.supplyCap,
+          debtCeiling,
+          liquidationProtocolFee,
+        },
+        strategyAddress,
+        strategyParams: current,
+        deployedStrategyParams: deployed,
+      });
+    } catch (error) {
+      states.push({ reserve, listed: true, error: error instanceof Error ? error.message.split("\n")[0] : String(error) });
+    }
+  }
+  return states;
+}
+
+/**
+ * Compare each reserve with its on-chain state and derive the PoolConfigurator calls that
+ * correct it. Reserves that are not listed yet are only reported: `setupNewReserves` lists them.
+ *
+ * @param states - Output of `readReserveStates`
+ * @returns The issues and corrective calls
+ */
+export function diffReserves(states: ReserveState[]): ReserveDriftReport {
+  const issues: ReserveDriftIssue[] = [];
+  const fixes: ReserveDriftFix[] = [];
+
+  for (const state of states) {
+    const { reserve } = state;
+    const ref = { symbol: reserve.symbol, asset: reserve.asset };
+
+    if (!state.listed) {
+      issues.push({
+        ...ref,
+        drift: "unlisted",
+        detail: reserve.asset ? `${reserve.symbol} is not listed on the pool.` : `${reserve.symbol} has no token address on this network.`,
+      });
+      continue;
+    }
+
+    if (state.error || !state.actual || !reserve.asset) {
+      issues.push({ ...ref, drift: "unreadable", detail: `${reserve.symbol}: ${state.error ?? "configuration not read"}` });
+      continue;
+    }
+
+    const asset = reserve.asset;
+    const expected = expectedReserveFields(reserve.params);
+    const setters = new Set<string>();
+
+    for (const { field, unit, setter } of RESERVE_FIELDS) {
+      const want = expected[field];
+      const have = state.actual[field];
+
+      if (want === undefined || want === have) {
+        continue;
+      }
+
+      const [wanted, current] = [formatField(want, unit, reserve.symbol), formatField(have, unit, reserve.symbol)];
+      issues.push({
+        ...ref,
+        drift: "configMismatch",
+        field,
+        expected: wanted,
+        actual: current,
+        detail: `${reserve.symbol} ${field} is ${current}, config expects ${wanted}.`,
+      });
+      setters.add(setter);
+    }
+
+    for (const setter of RESERVE_SETTERS) {
+      if (setters.has(setter)) {
+        fixes.push(fix(reserve.symbol, reserve.poolConfigurator, setter, setterArgs(setter, asset, expected)));
+      }
+    }
+
+    const strategy = diffStrategy(state);
+    issues.push(...strategy.issues);
+
+    if (strategy.switchTo) {
+      fixes.push(fix(reserve.symbol, reserve.poolConfigurator, "setReserveInterestRateStrategyAddress", [asset, strategy.switchTo]));
+    }
+  }
+
+  return { checked: states.length, issues, fixes };
+}
+
+/**
+ * Format a percentage expressed in basis points
+ *
+ * @param bps - Value in basis points
+ * @returns E.g. "108.5%"
+ */
+export function formatBps(bps: bigint): string {
+  return `${formatUnits(bps, 2).replace(/\.0$/, "")}%`;
+}
+
+/**
+ * Format an annual rate expressed in ray
+ *
+ * @param ray - Value in ray (1e27 = 100%)
+ * @returns E.g. "5%"
+ */
+export function formatRay(ray: bigint): string {
+  return `${formatUnits(ray, 25).replace(/\.0$/, "")}%`;
+}
+
+/**
+ * Compare the reserve's current strategy with the configured one. Strategies are immutable,
+ * so a mismatch is fixed by switching to the `ReserveStrategy-<name>` deployment when that
+ * deployment matches the config, and needs a redeploy otherwise.
+ *
+ * @param state - The reserve state
+ * @returns The strategy issues and the strategy to switch to, if any
+ */
+function diffStrategy(state: ReserveState): { issues: ReserveDriftIssue[]; switchTo?: string } {
+  const { reserve } = state;
+  const ref = { symbol: reserve.symbol, asset: reserve.asset };
+  const expected = expectedStrategyFields(reserve.params.strategy);
+  const mismatched = STRATEGY_FIELDS.filter((field) => state.strategyParams?.[field] !== expected[field]);
+
+  if (mismatched.length === 0) {
+    return { issues: [] };
+  }
+
+  const deployedMatches =
+    reserve.strategy !== undefined &&
+    !sameAddress(reserve.strategy, state.strategyAddress ?? ZeroAddress) &&
+    STRATEGY_FIELDS.every((field) => state.deployedStrategyParams?.[field] === expected[field]);
+  const remedy = !reserve.strategy
+    ? ` (${reserve.strategyId} is not deployed)`
+    : deployedMatches
+      ? ` (switch to ${reserve.strategyId} ${reserve.strategy})`
+      : ` (${reserve.strategyId} does not match the config: redeploy required)`;
+  const issues: ReserveDriftIssue[] = [];
+
+  if (!state.strategyParams) {
+    issues.push({ ...ref, drift: "strategyMismatch", detail: `${reserve.symbol} has no interest rate strategy${remedy}.` });
+  } else {
+    for (const field of mismatched) {
+      const [wanted, current] = [formatRay(expected[field]), formatRay(state.strategyParams[field])];
+      issues.push({
+        ...ref,
+        drift: "strategyMismatch",
+        field,
+        expected: wanted,
+        actual: current,
+        detail: `${reserve.symbol} strategy ${field} is ${current}, ${reserve.params.strategy.name} expects ${wanted}${remedy}.`,
+      });
+    }
+  }
+
+  if (!reserve.strategy) {
+    issues.push({ ...ref, drift: "strategyNotDeployed", detail: `${reserve.strategyId} is not deployed on this network.` });
+  }
+  return { issues, switchTo: deployedMatches ? reserve.strategy : undefined };
+}
+
+/**
+ * Config values in the units the PoolConfigurator stores
+ *
+ * @param params - The reserve config
+ * @returns Expected value per field, undefined for fields the config leaves unset
+ */
+function expectedReserveFields(params: IReserveParams): Record<ReserveConfigField, bigint | boolean | undefined> {
+  return {
+    baseLTVAsCollateral: BigInt(params.baseLTVAsCollateral),
+    liquidationThreshold: BigInt(params.liquidationThreshold),
+    liquidationBonus: BigInt(params.liquidationBonus),
+    reserveFactor: BigInt(params.reserveFactor),
+    borrowingEnabled: params.borrowingEnabled,
+    stableBorrowRateEnabled: params.stableBorrowRateEnabled,
+    borrowableIsolation: params.borrowableIsolation,
+    flashLoanEnabled: params.flashLoanEnabled,
+    borrowCap: BigInt(params.borrowCap),
+    supplyCap: BigInt(params.supplyCap),
+    debtCeiling: BigInt(params.debtCeiling),
+    liquidationProtocolFee: params.liquidationProtocolFee === undefined ? undefined : BigInt(params.liquidationProtocolFee),
+  };
+}
+
+/**
+ * Strategy config values in ray
+ *
+ * @param strategy - The strategy config
+ * @returns Expected value per parameter
+ */
+export function expectedStrategyFields(strategy: IInterestRateStrategyParams): StrategyFields {
+  return Object.fromEntries(STRATEGY_FIELDS.map((field) => [field, BigInt(strategy[field])])) as StrategyFields;
+}
+
+/**
+ * Read the parameters of a DefaultReserveInterestRateStrategy
+ *
+ * @param strategy - The strategy contract
+ * @returns The parameters in ray
+ */
+export async function readStrategyFields(strategy: Contract): Promise<StrategyFields> {
+  const [
+    optimalUsageRatio,
+    optimalStableToTotalDebtRatio,
+    baseVariableBorrowRate,
+    variableRateSlope1,
+    variableRateSlope2,
+    stableRateSlope1,
+    stableRateSlope2,
+    baseStableBorrowRate,
+    stableRateExcessOffset,
+  ]: bigint[] = await Promise.all([
+    strategy.OPTIMAL_USAGE_RATIO(),
+    strategy.OPTIMAL_STABLE_TO_TOTAL_DEBT_RATIO(),
+    strategy.getBaseVariableBorrowRate(),
+    strategy.getVariableRateSlope1(),
+    strategy.getVariableRateSlope2(),
+    strategy.getStableRateSlope1(),
+    strategy.getStableRateSlope2(),
+    strategy.getBaseStableBorrowRate(),
+    strategy.getStableRateExcessOffset(),
+  ]);
+
+  return {
+    optimalUsageRatio,
+    baseVariableBorrowRate,
+    variableRateSlope1,
+    variableRateSlope2,
+    stableRateSlope1,
+    stableRateSlope2,
+    // getBaseStableBorrowRate() returns variableRateSlope1 + baseStableRateOffset
+    baseStableRateOffset: baseStableBorrowRate - variableRateSlope1,
+    stableRateExcessOffset,
+    optimalStableToTotalDebtRatio,
+  };
+}
+
+/**
+ * Arguments of the PoolConfigurator call writing the config value(s) of a setter
+ *
+ * @param setter - PoolConfigurator function
+ * @param asset - Reserve asset
+ * @param expected - Config values
+ * @returns The call arguments
+ */
+function setterArgs(setter: string, asset: string, expected: Record<ReserveConfigField, bigint | boolean | undefined>): unknown[] {
+  if (setter === "configureReserveAsCollateral") {
+    return [asset, expected.baseLTVAsCollateral, expected.liquidationThreshold, expected.liquidationBonus];
+  }
+  return [asset, expected[RESERVE_FIELDS.find((entry) => entry.setter === setter)!.field]];
+}
+
+/**
+ * Display a field value in human units
+ *
+ * @param value - Stored value
+ * @param unit - Field unit
+ * @param symbol - Reserve symbol, used for token amounts
+ * @returns The formatted value
+ */
+function formatField(value: bigint | boolean, unit: FieldUnit, symbol: string): string {
+  if (typeof value === "boolean") {
+    return value ? "enabled" : "disabled";
+  }
+
+  switch (unit) {
+    case "percent":
+      return formatBps(value);
+    case "tokens":
+      return value === 0n ? "unlimited" : `${value.toLocaleString("en-US")} ${symbol}`;
+    case "usd":
+      // Debt ceilings carry 2 decimals (getDebtCeilingDecimals)
+      return value === 0n ? "none" : `${formatUnits(value, 2)} USD`;
+    default:
+      return value.toString();
+  }
+}
+
+/**
+ * Build a corrective PoolConfigurator call
+ *
+ * @param symbol - Reserve symbol
+ * @param poolConfigurator - PoolConfigurator address
+ * @param functionName - Function in `RESERVE_DRIFT_ABI`
+ * @param args - Call arguments
+ * @returns The fix
+ */
+function fix(symbol: string, poolConfigurator: string, functionName: string, args: unknown[]): ReserveDriftFix {
+  return {
+    symbol,
+    asset: args[0] as string,
+    description: `${functionName} ${symbol}`,
+    transaction: { to: poolConfigurator, value: "0", data: reserveInterface.encodeFunctionData(functionName, args) },
+  };
+}
+
+/**
+ * Case-insensitive address comparison
+ *
+ * @param left - First address
+ * @param right - Second address
+ * @returns Whether both are the same address
+ */
+function sameAddress(left: string, right: string): boolean {
+  return left.toLowerCase() === right.toLowerCase();
+}
@@ -0,0 +1,400 @@
+import { Contract, formatUnits, id, Interface, isAddress, ZeroAddress, zeroPadValue } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { fetchLogsInRange } from "../../.shared/lib/roles/holders";
+import { SafeTransactionData } from "../../.shared/lib/safe/types";
+import { POOL_ADDRESSES_PROVIDER_ID, POOL_DATA_PROVIDER_ID } from "../deploy-ids";
+
+/**
+ * Offboarding steps, in order:
+ * - freeze: no new supply or borrow
+ * - zeroLtv: the asset stops backing new borrows; the liquidation threshold is kept so open positions stay liquidatable
+ * - dropCaps: supply and borrow caps lowered to the minimum
+ * - drop: `dropReserve` once supply, debt and treasury accruals are zero
+ */
+export type OffboardingPhase = "freeze" | "zeroLtv" | "dropCaps" | "drop";
+
+export const OFFBOARDING_PHASES: readonly OffboardingPhase[] = ["freeze", "zeroLtv", "dropCaps", "drop"];
+
+/** Caps set by `dropCaps`: 0 means "no cap" in Aave v3, so 1 whole token is the tightest cap */
+export const OFFBOARDING_CAP = 1n;
+
+/**
+ * A user still holding aTokens or debt of the reserve
+ */
+export interface ReserveExposure {
+  readonly user: string;
+  readonly supplied: bigint;
+  readonly stableDebt: bigint;
+  readonly variableDebt: bigint;
+}
+
+/**
+ * On-chain state of a reserve being offboarded
+ */
+export interface ReserveOffboardingState {
+  readonly asset: string;
+  readonly symbol: string;
+  readonly decimals: number;
+  readonly pool: string;
+  readonly poolConfigurator: string;
+  readonly listed: boolean;
+  readonly frozen: boolean;
+  readonly ltv: bigint;
+  readonly liquidationThreshold: bigint;
+  readonly liquidationBonus: bigint;
+  readonly borrowCap: bigint;
+  readonly supplyCap: bigint;
+  readonly totalAToken: bigint;
+  readonly totalStableDebt: bigint;
+  readonly totalVariableDebt: bigint;
+  readonly accruedToTreasury: bigint;
+  /** Holders found in the aToken and debt token Transfer events that still have a balance */
+  readonly exposedUsers: ReserveExposure[];
+  /** Account that sends the calls: the signer, the Safe or the timelock */
+  readonly executor: string;
+  readonly executorIsRiskAdmin: boolean;
+  readonly executorIsPoolAdmin: boolean;
+}
+
+/**
+ * Governance call of an offboarding phase
+ */
+export interface ReserveOffboardingCall {
+  /** Also the idempotency description, e.g. `setReserveFreeze wstkscUSD` */
+  readonly description: string;
+  readonly transaction: SafeTransactionData;
+}
+
+/**
+ * Whether a phase is applied on chain, what it would send and what prevents it
+ */
+export interface OffboardingPhaseStatus {
+  readonly phase: OffboardingPhase;
+  readonly done: boolean;
+  readonly calls: ReserveOffboardingCall[];
+  readonly blockers: string[];
+}
+
+/**
+ * Status of every phase and the first one not applied yet
+ */
+export interface ReserveOffboardingPlan {
+  readonly asset: string;
+  readonly symbol: string;
+  readonly phases: OffboardingPhaseStatus[];
+  /** Undefined once the reserve is dropped */
+  readonly next?: OffboardingPhase;
+}
+
+export interface ReadReserveOffboardingOptions {
+  /** Account that will send the calls */
+  readonly executor: string;
+  /** First block scanned for token holders (default: the block the reserve was initialized in) */
+  readonly fromBlock?: number;
+}
+
+export const RESERVE_OFFBOARDING_ABI = [
+  // PoolAddressesProvider
+  "function getPool() view returns (address)",
+  "function getPoolConfigurator() view returns (address)",
+  "function getACLManager() view returns (address)",
+  // Pool
+  "function getReservesList() view returns (address[])",
+  // AaveProtocolDataProvider
+  "function getReserveConfigurationData(address asset) view returns (uint256 decimals, uint256 ltv, uint256 liquidationThreshold, uint256 liquidationBonus, uint256 reserveFactor, bool usageAsCollateralEnabled, bool borrowingEnabled, bool stableBorrowRateEnabled, bool isActive, bool isFrozen)",
+  "function getReserveCaps(address asset) view returns (uint256 borrowCap, uint256 supplyCap)",
+  "function getReserveData(address asset) view returns (uint256 unbacked, uint256 accruedToTreasuryScaled, uint256 totalAToken, uint256 totalStableDebt, uint256 totalVariableDebt, uint256 liquidityRate, uint256 variableBorrowRate, uint256 stableBorrowRate, uint256 averageStableBorrowRate, uint256 liquidityIndex, uint256 variableBorrowIndex, uint40 lastUpdateTimestamp)",
+  "function getReserveTokensAddresses(address asset) view returns (address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress)",
+  // ACLManager
+  "function isRiskAdmin(address admin) view returns (bool)",
+  "function isPoolAdmin(address admin) view returns (bool)",
+  // ERC20
+  "function symbol() view returns (string)",
+  "function balanceOf(address account) view returns (uint256)",
+  // PoolConfigurator
+  "function setReserveFreeze(address asset, bool freeze)",
+  "function configureReserveAsCollateral(address asset, uint256 ltv, uint256 liquidationThreshold, uint256 liquidationBonus)",
+  "function setSupplyCap(address asset, uint256 newSupplyCap)",
+  "function setBorrowCap(address asset, uint256 newBorrowCap)",
+  "function dropReserve(address asset)",
+];
+
+const offboardingInterface = new Interface(RESERVE_OFFBOARDING_ABI);
+
+const TRANSFER_TOPIC = id("Transfer(address,address,uint256)");
+
+const RESERVE_INITIALIZED_TOPIC = id("ReserveInitialized(address,address,address,address,address)");
+
+/**
+ * Resolve a reserve from an address, a `config.tokenAddresses` symbol, a deployment name or
+ * the symbol of a listed reserve
+ *
+ * @param hre - Hardhat runtime
+ * @param reserve - Address or symbol
+ * @param tokenAddresses - `config.tokenAddresses`
+ * @returns The reserve asset address
+ */
+export async function resolveReserveAsset(
+  hre: HardhatRuntimeEnvironment,
+  reserve: string,
+  tokenAddresses: Record<string, string | undefined>,
+): Promise<string> {
+  if (isAddress(reserve)) {
+    return reserve;
+  }
+
+  const configured = tokenAddresses[reserve] || (await hre.deployments.getOrNull(reserve))?.address;
+
+  if (configured && configured !== ZeroAddress) {
+    return configured;
+  }
+
+  const runner = hre.ethers.provider;
+  const addressesProvider = new Contract((await hre.deployments.get(POOL_ADDRESSES_PROVIDER_ID)).address, RESERVE_OFFBOARDING_ABI, runner);
+  const pool = new Contract(await addressesProvider.getPool(), RESERVE_OFFBOARDING_ABI, runner);
+
+  for (const asset of (await pool.getReservesList()) as string[]) {
+    const symbol = await new Contract(asset, RESERVE_OFFBOARDING_ABI, runner).symbol().catch(() => undefined);
+
+    if (symbol === reserve) {
+      return asset;
+    }
+  }
+  throw new Error(`No token address or listed reserve found for ${reserve}`);
+}
+
+/**
+ * Read the reserve configuration, outstanding supply and debt, the users still exposed and the
+ * executor's ACL roles
+ *
+ * @param hre - Hardhat runtime whose provider is queried
+ * @param asset - Reserve asset
+ * @param options - Executor account and holder scan range
+ * @returns The offboarding state
+ */
+export async function readReserveOffboardingState(
+  hre: HardhatRuntimeEnvironment,
+  asset: string,
+  options: ReadReserveOffboardingOptions,
+): Promise<ReserveOffboardingState> {
+  const runner = hre.ethers.provider;
+  const at = (address: string): Contract => new Contract(address, RESERVE_OFFBOARDING_ABI, runner);
+  const addressesProvider = at((await hre.deployments.get(POOL_ADDRESSES_PROVIDER_ID)).address);
+  const dataProvider = at((await hre.deployments.get(POOL_DATA_PROVIDER_ID)).address);
+  const [pool, poolConfigurator, aclManagerAddress]: string[] = await Promise.all([
+    addressesProvider.getPool(),
+    addressesProvider.getPoolConfigurator(),
+    addressesProvider.getACLManager(),
+  ]);
+  const aclManager = at(aclManagerAddress);
+  const [symbol, executorIsRiskAdmin, executorIsPoolAdmin] = await Promise.all([
+    at(asset)
+      .symbol()
+      .catch(() => asset),
+    aclManager.isRiskAdmin(options.executor),
+    aclManager.isPoolAdmin(options.executor),
+  ]);
+  const tokens = await dataProvider.getReserveTokensAddresses(asset);
+  const base = { asset, symbol, pool, poolConfigurator, executor: options.executor, executorIsRiskAdmin, executorIsPoolAdmin };
+
+  if (tokens.aTokenAddress === ZeroAddress) {
+    return {
+      ...base,
+      decimals: 18,
+      listed: false,
+      frozen: false,
+      ltv: 0n,
+      liquidationThreshold: 0n,
+      liquidationBonus: 0n,
+      borrowCap: 0n,
+      supplyCap: 0n,
+      totalAToken: 0n,
+      totalStableDebt: 0n,
+      totalVariableDebt: 0n,
+      accruedToTreasury: 0n,
+      exposedUsers: [],
+    };
+  }
+
+  const [configuration, caps, data] = await Promise.all([
+    dataProvider.getReserveConfigurationData(asset),
+    dataProvider.getReserveCaps(asset),
+    dataProvider.getReserveData(asset),
+  ]);
+  const exposedUsers = await findExposedUsers(
+    hre,
+    [tokens.aTokenAddress, tokens.stableDebtTokenAddress, tokens.variableDebtTokenAddress],
+    options.fromBlock ?? (await findReserveInitializedBlock(hre, poolConfigurator, asset)),
+  );
+
+  return {
+    ...base,
+    decimals: Number(configuration.decimals),
+    listed: true,
+    frozen: configuration.isFrozen,
+    ltv: configuration.ltv,
+    liquidationThreshold: configuration.liquidationThreshold,
+    liquidationBonus: configuration.liquidationBonus,
+    borrowCap: caps.borrowCap,
+    supplyCap: caps.supplyCap,
+    totalAToken: data.totalAToken,
+    totalStableDebt: data.totalStableDebt,
+    totalVariableDebt: data.totalVariableDebt,
+    accruedToTreasury: data.accruedToTreasuryScaled,
+    exposedUsers,
+  };
+}
+
+/**
+ * Derive the status, calls and blockers of every offboarding phase. A phase is blocked until
+ * the previous one is applied on chain, so each run moves the reserve one step forward.
+ *
+ * @param state - Output of `readReserveOffboardingState`
+ * @returns The plan
+ */
+export function planReserveOffboarding(state: ReserveOffboardingState): ReserveOffboardingPlan {
+  const { asset, symbol } = state;
+  const done: Record<OffboardingPhase, boolean> = {
+    freeze: !state.listed || state.frozen,
+    zeroLtv: !state.listed || state.ltv === 0n,
+    dropCaps: !state.listed || (state.supplyCap === OFFBOARDING_CAP && state.borrowCap === OFFBOARDING_CAP),
+    drop: !state.listed,
+  };
+  const call = (functionName: string, args: unknown[]): ReserveOffboardingCall => ({
+    description: `${functionName} ${symbol}`,
+    transaction: { to: state.poolConfigurator, value: "0", data: offboardingInterface.encodeFunctionData(functionName, args) },
+  });
+  const calls: Record<OffboardingPhase, ReserveOffboardingCall[]> = {
+    freeze: [call("setReserveFreeze", [asset, true])],
+    zeroLtv: [call("configureReserveAsCollateral", [asset, 0n, state.liquidationThreshold, state.liquidationBonus])],
+    dropCaps: [
+      ...(state.supplyCap === OFFBOARDING_CAP ? [] : [call("setSupplyCap", [asset, OFFBOARDING_CAP])]),
+      ...(state.borrowCap === OFFBOARDING_CAP ? [] : [call("setBorrowCap", [asset, OFFBOARDING_CAP])]),
+    ],
+    drop: [call("dropReserve", [asset])],
+  };
+
+  const phases = OFFBOARDING_PHASES.map((phase, index): OffboardingPhaseStatus => {
+    if (done[phase]) {
+      return { phase, done: true, calls: [], blockers: [] };
+    }
+
+    const blockers: string[] = [];
+    const previous = OFFBOARDING_PHASES.slice(0, index).filter((earlier) => !done[earlier]);
+
+    if (previous.length > 0) {
+      blockers.push(`${previous.join(", ")} not applied yet`);
+    }
+
+    if (phase === "drop") {
+      blockers.push(...dropBlockers(state));
+
+      if (!state.executorIsPoolAdmin) {
+        blockers.push(`${state.executor} is not a pool admin (dropReserve is onlyPoolAdmin)`);
+      }
+    } else if (!state.executorIsRiskAdmin && !state.executorIsPoolAdmin) {
+      blockers.push(`${state.executor} is neither a risk admin nor a pool admin`);
+    }
+    return { phase, done: false, calls: calls[phase], blockers };
+  });
+
+  return { asset, symbol, phases, next: phases.find((status) => !status.done)?.phase };
+}
+
+/**
+ * Outstanding balances that make `dropReserve` revert (ValidationLogic.validateDropReserve)
+ *
+ * @param state - The offboarding state
+ * @returns One message per blocker
+ */
+function dropBlockers(state: ReserveOffboardingState): string[] {
+  const amount = (value: bigint): string => `${formatUnits(value, state.decimals)} ${state.symbol}`;
+  const blockers: string[] = [];
+
+  if (state.totalAToken > 0n) {
+    blockers.push(`aToken supply is ${amount(state.totalAToken)}`);
+  }
+
+  if (state.totalStableDebt > 0n) {
+    blockers.push(`stable debt is ${amount(state.totalStableDebt)}`);
+  }
+
+  if (state.totalVariableDebt > 0n) {
+    blockers.push(`variable debt is ${amount(state.totalVariableDebt)}`);
+  }
+
+  if (state.accruedToTreasury > 0n) {
+    blockers.push(
+      `${amount(state.accruedToTreasury)} (scaled) accrued to treasury: call Pool.mintToTreasury and redeem the treasury aTokens`,
+    );
+  }
+
+  if (state.exposedUsers.length > 0) {
+    blockers.push(`${state.exposedUsers.length} user(s) still exposed: ${state.exposedUsers.map((exposure) => exposure.user).join(", ")}`);
+  }
+  return blockers;
+}
+
+/**
+ * Block of the reserve's latest `ReserveInitialized` event, searched from the PoolAddressesProvider
+ * deployment. Its tokens have no holders before then.
+ *
+ * @param hre - Hardhat runtime whose provider is queried
+ * @param poolConfigurator - PoolConfigurator emitting the event
+ * @param asset - Reserve asset
+ * @returns The block, or the deployment block when the event is not found
+ */
+async function findReserveInitializedBlock(hre: HardhatRuntimeEnvironment, poolConfigurator: string, asset: string): Promise<number> {
+  const deployedAt = (await hre.deployments.get(POOL_ADDRESSES_PROVIDER_ID)).receipt?.blockNumber ?? 0;
+  const logs = await fetchLogsInRange(
+    hre.ethers.provider,
+    { address: poolConfigurator, topics: [RESERVE_INITIALIZED_TOPIC, zeroPadValue(asset, 32)] },
+    deployedAt,
+    await hre.ethers.provider.getBlockNumber(),
+  );
+  return logs.length > 0 ? logs[logs.length - 1].blockNumber : deployedAt;
+}
+
+/**
+ * Collect every recipient of the reserve's aToken and debt tokens from their Transfer events
+ * (mints included) and keep those that still hold a balance
+ *
+ * @param hre - Hardhat runtime whose provider is queried
+ * @param tokens - aToken, stable debt token and variable debt token
+ * @param fromBlock - First block scanned
+ * @returns The exposed users
+ */
+async function findExposedUsers(
+  hre: HardhatRuntimeEnvironment,
+  tokens: [string, string, string],
+  fromBlock: number,
+): Promise<ReserveExposure[]> {
+  const provider = hre.ethers.provider;
+  const logs = await fetchLogsInRange(provider, { address: tokens, topics: [TRANSFER_TOPIC] }, fromBlock, await provider.getBlockNumber());
+  const candidates = new Set<string>();
+
+  for (const log of logs) {
+    const to = `0x${log.topics[2].slice(26)}`;
+
+    if (to !== ZeroAddress) {
+      candidates.add(hre.ethers.getAddress(to));
+    }
+  }
+
+  const [aToken, stableDebtToken, variableDebtToken] = tokens.map((token) => new Contract(token, RESERVE_OFFBOARDING_ABI, provider));
+  const exposures: ReserveExposure[] = [];
+
+  for (const user of candidates) {
+    const [supplied, stableDebt, variableDebt]: bigint[] = await Promise.all([
+      aToken.balanceOf(user),
+      stableDebtToken.balanceOf(user),
+      variableDebtToken.balanceOf(user),
+    ]);
+
+    if (supplied > 0n || stableDebt > 0n || variableDebt > 0n) {
+      exposures.push({ user, supplied, stableDebt, variableDebt });
+    }
+  }
+  return exposures;
+}
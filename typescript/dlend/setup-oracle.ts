@@ -1,42 +1,28 @@
 import { ZeroAddress } from "ethers";
 
+import { OraclePriceExpectationChecker } from "../../.shared/lib/oracles/prices/expectations";
+import { assertOraclePriceExpectation } from "../oracle_aggregator/price-expectations";
+
 // Helper function to perform sanity checks on oracle wrappers
 /**
- * Performs sanity checks on oracle wrapper feeds by verifying normalized prices are within a reasonable range.
+ * Performs sanity checks on oracle wrapper feeds by checking each asset's price against its configured expectation.
  *
  * @param wrapper The oracle wrapper contract instance.
  * @param feeds A record mapping asset addresses to feed configurations.
- * @param baseCurrencyUnit The base currency unit for price calculations.
  * @param wrapperName The name of the wrapper for logging purposes.
- * @param minPrice The minimum acceptable price.
- * @param maxPrice The maximum acceptable price.
+ * @param checker The price expectation checker of the wrapper's aggregator.
  * @returns void
  */
 export async function performOracleSanityChecks(
   wrapper: any,
   feeds: Record<string, any>,
-  baseCurrencyUnit: bigint,
   wrapperName: string,
-  minPrice: number,
-  maxPrice: number,
+  checker: OraclePriceExpectationChecker,
 ): Promise<void> {
   for (const [assetAddress] of Object.entries(feeds)) {
     try {
       const price = await wrapper.getAssetPrice(assetAddress);
-      const normalizedPrice = Number(price) / Number(baseCurrencyUnit);
-
-      if (normalizedPrice < minPrice || normalizedPrice > maxPrice) {
-        console.error(
-          `Sanity check failed for asset ${assetAddress} in ${wrapperName}: Normalized price ${normalizedPrice} is outside the range [${minPrice}, ${maxPrice}]`,
-        );
-        throw new Error(
-          `Sanity check failed for asset ${assetAddress} in ${wrapperName}: Normalized price ${normalizedPrice} is outside the range [${minPrice}, ${maxPrice}]`,
-        );
-      } else {
-        console.log(
-          `Sanity check passed for asset ${assetAddress} in ${wrapperName}: Normalized price is ${normalizedPrice} (range: [${minPrice}, ${maxPrice}])`,
-        );
-      }
+      await assertOraclePriceExpectation(checker, assetAddress, BigInt(price), `${assetAddress} in ${wrapperName}`);
     } catch (error) {
       console.error(`Error performing sanity check for asset ${assetAddress} in ${wrapperName}:`, error);
       throw new Error(`Error performing sanity check for asset ${assetAddress} in ${wrapperName}: ${error}`);
@@ -51,9 +37,7 @@ export async function performOracleSanityChecks(
  * @param config Network configuration
  * @param redstoneCompositeWrapper The composite wrapper contract
  * @param oracleAggregator The oracle aggregator contract
- * @param baseCurrencyUnit The base currency unit for calculations
- * @param minPrice The minimum acceptable price for sanity checks
- * @param maxPrice The maximum acceptable price for sanity checks
+ * @param checker The price expectation checker used for sanity checks
  * @param deployerAddress The deployer address for permission checks
  */
 export async function setupRedstoneCompositeFeedsForAssets(
@@ -61,9 +45,7 @@ export async function setupRedstoneCompositeFeedsForAssets(
   config: any,
   redstoneCompositeWrapper: any,
   oracleAggregator: any,
-  baseCurrencyUnit: bigint,
-  minPrice: number,
-  maxPrice: number,
+  checker: OraclePriceExpectationChecker,
   deployerAddress: string,
 ): Promise<void> {
   const allCompositeFeeds = config.oracleAggregators.USD.redstoneOracleAssets?.compositeRedstoneOracleWrappersWithThresholding || {};
@@ -140,14 +122,7 @@ export async function setupRedstoneCompositeFeedsForAssets(
 
     // Perform sanity check AFTER the feed is set up
     console.log(`- Performing sanity check for asset ${assetAddress}...`);
-    await performOracleSanityChecks(
-      redstoneCompositeWrapper,
-      { [assetAddress]: feedConfig },
-      baseCurrencyUnit,
-      `${assetAddress} composite feed`,
-      minPrice,
-      maxPrice,
-    );
+    await performOracleSanityChecks(redstoneCompositeWrapper, { [assetAddress]: feedConfig }, `${assetAddress} composite feed`, checker);
   }
 }
 
@@ -158,9 +133,7 @@ export async function setupRedstoneCompositeFeedsForAssets(
  * @param config Network configuration
  * @param redstoneWrapper The redstone wrapper contract
  * @param oracleAggregator The oracle aggregator contract
- * @param baseCurrencyUnit The base currency unit for calculations
- * @param minPrice The minimum acceptable price for sanity checks
- * @param maxPrice The maximum acceptable price for sanity checks
+ * @param checker The price expectation checker used for sanity checks
  * @param deployerAddress The deployer address for permission checks
  */
 export async function setupRedstoneSimpleFeedsForAssets(
@@ -168,9 +141,7 @@ export async function setupRedstoneSimpleFeedsForAssets(
   config: any,
   redstoneWrapper: any,
   oracleAggregator: any,
-  baseCurrencyUnit: bigint,
-  minPrice: number,
-  maxPrice: number,
+  checker: OraclePriceExpectationChecker,
   deployerAddress: string,
 ): Promise<void> {
   const allSimpleFeeds = config.oracleAggregators.USD.redstoneOracleAssets?.redstoneOracleWrappersWithThresholding || {};
@@ -243,13 +214,6 @@ export async function setupRedstoneSimpleFeedsForAssets(
 
     // Perform sanity check AFTER the feed is set up
     console.log(`- Performing sanity check for asset ${assetAddress}...`);
-    await performOracleSanityChecks(
-      redstoneWrapper,
-      { [assetAddress]: feedConfig },
-      baseCurrencyUnit,
-      `${assetAddress} simple feed`,
-      minPrice,
-      maxPrice,
-    );
+    await performOracleSanityChecks(redstoneWrapper, { [assetAddress]: feedConfig }, `${assetAddress} simple feed`, checker);
   }
 }
@@ -1,9 +1,57 @@
 import { Signer } from "ethers";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
-import { SafeManager } from "../safe/SafeManager";
-import { SafeConfig, SafeTransactionBatch, SafeTransactionData } from "../safe/types";
+import { safeOperationKey } from "../../.shared/lib/safe/operation-key";
+import { SafeManager } from "../../.shared/lib/safe/safe-manager";
+import { SafeConfig, SafeManagerOptions, SafeTransactionBatch, SafeTransactionData } from "../../.shared/lib/safe/types";
 import { isMainnet } from "./deploy";
+import {
+  buildTimelockBatch,
+  findTimelockSaltNonce,
+  getTimelockLedgerPath,
+  getTimelockMinDelay,
+  getTimelockOperationStatus,
+  readTimelockOperations,
+  recordTimelockOperation,
+  TimelockConfig,
+} from "./timelock";
+
+/**
+ * How queued governance operations are carried out:
+ * - direct: calls are sent by the signer and failures are only reported
+ * - safe: failed calls are batched into a Safe transaction
+ * - timelock: failed calls are wrapped in `TimelockController.scheduleBatch`, sent through the Safe or by the signer
+ */
+export type ExecutionMode = "direct" | "safe" | "timelock";
+
+/**
+ * Safe operation queued by `tryOrQueue`, identified by its idempotency key
+ */
+export interface GovernanceQueuedOperation {
+  readonly key: string;
+  readonly description: string;
+  readonly transaction: SafeTransactionData;
+}
+
+/**
+ * Queued operation skipped by `flush` because an identical one is already pending
+ */
+export interface GovernanceDeduplicatedOperation extends GovernanceQueuedOperation {
+  /** safeTxHash of the pending batch holding the operation, or undefined when queued twice in this run */
+  readonly pendingSafeTxHash?: string;
+}
+
+/**
+ * Which queued operations `flush` batches and which it skips as duplicates
+ */
+export interface GovernanceFlushReport {
+  readonly queued: GovernanceQueuedOperation[];
+  readonly deduplicated: GovernanceDeduplicatedOperation[];
+  /** Safe batches created by the flush, in execution order ("1 of n" first) */
+  readonly safeTxHashes?: string[];
+  /** Timelock operation id when the batch was scheduled on a timelock */
+  readonly timelockOperationId?: string;
+}
 
 /**
  * GovernanceExecutor decides whether to execute operations directly
@@ -15,13 +63,31 @@ import { isMainnet } from "./deploy";
  *   in env to force Safe usage on other networks.
  * - For non-Safe mode, direct calls are attempted; on failure, the helper
  *   continues without blocking to keep local/test deployments progressing.
+ * - `safeOptions` is forwarded to SafeManager, e.g. to propose batches to a
+ *   Safe Transaction Service instead of only exporting them offline.
+ * - Each queued operation carries an idempotency key (target + calldata hash +
+ *   description). `flush` skips operations already sitting in a pending batch,
+ *   so re-running a deploy script never queues the same call twice.
+ * - When a `timelockConfig` is provided, queued calls are wrapped in a
+ *   TimelockController `scheduleBatch`. The schedule call goes through the Safe
+ *   when Safe mode is enabled (unless `scheduleViaSafe` is false), otherwise the
+ *   signer sends it. The matching `executeBatch` payload is recorded in the
+ *   timelock ledger for `timelock:list` once the delay has passed.
  */
 export class GovernanceExecutor {
   private readonly safeManager?: SafeManager;
-  private readonly transactions: SafeTransactionData[] = [];
+  private readonly operations: GovernanceQueuedOperation[] = [];
+  private flushReport?: GovernanceFlushReport;
   readonly useSafe: boolean;
+  readonly mode: ExecutionMode;
 
-  constructor(hre: HardhatRuntimeEnvironment, signer: Signer, safeConfig?: SafeConfig) {
+  constructor(
+    private readonly hre: HardhatRuntimeEnvironment,
+    private readonly signer: Signer,
+    safeConfig?: SafeConfig,
+    safeOptions?: Omit<SafeManagerOptions, "safeConfig">,
+    private readonly timelockConfig?: TimelockConfig,
+  ) {
     const envForce = process.env.USE_SAFE?.toLowerCase() === "true";
     // Enable Safe governance on mainnet by default (using shared helper), or when forced via env
     const isMainnetNetwork = isMainnet(hre.network.name);
@@ -29,8 +95,10 @@ export class GovernanceExecutor {
     this.useSafe = Boolean(safeConfig) && (isMainnetNetwork || envForce);
 
     if (this.useSafe && safeConfig) {
-      this.safeManager = new SafeManager(hre, signer, { safeConfig });
+      this.safeManager = new SafeManager(hre, signer, { ...safeOptions, safeConfig });
     }
+
+    this.mode = timelockConfig ? "timelock" : this.useSafe ? "safe" : "direct";
   }
 
   /** Initialize Safe only if Safe mode is enabled */
@@ -42,25 +110,36 @@ export class GovernanceExecutor {
 
   /** Expose queued transactions (read-only) */
   get queuedTransactions(): readonly SafeTransactionData[] {
-    return this.transactions;
+    return this.operations.map((operation) => operation.transaction);
+  }
+
+  /** Expose queued operations with their idempotency keys (read-only) */
+  get queuedOperations(): readonly GovernanceQueuedOperation[] {
+    return this.operations;
+  }
+
+  /** Report of the last `flush`, undefined before the first flush in Safe or timelock mode */
+  get lastFlushReport(): GovernanceFlushReport | undefined {
+    return this.flushReport;
   }
 
   /**
-   * Attempt an on-chain call; on failure, queue a Safe transaction if enabled.
+   * Attempt an on-chain call; on failure, queue a Safe transaction if Safe or timelock mode is enabled.
    * Returns whether the requirement is considered complete (true) or pending
    * governance/manual action (false).
    *
    * @param directCall - The function to call directly
    * @param safeTxBuilder - The function to build a Safe transaction if direct call fails
+   * @param description - Description of the operation, part of its idempotency key
    */
-  async tryOrQueue<T>(directCall: () => Promise<T>, safeTxBuilder?: () => SafeTransactionData): Promise<boolean> {
+  async tryOrQueue<T>(directCall: () => Promise<T>, safeTxBuilder?: () => SafeTransactionData, description = ""): Promise<boolean> {
     try {
       await directCall();
       return true;
     } catch (error) {
-      if (this.useSafe && safeTxBuilder) {
-        const tx = safeTxBuilder();
-        this.transactions.push(tx);
+      if (this.mode !== "direct" && safeTxBuilder) {
+        const transaction = safeTxBuilder();
+        this.operations.push({ key: safeOperationKey(transaction, description), description, transaction });
         return false;
       }
       // Non-safe mode: mark as pending to allow callers to surface incomplete state
@@ -72,22 +151,151 @@ export class GovernanceExecutor {
   }
 
   /**
-   * Flush queued transactions into a Safe batch (if any and in Safe mode).
-   * Returns true if either not in Safe mode, or batch prepared successfully.
+   * Split the queued operations into new ones and duplicates of operations that are
+   * already pending in the Safe ledger or a timelock operation that is waiting or ready (or queued earlier
+   * in this run). Cancelled or never-scheduled timelock operations read as unset and are queued again.
+   */
+  async previewFlush(): Promise<GovernanceFlushReport> {
+    const pendingKeys = this.safeManager ? await this.safeManager.getPendingOperationKeys() : new Map<string, string>();
+
+    if (this.timelockConfig) {
+      for (const record of readTimelockOperations(getTimelockLedgerPath(this.hre, this.timelockConfig))) {
+        const status = await getTimelockOperationStatus(this.hre.ethers.provider, record);
+
+        if (status.state === "waiting" || status.state === "ready") {
+          record.operationKeys.forEach((key) => pendingKeys.set(key, record.safeTxHash ?? record.id));
+        }
+      }
+    }
+    const queued: GovernanceQueuedOperation[] = [];
+    const deduplicated: GovernanceDeduplicatedOperation[] = [];
+    const seen = new Set<string>();
+
+    for (const operation of this.operations) {
+      if (pendingKeys.has(operation.key)) {
+        deduplicated.push({ ...operation, pendingSafeTxHash: pendingKeys.get(operation.key) });
+      } else if (seen.has(operation.key)) {
+        deduplicated.push(operation);
+      } else {
+        seen.add(operation.key);
+        queued.push(operation);
+      }
+    }
+    return { queued, deduplicated };
+  }
+
+  /**
+   * Flush queued transactions into Safe batches (if any and in Safe mode).
+   * Operations already pending in an un-executed batch are skipped; the split is
+   * logged and kept in `lastFlushReport`. The remaining operations are split in order
+   * into "k of n" batches that fit the `batchBudget` gas ceiling and calldata limit
+   * of the Safe options.
+   * Returns true if either not in Safe mode, nothing new to batch, or all batches prepared successfully.
    *
    * @param description - The description of the batch
    */
   async flush(description: string): Promise<boolean> {
-    if (!this.useSafe || !this.safeManager || this.transactions.length === 0) {
+    if (this.mode === "timelock" && this.operations.length > 0) {
+      return await this.flushToTimelock(description);
+    }
+
+    if (!this.useSafe || !this.safeManager || this.operations.length === 0) {
+      return true;
+    }
+
+    const report = await this.previewFlush();
+    logFlushReport(description, report);
+    this.flushReport = report;
+
+    if (report.queued.length === 0) {
       return true;
     }
 
     const batch: SafeTransactionBatch = {
       description,
-      transactions: this.transactions,
+      transactions: report.queued.map((operation) => operation.transaction),
+      operationKeys: report.queued.map((operation) => operation.key),
     };
 
-    const res = await this.safeManager.createBatchTransaction(batch);
-    return res.success;
+    const results = await this.safeManager.createSplitBatchTransactions(batch);
+    this.flushReport = { ...report, safeTxHashes: results.flatMap((res) => (res.safeTxHash ? [res.safeTxHash] : [])) };
+    return results.every((res) => res.success);
+  }
+
+  /**
+   * Wrap the new queued operations in a timelock `scheduleBatch`, send it through the
+   * Safe or the signer, and record the operation with its `executeBatch` payload
+   *
+   * @param description - The description of the batch
+   */
+  private async flushToTimelock(description: string): Promise<boolean> {
+    const config = this.timelockConfig!;
+    const report = await this.previewFlush();
+    logFlushReport(description, report);
+    this.flushReport = report;
+
+    if (report.queued.length === 0) {
+      return true;
+    }
+
+    const delay = config.delay ?? (await getTimelockMinDelay(this.hre.ethers.provider, config.address));
+    const transactions = report.queued.map((operation) => operation.transaction);
+    const batchOptions = { delay, predecessor: config.predecessor };
+    const nonce = await findTimelockSaltNonce(this.hre.ethers.provider, config.address, transactions, description, batchOptions);
+    const batch = buildTimelockBatch(config.address, transactions, description, { ...batchOptions, nonce });
+    const operationKeys = report.queued.map((operation) => operation.key);
+    const viaSafe = Boolean(this.safeManager) && config.scheduleViaSafe !== false;
+    let safeTxHash: string | undefined;
+    let scheduleTransactionHash: string | undefined;
+
+    console.log(`⏳ Scheduling timelock operation ${batch.id} (delay ${delay}s) ${viaSafe ? "via Safe" : "from signer"}`);
+
+    if (viaSafe) {
+      const res = await this.safeManager!.createBatchTransaction({
+        description: `${description} (timelock schedule)`,
+        transactions: [batch.scheduleTransaction],
+        operationKeys,
+      });
+
+      if (!res.success) {
+        return false;
+      }
+      safeTxHash = res.safeTxHash;
+    } else {
+      const tx = await this.signer.sendTransaction({ to: batch.scheduleTransaction.to, data: batch.scheduleTransaction.data });
+      await tx.wait();
+      scheduleTransactionHash = tx.hash;
+    }
+
+    recordTimelockOperation(getTimelockLedgerPath(this.hre, config), {
+      ...batch,
+      description,
+      operationKeys,
+      scheduledVia: viaSafe ? "safe" : "signer",
+      safeTxHash,
+      scheduleTransactionHash,
+      createdAt: Date.now(),
+    });
+    this.flushReport = { ...report, safeTxHashes: safeTxHash ? [safeTxHash] : undefined, timelockOperationId: batch.id };
+    return true;
+  }
+}
+
+/**
+ * Print which operations a flush batches and which it skips
+ *
+ * @param description - The batch description
+ * @param report - The flush report
+ */
+function logFlushReport(description: string, report: GovernanceFlushReport): void {
+  console.log(`🧾 ${description}: ${report.queued.length} new operation(s), ${report.deduplicated.length} already pending`);
+
+  for (const operation of report.deduplicated) {
+    const where = operation.pendingSafeTxHash ? `pending in ${operation.pendingSafeTxHash}` : "queued twice in this run";
+    console.log(`   ⏭️ ${operation.description || operation.key} (${where})`);
+  }
+
+  for (const operation of report.queued) {
+    console.log(`   ➕ ${operation.description || operation.key}`);
   }
 }
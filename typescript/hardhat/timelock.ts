@@ -0,0 +1,253 @@
+import { AbiCoder, Interface, keccak256, Provider, ZeroHash } from "ethers";
+import fs from "fs";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import path from "path";
+
+import { getNetworkDeploymentsPath } from "../../.shared/lib/safe/storage";
+import { SafeTransactionData } from "../../.shared/lib/safe/types";
+
+export const TIMELOCK_ABI = [
+  "function getMinDelay() view returns (uint256)",
+  "function getTimestamp(bytes32 id) view returns (uint256)",
+  "function getOperationState(bytes32 id) view returns (uint8)",
+  "function hashOperationBatch(address[] targets, uint256[] values, bytes[] payloads, bytes32 predecessor, bytes32 salt) pure returns (bytes32)",
+  "function scheduleBatch(address[] targets, uint256[] values, bytes[] payloads, bytes32 predecessor, bytes32 salt, uint256 delay)",
+  "function executeBatch(address[] targets, uint256[] values, bytes[] payloads, bytes32 predecessor, bytes32 salt) payable",
+];
+
+const timelockInterface = new Interface(TIMELOCK_ABI);
+
+/**
+ * OpenZeppelin TimelockController (v5) operation states, in `OperationState` enum order
+ */
+export const TIMELOCK_OPERATION_STATES = ["unset", "waiting", "ready", "done"] as const;
+
+export type TimelockOperationState = (typeof TIMELOCK_OPERATION_STATES)[number];
+
+/**
+ * Configuration for routing governance calls through an OpenZeppelin TimelockController
+ */
+export interface TimelockConfig {
+  readonly address: string;
+  /** Delay passed to `scheduleBatch` in seconds (defaults to the timelock's `getMinDelay()`) */
+  readonly delay?: number;
+  /** Operation the batch depends on (defaults to none) */
+  readonly predecessor?: string;
+  /** Send `scheduleBatch` through the Safe when Safe mode is enabled (default true) */
+  readonly scheduleViaSafe?: boolean;
+  /** Ledger of scheduled operations (defaults to deployments/<network>/timelock-operations.json) */
+  readonly ledgerPath?: string;
+}
+
+/**
+ * Calls wrapped into one timelock batch, with the matching schedule and execute payloads
+ */
+export interface TimelockBatch {
+  readonly id: string;
+  readonly timelock: string;
+  readonly targets: string[];
+  readonly values: string[];
+  readonly payloads: string[];
+  readonly predecessor: string;
+  readonly salt: string;
+  readonly delay: number;
+  readonly scheduleTransaction: SafeTransactionData;
+  readonly executeTransaction: SafeTransactionData;
+}
+
+/**
+ * Timelock batch recorded by `GovernanceExecutor.flush`
+ */
+export interface TimelockOperationRecord extends TimelockBatch {
+  readonly description: string;
+  readonly operationKeys: string[];
+  readonly scheduledVia: "safe" | "signer";
+  /** Safe batch carrying the `scheduleBatch` call when scheduled via the Safe */
+  readonly safeTxHash?: string;
+  /** Transaction that sent `scheduleBatch` when scheduled by the signer */
+  readonly scheduleTransactionHash?: string;
+  readonly createdAt: number;
+}
+
+/**
+ * On-chain status of a recorded timelock operation
+ */
+export interface TimelockOperationStatus {
+  readonly state: TimelockOperationState;
+  /** Unix time from which `executeBatch` succeeds; estimated as now + delay while the schedule is still pending */
+  readonly executableAt: number;
+  readonly estimated: boolean;
+}
+
+/**
+ * Wrap calls into a timelock batch. The salt is derived from the description and nonce so
+ * re-running the same rollout yields the same operation id; bump the nonce to schedule the same
+ * calls again once that operation exists (see `findTimelockSaltNonce`).
+ *
+ * @param timelock - TimelockController address
+ * @param transactions - Calls to run through the timelock
+ * @param description - Batch description used to derive the salt
+ * @param options - Delay, predecessor and salt nonce
+ * @param options.delay - Delay in seconds
+ * @param options.predecessor - Operation that must be executed first
+ * @param options.nonce - Mixed into the salt (defaults to 0)
+ */
+export function buildTimelockBatch(
+  timelock: string,
+  transactions: SafeTransactionData[],
+  description: string,
+  options: { delay: number; predecessor?: string; nonce?: number },
+): TimelockBatch {
+  const targets = transactions.map((transaction) => transaction.to);
+  const values = transactions.map((transaction) => transaction.value || "0");
+  const payloads = transactions.map((transaction) => transaction.data);
+  const predecessor = options.predecessor ?? ZeroHash;
+  const salt = keccak256(AbiCoder.defaultAbiCoder().encode(["string", "uint256"], [description, options.nonce ?? 0]));
+  const value = values.reduce((total, entry) => total + BigInt(entry), 0n).toString();
+
+  return {
+    id: hashTimelockBatch(targets, values, payloads, predecessor, salt),
+    timelock,
+    targets,
+    values,
+    payloads,
+    predecessor,
+    salt,
+    delay: options.delay,
+    scheduleTransaction: {
+      to: timelock,
+      value: "0",
+      data: timelockInterface.encodeFunctionData("scheduleBatch", [targets, values, payloads, predecessor, salt, options.delay]),
+    },
+    executeTransaction: {
+      to: timelock,
+      value,
+      data: timelockInterface.encodeFunctionData("executeBatch", [targets, values, payloads, predecessor, salt]),
+    },
+  };
+}
+
+/**
+ * Operation id as computed by `TimelockController.hashOperationBatch`
+ *
+ * @param targets - Call targets
+ * @param values - Call values in wei
+ * @param payloads - Calldata
+ * @param predecessor - Predecessor operation id
+ * @param salt - Operation salt
+ */
+export function hashTimelockBatch(targets: string[], values: string[], payloads: string[], predecessor: string, salt: string): string {
+  return keccak256(
+    AbiCoder.defaultAbiCoder().encode(
+      ["address[]", "uint256[]", "bytes[]", "bytes32", "bytes32"],
+      [targets, values, payloads, predecessor, salt],
+    ),
+  );
+}
+
+/**
+ * Read the timelock's minimum delay
+ *
+ * @param provider - Provider for the timelock's network
+ * @param timelock - TimelockController address
+ */
+export async function getTimelockMinDelay(provider: Provider, timelock: string): Promise<number> {
+  const result = await provider.call({ to: timelock, data: timelockInterface.encodeFunctionData("getMinDelay") });
+  return Number(timelockInterface.decodeFunctionResult("getMinDelay", result)[0]);
+}
+
+/**
+ * Lowest salt nonce whose operation is unset on the timelock, so a batch identical to an executed
+ * or still scheduled one gets a fresh id instead of reverting in `scheduleBatch`
+ *
+ * @param provider - Provider for the timelock's network
+ * @param timelock - TimelockController address
+ * @param transactions - Calls to run through the timelock
+ * @param description - Batch description used to derive the salt
+ * @param options - Delay and predecessor
+ * @param options.delay - Delay in seconds
+ * @param options.predecessor - Operation that must be executed first
+ */
+export async function findTimelockSaltNonce(
+  provider: Provider,
+  timelock: string,
+  transactions: SafeTransactionData[],
+  description: string,
+  options: { delay: number; predecessor?: string },
+): Promise<number> {
+  for (let nonce = 0; ; nonce++) {
+    const { id } = buildTimelockBatch(timelock, transactions, description, { ...options, nonce });
+
+    if ((await readTimelockOperationState(provider, timelock, id)) === "unset") {
+      return nonce;
+    }
+  }
+}
+
+/**
+ * Read an operation's state
+ *
+ * @param provider - Provider for the timelock's network
+ * @param timelock - TimelockController address
+ * @param id - Operation id
+ */
+export async function readTimelockOperationState(provider: Provider, timelock: string, id: string): Promise<TimelockOperationState> {
+  const result = await provider.call({ to: timelock, data: timelockInterface.encodeFunctionData("getOperationState", [id]) });
+  return TIMELOCK_OPERATION_STATES[Number(timelockInterface.decodeFunctionResult("getOperationState", result)[0])];
+}
+
+/**
+ * Resolve the state of a recorded operation and when it becomes executable
+ *
+ * @param provider - Provider for the timelock's network
+ * @param record - The recorded operation
+ */
+export async function getTimelockOperationStatus(provider: Provider, record: TimelockBatch): Promise<TimelockOperationStatus> {
+  const [state, timestampResult, block] = await Promise.all([
+    readTimelockOperationState(provider, record.timelock, record.id),
+    provider.call({ to: record.timelock, data: timelockInterface.encodeFunctionData("getTimestamp", [record.id]) }),
+    provider.getBlock("latest"),
+  ]);
+  const timestamp = Number(timelockInterface.decodeFunctionResult("getTimestamp", timestampResult)[0]);
+
+  if (state === "unset") {
+    return { state, executableAt: (block?.timestamp ?? Math.floor(Date.now() / 1000)) + record.delay, estimated: true };
+  }
+  // getTimestamp returns 1 once an operation is done
+  return { state, executableAt: state === "done" ? 0 : timestamp, estimated: false };
+}
+
+/**
+ * Path of the timelock operation ledger
+ *
+ * @param hre - Hardhat runtime environment
+ * @param config - Timelock configuration
+ */
+export function getTimelockLedgerPath(hre: HardhatRuntimeEnvironment, config?: Pick<TimelockConfig, "ledgerPath">): string {
+  return config?.ledgerPath ?? path.join(getNetworkDeploymentsPath(hre), "timelock-operations.json");
+}
+
+/**
+ * Read recorded timelock operations
+ *
+ * @param ledgerPath - Ledger file path
+ */
+export function readTimelockOperations(ledgerPath: string): TimelockOperationRecord[] {
+  if (!fs.existsSync(ledgerPath)) {
+    return [];
+  }
+  return JSON.parse(fs.readFileSync(ledgerPath, "utf8")).operations ?? [];
+}
+
+/**
+ * Record a timelock operation, replacing an earlier record with the same id
+ *
+ * @param ledgerPath - Ledger file path
+ * @param record - The operation to record
+ */
+export function recordTimelockOperation(ledgerPath: string, record: TimelockOperationRecord): void {
+  const operations = readTimelockOperations(ledgerPath).filter((operation) => operation.id !== record.id);
+  operations.push(record);
+  fs.mkdirSync(path.dirname(ledgerPath), { recursive: true });
+  fs.writeFileSync(ledgerPath, JSON.stringify({ operations }, null, 2));
+}
@@ -0,0 +1,750 @@
+import { Contract, Interface, Result, ZeroAddress } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { DEFAULT_MULTICALL3_ADDRESS } from "../../.shared/lib/roles/multicall";
+import { SafeTransactionData } from "../../.shared/lib/safe/types";
+import { OracleAggregatorConfig } from "../../config/types";
+import {
+  ETH_API3_COMPOSITE_WRAPPER_WITH_THRESHOLDING_ID,
+  ETH_API3_ORACLE_WRAPPER_ID,
+  ETH_API3_WRAPPER_WITH_THRESHOLDING_ID,
+  ETH_CHAINLINK_ERC4626_WRAPPER_ID,
+  ETH_ERC4626_ORACLE_WRAPPER_ID,
+  ETH_FRXETH_FUNDAMENTAL_ORACLE_WRAPPER_ID,
+  ETH_ORACLE_AGGREGATOR_ID,
+  ETH_REDSTONE_COMPOSITE_WRAPPER_WITH_THRESHOLDING_ID,
+  ETH_REDSTONE_ORACLE_WRAPPER_ID,
+  ETH_REDSTONE_WRAPPER_WITH_THRESHOLDING_ID,
+  USD_API3_COMPOSITE_WRAPPER_WITH_THRESHOLDING_ID,
+  USD_API3_ORACLE_WRAPPER_ID,
+  USD_API3_WRAPPER_WITH_THRESHOLDING_ID,
+  USD_CHAINLINK_ERC4626_WRAPPER_ID,
+  USD_ORACLE_AGGREGATOR_ID,
+  USD_REDSTONE_COMPOSITE_WRAPPER_WITH_THRESHOLDING_ID,
+  USD_REDSTONE_ORACLE_WRAPPER_ID,
+  USD_REDSTONE_WRAPPER_WITH_THRESHOLDING_ID,
+} from "../deploy-ids";
+
+/**
+ * Wrapper flavours an `OracleAggregatorConfig` can assign to an asset
+ */
+export type OracleWrapperKind =
+  | "api3"
+  | "api3Thresholding"
+  | "api3Composite"
+  | "redstone"
+  | "redstoneThresholding"
+  | "redstoneComposite"
+  | "chainlinkErc4626"
+  | "erc4626"
+  | "frxEthFundamental"
+  | "chainlinkCompositeAggregator";
+
+/** Feed addresses and thresholds keyed by their config field name */
+export type OracleRouteFields = Record<string, string | bigint>;
+
+/**
+ * What the config says one asset's oracle should look like on chain
+ */
+export interface ExpectedOracleRoute {
+  readonly aggregatorKey: string;
+  readonly aggregatorId: string;
+  /** Undefined when the aggregator is not deployed on this network */
+  readonly aggregator?: string;
+  readonly asset: string;
+  readonly kind: OracleWrapperKind;
+  /** Deployment expected to serve the asset, undefined when the network has no deployment id for this kind */
+  readonly wrapperId?: string;
+  /** Undefined when the wrapper deployment is missing */
+  readonly wrapper?: string;
+  readonly expected: OracleRouteFields;
+}
+
+/**
+ * On-chain view of one expected route
+ */
+export interface OracleRouteState {
+  readonly route: ExpectedOracleRoute;
+  /** `assetOracles(asset)`, undefined for kinds that are not routed on the aggregator */
+  readonly routedOracle?: string;
+  readonly actual?: OracleRouteFields;
+  /** Set when the wrapper storage could not be read */
+  readonly error?: string;
+}
+
+export type OracleDriftKind = "missingWrapper" | "missingRoute" | "wrongWrapper" | "feedMismatch" | "thresholdMismatch" | "unreadable";
+
+/**
+ * One difference between the config and the chain
+ */
+export interface OracleDriftIssue {
+  readonly aggregatorKey: string;
+  readonly asset: string;
+  readonly kind: OracleWrapperKind;
+  readonly drift: OracleDriftKind;
+  readonly target?: string;
+  readonly field?: string;
+  readonly expected?: string;
+  readonly actual?: string;
+  readonly detail: string;
+}
+
+/**
+ * Governance call that brings a route back in line with the config
+ */
+export interface OracleDriftFix {
+  readonly aggregatorKey: string;
+  readonly asset: string;
+  /** Also the idempotency description used by deploy scripts, e.g. `setOracle <asset>` */
+  readonly description: string;
+  readonly transaction: SafeTransactionData;
+}
+
+/**
+ * Every issue found across the checked routes and the calls that correct them, in execution order
+ */
+export interface OracleDriftReport {
+  readonly checked: number;
+  readonly issues: OracleDriftIssue[];
+  readonly fixes: OracleDriftFix[];
+}
+
+export const ORACLE_DRIFT_ABI = [
+  "function assetOracles(address asset) view returns (address)",
+  "function setOracle(address asset, address oracle)",
+  "function assetToProxy(address asset) view returns (address)",
+  "function setProxy(address asset, address proxy)",
+  "function assetToFeed(address asset) view returns (address)",
+  "function setFeed(address asset, address feed)",
+  "function assetThresholds(address asset) view returns (uint256 lowerThresholdInBase, uint256 fixedPriceInBase)",
+  "function setThresholdConfig(address asset, uint256 lowerThresholdInBase, uint256 fixedPriceInBase)",
+  "function compositeFeeds(address asset) view returns (address feed1, address feed2, (uint256 lowerThresholdInBase, uint256 fixedPriceInBase) primaryThreshold, (uint256 lowerThresholdInBase, uint256 fixedPriceInBase) secondaryThreshold)",
+  "function addCompositeFeed(address asset, address feed1, address feed2, uint256 lowerThresholdInBase1, uint256 fixedPriceInBase1, uint256 lowerThresholdInBase2, uint256 fixedPriceInBase2)",
+  "function updateCompositeFeed(address asset, uint256 lowerThresholdInBase1, uint256 fixedPriceInBase1, uint256 lowerThresholdInBase2, uint256 fixedPriceInBase2)",
+  "function removeCompositeFeed(address asset)",
+  "function erc4626Feeds(address asset) view returns (address priceFeed, address vault, uint8 assetDecimals, uint8 shareDecimals)",
+  "function setERC4626Feed(address asset, address vault, address priceFeed)",
+  "function assetToVault(address asset) view returns (address vault, uint8 shareDecimals, uint8 assetDecimals)",
+  "function setVault(address asset, address vault)",
+  "function frxEth() view returns (address)",
+  "function etherRouter() view returns (address)",
+  "function redemptionQueue() view returns (address)",
+  "function sourceFeed1() view returns (address)",
+  "function sourceFeed2() view returns (address)",
+  "function primaryThreshold() view returns (uint256 lowerThresholdInBase, uint256 fixedPriceInBase)",
+  "function secondaryThreshold() view returns (uint256 lowerThresholdInBase, uint256 fixedPriceInBase)",
+];
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+];
+const MULTICALL_CHUNK_SIZE = 50;
+
+const oracleInterface = new Interface(ORACLE_DRIFT_ABI);
+
+const AGGREGATOR_IDS: Record<string, string> = {
+  USD: USD_ORACLE_AGGREGATOR_ID,
+  ETH: ETH_ORACLE_AGGREGATOR_ID,
+};
+
+// ChainlinkCompositeAggregator feeds are deployed per config entry rather than per aggregator
+const WRAPPER_IDS: Record<string, Partial<Record<Exclude<OracleWrapperKind, "chainlinkCompositeAggregator">, string>>> = {
+  USD: {
+    api3: USD_API3_ORACLE_WRAPPER_ID,
+    api3Thresholding: USD_API3_WRAPPER_WITH_THRESHOLDING_ID,
+    api3Composite: USD_API3_COMPOSITE_WRAPPER_WITH_THRESHOLDING_ID,
+    redstone: USD_REDSTONE_ORACLE_WRAPPER_ID,
+    redstoneThresholding: USD_REDSTONE_WRAPPER_WITH_THRESHOLDING_ID,
+    redstoneComposite: USD_REDSTONE_COMPOSITE_WRAPPER_WITH_THRESHOLDING_ID,
+    chainlinkErc4626: USD_CHAINLINK_ERC4626_WRAPPER_ID,
+  },
+  ETH: {
+    api3: ETH_API3_ORACLE_WRAPPER_ID,
+    api3Thresholding: ETH_API3_WRAPPER_WITH_THRESHOLDING_ID,
+    api3Composite: ETH_API3_COMPOSITE_WRAPPER_WITH_THRESHOLDING_ID,
+    redstone: ETH_REDSTONE_ORACLE_WRAPPER_ID,
+    redstoneThresholding: ETH_REDSTONE_WRAPPER_WITH_THRESHOLDING_ID,
+    redstoneComposite: ETH_REDSTONE_COMPOSITE_WRAPPER_WITH_THRESHOLDING_ID,
+    chainlinkErc4626: ETH_CHAINLINK_ERC4626_WRAPPER_ID,
+    erc4626: ETH_ERC4626_ORACLE_WRAPPER_ID,
+    frxEthFundamental: ETH_FRXETH_FUNDAMENTAL_ORACLE_WRAPPER_ID,
+  },
+};
+
+// Wrappers whose configuration is fixed at deployment: drift can only be fixed by redeploying
+const IMMUTABLE_KINDS: OracleWrapperKind[] = ["frxEthFundamental", "chainlinkCompositeAggregator"];
+
+/**
+ * Views read for each wrapper kind; `asset` marks the per-asset mappings
+ */
+const WRAPPER_READS: Record<OracleWrapperKind, { readonly functions: string[]; readonly asset: boolean }> = {
+  api3: { functions: ["assetToProxy"], asset: true },
+  api3Thresholding: { functions: ["assetToProxy", "assetThresholds"], asset: true },
+  api3Composite: { functions: ["compositeFeeds"], asset: true },
+  redstone: { functions: ["assetToFeed"], asset: true },
+  redstoneThresholding: { functions: ["assetToFeed", "assetThresholds"], asset: true },
+  redstoneComposite: { functions: ["compositeFeeds"], asset: true },
+  chainlinkErc4626: { functions: ["erc4626Feeds"], asset: true },
+  erc4626: { functions: ["assetToVault"], asset: true },
+  frxEthFundamental: { functions: ["frxEth", "etherRouter", "redemptionQueue"], asset: false },
+  chainlinkCompositeAggregator: { functions: ["sourceFeed1", "sourceFeed2", "primaryThreshold", "secondaryThreshold"], asset: false },
+};
+
+/**
+ * Deployment name of the ChainlinkCompositeAggregator built from a config entry
+ *
+ * @param name - `ChainlinkCompositeAggregatorConfig.name`, e.g. "RETH_USD"
+ * @returns The hardhat-deploy deployment name
+ */
+export function chainlinkCompositeAggregatorDeploymentId(name: string): string {
+  return `${name}_ChainlinkCompositeAggregator`;
+}
+
+/**
+ * Deployment id of an aggregator, e.g. `USD_OracleAggregator`
+ *
+ * @param aggregatorKey - Key in `config.oracleAggregators`, e.g. "USD"
+ * @returns The deployment id
+ */
+export function getOracleAggregatorId(aggregatorKey: string): string {
+  return AGGREGATOR_IDS[aggregatorKey] ?? `${aggregatorKey}_OracleAggregator`;
+}
+
+/**
+ * Flatten one aggregator's config into the routes it expects on chain.
+ * Placeholder (empty or zero) asset addresses are skipped.
+ *
+ * @param hre - Hardhat runtime used to resolve deployments
+ * @param aggregatorKey - Key in `config.oracleAggregators`, e.g. "USD"
+ * @param config - The aggregator config
+ * @returns One route per configured asset
+ */
+export async function resolveExpectedOracleRoutes(
+  hre: HardhatRuntimeEnvironment,
+  aggregatorKey: string,
+  config: OracleAggregatorConfig,
+): Promise<ExpectedOracleRoute[]> {
+  const aggregatorId = getOracleAggregatorId(aggregatorKey);
+  const aggregator = (await hre.deployments.getOrNull(aggregatorId))?.address;
+  const wrapperIds = WRAPPER_IDS[aggregatorKey] ?? {};
+  const entries: { asset: string; kind: OracleWrapperKind; wrapperId?: string; expected: OracleRouteFields }[] = [];
+
+  const add = (kind: Exclude<OracleWrapperKind, "chainlinkCompositeAggregator">, asset: string, expected: OracleRouteFields): void => {
+    entries.push({ asset, kind, wrapperId: wrapperIds[kind], expected });
+  };
+
+  const api3 = config.api3OracleAssets;
+
+  for (const [asset, proxy] of Object.entries(api3?.plainApi3OracleWrappers ?? {})) {
+    add("api3", asset, { proxy });
+  }
+
+  for (const [asset, entry] of Object.entries(api3?.api3OracleWrappersWithThresholding ?? {})) {
+    add("api3Thresholding", asset, { proxy: entry.proxy, lowerThreshold: entry.lowerThreshold, fixedPrice: entry.fixedPrice });
+  }
+
+  for (const entry of Object.values(api3?.compositeApi3OracleWrappersWithThresholding ?? {})) {
+    add("api3Composite", entry.feedAsset, {
+      proxy1: entry.proxy1,
+      proxy2: entry.proxy2,
+      ...compositeThresholds(entry),
+    });
+  }
+
+  const redstone = config.redstoneOracleAssets;
+
+  for (const [asset, feed] of Object.entries(redstone?.plainRedstoneOracleWrappers ?? {})) {
+    add("redstone", asset, { feed });
+  }
+
+  for (const [asset, entry] of Object.entries(redstone?.redstoneOracleWrappersWithThresholding ?? {})) {
+    add("redstoneThresholding", asset, { feed: entry.feed, lowerThreshold: entry.lowerThreshold, fixedPrice: entry.fixedPrice });
+  }
+
+  for (const entry of Object.values(redstone?.compositeRedstoneOracleWrappersWithThresholding ?? {})) {
+    add("redstoneComposite", entry.feedAsset, {
+      feed1: entry.feed1,
+      feed2: entry.feed2,
+      ...compositeThresholds(entry),
+    });
+  }
+
+  for (const [asset, entry] of Object.entries(config.chainlinkErc4626OracleAssets ?? {})) {
+    add("chainlinkErc4626", asset, { vault: entry.vault, feed: entry.feed });
+  }
+
+  for (const [asset, vault] of Object.entries(config.erc4626OracleAssets ?? {})) {
+    add("erc4626", asset, { vault });
+  }
+
+  const frxEth = config.frxEthFundamentalOracle;
+
+  if (frxEth) {
+    add("frxEthFundamental", frxEth.asset, {
+      asset: frxEth.asset,
+      etherRouter: frxEth.etherRouter,
+      redemptionQueue: frxEth.redemptionQueue,
+    });
+  }
+
+  for (const entry of Object.values(config.chainlinkCompositeAggregator ?? {})) {
+    entries.push({
+      asset: entry.feedAsset,
+      kind: "chainlinkCompositeAggregator",
+      wrapperId: chainlinkCompositeAggregatorDeploymentId(entry.name),
+      expected: {
+        sourceFeed1: entry.sourceFeed1,
+        sourceFeed2: entry.sourceFeed2,
+        ...compositeThresholds(entry),
+      },
+    });
+  }
+
+  const routes: ExpectedOracleRoute[] = [];
+
+  for (const entry of entries) {
+    if (!isUsableAddress(entry.asset)) {
+      continue;
+    }
+
+    const wrapper = entry.wrapperId ? (await hre.deployments.getOrNull(entry.wrapperId))?.address : undefined;
+    routes.push({ aggregatorKey, aggregatorId, aggregator, ...entry, wrapper });
+  }
+
+  return routes;
+}
+
+/**
+ * Read the aggregator routing and wrapper storage of every route, through Multicall3
+ * when it is deployed and call by call otherwise.
+ *
+ * @param hre - Hardhat runtime whose provider is queried
+ * @param routes - Routes from `resolveExpectedOracleRoutes`
+ * @param multicallAddress - Multicall3 address (defaults to the canonical deployment)
+ * @returns The on-chain state of each route, in input order
+ */
+export async function readOracleRouteStates(
+  hre: HardhatRuntimeEnvironment,
+  routes: ExpectedOracleRoute[],
+  multicallAddress = DEFAULT_MULTICALL3_ADDRESS,
+): Promise<OracleRouteState[]> {
+  const calls: { routeIndex: number; functionName: string; target: string; callData: string }[] = [];
+
+  routes.forEach((route, routeIndex) => {
+    if (route.aggregator && isRoutedKind(route.kind)) {
+      calls.push({
+        routeIndex,
+        functionName: "assetOracles",
+        target: route.aggregator,
+        callData: oracleInterface.encodeFunctionData("assetOracles", [route.asset]),
+      });
+    }
+
+    if (!route.wrapper) {
+      return;
+    }
+
+    const reads = WRAPPER_READS[route.kind];
+
+    for (const functionName of reads.functions) {
+      calls.push({
+        routeIndex,
+        functionName,
+        target: route.wrapper,
+        callData: oracleInterface.encodeFunctionData(functionName, reads.asset ? [route.asset] : []),
+      });
+    }
+  });
+
+  const returnData = await staticCallAll(hre, calls, multicallAddress);
+  const results = routes.map(() => new Map<string, Result>());
+  const errors = routes.map(() => [] as string[]);
+
+  calls.forEach((call, index) => {
+    const data = returnData[index];
+
+    try {
+      if (data === undefined) {
+        throw new Error("call reverted");
+      }
+      results[call.routeIndex].set(call.functionName, oracleInterface.decodeFunctionResult(call.functionName, data));
+    } catch (error) {
+      errors[call.routeIndex].push(`${call.functionName}() failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  return routes.map((route, index) => {
+    const read = results[index];
+    const routedOracle = read.get("assetOracles")?.[0] as string | undefined;
+
+    if (!route.wrapper) {
+      return { route, routedOracle };
+    }
+
+    if (errors[index].some((error) => !error.startsWith("assetOracles"))) {
+      return { route, routedOracle, error: errors[index].join("; ") };
+    }
+
+    return { route, routedOracle, actual: decodeWrapperFields(route.kind, read) };
+  });
+}
+
+/**
+ * Compare each route with its on-chain state and derive the calls that correct it.
+ * Wrapper storage fixes come before the aggregator `setOracle` calls so an asset is
+ * never routed to a wrapper that cannot price it yet.
+ *
+ * @param states - Output of `readOracleRouteStates`
+ * @returns The issues and corrective calls
+ */
+export function diffOracleRoutes(states: OracleRouteState[]): OracleDriftReport {
+  const issues: OracleDriftIssue[] = [];
+  const storageFixes: OracleDriftFix[] = [];
+  const routingFixes: OracleDriftFix[] = [];
+
+  for (const { route, routedOracle, actual, error } of states) {
+    const ref = { aggregatorKey: route.aggregatorKey, asset: route.asset, kind: route.kind };
+
+    if (!route.wrapper) {
+      issues.push({
+        ...ref,
+        drift: "missingWrapper",
+        detail: route.wrapperId
+          ? `${route.wrapperId} is not deployed on this network.`
+          : `${route.aggregatorKey} has no wrapper deployment for ${route.kind} assets.`,
+      });
+      continue;
+    }
+
+    if (isRoutedKind(route.kind)) {
+      if (!route.aggregator) {
+        issues.push({ ...ref, drift: "missingWrapper", detail: `${route.aggregatorId} is not deployed on this network.` });
+      } else if (routedOracle !== undefined && !sameAddress(routedOracle, route.wrapper)) {
+        const missing = sameAddress(routedOracle, ZeroAddress);
+        issues.push({
+          ...ref,
+          drift: missing ? "missingRoute" : "wrongWrapper",
+          target: route.aggregator,
+          expected: route.wrapper,
+          actual: routedOracle,
+          detail: missing
+            ? `${route.aggregatorId} has no oracle for the asset; expected ${route.wrapperId}.`
+            : `${route.aggregatorId} routes the asset to ${routedOracle} instead of ${route.wrapperId} (${route.wrapper}).`,
+        });
+        routingFixes.push(fix(route, route.aggregator, "setOracle", [route.asset, route.wrapper]));
+      } else if (routedOracle === undefined) {
+        issues.push({
+          ...ref,
+          drift: "unreadable",
+          target: route.aggregator,
+          detail: `${route.aggregatorId}.assetOracles() could not be read.`,
+        });
+      }
+    }
+
+    if (error || !actual) {
+      issues.push({ ...ref, drift: "unreadable", target: route.wrapper, detail: `${route.wrapperId}: ${error ?? "storage not read"}` });
+      continue;
+    }
+
+    const mismatched = mismatchedRouteFields(route, actual);
+
+    for (const field of mismatched) {
+      const expected = route.expected[field];
+      issues.push({
+        ...ref,
+        drift: typeof expected === "bigint" ? "thresholdMismatch" : "feedMismatch",
+        target: route.wrapper,
+        field,
+        expected: expected.toString(),
+        actual: actual[field]?.toString(),
+        detail:
+          `${route.wrapperId} ${field} is ${actual[field]?.toString() ?? "unset"}, config expects ${expected.toString()}` +
+          (IMMUTABLE_KINDS.includes(route.kind) ? " (immutable: redeploy required)." : "."),
+      });
+    }
+
+    if (mismatched.length > 0) {
+      storageFixes.push(
+        ...routeStorageCalls(route, actual, mismatched).map((call) => fix(route, route.wrapper!, call.functionName, call.args)),
+      );
+    }
+  }
+
+  return { checked: states.length, issues, fixes: [...storageFixes, ...routingFixes] };
+}
+
+/**
+ * Config fields of a route whose on-chain value differs
+ *
+ * @param route - The route
+ * @param actual - Current wrapper storage
+ * @returns The mismatched field names
+ */
+export function mismatchedRouteFields(route: ExpectedOracleRoute, actual: OracleRouteFields): string[] {
+  return Object.keys(route.expected).filter((field) => !sameValue(route.expected[field], actual[field]));
+}
+
+/**
+ * Wrapper call that writes part of a route's storage, targeting `route.wrapper`
+ */
+export interface OracleRouteCall {
+  readonly functionName: string;
+  readonly args: unknown[];
+}
+
+/**
+ * Wrapper calls that rewrite the mismatched fields of one route. With no current storage
+ * (wrapper not deployed yet) the calls configure the route from scratch.
+ *
+ * @param route - The route
+ * @param actual - Current wrapper storage, undefined for a fresh wrapper
+ * @param mismatched - Fields that differ from the config
+ * @returns The calls in execution order, empty for immutable wrappers
+ */
+export function routeStorageCalls(
+  route: ExpectedOracleRoute,
+  actual: OracleRouteFields | undefined,
+  mismatched: string[],
+): OracleRouteCall[] {
+  const { asset, expected } = route;
+  const call = (functionName: string, args: unknown[]): OracleRouteCall => ({ functionName, args });
+  const feedChanged = mismatched.some((field) => typeof expected[field] === "string");
+  const thresholdChanged = mismatched.some((field) => typeof expected[field] === "bigint");
+
+  switch (route.kind) {
+    case "api3":
+      return [call("setProxy", [asset, expected.proxy])];
+    case "redstone":
+      return [call("setFeed", [asset, expected.feed])];
+    case "api3Thresholding":
+    case "redstoneThresholding":
+      return [
+        ...(feedChanged
+          ? [route.kind === "api3Thresholding" ? call("setProxy", [asset, expected.proxy]) : call("setFeed", [asset, expected.feed])]
+          : []),
+        ...(thresholdChanged ? [call("setThresholdConfig", [asset, expected.lowerThreshold, expected.fixedPrice])] : []),
+      ];
+    case "api3Composite":
+    case "redstoneComposite":
+      return compositeRouteCalls(route, actual, feedChanged);
+    case "chainlinkErc4626":
+      return [call("setERC4626Feed", [asset, expected.vault, expected.feed])];
+    case "erc4626":
+      return [call("setVault", [asset, expected.vault])];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Wrapper calls that rewrite one composite route. Composite feeds cannot be re-pointed in place,
+ * so a changed feed is removed and added again.
+ *
+ * @param route - The composite route
+ * @param actual - Current wrapper storage, undefined for a fresh wrapper
+ * @param feedChanged - Whether either feed differs from the config
+ * @returns The calls in execution order
+ */
+function compositeRouteCalls(route: ExpectedOracleRoute, actual: OracleRouteFields | undefined, feedChanged: boolean): OracleRouteCall[] {
+  const { asset, expected } = route;
+  const [feed1, feed2] = route.kind === "api3Composite" ? ["proxy1", "proxy2"] : ["feed1", "feed2"];
+  const thresholds = [
+    expected.lowerThresholdInBase1,
+    expected.fixedPriceInBase1,
+    expected.lowerThresholdInBase2,
+    expected.fixedPriceInBase2,
+  ];
+  const registered = actual?.[feed1] !== undefined && !sameAddress(actual[feed1] as string, ZeroAddress);
+
+  if (registered && !feedChanged) {
+    return [{ functionName: "updateCompositeFeed", args: [asset, ...thresholds] }];
+  }
+  const calls: OracleRouteCall[] = registered ? [{ functionName: "removeCompositeFeed", args: [asset] }] : [];
+  return [...calls, { functionName: "addCompositeFeed", args: [asset, expected[feed1], expected[feed2], ...thresholds] }];
+}
+
+/**
+ * Build a corrective call with the description deploy scripts use for the same operation
+ *
+ * @param route - The route being corrected
+ * @param target - Contract to call
+ * @param functionName - Function in `ORACLE_DRIFT_ABI`
+ * @param args - Call arguments
+ * @returns The fix
+ */
+function fix(route: ExpectedOracleRoute, target: string, functionName: string, args: unknown[]): OracleDriftFix {
+  return {
+    aggregatorKey: route.aggregatorKey,
+    asset: route.asset,
+    description: `${functionName} ${route.asset}`,
+    transaction: { to: target, value: "0", data: oracleInterface.encodeFunctionData(functionName, args) },
+  };
+}
+
+/**
+ * Map decoded wrapper views onto the config field names of the route kind
+ *
+ * @param kind - The wrapper kind
+ * @param read - Decoded results keyed by view name
+ * @returns The wrapper's current fields
+ */
+function decodeWrapperFields(kind: OracleWrapperKind, read: Map<string, Result>): OracleRouteFields {
+  const first = (functionName: string): Result => read.get(functionName)!;
+
+  switch (kind) {
+    case "api3":
+      return { proxy: first("assetToProxy")[0] };
+    case "redstone":
+      return { feed: first("assetToFeed")[0] };
+    case "api3Thresholding":
+    case "redstoneThresholding":
+      return {
+        ...(kind === "api3Thresholding" ? { proxy: first("assetToProxy")[0] } : { feed: first("assetToFeed")[0] }),
+        lowerThreshold: first("assetThresholds")[0],
+        fixedPrice: first("assetThresholds")[1],
+      };
+    case "api3Composite":
+    case "redstoneComposite":
+      return {
+        [kind === "api3Composite" ? "proxy1" : "feed1"]: first("compositeFeeds")[0],
+        [kind === "api3Composite" ? "proxy2" : "feed2"]: first("compositeFeeds")[1],
+        lowerThresholdInBase1: first("compositeFeeds")[2][0],
+        fixedPriceInBase1: first("compositeFeeds")[2][1],
+        lowerThresholdInBase2: first("compositeFeeds")[3][0],
+        fixedPriceInBase2: first("compositeFeeds")[3][1],
+      };
+    case "chainlinkErc4626":
+      return { feed: first("erc4626Feeds")[0], vault: first("erc4626Feeds")[1] };
+    case "erc4626":
+      return { vault: first("assetToVault")[0] };
+    case "frxEthFundamental":
+      return { asset: first("frxEth")[0], etherRouter: first("etherRouter")[0], redemptionQueue: first("redemptionQueue")[0] };
+    case "chainlinkCompositeAggregator":
+      return {
+        sourceFeed1: first("sourceFeed1")[0],
+        sourceFeed2: first("sourceFeed2")[0],
+        lowerThresholdInBase1: first("primaryThreshold")[0],
+        fixedPriceInBase1: first("primaryThreshold")[1],
+        lowerThresholdInBase2: first("secondaryThreshold")[0],
+        fixedPriceInBase2: first("secondaryThreshold")[1],
+      };
+  }
+}
+
+/**
+ * Run static calls through Multicall3, falling back to one `eth_call` each when it is unavailable
+ *
+ * @param hre - Hardhat runtime whose provider is queried
+ * @param calls - Calls to run
+ * @param multicallAddress - Multicall3 address
+ * @returns Return data per call, undefined for calls that reverted
+ */
+async function staticCallAll(
+  hre: HardhatRuntimeEnvironment,
+  calls: { target: string; callData: string }[],
+  multicallAddress: string,
+): Promise<(string | undefined)[]> {
+  const provider = hre.ethers.provider;
+
+  if ((await provider.getCode(multicallAddress)) !== "0x") {
+    const multicall = new Contract(multicallAddress, MULTICALL3_ABI, provider);
+    const returnData: (string | undefined)[] = [];
+
+    for (let index = 0; index < calls.length; index += MULTICALL_CHUNK_SIZE) {
+      const chunk = calls.slice(index, index + MULTICALL_CHUNK_SIZE).map((call) => ({ ...call, allowFailure: true }));
+      const results: { success: boolean; returnData: string }[] = await multicall.aggregate3.staticCall(chunk);
+      returnData.push(...results.map((result) => (result.success ? result.returnData : undefined)));
+    }
+    return returnData;
+  }
+
+  return await Promise.all(
+    calls.map(async (call) => {
+      try {
+        return await provider.call({ to: call.target, data: call.callData });
+      } catch {
+        return undefined;
+      }
+    }),
+  );
+}
+
+/**
+ * Thresholds shared by the composite config shapes
+ *
+ * @param entry - Composite config entry
+ * @param entry.lowerThresholdInBase1 - Lower threshold of the first feed
+ * @param entry.fixedPriceInBase1 - Fixed price of the first feed
+ * @param entry.lowerThresholdInBase2 - Lower threshold of the second feed
+ * @param entry.fixedPriceInBase2 - Fixed price of the second feed
+ * @returns The threshold fields
+ */
+function compositeThresholds(entry: {
+  lowerThresholdInBase1: bigint;
+  fixedPriceInBase1: bigint;
+  lowerThresholdInBase2: bigint;
+  fixedPriceInBase2: bigint;
+}): OracleRouteFields {
+  return {
+    lowerThresholdInBase1: entry.lowerThresholdInBase1,
+    fixedPriceInBase1: entry.fixedPriceInBase1,
+    lowerThresholdInBase2: entry.lowerThresholdInBase2,
+    fixedPriceInBase2: entry.fixedPriceInBase2,
+  };
+}
+
+/**
+ * Kinds the aggregator routes to directly; ChainlinkCompositeAggregator feeds sit behind another wrapper
+ *
+ * @param kind - The wrapper kind
+ * @returns Whether `assetOracles(asset)` should point at the wrapper
+ */
+export function isRoutedKind(kind: OracleWrapperKind): boolean {
+  return kind !== "chainlinkCompositeAggregator";
+}
+
+/**
+ * Whether a kind stores its feeds per asset rather than once per wrapper
+ *
+ * @param kind - The wrapper kind
+ * @returns False for wrappers configured at deployment (frxETH fundamental, ChainlinkCompositeAggregator)
+ */
+export function isPerAssetKind(kind: OracleWrapperKind): boolean {
+  return WRAPPER_READS[kind].asset;
+}
+
+/**
+ * Compare a config value with an on-chain one: addresses case-insensitively, thresholds numerically
+ *
+ * @param expected - Config value
+ * @param actual - On-chain value
+ * @returns Whether they match
+ */
+function sameValue(expected: string | bigint, actual: string | bigint | undefined): boolean {
+  if (actual === undefined) {
+    return false;
+  }
+  return typeof expected === "bigint" ? BigInt(actual) === expected : sameAddress(expected, actual.toString());
+}
+
+/**
+ * Case-insensitive address comparison
+ *
+ * @param left - First address
+ * @param right - Second address
+ * @returns Whether both are the same address
+ */
+function sameAddress(left: string, right: string): boolean {
+  return left.toLowerCase() === right.toLowerCase();
+}
+
+/**
+ * Whether a config address is set (not empty and not the zero address)
+ *
+ * @param value - Config address
+ * @returns True for a usable address
+ */
+function isUsableAddress(value: string | undefined): value is string {
+  return Boolean(value) && /^0x[0-9a-fA-F]{40}$/.test(value!) && !sameAddress(value!, ZeroAddress);
+}
@@ -0,0 +1,399 @@
+import { Contract, formatUnits, ZeroAddress } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { OracleAggregatorConfig } from "../../config/types";
+import { fetchTokenInfo } from "../token/utils";
+import { ORACLE_AGGREGATOR_PRICE_DECIMALS } from "./constants";
+
+export type FeedProvider = "chainlink" | "api3" | "redstone" | "erc4626";
+
+export const FEED_PROVIDERS: FeedProvider[] = ["chainlink", "api3", "redstone", "erc4626"];
+
+/**
+ * One feed referenced by an oracle aggregator config
+ */
+export interface FeedSource {
+  readonly provider: FeedProvider;
+  readonly address: string;
+  readonly assetAddress: string;
+  /** Aggregator config key, e.g. "USD" */
+  readonly baseCurrency: string;
+  /** Config section, e.g. "Composite API3 (Primary Feed)" */
+  readonly feedType: string;
+  /** Position of the feed in a composite price, "vault" for ERC4626 rates */
+  readonly role: "feed" | "primary" | "secondary" | "vault";
+}
+
+/**
+ * Latest value of a feed as its provider reports it
+ */
+export interface FeedReading {
+  readonly description: string;
+  readonly decimals: number;
+  readonly rawPrice: bigint;
+  readonly timestamp: number;
+}
+
+/**
+ * Reads one provider's feed interface
+ */
+export interface FeedProviderAdapter {
+  /** Decimals the consuming wrapper expects, undefined when the feed is never rescaled */
+  readonly expectedDecimals?: number;
+  /** Age after which a reading counts as stale, undefined for values computed on read */
+  readonly staleAfterSeconds?: number;
+  read(hre: HardhatRuntimeEnvironment, address: string): Promise<FeedReading>;
+}
+
+export type FeedScaling = "none" | "upscale" | "downscale";
+
+export interface FeedAuditEntry {
+  readonly provider: FeedProvider;
+  readonly address: string;
+  readonly description: string;
+  readonly assetAddress: string;
+  readonly assetSymbol: string;
+  readonly feedType: string;
+  readonly pairDescription: string;
+  readonly baseCurrency: string;
+  readonly actualDecimals: number;
+  readonly expectedDecimals: number;
+  readonly scalingNeeded: FeedScaling;
+  readonly scalingFactor: number;
+  readonly currentPrice: string;
+  readonly rawPrice: string;
+  readonly priceTimestamp: number;
+  readonly isStale: boolean;
+  /** Set when the feed could not be read; the price fields are then zero */
+  readonly error?: string;
+}
+
+export interface FeedAuditOptions {
+  /** Unix time staleness is measured against (default: now) */
+  readonly now?: number;
+  /** Per-provider override of `staleAfterSeconds` */
+  readonly staleAfterSeconds?: Partial<Record<FeedProvider, number>>;
+  readonly adapters?: Partial<Record<FeedProvider, FeedProviderAdapter>>;
+}
+
+const CHAINLINK_FEED_ABI = [
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+  "function decimals() view returns (uint8)",
+  "function description() view returns (string)",
+];
+
+const API3_PROXY_ABI = ["function read() view returns (int224 value, uint32 timestamp)", "function description() view returns (string)"];
+
+const ERC4626_ABI = [
+  "function convertToAssets(uint256 shares) view returns (uint256)",
+  "function asset() view returns (address)",
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+];
+
+// Chainlink-compatible feeds (Chainlink and Redstone push feeds) are consumed at 8 decimals
+const CHAINLINK_EXPECTED_DECIMALS = 8;
+
+const chainlinkAdapter = (staleAfterSeconds: number): FeedProviderAdapter => ({
+  expectedDecimals: CHAINLINK_EXPECTED_DECIMALS,
+  staleAfterSeconds,
+  async read(hre, address): Promise<FeedReading> {
+    const feed = new Contract(address, CHAINLINK_FEED_ABI, hre.ethers.provider);
+    const [decimals, description, round] = await Promise.all([feed.decimals(), optional(feed.description()), feed.latestRoundData()]);
+    return { description: description ?? "Unknown", decimals: Number(decimals), rawPrice: BigInt(round[1]), timestamp: Number(round[3]) };
+  },
+});
+
+export const FEED_PROVIDER_ADAPTERS: Record<FeedProvider, FeedProviderAdapter> = {
+  chainlink: chainlinkAdapter(3600),
+  redstone: chainlinkAdapter(3600),
+  api3: {
+    expectedDecimals: ORACLE_AGGREGATOR_PRICE_DECIMALS,
+    staleAfterSeconds: 25 * 3600,
+    async read(hre, address): Promise<FeedReading> {
+      const proxy = new Contract(address, API3_PROXY_ABI, hre.ethers.provider);
+      const [description, [value, timestamp]] = await Promise.all([optional(proxy.description()), proxy.read()]);
+      // API3 dAPIs always report 18 decimals
+      return { description: description ?? "Unknown", decimals: 18, rawPrice: BigInt(value), timestamp: Number(timestamp) };
+    },
+  },
+  erc4626: {
+    async read(hre, address): Promise<FeedReading> {
+      const vault = new Contract(address, ERC4626_ABI, hre.ethers.provider);
+      const [shareDecimals, symbol, underlying, block] = await Promise.all([
+        vault.decimals(),
+        vault.symbol(),
+        vault.asset(),
+        hre.ethers.provider.getBlock("latest"),
+      ]);
+      const [assetsPerShare, underlyingInfo] = await Promise.all([
+        vault.convertToAssets(10n ** BigInt(shareDecimals)),
+        fetchTokenInfo(hre, underlying),
+      ]);
+      return {
+        description: `${symbol} / ${underlyingInfo.symbol} exchange rate`,
+        decimals: underlyingInfo.decimals,
+        rawPrice: BigInt(assetsPerShare),
+        timestamp: block?.timestamp ?? 0,
+      };
+    },
+  },
+};
+
+/**
+ * List every feed and ERC4626 vault one aggregator config prices its assets with.
+ * Placeholder (empty or zero) addresses are skipped.
+ *
+ * @param baseCurrency - Aggregator config key, e.g. "USD"
+ * @param config - The aggregator config
+ * @returns The feeds, in config order
+ */
+export function collectConfiguredFeeds(baseCurrency: string, config: OracleAggregatorConfig): FeedSource[] {
+  const sources: FeedSource[] = [];
+
+  const add = (
+    provider: FeedProvider,
+    address: string,
+    assetAddress: string,
+    feedType: string,
+    role: FeedSource["role"] = "feed",
+  ): void => {
+    if (isUsableAddress(address) && isUsableAddress(assetAddress)) {
+      sources.push({ provider, address, assetAddress, baseCurrency, feedType, role });
+    }
+  };
+
+  const api3 = config.api3OracleAssets;
+  Object.entries(api3?.plainApi3OracleWrappers ?? {}).forEach(([asset, proxy]) => add("api3", proxy, asset, "Plain API3 Wrapper"));
+  Object.entries(api3?.api3OracleWrappersWithThresholding ?? {}).forEach(([asset, entry]) =>
+    add("api3", entry.proxy, asset, "API3 Wrapper with Thresholding"),
+  );
+  Object.values(api3?.compositeApi3OracleWrappersWithThresholding ?? {}).forEach((entry) => {
+    add("api3", entry.proxy1, entry.feedAsset, "Composite API3 (Primary Feed)", "primary");
+    add("api3", entry.proxy2, entry.feedAsset, "Composite API3 (Secondary Feed)", "secondary");
+  });
+
+  const redstone = config.redstoneOracleAssets;
+  Object.entries(redstone?.plainRedstoneOracleWrappers ?? {}).forEach(([asset, feed]) =>
+    add("redstone", feed, asset, "Plain Redstone Wrapper"),
+  );
+  Object.entries(redstone?.redstoneOracleWrappersWithThresholding ?? {}).forEach(([asset, entry]) =>
+    add("redstone", entry.feed, asset, "Redstone Wrapper with Thresholding"),
+  );
+  Object.values(redstone?.compositeRedstoneOracleWrappersWithThresholding ?? {}).forEach((entry) => {
+    add("redstone", entry.feed1, entry.feedAsset, "Composite Redstone (Primary Feed)", "primary");
+    add("redstone", entry.feed2, entry.feedAsset, "Composite Redstone (Secondary Feed)", "secondary");
+  });
+
+  Object.entries(config.chainlinkErc4626OracleAssets ?? {}).forEach(([asset, entry]) => {
+    add("chainlink", entry.feed, asset, "Chainlink ERC4626 (Underlying Feed)", "primary");
+    add("erc4626", entry.vault, asset, "Chainlink ERC4626 (Vault Rate)", "vault");
+  });
+  Object.entries(config.erc4626OracleAssets ?? {}).forEach(([asset, vault]) => add("erc4626", vault, asset, "ERC4626 Wrapper", "vault"));
+  Object.values(config.chainlinkCompositeAggregator ?? {}).forEach((entry) => {
+    add("chainlink", entry.sourceFeed1, entry.feedAsset, "Chainlink Composite Aggregator (Primary Feed)", "primary");
+    add("chainlink", entry.sourceFeed2, entry.feedAsset, "Chainlink Composite Aggregator (Secondary Feed)", "secondary");
+  });
+
+  return sources;
+}
+
+/**
+ * Read every feed through its provider adapter and compare it with what the consuming wrapper expects
+ *
+ * @param hre - Hardhat runtime whose provider is queried
+ * @param sources - Feeds from `collectConfiguredFeeds`
+ * @param options - Staleness reference time, thresholds and adapter overrides
+ * @returns One entry per feed, in input order
+ */
+export async function auditFeeds(
+  hre: HardhatRuntimeEnvironment,
+  sources: FeedSource[],
+  options: FeedAuditOptions = {},
+): Promise<FeedAuditEntry[]> {
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const entries: FeedAuditEntry[] = [];
+
+  for (const source of sources) {
+    const adapter = options.adapters?.[source.provider] ?? FEED_PROVIDER_ADAPTERS[source.provider];
+    const assetSymbol = await resolveSymbol(hre, source.assetAddress);
+    let reading: FeedReading = { description: "Error fetching", decimals: adapter.expectedDecimals ?? 18, rawPrice: 0n, timestamp: 0 };
+    let error: string | undefined;
+
+    try {
+      reading = await adapter.read(hre, source.address);
+    } catch (readError) {
+      error = readError instanceof Error ? readError.message : String(readError);
+    }
+
+    const expectedDecimals = adapter.expectedDecimals ?? reading.decimals;
+    const staleAfter = options.staleAfterSeconds?.[source.provider] ?? adapter.staleAfterSeconds;
+
+    entries.push({
+      provider: source.provider,
+      address: source.address,
+      description: reading.description,
+      assetAddress: source.assetAddress,
+      assetSymbol,
+      feedType: source.feedType,
+      pairDescription: pairDescription(source, assetSymbol),
+      baseCurrency: source.baseCurrency,
+      actualDecimals: reading.decimals,
+      expectedDecimals,
+      ...analyzeFeedScaling(reading.decimals, expectedDecimals),
+      currentPrice: formatUnits(reading.rawPrice > 0n ? reading.rawPrice : 0n, reading.decimals),
+      rawPrice: reading.rawPrice.toString(),
+      priceTimestamp: reading.timestamp,
+      isStale: error !== undefined || (staleAfter !== undefined && now - reading.timestamp > staleAfter),
+      ...(error !== undefined ? { error } : {}),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Scaling a wrapper has to apply to a feed reporting `actualDecimals`
+ *
+ * @param actualDecimals - Decimals the feed reports
+ * @param expectedDecimals - Decimals the wrapper expects
+ * @returns Direction and power-of-ten factor
+ */
+export function analyzeFeedScaling(
+  actualDecimals: number,
+  expectedDecimals: number,
+): { scalingNeeded: FeedScaling; scalingFactor: number } {
+  if (actualDecimals === expectedDecimals) {
+    return { scalingNeeded: "none", scalingFactor: 1 };
+  }
+  return actualDecimals < expectedDecimals
+    ? { scalingNeeded: "upscale", scalingFactor: 10 ** (expectedDecimals - actualDecimals) }
+    : { scalingNeeded: "downscale", scalingFactor: 10 ** (actualDecimals - expectedDecimals) };
+}
+
+const REPORT_COLUMNS: (keyof FeedAuditEntry)[] = [
+  "baseCurrency",
+  "provider",
+  "feedType",
+  "assetSymbol",
+  "assetAddress",
+  "address",
+  "description",
+  "pairDescription",
+  "actualDecimals",
+  "expectedDecimals",
+  "scalingNeeded",
+  "scalingFactor",
+  "currentPrice",
+  "rawPrice",
+  "priceTimestamp",
+  "isStale",
+  "error",
+];
+
+/**
+ * Render an audit as CSV, one row per feed
+ *
+ * @param entries - Output of `auditFeeds`
+ * @returns CSV text with a header row
+ */
+export function formatFeedAuditCsv(entries: FeedAuditEntry[]): string {
+  const cell = (value: unknown): string => {
+    const text = value === undefined ? "" : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows = entries.map((entry) => REPORT_COLUMNS.map((column) => cell(entry[column])).join(","));
+  return `${[REPORT_COLUMNS.join(","), ...rows].join("\n")}\n`;
+}
+
+/**
+ * Render an audit as a Markdown table followed by the stale and rescaled feed counts
+ *
+ * @param entries - Output of `auditFeeds`
+ * @returns Markdown text
+ */
+export function formatFeedAuditMarkdown(entries: FeedAuditEntry[]): string {
+  const escape = (value: string): string => value.replace(/\|/g, "\\|");
+  const lines = [
+    "| Aggregator | Provider | Pair | Feed | Decimals | Scaling | Price | Updated | Status |",
+    "| --- | --- | --- | --- | --- | --- | --- | --- | --- |",
+    ...entries
+      .map((entry) =>
+        [
+          entry.baseCurrency,
+          entry.provider,
+          escape(`${entry.pairDescription} (${entry.feedType})`),
+          `\`${entry.address}\``,
+          `${entry.actualDecimals} → ${entry.expectedDecimals}`,
+          entry.scalingNeeded === "none" ? "none" : `${entry.scalingNeeded} ×${entry.scalingFactor}`,
+          entry.currentPrice,
+          entry.priceTimestamp > 0 ? new Date(entry.priceTimestamp * 1000).toISOString() : "n/a",
+          entry.error ? `error: ${escape(entry.error)}` : entry.isStale ? "stale" : "fresh",
+        ].join(" | "),
+      )
+      .map((row) => `| ${row} |`),
+    "",
+    `${entries.length} feed(s): ${entries.filter((entry) => entry.isStale).length} stale, ` +
+      `${entries.filter((entry) => entry.scalingNeeded !== "none").length} need rescaling.`,
+  ];
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Human readable pair of a feed, e.g. "wstETH/USD" or "intermediary/USD (Secondary)"
+ *
+ * @param source - The feed
+ * @param assetSymbol - Symbol of the priced asset
+ * @returns The pair description
+ */
+function pairDescription(source: FeedSource, assetSymbol: string): string {
+  switch (source.role) {
+    case "primary":
+      return `${assetSymbol}/intermediary (Primary)`;
+    case "secondary":
+      return `intermediary/${source.baseCurrency} (Secondary)`;
+    case "vault":
+      return `${assetSymbol}/underlying (Vault Rate)`;
+    default:
+      return `${assetSymbol}/${source.baseCurrency}`;
+  }
+}
+
+/**
+ * Token symbol through `fetchTokenInfo`, falling back to a shortened address
+ *
+ * @param hre - Hardhat runtime whose provider is queried
+ * @param address - Token address
+ * @returns The symbol
+ */
+async function resolveSymbol(hre: HardhatRuntimeEnvironment, address: string): Promise<string> {
+  try {
+    return (await fetchTokenInfo(hre, address)).symbol;
+  } catch {
+    return `Unknown (${address.slice(0, 8)}...)`;
+  }
+}
+
+/**
+ * Resolve optional views such as `description()` to undefined when they revert
+ *
+ * @param call - Pending call
+ * @returns The result, or undefined
+ */
+async function optional<T>(call: Promise<T>): Promise<T | undefined> {
+  try {
+    return await call;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether a config value is a non-zero address
+ *
+ * @param value - Config value
+ * @returns True for usable addresses
+ */
+function isUsableAddress(value: string | undefined): value is string {
+  return Boolean(value) && value !== ZeroAddress;
+}
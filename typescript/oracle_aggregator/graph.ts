@@ -0,0 +1,468 @@
+import { Interface, isAddress, ZeroAddress } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { buildSymbolLookup } from "../../.shared/lib/oracles/prices/asset-extractors";
+import { Config } from "../../config/types";
+import { POOL_ADDRESSES_PROVIDER_ID } from "../deploy-ids";
+import {
+  isPerAssetKind,
+  isRoutedKind,
+  OracleRouteFields,
+  OracleWrapperKind,
+  readOracleRouteStates,
+  resolveExpectedOracleRoutes,
+} from "./drift";
+
+export type OracleGraphNodeType = "aggregator" | "asset" | "wrapper" | "feed" | "vault" | "contract" | "priceOracle" | "reserve";
+
+/**
+ * A contract, or an asset priced by one aggregator, in the pricing dependency graph
+ */
+export interface OracleGraphNode {
+  /** Lowercased address for contracts, `asset:<key>:<address>` and `reserve:<address>` otherwise */
+  readonly id: string;
+  readonly type: OracleGraphNodeType;
+  readonly label: string;
+  readonly address: string;
+  readonly aggregatorKey?: string;
+  readonly kind?: OracleWrapperKind;
+  readonly notes?: string[];
+}
+
+/**
+ * `from` prices through `to`; the relation is the storage slot or view that links them
+ */
+export interface OracleGraphEdge {
+  readonly from: string;
+  readonly to: string;
+  readonly relation: string;
+}
+
+export interface OracleDependencyGraph {
+  readonly network: string;
+  readonly nodes: OracleGraphNode[];
+  readonly edges: OracleGraphEdge[];
+}
+
+export interface OracleDependencyGraphOptions {
+  /** Aggregator config keys to include (default: all) */
+  readonly aggregators?: string[];
+  readonly multicallAddress?: string;
+  /** Link dLEND reserves to the aggregator assets pricing them (default: true) */
+  readonly includeReserves?: boolean;
+  /** How many converter/composite/proxy layers to follow below a wrapper feed (default: 4) */
+  readonly maxFeedDepth?: number;
+}
+
+/**
+ * Everything that loses its price when one contract stops working
+ */
+export interface OracleGraphImpact {
+  readonly address: string;
+  /** False when the address is not a contract in the graph */
+  readonly found: boolean;
+  readonly assets: OracleGraphNode[];
+  readonly reserves: OracleGraphNode[];
+  /** Node id -> ids from that node down to the queried contract */
+  readonly paths: Record<string, string[]>;
+}
+
+const GRAPH_ABI = [
+  "function sourceFeed() view returns (address)",
+  "function sourceFeed1() view returns (address)",
+  "function sourceFeed2() view returns (address)",
+  "function aggregator() view returns (address)",
+  "function description() view returns (string)",
+  "function getPool() view returns (address)",
+  "function getPriceOracle() view returns (address)",
+  "function getReservesList() view returns (address[])",
+  "function getSourceOfAsset(address asset) view returns (address)",
+];
+
+const graphInterface = new Interface(GRAPH_ABI);
+
+// Upstream feeds of ChainlinkDecimalConverter, ChainlinkCompositeAggregator and Chainlink proxies
+const UPSTREAM_FEED_READS = ["sourceFeed", "sourceFeed1", "sourceFeed2", "aggregator"];
+
+// Wrapper fields that do not point at price feeds
+const FIELD_NODE_TYPES: Record<string, OracleGraphNodeType> = {
+  vault: "vault",
+  asset: "contract",
+  etherRouter: "contract",
+  redemptionQueue: "contract",
+};
+
+const DOT_SHAPES: Record<OracleGraphNodeType, string> = {
+  aggregator: "box3d",
+  asset: "ellipse",
+  wrapper: "box",
+  feed: "parallelogram",
+  vault: "cylinder",
+  contract: "box",
+  priceOracle: "box3d",
+  reserve: "doubleoctagon",
+};
+
+/**
+ * Build the pricing dependency graph of the configured aggregators: asset -> wrapper -> feeds ->
+ * converter, composite and proxy layers, plus the dLEND reserves priced by each asset. Routing and
+ * feeds come from the chain; the config supplies the assets and the wrapper each should use.
+ *
+ * @param hre - Hardhat runtime used for deployments and reads
+ * @param config - Network config
+ * @param options - Aggregator filter, multicall address and traversal limits
+ * @returns The graph
+ */
+export async function buildOracleDependencyGraph(
+  hre: HardhatRuntimeEnvironment,
+  config: Pick<Config, "oracleAggregators" | "tokenAddresses">,
+  options: OracleDependencyGraphOptions = {},
+): Promise<OracleDependencyGraph> {
+  const symbols = buildSymbolLookup(config);
+  const nodes = new Map<string, OracleGraphNode>();
+  const notes = new Map<string, string[]>();
+  const edges = new Map<string, OracleGraphEdge>();
+  const aggregatorKeys = new Map<string, string>();
+
+  const addNode = (node: Omit<OracleGraphNode, "id" | "label"> & { id?: string; label?: string }): string => {
+    const id = node.id ?? node.address.toLowerCase();
+    const existing = nodes.get(id);
+
+    if (!existing) {
+      nodes.set(id, { ...node, id, label: node.label ?? symbols.get(node.address.toLowerCase()) ?? node.address });
+    } else if (node.label && existing.label === existing.address) {
+      nodes.set(id, { ...existing, label: node.label, kind: existing.kind ?? node.kind });
+    }
+    return id;
+  };
+
+  const addEdge = (from: string, to: string, relation: string): void => {
+    edges.set(`${from}|${to}|${relation}`, { from, to, relation });
+  };
+
+  const note = (id: string, message: string): void => {
+    notes.set(id, [...(notes.get(id) ?? []), message]);
+  };
+
+  const addFields = (from: string, fields: OracleRouteFields, asset: string): void => {
+    for (const [field, value] of Object.entries(fields)) {
+      if (typeof value !== "string" || !isUsableAddress(value) || value.toLowerCase() === asset.toLowerCase()) {
+        continue;
+      }
+      addEdge(from, addNode({ type: FIELD_NODE_TYPES[field] ?? "feed", address: value }), field);
+    }
+  };
+
+  for (const key of options.aggregators ?? Object.keys(config.oracleAggregators)) {
+    const aggregatorConfig = config.oracleAggregators[key];
+
+    if (!aggregatorConfig) {
+      throw new Error(`No oracle aggregator "${key}" in ${hre.network.name} config`);
+    }
+
+    const routes = await resolveExpectedOracleRoutes(hre, key, aggregatorConfig);
+    const states = await readOracleRouteStates(hre, routes, options.multicallAddress);
+
+    for (const { route, routedOracle, actual, error } of states) {
+      if (!route.aggregator) {
+        continue;
+      }
+
+      const aggregatorId = addNode({ type: "aggregator", address: route.aggregator, label: route.aggregatorId, aggregatorKey: key });
+      aggregatorKeys.set(aggregatorId, key);
+
+      if (!isRoutedKind(route.kind)) {
+        if (route.wrapper) {
+          const feedId = addNode({ type: "feed", address: route.wrapper, label: route.wrapperId, kind: route.kind });
+          addFields(feedId, actual ?? route.expected, route.asset);
+        }
+        continue;
+      }
+
+      const assetId = addNode({
+        id: assetNodeId(key, route.asset),
+        type: "asset",
+        address: route.asset,
+        aggregatorKey: key,
+        kind: route.kind,
+      });
+      addEdge(assetId, aggregatorId, "aggregator");
+
+      if (!routedOracle || routedOracle === ZeroAddress) {
+        note(assetId, `Not routed on the ${key} aggregator`);
+        continue;
+      }
+
+      const configured = route.wrapper?.toLowerCase() === routedOracle.toLowerCase();
+      const wrapperId = addNode({
+        type: "wrapper",
+        address: routedOracle,
+        label: configured ? route.wrapperId : undefined,
+        kind: configured ? route.kind : undefined,
+      });
+      addEdge(assetId, wrapperId, "assetOracles");
+
+      if (!configured) {
+        note(assetId, `Routed to ${routedOracle}, config expects ${route.wrapperId ?? route.kind} ${route.wrapper ?? "(not deployed)"}`);
+      } else if (error) {
+        note(assetId, error);
+      } else if (actual) {
+        addFields(isPerAssetKind(route.kind) ? assetId : wrapperId, actual, route.asset);
+      }
+    }
+  }
+
+  const feeds = [...nodes.values()].filter((node) => node.type === "feed");
+  await expandFeedLayers(hre, feeds, options.maxFeedDepth ?? 4, { addNode, addEdge, note });
+
+  if (options.includeReserves ?? true) {
+    await addDLendReserves(hre, aggregatorKeys, { addNode, addEdge, note, hasNode: (id) => nodes.has(id) });
+  }
+
+  return {
+    network: hre.network.name,
+    nodes: [...nodes.values()].map((node) => (notes.has(node.id) ? { ...node, notes: notes.get(node.id) } : node)),
+    edges: [...edges.values()],
+  };
+}
+
+/**
+ * List the aggregator assets and dLEND reserves that depend on a contract, e.g. "which assets break if this feed dies?"
+ *
+ * @param graph - Graph from `buildOracleDependencyGraph`
+ * @param address - Feed, wrapper or aggregator address
+ * @returns The affected assets and reserves with the path to the contract
+ */
+export function findOracleDependents(graph: OracleDependencyGraph, address: string): OracleGraphImpact {
+  const start = address.toLowerCase();
+  const nodes = new Map(graph.nodes.map((node) => [node.id, node]));
+  const dependents = new Map<string, string[]>();
+
+  for (const edge of graph.edges) {
+    dependents.set(edge.to, [...(dependents.get(edge.to) ?? []), edge.from]);
+  }
+
+  const paths: Record<string, string[]> = {};
+  const queue = nodes.has(start) ? [start] : [];
+  const visited = new Map<string, string[]>(queue.map((id) => [id, [id]]));
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    const path = visited.get(id)!;
+
+    for (const dependent of dependents.get(id) ?? []) {
+      if (visited.has(dependent)) {
+        continue;
+      }
+      visited.set(dependent, [dependent, ...path]);
+      queue.push(dependent);
+    }
+  }
+
+  const affected = (type: OracleGraphNodeType): OracleGraphNode[] =>
+    [...visited.keys()].filter((id) => nodes.get(id)?.type === type).map((id) => nodes.get(id)!);
+
+  for (const node of [...affected("asset"), ...affected("reserve")]) {
+    paths[node.id] = visited.get(node.id)!;
+  }
+
+  return { address, found: nodes.has(start), assets: affected("asset"), reserves: affected("reserve"), paths };
+}
+
+/**
+ * Render the graph as Graphviz DOT, one cluster per aggregator's assets
+ *
+ * @param graph - Graph from `buildOracleDependencyGraph`
+ * @returns DOT source
+ */
+export function formatOracleGraphDot(graph: OracleDependencyGraph): string {
+  const quote = (value: string): string => `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+  const nodeLine = (node: OracleGraphNode): string => {
+    const label = node.label === node.address ? node.address : `${node.label}\\n${node.address}`;
+    const style = node.notes ? ", color=red" : node.type === "contract" ? ", style=dashed" : "";
+    return `${quote(node.id)} [label="${label.replace(/"/g, '\\"')}", shape=${DOT_SHAPES[node.type]}${style}];`;
+  };
+
+  const clustered = new Map<string, OracleGraphNode[]>();
+  const lines = [`digraph ${quote(`oracle_dependencies_${graph.network}`)} {`, "  rankdir=LR;", '  node [fontname="Helvetica"];'];
+
+  for (const node of graph.nodes) {
+    if (node.type === "asset" && node.aggregatorKey) {
+      clustered.set(node.aggregatorKey, [...(clustered.get(node.aggregatorKey) ?? []), node]);
+    } else {
+      lines.push(`  ${nodeLine(node)}`);
+    }
+  }
+
+  for (const [key, assets] of clustered) {
+    lines.push(`  subgraph ${quote(`cluster_${key}`)} {`, `    label=${quote(`${key} aggregator assets`)};`);
+    assets.forEach((node) => lines.push(`    ${nodeLine(node)}`));
+    lines.push("  }");
+  }
+
+  for (const edge of graph.edges) {
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)} [label=${quote(edge.relation)}];`);
+  }
+
+  lines.push("}");
+  return `${lines.join("\n")}\n`;
+}
+
+interface GraphWriter {
+  addNode: (node: Omit<OracleGraphNode, "id" | "label"> & { id?: string; label?: string }) => string;
+  addEdge: (from: string, to: string, relation: string) => void;
+  note: (id: string, message: string) => void;
+}
+
+/**
+ * Follow decimal converters, composite aggregators and Chainlink proxies below the wrapper feeds,
+ * labelling each feed with its `description()`
+ *
+ * @param hre - Hardhat runtime whose provider is queried
+ * @param feeds - Feed nodes referenced by the wrappers
+ * @param maxDepth - Layers to follow
+ * @param writer - Graph mutators
+ */
+async function expandFeedLayers(
+  hre: HardhatRuntimeEnvironment,
+  feeds: OracleGraphNode[],
+  maxDepth: number,
+  writer: GraphWriter,
+): Promise<void> {
+  const visited = new Set<string>();
+  let layer = feeds.map((node) => node.address);
+
+  for (let depth = 0; depth <= maxDepth && layer.length > 0; depth++) {
+    const next: string[] = [];
+
+    for (const feed of layer) {
+      const id = feed.toLowerCase();
+
+      if (visited.has(id)) {
+        continue;
+      }
+      visited.add(id);
+
+      if ((await hre.ethers.provider.getCode(feed)) === "0x") {
+        writer.note(id, "No contract code");
+        continue;
+      }
+
+      const description = await readView<string>(hre, feed, "description");
+
+      if (description) {
+        writer.addNode({ type: "feed", address: feed, label: description });
+      }
+
+      if (depth === maxDepth) {
+        continue;
+      }
+
+      for (const functionName of UPSTREAM_FEED_READS) {
+        const upstream = await readView<string>(hre, feed, functionName);
+
+        if (upstream && isUsableAddress(upstream)) {
+          writer.addEdge(id, writer.addNode({ type: "feed", address: upstream }), functionName);
+          next.push(upstream);
+        }
+      }
+    }
+    layer = next;
+  }
+}
+
+/**
+ * Link every dLEND reserve to the aggregator asset its AaveOracle source prices it with
+ *
+ * @param hre - Hardhat runtime used for deployments and reads
+ * @param aggregatorKeys - Aggregator node id -> config key
+ * @param writer - Graph mutators
+ */
+async function addDLendReserves(
+  hre: HardhatRuntimeEnvironment,
+  aggregatorKeys: Map<string, string>,
+  writer: GraphWriter & { hasNode: (id: string) => boolean },
+): Promise<void> {
+  const provider = (await hre.deployments.getOrNull(POOL_ADDRESSES_PROVIDER_ID))?.address;
+
+  if (!provider) {
+    return;
+  }
+
+  const [pool, priceOracle] = await Promise.all([
+    readView<string>(hre, provider, "getPool"),
+    readView<string>(hre, provider, "getPriceOracle"),
+  ]);
+  const reserves = pool ? await readView<string[]>(hre, pool, "getReservesList") : undefined;
+
+  if (!priceOracle || !reserves) {
+    return;
+  }
+
+  const oracleId = writer.addNode({ type: "priceOracle", address: priceOracle, label: "AaveOracle" });
+
+  for (const reserve of reserves) {
+    const reserveId = writer.addNode({ id: `reserve:${reserve.toLowerCase()}`, type: "reserve", address: reserve });
+    writer.addEdge(reserveId, oracleId, "getPriceOracle");
+
+    const source = (await readView<string>(hre, priceOracle, "getSourceOfAsset", [reserve]))?.toLowerCase();
+    const key = source ? aggregatorKeys.get(source) : undefined;
+
+    if (source) {
+      writer.addEdge(oracleId, writer.addNode({ type: key ? "aggregator" : "contract", address: source }), "getSourceOfAsset");
+    }
+
+    if (!key) {
+      writer.note(reserveId, `AaveOracle source ${source ?? "unknown"} is not a graphed aggregator`);
+    } else if (writer.hasNode(assetNodeId(key, reserve))) {
+      writer.addEdge(reserveId, assetNodeId(key, reserve), "getAssetPrice");
+    } else {
+      writer.note(reserveId, `Not configured on the ${key} aggregator`);
+    }
+  }
+}
+
+/**
+ * Static call that yields undefined instead of throwing on reverts and missing functions
+ *
+ * @param hre - Hardhat runtime whose provider is queried
+ * @param target - Contract address
+ * @param functionName - View from `GRAPH_ABI`
+ * @param args - Call arguments
+ * @returns The first return value
+ */
+async function readView<T>(
+  hre: HardhatRuntimeEnvironment,
+  target: string,
+  functionName: string,
+  args: unknown[] = [],
+): Promise<T | undefined> {
+  try {
+    const data = await hre.ethers.provider.call({ to: target, data: graphInterface.encodeFunctionData(functionName, args) });
+    return graphInterface.decodeFunctionResult(functionName, data)[0] as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Id of the node for an asset priced by one aggregator
+ *
+ * @param aggregatorKey - Key in `config.oracleAggregators`
+ * @param asset - Asset address
+ * @returns The node id
+ */
+function assetNodeId(aggregatorKey: string, asset: string): string {
+  return `asset:${aggregatorKey}:${asset.toLowerCase()}`;
+}
+
+/**
+ * Whether a value is a non-zero address
+ *
+ * @param value - Candidate address
+ * @returns True for usable addresses
+ */
+function isUsableAddress(value: string): boolean {
+  return isAddress(value) && value !== ZeroAddress;
+}
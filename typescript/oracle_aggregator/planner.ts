@@ -0,0 +1,345 @@
+import { Interface, Signer } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { DEFAULT_MULTICALL3_ADDRESS } from "../../.shared/lib/roles/multicall";
+import { SafeTransactionData } from "../../.shared/lib/safe/types";
+import { OracleAggregatorConfig } from "../../config/types";
+import { GovernanceExecutor } from "../hardhat/governance";
+import {
+  getOracleAggregatorId,
+  isRoutedKind,
+  mismatchedRouteFields,
+  ORACLE_DRIFT_ABI,
+  OracleRouteCall,
+  OracleWrapperKind,
+  readOracleRouteStates,
+  resolveExpectedOracleRoutes,
+  routeStorageCalls,
+} from "./drift";
+import { assertOraclePriceExpectation, createAggregatorPriceChecker } from "./price-expectations";
+
+/**
+ * Wrapper kinds deployed by the planner; the other kinds have dedicated deploy scripts
+ */
+export type PlannedWrapperKind = "api3" | "api3Thresholding" | "api3Composite" | "redstone" | "redstoneThresholding" | "redstoneComposite";
+
+export const PLANNED_WRAPPER_CONTRACTS: Record<PlannedWrapperKind, string> = {
+  api3: "API3WrapperV1_1",
+  api3Thresholding: "API3WrapperWithThresholdingV1_1",
+  api3Composite: "API3CompositeWrapperWithThresholdingV1_1",
+  redstone: "RedstoneChainlinkWrapperV1_1",
+  redstoneThresholding: "RedstoneChainlinkWrapperWithThresholdingV1_1",
+  redstoneComposite: "RedstoneChainlinkCompositeWrapperWithThresholdingV1_1",
+};
+
+export const PLANNED_WRAPPER_KINDS = Object.keys(PLANNED_WRAPPER_CONTRACTS) as PlannedWrapperKind[];
+
+/**
+ * `done`: already on chain, `pending`: to be executed, `blocked`: depends on a deployment the plan cannot make,
+ * or routes an asset whose wrapper configuration is not applied yet
+ */
+export type OraclePlanStatus = "done" | "pending" | "blocked";
+
+/**
+ * One wrapper contract serving every asset of its kind
+ */
+export interface OracleWrapperDeploymentStep {
+  readonly kind: PlannedWrapperKind;
+  readonly deploymentId: string;
+  readonly contract: string;
+  readonly args: [baseCurrency: string, baseCurrencyUnit: bigint];
+  readonly address?: string;
+  readonly status: Exclude<OraclePlanStatus, "blocked">;
+  readonly assets: string[];
+}
+
+/**
+ * One wrapper configuration (`setFeed`, `setProxy`, thresholds, ...) or aggregator `setOracle` call
+ */
+export interface OracleCallStep extends OracleRouteCall {
+  readonly phase: "configure" | "route";
+  readonly aggregatorKey: string;
+  readonly asset: string;
+  readonly kind: OracleWrapperKind;
+  /** Deployment the call targets */
+  readonly targetId?: string;
+  /** Undefined until the target is deployed */
+  readonly target?: string;
+  /** Idempotency description shared with `oracles:drift`, e.g. `setOracle <asset>` */
+  readonly description: string;
+  readonly status: OraclePlanStatus;
+  readonly detail?: string;
+}
+
+/**
+ * Everything needed to bring one aggregator in line with its config. Execute the phases in
+ * order so no asset is ever routed to a wrapper that cannot price it yet.
+ */
+export interface OracleWrapperPlan {
+  readonly aggregatorKey: string;
+  readonly aggregatorId: string;
+  readonly aggregator?: string;
+  readonly deployments: OracleWrapperDeploymentStep[];
+  readonly configuration: OracleCallStep[];
+  readonly routing: OracleCallStep[];
+}
+
+export interface OracleWrapperPlanOptions {
+  /** Restrict the plan to these wrapper kinds (defaults to every kind in the config) */
+  readonly kinds?: readonly OracleWrapperKind[];
+  readonly multicallAddress?: string;
+}
+
+/**
+ * Outcome of executing plan steps through a `GovernanceExecutor`
+ */
+export interface OracleCallStepResults {
+  readonly executed: OracleCallStep[];
+  readonly queued: OracleCallStep[];
+  readonly blocked: OracleCallStep[];
+}
+
+const oracleInterface = new Interface(ORACLE_DRIFT_ABI);
+
+/**
+ * Build the deployment, configuration and routing plan of one aggregator from its config,
+ * with the on-chain status of every step
+ *
+ * @param hre - Hardhat runtime used to resolve deployments and read state
+ * @param aggregatorKey - Key in `config.oracleAggregators`, e.g. "USD"
+ * @param config - The aggregator config
+ * @param options - Kind filter and Multicall3 address
+ * @returns The plan
+ */
+export async function planOracleWrappers(
+  hre: HardhatRuntimeEnvironment,
+  aggregatorKey: string,
+  config: OracleAggregatorConfig,
+  options: OracleWrapperPlanOptions = {},
+): Promise<OracleWrapperPlan> {
+  const routes = (await resolveExpectedOracleRoutes(hre, aggregatorKey, config)).filter(
+    (route) => !options.kinds || options.kinds.includes(route.kind),
+  );
+  const states = await readOracleRouteStates(hre, routes, options.multicallAddress ?? DEFAULT_MULTICALL3_ADDRESS);
+  const baseCurrencyUnit = 10n ** BigInt(config.priceDecimals);
+
+  const deployments = new Map<string, OracleWrapperDeploymentStep>();
+  const configuration: OracleCallStep[] = [];
+  const routing: OracleCallStep[] = [];
+
+  for (const { route, routedOracle, actual, error } of states) {
+    const planned = isPlannedKind(route.kind);
+    const ref = { aggregatorKey, asset: route.asset, kind: route.kind, targetId: route.wrapperId, target: route.wrapper };
+    const missingDetail = route.wrapperId
+      ? `${route.wrapperId} is not deployed${planned ? " yet" : ""}`
+      : `${aggregatorKey} has no wrapper deployment for ${route.kind} assets`;
+
+    if (planned && route.wrapperId) {
+      const existing = deployments.get(route.wrapperId);
+      deployments.set(route.wrapperId, {
+        kind: route.kind as PlannedWrapperKind,
+        deploymentId: route.wrapperId,
+        contract: PLANNED_WRAPPER_CONTRACTS[route.kind as PlannedWrapperKind],
+        args: [config.baseCurrency, baseCurrencyUnit],
+        address: route.wrapper,
+        status: route.wrapper ? "done" : "pending",
+        assets: [...(existing?.assets ?? []), route.asset],
+      });
+    }
+
+    // Every call a fresh wrapper needs; the ones whose fields already match are done
+    const required = routeStorageCalls(route, undefined, Object.keys(route.expected));
+    const mismatched = actual ? mismatchedRouteFields(route, actual) : [];
+    const outstanding = !actual ? required : mismatched.length > 0 ? routeStorageCalls(route, actual, mismatched) : [];
+    const calls = [...outstanding, ...required.filter((call) => !outstanding.some((next) => next.functionName === call.functionName))];
+    const unconfigured: string[] = [];
+
+    for (const call of calls) {
+      const done = !outstanding.includes(call);
+      let status: OraclePlanStatus = done ? "done" : "pending";
+      let detail: string | undefined;
+
+      if (!route.wrapper) {
+        status = planned && route.wrapperId ? "pending" : "blocked";
+        detail = missingDetail;
+      } else if (error) {
+        status = "blocked";
+        detail = `${route.wrapperId}: ${error}`;
+      }
+
+      configuration.push({ ...ref, ...call, phase: "configure", description: `${call.functionName} ${route.asset}`, status, detail });
+
+      if (status !== "done") {
+        unconfigured.push(call.functionName);
+      }
+    }
+
+    if (isRoutedKind(route.kind)) {
+      let status: OraclePlanStatus = "pending";
+      let detail: string | undefined;
+
+      if (!route.aggregator) {
+        status = "blocked";
+        detail = `${route.aggregatorId} is not deployed`;
+      } else if (route.wrapper && routedOracle?.toLowerCase() === route.wrapper.toLowerCase()) {
+        status = "done";
+      } else if (!route.wrapper && !(planned && route.wrapperId)) {
+        status = "blocked";
+        detail = missingDetail;
+      } else if (unconfigured.length > 0) {
+        // Routing before the wrapper can price the asset would serve a wrong or reverting price
+        status = "blocked";
+        detail = `waiting for ${unconfigured.join(", ")} on ${route.wrapperId}`;
+      }
+
+      routing.push({
+        ...ref,
+        phase: "route",
+        functionName: "setOracle",
+        args: [route.asset, route.wrapper],
+        targetId: route.aggregatorId,
+        target: route.aggregator,
+        description: `setOracle ${route.asset}`,
+        status,
+        detail,
+      });
+    }
+  }
+
+  return {
+    aggregatorKey,
+    aggregatorId: getOracleAggregatorId(aggregatorKey),
+    aggregator: routes[0]?.aggregator,
+    deployments: Array.from(deployments.values()),
+    configuration,
+    routing,
+  };
+}
+
+/**
+ * Deploy the wrappers the plan is missing. Re-plan afterwards to resolve the call targets.
+ *
+ * @param hre - Hardhat runtime used for deployments
+ * @param plan - Plan from `planOracleWrappers`
+ * @param deployer - Account paying for the deployments
+ * @returns The deployment ids that were deployed
+ */
+export async function deployPlannedWrappers(hre: HardhatRuntimeEnvironment, plan: OracleWrapperPlan, deployer: string): Promise<string[]> {
+  const deployed: string[] = [];
+
+  for (const step of plan.deployments) {
+    if (step.status === "done") {
+      continue;
+    }
+
+    await hre.deployments.deploy(step.deploymentId, {
+      from: deployer,
+      args: step.args,
+      contract: step.contract,
+      autoMine: true,
+      log: true,
+    });
+    deployed.push(step.deploymentId);
+  }
+  return deployed;
+}
+
+/**
+ * Execute the pending steps directly with the signer, falling back to the executor's Safe or
+ * timelock queue when the signer lacks the role. The caller flushes the executor.
+ *
+ * @param executor - Initialized governance executor
+ * @param signer - Signer used for direct execution
+ * @param steps - Plan steps (done steps are skipped)
+ * @returns The executed, queued and blocked steps
+ */
+export async function executeOracleCallSteps(
+  executor: GovernanceExecutor,
+  signer: Signer,
+  steps: readonly OracleCallStep[],
+): Promise<OracleCallStepResults> {
+  const results = { executed: [] as OracleCallStep[], queued: [] as OracleCallStep[], blocked: [] as OracleCallStep[] };
+
+  for (const step of steps) {
+    if (step.status === "done") {
+      continue;
+    }
+
+    if (step.status === "blocked" || !step.target) {
+      console.warn(`   ⚠️  Skipping ${step.description}: ${step.detail ?? "target not deployed"}`);
+      results.blocked.push(step);
+      continue;
+    }
+
+    const transaction = oracleCallTransaction(step);
+    const complete = await executor.tryOrQueue(
+      async () => {
+        await (await signer.sendTransaction({ to: transaction.to, data: transaction.data })).wait();
+      },
+      () => transaction,
+      step.description,
+    );
+
+    if (complete) {
+      console.log(`   ✅ ${step.description} on ${step.targetId}`);
+      results.executed.push(step);
+    } else {
+      results.queued.push(step);
+    }
+  }
+  return results;
+}
+
+/**
+ * Encode a plan step as a governance transaction
+ *
+ * @param step - Step with a resolved target
+ * @returns The transaction
+ */
+export function oracleCallTransaction(step: OracleCallStep): SafeTransactionData {
+  if (!step.target) {
+    throw new Error(`${step.description}: ${step.targetId ?? "target"} is not deployed`);
+  }
+  return { to: step.target, value: "0", data: oracleInterface.encodeFunctionData(step.functionName, step.args) };
+}
+
+/**
+ * Check the price each planned wrapper reports for its assets against the aggregator's price
+ * expectations. Assets with configuration still queued for governance are skipped.
+ *
+ * @param hre - Hardhat runtime used for contract lookups
+ * @param plan - Plan whose wrappers are deployed
+ * @param config - The aggregator config holding the price expectations
+ * @param pending - Steps that have not been executed yet
+ */
+export async function checkPlannedWrapperPrices(
+  hre: HardhatRuntimeEnvironment,
+  plan: OracleWrapperPlan,
+  config: OracleAggregatorConfig,
+  pending: readonly OracleCallStep[] = [],
+): Promise<void> {
+  const skipped = new Set(pending.filter((step) => step.phase === "configure").map((step) => step.asset.toLowerCase()));
+  const checker = await createAggregatorPriceChecker(hre, plan.aggregatorKey, config);
+
+  for (const step of plan.deployments) {
+    if (!step.address) {
+      continue;
+    }
+
+    const wrapper = await hre.ethers.getContractAt(step.contract, step.address);
+
+    for (const asset of step.assets.filter((candidate) => !skipped.has(candidate.toLowerCase()))) {
+      await assertOraclePriceExpectation(checker, asset, BigInt(await wrapper.getAssetPrice(asset)), `${asset} in ${step.deploymentId}`);
+    }
+  }
+}
+
+/**
+ * Whether the planner deploys wrappers of this kind
+ *
+ * @param kind - The wrapper kind
+ * @returns True for the API3 and Redstone wrappers
+ */
+function isPlannedKind(kind: OracleWrapperKind): kind is PlannedWrapperKind {
+  return (PLANNED_WRAPPER_KINDS as OracleWrapperKind[]).includes(kind);
+}
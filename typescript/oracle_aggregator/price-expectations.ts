@@ -0,0 +1,69 @@
+import { Contract } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import {
+  createPriceExpectationChecker,
+  formatPriceCheck,
+  OraclePriceCheck,
+  OraclePriceExpectationChecker,
+} from "../../.shared/lib/oracles/prices/expectations";
+import { OracleAggregatorConfig } from "../../config/types";
+import { getOracleAggregatorId } from "./drift";
+
+/**
+ * Build the price expectation checker of one aggregator from its config. Reference prices
+ * for `relative` and `vault` expectations are read from the deployed aggregator.
+ *
+ * @param hre - Hardhat runtime used to resolve the aggregator deployment
+ * @param aggregatorKey - Key in `config.oracleAggregators`, e.g. "USD"
+ * @param config - The aggregator config
+ * @returns The checker
+ */
+export async function createAggregatorPriceChecker(
+  hre: HardhatRuntimeEnvironment,
+  aggregatorKey: string,
+  config: OracleAggregatorConfig,
+): Promise<OraclePriceExpectationChecker> {
+  const deployment = await hre.deployments.getOrNull(getOracleAggregatorId(aggregatorKey));
+  const aggregator = deployment
+    ? new Contract(deployment.address, ["function getAssetPrice(address asset) view returns (uint256)"], hre.ethers.provider)
+    : undefined;
+
+  return createPriceExpectationChecker({
+    aggregatorKey,
+    expectations: config.priceExpectations,
+    baseCurrency: config.baseCurrency,
+    baseCurrencyUnit: 10n ** BigInt(config.priceDecimals),
+    readPrice: async (asset) => {
+      if (!aggregator) {
+        throw new Error(`${aggregatorKey} oracle aggregator is not deployed`);
+      }
+      return BigInt(await aggregator.getAssetPrice(asset));
+    },
+  });
+}
+
+/**
+ * Check a price against the asset's expectation, logging the outcome and throwing when it fails
+ *
+ * @param checker - Checker from `createAggregatorPriceChecker`
+ * @param asset - Priced asset
+ * @param price - Price in the aggregator base unit
+ * @param label - Label used in logs and errors
+ * @returns The check
+ */
+export async function assertOraclePriceExpectation(
+  checker: OraclePriceExpectationChecker,
+  asset: string,
+  price: bigint,
+  label: string,
+): Promise<OraclePriceCheck> {
+  const check = await checker.check(asset, price);
+
+  if (check.status === "failed") {
+    throw new Error(`[oracle-sanity] ${label} failed ${check.assertion}: ${check.message}`);
+  }
+
+  console.log(`   🔍 ${formatPriceCheck(check, label)}`);
+  return check;
+}
@@ -0,0 +1,325 @@
+import axios from "axios";
+import { Contract, ContractRunner } from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+
+export const HOSTED_SDK_URL = "https://api-v2.pendle.finance/core/";
+
+/** Fixture the `fixture` provider replays unless `PENDLE_MARKET_FIXTURE` points elsewhere */
+export const DEFAULT_PENDLE_FIXTURE_PATH = path.join(__dirname, "..", "..", "test", "pendle", "fixtures", "pendle-market-data.json");
+
+export type MethodReturnType<Data> = {
+  tx: {
+    data: string;
+    to: string;
+    value: string;
+  };
+  data: Data;
+};
+
+/**
+ * One Pendle market and the tokens it trades, with plain addresses
+ */
+export interface PendleMarketData {
+  readonly chainId: number;
+  readonly name: string;
+  readonly market: string;
+  readonly pt: string;
+  readonly yt: string;
+  readonly sy: string;
+  /** Yield-bearing token wrapped by the SY, e.g. syrupUSDC */
+  readonly underlyingAsset: string;
+  /** Unix time the market matures */
+  readonly expiry: number;
+  /** Whether the hosted API lists the market as active, undefined when unknown */
+  readonly active?: boolean;
+}
+
+export type PendleMarketDataSource = "hosted" | "onchain" | "fixture";
+
+/**
+ * Source of Pendle market metadata and hosted SDK responses (swap calldata, quotes)
+ */
+export interface PendleMarketDataProvider {
+  readonly source: PendleMarketDataSource;
+  getMarkets(chainId: number): Promise<PendleMarketData[]>;
+  callSdk<Data>(path: string, params?: Record<string, unknown>): Promise<MethodReturnType<Data>>;
+}
+
+/**
+ * Saved provider responses, as written by `pendle:refresh-fixtures`
+ */
+export interface PendleMarketDataFixture {
+  /** Markets keyed by chain id */
+  markets: Record<string, PendleMarketData[]>;
+  /** Hosted SDK responses keyed by `pendleSdkRequestKey` */
+  sdk: Record<string, MethodReturnType<unknown>>;
+}
+
+export interface OnChainPendleMarketDataOptions {
+  /** PYFactory used to confirm each market's PT with `isPT` */
+  readonly pyFactory: string;
+  /** Markets to read, e.g. the `market` of every `config.pendle.ptTokens` entry */
+  readonly markets: readonly string[];
+}
+
+/**
+ * Market entry of the hosted `v1/{chainId}/markets/{active|inactive}` response
+ */
+interface HostedPendleMarket {
+  name: string;
+  address: string;
+  expiry: string;
+  pt: string; // Format: "chainId-address"
+  yt: string; // Format: "chainId-address"
+  sy: string; // Format: "chainId-address"
+  underlyingAsset: string; // Format: "chainId-address"
+}
+
+const PY_FACTORY_ABI = ["function isPT(address token) view returns (bool)"];
+
+const PENDLE_MARKET_ABI = [
+  "function readTokens() view returns (address sy, address pt, address yt)",
+  "function expiry() view returns (uint256)",
+];
+
+const PENDLE_SY_ABI = ["function yieldToken() view returns (address)"];
+
+const ERC20_SYMBOL_ABI = ["function symbol() view returns (string)"];
+
+/**
+ * Provider backed by the Pendle hosted API
+ *
+ * @returns The provider
+ */
+export function createHostedPendleMarketData(): PendleMarketDataProvider {
+  return {
+    source: "hosted",
+    async getMarkets(chainId): Promise<PendleMarketData[]> {
+      const [active, inactive] = await Promise.all(
+        ["active", "inactive"].map((status) =>
+          axios.get<{ markets: HostedPendleMarket[] }>(HOSTED_SDK_URL + `v1/${chainId}/markets/${status}`),
+        ),
+      );
+
+      if (!active.data?.markets || !inactive.data?.markets) {
+        throw new Error("Invalid markets response format");
+      }
+
+      return [
+        ...active.data.markets.map((market) => fromHostedMarket(chainId, market, true)),
+        ...inactive.data.markets.map((market) => fromHostedMarket(chainId, market, false)),
+      ];
+    },
+    async callSdk<Data>(sdkPath: string, params: Record<string, unknown> = {}): Promise<MethodReturnType<Data>> {
+      return (await axios.get<MethodReturnType<Data>>(HOSTED_SDK_URL + sdkPath, { params })).data;
+    },
+  };
+}
+
+/**
+ * Provider reading the given markets' storage. Markets whose PT the PYFactory does not
+ * recognize are dropped. SDK calls are not available on chain.
+ *
+ * @param runner - Provider or signer used for the reads
+ * @param options - PYFactory and market addresses
+ * @returns The provider
+ */
+export function createOnChainPendleMarketData(runner: ContractRunner, options: OnChainPendleMarketDataOptions): PendleMarketDataProvider {
+  const pyFactory = new Contract(options.pyFactory, PY_FACTORY_ABI, runner);
+
+  return {
+    source: "onchain",
+    async getMarkets(chainId): Promise<PendleMarketData[]> {
+      const markets: PendleMarketData[] = [];
+
+      for (const address of options.markets) {
+        const market = new Contract(address, PENDLE_MARKET_ABI, runner);
+        const [[sy, pt, yt], expiry] = await Promise.all([market.readTokens(), market.expiry()]);
+
+        if (!(await pyFactory.isPT(pt))) {
+          continue;
+        }
+
+        const [underlyingAsset, name] = await Promise.all([
+          new Contract(sy, PENDLE_SY_ABI, runner).yieldToken(),
+          new Contract(pt, ERC20_SYMBOL_ABI, runner).symbol(),
+        ]);
+        markets.push({ chainId, name, market: address, pt, yt, sy, underlyingAsset, expiry: Number(expiry) });
+      }
+      return markets;
+    },
+    async callSdk(sdkPath): Promise<never> {
+      throw new Error(`Pendle SDK call ${sdkPath} is not available from on-chain market data`);
+    },
+  };
+}
+
+/**
+ * Provider replaying saved responses, without network access
+ *
+ * @param fixture - The fixture, or the path of its JSON file
+ * @returns The provider
+ */
+export function createFixturePendleMarketData(fixture: PendleMarketDataFixture | string): PendleMarketDataProvider {
+  const fixturePath = typeof fixture === "string" ? fixture : undefined;
+  let loaded = typeof fixture === "string" ? undefined : fixture;
+  const read = (): PendleMarketDataFixture => (loaded ??= loadPendleMarketDataFixture(fixturePath!));
+
+  return {
+    source: "fixture",
+    async getMarkets(chainId): Promise<PendleMarketData[]> {
+      const markets = read().markets[String(chainId)];
+
+      if (!markets) {
+        throw new Error(`No recorded Pendle markets for chain ${chainId}${fixturePath ? ` in ${fixturePath}` : ""}`);
+      }
+      return markets;
+    },
+    async callSdk<Data>(sdkPath: string, params: Record<string, unknown> = {}): Promise<MethodReturnType<Data>> {
+      const key = pendleSdkRequestKey(sdkPath, params);
+      const response = read().sdk[key];
+
+      if (!response) {
+        throw new Error(`No recorded Pendle SDK response for ${key}; run pendle:refresh-fixtures`);
+      }
+      return response as MethodReturnType<Data>;
+    },
+  };
+}
+
+/**
+ * Wrap a provider so every response it returns is also written into `fixture`
+ *
+ * @param inner - Provider answering the requests
+ * @param fixture - Fixture collecting the responses
+ * @returns The recording provider
+ */
+export function createRecordingPendleMarketData(
+  inner: PendleMarketDataProvider,
+  fixture: PendleMarketDataFixture,
+): PendleMarketDataProvider {
+  return {
+    source: inner.source,
+    async getMarkets(chainId): Promise<PendleMarketData[]> {
+      const markets = await inner.getMarkets(chainId);
+      fixture.markets[String(chainId)] = markets;
+      return markets;
+    },
+    async callSdk<Data>(sdkPath: string, params: Record<string, unknown> = {}): Promise<MethodReturnType<Data>> {
+      const response = await inner.callSdk<Data>(sdkPath, params);
+      fixture.sdk[pendleSdkRequestKey(sdkPath, params)] = response;
+      return response;
+    },
+  };
+}
+
+/**
+ * Provider selected by the `PENDLE_MARKET_DATA` environment variable: `hosted` (default) or
+ * `fixture`, which replays `PENDLE_MARKET_FIXTURE` (default: the repository fixture). On-chain
+ * providers need market addresses and are built with `createOnChainPendleMarketData`.
+ *
+ * @returns The provider
+ */
+export function getDefaultPendleMarketData(): PendleMarketDataProvider {
+  const source = process.env.PENDLE_MARKET_DATA ?? "hosted";
+
+  if (source === "fixture") {
+    return createFixturePendleMarketData(process.env.PENDLE_MARKET_FIXTURE ?? DEFAULT_PENDLE_FIXTURE_PATH);
+  }
+
+  if (source !== "hosted") {
+    throw new Error(`Unsupported PENDLE_MARKET_DATA ${source}; use hosted or fixture`);
+  }
+  return createHostedPendleMarketData();
+}
+
+/**
+ * Find the market trading a PT
+ *
+ * @param provider - Market data provider
+ * @param chainId - Chain ID
+ * @param pt - PT token address
+ * @returns The market, undefined when the provider does not know the PT
+ */
+export async function findPendleMarketByPt(
+  provider: PendleMarketDataProvider,
+  chainId: number,
+  pt: string,
+): Promise<PendleMarketData | undefined> {
+  return (await provider.getMarkets(chainId)).find((market) => market.pt.toLowerCase() === pt.toLowerCase());
+}
+
+/**
+ * Identify an SDK request independently of parameter order
+ *
+ * @param sdkPath - API path, e.g. "v2/sdk/1/markets/0x.../swap"
+ * @param params - Query parameters
+ * @returns The fixture key
+ */
+export function pendleSdkRequestKey(sdkPath: string, params: Record<string, unknown> = {}): string {
+  const query = Object.keys(params)
+    .sort()
+    .map((key) => `${key}=${encodeURIComponent(String(params[key]))}`)
+    .join("&");
+  return query ? `${sdkPath}?${query}` : sdkPath;
+}
+
+/**
+ * Parse a fixture file
+ *
+ * @param fixturePath - JSON file path
+ * @returns The fixture
+ */
+export function loadPendleMarketDataFixture(fixturePath: string): PendleMarketDataFixture {
+  if (!fs.existsSync(fixturePath)) {
+    throw new Error(`Pendle market data fixture ${fixturePath} does not exist; run pendle:refresh-fixtures`);
+  }
+
+  const fixture = JSON.parse(fs.readFileSync(fixturePath, "utf8")) as Partial<PendleMarketDataFixture>;
+  return { markets: fixture.markets ?? {}, sdk: fixture.sdk ?? {} };
+}
+
+/**
+ * Write a fixture file, creating its directory
+ *
+ * @param fixturePath - JSON file path
+ * @param fixture - The fixture
+ */
+export function savePendleMarketDataFixture(fixturePath: string, fixture: PendleMarketDataFixture): void {
+  fs.mkdirSync(path.dirname(fixturePath), { recursive: true });
+  fs.writeFileSync(fixturePath, `${JSON.stringify(fixture, null, 2)}\n`);
+}
+
+/**
+ * Normalize a hosted API market entry
+ *
+ * @param chainId - Chain ID the market was listed for
+ * @param market - Hosted API entry
+ * @param active - Whether it came from the active list
+ * @returns The market data
+ */
+function fromHostedMarket(chainId: number, market: HostedPendleMarket, active: boolean): PendleMarketData {
+  return {
+    chainId,
+    name: market.name,
+    market: market.address,
+    pt: extractAddressFromChainId(market.pt),
+    yt: extractAddressFromChainId(market.yt),
+    sy: extractAddressFromChainId(market.sy),
+    underlyingAsset: extractAddressFromChainId(market.underlyingAsset),
+    expiry: Math.floor(new Date(market.expiry).getTime() / 1000),
+    active,
+  };
+}
+
+/**
+ * Helper function to extract address from "chainId-address" format
+ *
+ * @param addressWithChainId - Address in format "146-0x123..."
+ * @returns Just the address part "0x123..."
+ */
+function extractAddressFromChainId(addressWithChainId: string): string {
+  const parts = addressWithChainId.split("-");
+  return parts.length > 1 ? parts[1] : addressWithChainId;
+}
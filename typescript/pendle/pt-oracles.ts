@@ -0,0 +1,383 @@
+import { Contract, Interface, Signer, ZeroAddress } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { OracleAggregatorConfig, PendleConfig, PTTokenConfig } from "../../config/types";
+import { PENDLE_CHAINLINK_ORACLE_FACTORY_ID, POOL_DATA_PROVIDER_ID } from "../deploy-ids";
+
+/** `PendleOracleType` enum values accepted by `PendleChainlinkOracleFactory.createOracle` */
+export const PENDLE_ORACLE_TYPES: Record<PTTokenConfig["oracleType"], number> = {
+  PT_TO_SY: 0,
+  PT_TO_ASSET: 1,
+};
+
+export const DEFAULT_PT_EXPIRY_WARNING_DAYS = 14;
+
+/** Aggregator a PT is priced on when its config does not name one */
+export const DEFAULT_PT_AGGREGATOR = "USD";
+
+/**
+ * `nearExpiry`: the market expires within the warning window, `expired`: the market has matured
+ */
+export type PtExpiryStatus = "active" | "nearExpiry" | "expired";
+
+/**
+ * TWAP readiness of one market, as reported by the Pendle PT/YT/LP oracle `getOracleState`
+ */
+export interface PendleOracleState {
+  readonly increaseCardinalityRequired: boolean;
+  readonly cardinalityRequired: number;
+  readonly oldestObservationSatisfied: boolean;
+}
+
+/**
+ * On-chain state of one configured PT and the oracles deployed for it
+ */
+export interface PtOracleStatus {
+  readonly pt: PTTokenConfig;
+  readonly aggregatorKey: string;
+  readonly oracleId: string;
+  readonly converterId: string;
+  /** Undefined until the factory oracle is created */
+  readonly oracle?: string;
+  /** Undefined until the decimal converter is deployed */
+  readonly converter?: string;
+  readonly expiry: number;
+  readonly secondsToExpiry: number;
+  readonly expiryStatus: PtExpiryStatus;
+  readonly oracleState: PendleOracleState;
+  /** Cardinality is sufficient and the oldest observation covers the TWAP window */
+  readonly twapReady: boolean;
+  /** dLEND reserve freeze flag, undefined when the PT is not an active reserve */
+  readonly reserveFrozen?: boolean;
+}
+
+export interface PtOracleStatusOptions {
+  /** Unix time expiry is measured against (default: latest block timestamp) */
+  readonly now?: number;
+}
+
+const PENDLE_MARKET_ABI = [
+  "function expiry() view returns (uint256)",
+  "function increaseObservationsCardinalityNext(uint16 cardinalityNext)",
+];
+
+const PENDLE_PY_LP_ORACLE_ABI = [
+  "function getOracleState(address market, uint32 duration) view returns (bool increaseCardinalityRequired, uint16 cardinalityRequired, bool oldestObservationSatisfied)",
+];
+
+const PENDLE_CHAINLINK_ORACLE_FACTORY_ABI = [
+  "function createOracle(address market, uint32 twapDuration, uint8 baseOracleType) returns (address oracle)",
+];
+
+const PENDLE_CHAINLINK_ORACLE_ABI = [
+  "function decimals() view returns (uint8)",
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+];
+
+const POOL_DATA_PROVIDER_ABI = [
+  "function getReserveConfigurationData(address asset) view returns (uint256 decimals, uint256 ltv, uint256 liquidationThreshold, uint256 liquidationBonus, uint256 reserveFactor, bool usageAsCollateralEnabled, bool borrowingEnabled, bool stableBorrowRateEnabled, bool isActive, bool isFrozen)",
+];
+
+/**
+ * Deployment name of the factory-created Chainlink oracle of a PT
+ *
+ * @param name - `PTTokenConfig.name`, e.g. "PT-aUSDC-14AUG2025"
+ * @returns The hardhat-deploy deployment name, e.g. "PendleChainlinkOracle_PT_aUSDC_14AUG2025"
+ */
+export function pendlePtOracleDeploymentId(name: string): string {
+  return `PendleChainlinkOracle_${deploymentSuffix(name)}`;
+}
+
+/**
+ * Deployment name of the ChainlinkDecimalConverter scaling a PT oracle to the aggregator decimals
+ *
+ * @param name - `PTTokenConfig.name`, e.g. "PT-aUSDC-14AUG2025"
+ * @returns The hardhat-deploy deployment name, e.g. "ChainlinkDecimalConverter_PT_aUSDC_14AUG2025"
+ */
+export function pendlePtDecimalConverterDeploymentId(name: string): string {
+  return `ChainlinkDecimalConverter_${deploymentSuffix(name)}`;
+}
+
+/**
+ * Read the expiry, TWAP readiness, oracle deployments and reserve freeze flag of every configured PT
+ *
+ * @param hre - Hardhat runtime used to resolve deployments and read state
+ * @param pendle - The Pendle config
+ * @param options - Reference time
+ * @returns One status per configured PT, in config order
+ */
+export async function readPtOracleStatuses(
+  hre: HardhatRuntimeEnvironment,
+  pendle: PendleConfig,
+  options: PtOracleStatusOptions = {},
+): Promise<PtOracleStatus[]> {
+  const provider = hre.ethers.provider;
+  const now = options.now ?? (await provider.getBlock("latest"))?.timestamp ?? Math.floor(Date.now() / 1000);
+  const warningSeconds = (pendle.expiryWarningDays ?? DEFAULT_PT_EXPIRY_WARNING_DAYS) * 86400;
+  const pyLpOracle = new Contract(pendle.ptYtLpOracleAddress, PENDLE_PY_LP_ORACLE_ABI, provider);
+  const dataProvider = (await hre.deployments.getOrNull(POOL_DATA_PROVIDER_ID))?.address;
+  const statuses: PtOracleStatus[] = [];
+
+  for (const pt of pendle.ptTokens) {
+    const oracleId = pendlePtOracleDeploymentId(pt.name);
+    const converterId = pendlePtDecimalConverterDeploymentId(pt.name);
+    const market = new Contract(pt.market, PENDLE_MARKET_ABI, provider);
+    const [expiry, state] = await Promise.all([market.expiry(), pyLpOracle.getOracleState(pt.market, pt.twapDuration)]);
+    const secondsToExpiry = Number(expiry) - now;
+    const oracleState: PendleOracleState = {
+      increaseCardinalityRequired: Boolean(state[0]),
+      cardinalityRequired: Number(state[1]),
+      oldestObservationSatisfied: Boolean(state[2]),
+    };
+
+    statuses.push({
+      pt,
+      aggregatorKey: pt.aggregator ?? DEFAULT_PT_AGGREGATOR,
+      oracleId,
+      converterId,
+      oracle: (await hre.deployments.getOrNull(oracleId))?.address,
+      converter: (await hre.deployments.getOrNull(converterId))?.address,
+      expiry: Number(expiry),
+      secondsToExpiry,
+      expiryStatus: secondsToExpiry <= 0 ? "expired" : secondsToExpiry <= warningSeconds ? "nearExpiry" : "active",
+      oracleState,
+      twapReady: !oracleState.increaseCardinalityRequired && oracleState.oldestObservationSatisfied,
+      reserveFrozen: dataProvider ? await readReserveFrozen(hre, dataProvider, pt.ptToken) : undefined,
+    });
+  }
+
+  return statuses;
+}
+
+/**
+ * Describe why a PT needs attention before its market matures
+ *
+ * @param status - Status from `readPtOracleStatuses`
+ * @returns The warning, or undefined when the market is not near expiry or its reserve is already frozen
+ */
+export function ptExpiryWarning(status: PtOracleStatus): string | undefined {
+  if (status.expiryStatus === "active" || status.reserveFrozen === true) {
+    return undefined;
+  }
+
+  const expiry = new Date(status.expiry * 1000).toISOString();
+  const reserve = status.reserveFrozen === false ? "; freeze its dLEND reserve" : "";
+
+  if (status.expiryStatus === "expired") {
+    return `${status.pt.name} market expired at ${expiry}${reserve}`;
+  }
+  return `${status.pt.name} market expires at ${expiry} (in ${(status.secondsToExpiry / 86400).toFixed(1)} days)${reserve}`;
+}
+
+/**
+ * Describe why the factory cannot create a TWAP oracle for a PT yet
+ *
+ * @param status - Status from `readPtOracleStatuses`
+ * @returns The reason, or undefined when the TWAP is ready
+ */
+export function ptTwapReadinessIssue(status: PtOracleStatus): string | undefined {
+  const { increaseCardinalityRequired, cardinalityRequired, oldestObservationSatisfied } = status.oracleState;
+
+  if (increaseCardinalityRequired) {
+    return `${status.pt.name}: market observation cardinality must be increased to ${cardinalityRequired}`;
+  }
+
+  if (!oldestObservationSatisfied) {
+    return `${status.pt.name}: oldest observation does not cover the ${status.pt.twapDuration}s TWAP window yet`;
+  }
+  return undefined;
+}
+
+/**
+ * Grow the observation buffer of every market whose TWAP needs more cardinality. The call is
+ * permissionless; the TWAP becomes ready once the buffer has filled for `twapDuration` seconds.
+ *
+ * @param statuses - Statuses from `readPtOracleStatuses`
+ * @param signer - Account paying for the transactions
+ * @returns The PTs whose market cardinality was increased
+ */
+export async function increasePtMarketCardinality(statuses: readonly PtOracleStatus[], signer: Signer): Promise<PTTokenConfig[]> {
+  const increased: PTTokenConfig[] = [];
+
+  for (const status of statuses) {
+    if (!status.oracleState.increaseCardinalityRequired || status.expiryStatus === "expired") {
+      continue;
+    }
+
+    const market = new Contract(status.pt.market, PENDLE_MARKET_ABI, signer);
+    await (await market.increaseObservationsCardinalityNext(status.oracleState.cardinalityRequired)).wait();
+    increased.push(status.pt);
+  }
+  return increased;
+}
+
+/**
+ * Deploy the PendleChainlinkOracleFactory if needed, then create the TWAP oracle and decimal
+ * converter of every PT whose TWAP is ready. Expired markets are skipped. Re-read the statuses
+ * afterwards to resolve the new addresses.
+ *
+ * @param hre - Hardhat runtime used for deployments
+ * @param pendle - The Pendle config
+ * @param statuses - Statuses from `readPtOracleStatuses`
+ * @param oracleAggregators - Aggregator configs, for the decimals each converter targets
+ * @param deployer - Account paying for the deployments
+ * @returns The deployment ids that were created
+ */
+export async function deployPtOracles(
+  hre: HardhatRuntimeEnvironment,
+  pendle: PendleConfig,
+  statuses: readonly PtOracleStatus[],
+  oracleAggregators: { [key: string]: OracleAggregatorConfig },
+  deployer: string,
+): Promise<string[]> {
+  const pending = statuses.filter((status) => status.expiryStatus !== "expired" && status.twapReady && !status.converter);
+  const deployed: string[] = [];
+
+  if (pending.length === 0) {
+    return deployed;
+  }
+
+  // Fail before deploying anything for a PT the aggregator could not price
+  pending.forEach((status) => ptAssetFeed(status.pt));
+
+  const signer = await hre.ethers.getSigner(deployer);
+  const factoryDeployment =
+    (await hre.deployments.getOrNull(PENDLE_CHAINLINK_ORACLE_FACTORY_ID)) ??
+    (await hre.deployments.deploy(PENDLE_CHAINLINK_ORACLE_FACTORY_ID, {
+      from: deployer,
+      args: [pendle.ptYtLpOracleAddress],
+      contract: "PendleChainlinkOracleFactory",
+      autoMine: true,
+      log: true,
+    }));
+  const factory = new Contract(factoryDeployment.address, PENDLE_CHAINLINK_ORACLE_FACTORY_ABI, signer);
+
+  for (const status of pending) {
+    const aggregatorConfig = oracleAggregators[status.aggregatorKey];
+
+    if (!aggregatorConfig) {
+      throw new Error(`${status.pt.name}: no oracle aggregator "${status.aggregatorKey}" in ${hre.network.name} config`);
+    }
+
+    let oracle = status.oracle;
+
+    if (!oracle) {
+      const args = [status.pt.market, status.pt.twapDuration, PENDLE_ORACLE_TYPES[status.pt.oracleType]];
+      oracle = (await factory.createOracle.staticCall(...args)) as string;
+      await (await factory.createOracle(...args)).wait();
+      await hre.deployments.save(status.oracleId, {
+        address: oracle,
+        abi: JSON.parse(new Interface(PENDLE_CHAINLINK_ORACLE_ABI).formatJson()),
+      });
+      console.log(`   ✅ Created ${status.oracleId} at ${oracle}`);
+      deployed.push(status.oracleId);
+    }
+
+    await hre.deployments.deploy(status.converterId, {
+      from: deployer,
+      args: [oracle, aggregatorConfig.priceDecimals],
+      contract: "ChainlinkDecimalConverter",
+      autoMine: true,
+      log: true,
+    });
+    deployed.push(status.converterId);
+  }
+
+  return deployed;
+}
+
+/**
+ * Add the deployed PT converters of one aggregator to its config, so the oracle wrapper planner
+ * configures and routes them like any other feed: through the composite Redstone wrapper when
+ * the PT has an `assetFeed`, and through the plain Redstone wrapper when its asset is the base
+ * currency. Throws for a PT with neither, which the raw PT rate would misprice.
+ *
+ * @param aggregatorKey - Key in `config.oracleAggregators`, e.g. "USD"
+ * @param config - The aggregator config
+ * @param statuses - Statuses from `readPtOracleStatuses`
+ * @returns The config with one feed entry per PT whose converter is deployed
+ */
+export function withPendlePtFeeds(
+  aggregatorKey: string,
+  config: OracleAggregatorConfig,
+  statuses: readonly PtOracleStatus[],
+): OracleAggregatorConfig {
+  const plain = { ...config.redstoneOracleAssets.plainRedstoneOracleWrappers };
+  const composite = { ...config.redstoneOracleAssets.compositeRedstoneOracleWrappersWithThresholding };
+
+  for (const status of statuses) {
+    if (status.aggregatorKey !== aggregatorKey || !status.converter) {
+      continue;
+    }
+
+    const assetFeed = ptAssetFeed(status.pt);
+
+    if (assetFeed) {
+      composite[status.pt.name] = {
+        feedAsset: status.pt.ptToken,
+        feed1: status.converter,
+        feed2: assetFeed,
+        lowerThresholdInBase1: 0n,
+        fixedPriceInBase1: 0n,
+        lowerThresholdInBase2: 0n,
+        fixedPriceInBase2: 0n,
+      };
+    } else {
+      plain[status.pt.ptToken] = status.converter;
+    }
+  }
+
+  return {
+    ...config,
+    redstoneOracleAssets: {
+      ...config.redstoneOracleAssets,
+      plainRedstoneOracleWrappers: plain,
+      compositeRedstoneOracleWrappersWithThresholding: composite,
+    },
+  };
+}
+
+/**
+ * Resolve the feed that converts a PT's asset (or SY) into the aggregator base currency
+ *
+ * @param pt - The PT config
+ * @returns The asset feed, undefined when the asset is the base currency itself
+ */
+function ptAssetFeed(pt: PTTokenConfig): string | undefined {
+  if (pt.assetFeed && pt.assetFeed !== ZeroAddress) {
+    return pt.assetFeed;
+  }
+
+  if (!pt.assetIsBaseCurrency) {
+    throw new Error(`${pt.name}: no assetFeed configured; set assetIsBaseCurrency if the PT's asset is the aggregator base currency`);
+  }
+
+  return undefined;
+}
+
+/**
+ * Read whether an asset's dLEND reserve is frozen
+ *
+ * @param hre - Hardhat runtime whose provider is queried
+ * @param dataProvider - PoolDataProvider address
+ * @param asset - The reserve asset
+ * @returns The freeze flag, undefined when the asset is not an active reserve
+ */
+async function readReserveFrozen(hre: HardhatRuntimeEnvironment, dataProvider: string, asset: string): Promise<boolean | undefined> {
+  try {
+    const data = await new Contract(dataProvider, POOL_DATA_PROVIDER_ABI, hre.ethers.provider).getReserveConfigurationData(asset);
+    return data.isActive ? Boolean(data.isFrozen) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Turn a PT name into a deployment name suffix
+ *
+ * @param name - e.g. "PT-aUSDC-14AUG2025"
+ * @returns e.g. "PT_aUSDC_14AUG2025"
+ */
+function deploymentSuffix(name: string): string {
+  return name.replace(/[^A-Za-z0-9]+/g, "_");
+}
@@ -1,6 +1,12 @@
 import axios, { AxiosResponse } from "axios";
 
-const HOSTED_SDK_URL = "https://api-v2.pendle.finance/core/";
+import {
+  findPendleMarketByPt,
+  getDefaultPendleMarketData,
+  HOSTED_SDK_URL,
+  MethodReturnType,
+  PendleMarketDataProvider,
+} from "./market-data";
 
 // Pendle PYFactory ABI for isPT function
 const PY_FACTORY_ABI = [
@@ -13,15 +19,6 @@ const PY_FACTORY_ABI = [
   },
 ];
 
-type MethodReturnType<Data> = {
-  tx: {
-    data: string;
-    to: string;
-    value: string;
-  };
-  data: Data;
-};
-
 export type SwapData = { amountOut: string; priceImpact: number };
 export type AddLiquidityData = {
   amountLpOut: string;
@@ -54,30 +51,6 @@ export interface PTMarketInfo {
   underlyingAsset: string; // Underlying asset address
 }
 
-/**
- * Interface for Pendle API market data
- */
-interface PendleMarket {
-  name: string;
-  address: string;
-  expiry: string;
-  pt: string; // Format: "chainId-address"
-  yt: string; // Format: "chainId-address"
-  sy: string; // Format: "chainId-address"
-  underlyingAsset: string; // Format: "chainId-address"
-  details: any;
-  isNew: boolean;
-  isPrime: boolean;
-  timestamp: string;
-}
-
-/**
- * Interface for Pendle markets API response
- */
-interface PendleMarketsResponse {
-  markets: PendleMarket[];
-}
-
 export interface LimitOrderResponse {
   /** Hash of the order */
   id: string;
@@ -111,17 +84,6 @@ export interface LimitOrderResponse {
   permit: string;
 }
 
-/**
- * Helper function to extract address from "chainId-address" format
- *
- * @param addressWithChainId - Address in format "146-0x123..."
- * @returns Just the address part "0x123..."
- */
-function extractAddressFromChainId(addressWithChainId: string): string {
-  const parts = addressWithChainId.split("-");
-  return parts.length > 1 ? parts[1] : addressWithChainId;
-}
-
 /**
  * Calls the Pendle hosted SDK API with the specified path and parameters
  *
@@ -147,6 +109,7 @@ export async function callSDK<Data>(path: string, params: Record<string, any> =
  * @param market The market address
  * @param chainId The chain ID
  * @param slippage The slippage tolerance for the swap
+ * @param provider Market data provider answering the request (default: `PENDLE_MARKET_DATA` selection)
  * @returns The SDK response containing transaction data and result data
  */
 export async function estimateSwapExactIn(
@@ -157,8 +120,9 @@ export async function estimateSwapExactIn(
   market: string,
   chainId: number,
   slippage: number = 0.01,
-): Promise<AxiosResponse<MethodReturnType<RedeemPyData>>> {
-  return await callSDK<RedeemPyData>(`v2/sdk/${chainId}/markets/${market}/swap`, {
+  provider: PendleMarketDataProvider = getDefaultPendleMarketData(),
+): Promise<{ data: MethodReturnType<RedeemPyData> }> {
+  const data = await provider.callSdk<RedeemPyData>(`v2/sdk/${chainId}/markets/${market}/swap`, {
     receiver: receiver,
     slippage: slippage,
     tokenIn: tokenIn,
@@ -166,69 +130,47 @@ export async function estimateSwapExactIn(
     tokenOut: tokenOut,
     enableAggregator: true,
   });
+  return { data };
 }
 
 /**
  * Get the market address and underlying asset address from a PT token
- * Uses Pendle API to find the corresponding market and underlying asset
+ * Looks the PT up in the markets of the given market data provider
  *
  * @param ptTokenAddress - PT token address
  * @param chainId - Chain ID
+ * @param provider - Market data provider (default: `PENDLE_MARKET_DATA` selection, the hosted API unless set)
  * @returns Object containing market address and underlying asset address
  */
-export async function getPTMarketInfo(ptTokenAddress: string, chainId: number): Promise<PTMarketInfo> {
+export async function getPTMarketInfo(
+  ptTokenAddress: string,
+  chainId: number,
+  provider: PendleMarketDataProvider = getDefaultPendleMarketData(),
+): Promise<PTMarketInfo> {
   try {
-    // Call markets API for both active and inactive markets
-    const [activeResponse, inactiveResponse] = await Promise.all([
-      axios.get<PendleMarketsResponse>(HOSTED_SDK_URL + `v1/${chainId}/markets/active`),
-      axios.get<PendleMarketsResponse>(HOSTED_SDK_URL + `v1/${chainId}/markets/inactive`),
-    ]);
-
-    const activeMarketsData = activeResponse.data;
-    const inactiveMarketsData = inactiveResponse.data;
-
-    if (!activeMarketsData?.markets || !inactiveMarketsData?.markets) {
-      throw new Error("Invalid markets response format");
-    }
-
-    // Compose two lists - active and inactive markets
-    const activeMarkets = activeMarketsData.markets;
-    const inactiveMarkets = inactiveMarketsData.markets;
-    const allMarkets = [...activeMarkets, ...inactiveMarkets];
-    // Find market where PT matches our token in both active and inactive markets
-    const market = allMarkets.find((m: PendleMarket) => {
-      const ptAddress = extractAddressFromChainId(m.pt);
-      return ptAddress.toLowerCase() === ptTokenAddress.toLowerCase();
-    });
+    const market = await findPendleMarketByPt(provider, chainId, ptTokenAddress);
 
     if (!market) {
       throw new Error(`Market not found for PT token: ${ptTokenAddress}`);
     }
 
-    if (!market.address || !market.underlyingAsset) {
+    if (!market.market || !market.underlyingAsset) {
       throw new Error(`Invalid market data for PT token: ${ptTokenAddress}`);
     }
 
-    const marketAddress = market.address;
-    const underlyingAsset = extractAddressFromChainId(market.underlyingAsset);
-
-    // Determine if market is active or inactive
-    const isActiveMarket = activeMarkets.some((m: PendleMarket) => m.address === market.address);
-    const marketStatus = isActiveMarket ? "active" : "inactive";
-
-    console.log(`Found PT market info via API:`, {
+    console.log(`Found PT market info via ${provider.source} market data:`, {
       ptToken: ptTokenAddress,
-      marketAddress,
-      underlyingAsset,
-      status: marketStatus,
+      marketAddress: market.market,
+      underlyingAsset: market.underlyingAsset,
+      status: market.active === undefined ? "unknown" : market.active ? "active" : "inactive",
     });
 
     return {
-      marketAddress,
-      underlyingAsset,
+      marketAddress: market.market,
+      underlyingAsset: market.underlyingAsset,
     };
   } catch (error) {
-    console.error("Failed to get PT market info from API:", error);
+    console.error(`Failed to get PT market info from ${provider.source} market data:`, error);
     throw new Error(`Could not determine market info for PT token: ${ptTokenAddress}`);
   }
 }